@@ -0,0 +1,98 @@
+import React from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { format } from 'date-fns';
+import { Card, CardContent } from '@/components/ui/card';
+import { authApi } from '@/lib/api';
+import { useAuth } from '../contexts/AuthContext';
+import { AchievementSummary } from '../types';
+
+interface AchievementsCardProps {
+  userId: string;
+}
+
+const fetchAchievements = async (userId: string, ownToken: string | null): Promise<AchievementSummary> => {
+  const response = ownToken
+    ? await authApi.getMyAchievements(ownToken)
+    : await authApi.getUserAchievements(userId);
+  if (response.error) {
+    throw new Error(response.error);
+  }
+  return response.data;
+};
+
+// Streaks and badges on a profile. Upcoming badges are only shown on your own profile.
+const AchievementsCard: React.FC<AchievementsCardProps> = ({ userId }) => {
+  const { user: currentUser, token } = useAuth();
+  const isOwnProfile = !!token && currentUser?.id === userId;
+
+  const { data: summary, isLoading, error } = useQuery<AchievementSummary, Error>({
+    queryKey: ['achievements', userId, isOwnProfile],
+    queryFn: () => fetchAchievements(userId, isOwnProfile ? token : null),
+  });
+
+  if (isLoading) return <p className="text-sm text-muted-foreground">Loading achievements...</p>;
+  if (error || !summary) return null;
+
+  return (
+    <Card className="bg-card border-border">
+      <CardContent className="p-4 space-y-4">
+        <div className="flex gap-6">
+          <div>
+            <div className="text-2xl font-bold text-primary">🔥 {summary.streak}</div>
+            <div className="text-xs text-muted-foreground">Current streak</div>
+          </div>
+          <div>
+            <div className="text-2xl font-bold text-foreground">{summary.longestStreak}</div>
+            <div className="text-xs text-muted-foreground">Longest streak</div>
+          </div>
+        </div>
+
+        <div>
+          <h3 className="text-sm font-semibold text-foreground mb-2">Badges</h3>
+          {summary.earned.length === 0 && (
+            <p className="text-xs text-muted-foreground">No badges earned yet.</p>
+          )}
+          <div className="grid grid-cols-2 sm:grid-cols-4 gap-2">
+            {summary.earned.map(achievement => (
+              <div key={achievement.id} className="flex flex-col items-center text-center p-2 rounded-lg border border-primary/30 bg-accent/30">
+                <span className="text-2xl">{achievement.icon}</span>
+                <span className="text-xs font-medium text-foreground">{achievement.name}</span>
+                {achievement.earnedAt && (
+                  <span className="text-[10px] text-muted-foreground">{format(new Date(achievement.earnedAt), 'd MMM yyyy')}</span>
+                )}
+              </div>
+            ))}
+          </div>
+        </div>
+
+        {summary.upcoming.length > 0 && (
+          <div>
+            <h3 className="text-sm font-semibold text-foreground mb-2">Up next</h3>
+            <div className="space-y-2">
+              {summary.upcoming.map(achievement => (
+                <div key={achievement.id} className="flex items-center gap-3">
+                  <span className="text-xl grayscale opacity-60">{achievement.icon}</span>
+                  <div className="flex-1 min-w-0">
+                    <div className="flex justify-between text-xs">
+                      <span className="font-medium text-foreground">{achievement.name}</span>
+                      <span className="text-muted-foreground">{achievement.progress ?? 0}/{achievement.goal}</span>
+                    </div>
+                    <div className="h-1.5 mt-1 rounded-full bg-muted overflow-hidden">
+                      <div
+                        className="h-full bg-primary"
+                        style={{ width: `${((achievement.progress ?? 0) / achievement.goal) * 100}%` }}
+                      />
+                    </div>
+                    <p className="text-[11px] text-muted-foreground">{achievement.description}</p>
+                  </div>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default AchievementsCard;
@@ -0,0 +1,182 @@
+import React, { useMemo, useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import {
+  addMonths,
+  addYears,
+  eachDayOfInterval,
+  endOfMonth,
+  endOfYear,
+  format,
+  getDay,
+  startOfMonth,
+  startOfYear,
+} from 'date-fns';
+import { ChevronLeft, ChevronRight } from 'lucide-react';
+import { Card, CardContent } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { dayApi } from '@/lib/api';
+import { useAuth } from '../contexts/AuthContext';
+import { ActivityCalendar, CalendarDay } from '../types';
+
+type HeatmapView = 'month' | 'year';
+
+const STATUS_LABELS: Record<number, string> = {
+  1: 'Contains Gluten',
+  2: 'Likely Contains Gluten',
+  3: 'Unknown',
+  4: 'Likely Gluten-Free',
+  5: 'Gluten-Free',
+};
+
+const WEEKDAYS = ['S', 'M', 'T', 'W', 'T', 'F', 'S'];
+
+const fetchCalendar = async (token: string, from: string, to: string): Promise<ActivityCalendar> => {
+  const response = await dayApi.getCalendar(token, from, to);
+  if (response.error) {
+    throw new Error(response.error);
+  }
+  return response.data;
+};
+
+// Symptom days are coloured by their worst severity; scan-only days in green by how much was scanned
+const cellClass = (day?: CalendarDay): string => {
+  if (!day) return 'bg-muted';
+  if (day.maxSeverity) {
+    if (day.maxSeverity <= 1) return 'bg-yellow-200';
+    if (day.maxSeverity <= 2) return 'bg-orange-200';
+    if (day.maxSeverity <= 3) return 'bg-orange-400';
+    if (day.maxSeverity <= 4) return 'bg-red-500';
+    return 'bg-rose-700';
+  }
+  if (day.scans >= 5) return 'bg-green-600';
+  if (day.scans >= 2) return 'bg-green-400';
+  return 'bg-green-200';
+};
+
+const describeDay = (key: string, day?: CalendarDay): string => {
+  const date = format(new Date(`${key}T00:00:00`), 'EEE d MMM yyyy');
+  if (!day) return `${date}: no activity`;
+  const parts = [`${day.scans} scans`, `${day.symptoms} symptom reports`];
+  if (day.maxSeverity) parts.push(`worst severity ${day.maxSeverity}/5`);
+  if (day.worstStatus) parts.push(`riskiest product: ${STATUS_LABELS[day.worstStatus]}`);
+  return `${date}: ${parts.join(', ')}`;
+};
+
+// Month and year overview of scans and symptoms, one cell per local day
+const ActivityHeatmap: React.FC = () => {
+  const { token } = useAuth();
+  const [view, setView] = useState<HeatmapView>('month');
+  const [anchor, setAnchor] = useState(() => new Date());
+
+  const start = view === 'month' ? startOfMonth(anchor) : startOfYear(anchor);
+  const end = view === 'month' ? endOfMonth(anchor) : endOfYear(anchor);
+  const from = format(start, 'yyyy-MM-dd');
+  const to = format(end, 'yyyy-MM-dd');
+
+  const { data: calendar, isLoading, error } = useQuery<ActivityCalendar, Error>({
+    queryKey: ['activityCalendar', from, to],
+    queryFn: () => fetchCalendar(token as string, from, to),
+    enabled: !!token,
+  });
+
+  const daysByKey = useMemo(
+    () => new Map((calendar?.days ?? []).map(day => [day.day, day])),
+    [calendar]
+  );
+  const dates = eachDayOfInterval({ start, end });
+  // Blank cells before the first day so columns line up with weekdays
+  const leading = Array.from({ length: getDay(start) });
+
+  const move = (step: number) => setAnchor(current => view === 'month' ? addMonths(current, step) : addYears(current, step));
+
+  const activeDays = calendar?.days.length ?? 0;
+  const symptomDays = calendar?.days.filter(day => day.symptoms > 0).length ?? 0;
+
+  return (
+    <Card className="bg-card border-border">
+      <CardContent className="p-3 sm:p-4">
+        <div className="flex items-center justify-between mb-3 sm:mb-4">
+          <h3 className="text-sm sm:text-base font-semibold text-readable">Activity</h3>
+          <div className="flex gap-1">
+            {(['month', 'year'] as HeatmapView[]).map(option => (
+              <Button
+                key={option}
+                size="sm"
+                variant={view === option ? 'default' : 'ghost'}
+                className="text-xs px-2 h-7 capitalize"
+                onClick={() => setView(option)}
+              >
+                {option}
+              </Button>
+            ))}
+          </div>
+        </div>
+
+        <div className="flex items-center justify-between mb-2">
+          <Button variant="ghost" size="sm" className="h-7 px-2" onClick={() => move(-1)}>
+            <ChevronLeft className="w-4 h-4" />
+          </Button>
+          <span className="text-sm font-medium text-readable">
+            {format(anchor, view === 'month' ? 'MMMM yyyy' : 'yyyy')}
+          </span>
+          <Button variant="ghost" size="sm" className="h-7 px-2" onClick={() => move(1)}>
+            <ChevronRight className="w-4 h-4" />
+          </Button>
+        </div>
+
+        {error && <p className="text-xs text-red-500">Could not load your activity.</p>}
+
+        {view === 'month' ? (
+          <div className="grid grid-cols-7 gap-1">
+            {WEEKDAYS.map((weekday, index) => (
+              <div key={index} className="text-center text-xs text-readable-muted">{weekday}</div>
+            ))}
+            {leading.map((_, index) => <div key={`blank-${index}`} />)}
+            {dates.map(date => {
+              const key = format(date, 'yyyy-MM-dd');
+              const day = daysByKey.get(key);
+              return (
+                <div
+                  key={key}
+                  title={describeDay(key, day)}
+                  className={`relative aspect-square rounded-md flex items-center justify-center text-xs ${cellClass(day)} ${isLoading ? 'opacity-50' : ''}`}
+                >
+                  {format(date, 'd')}
+                  {day?.worstStatus !== null && day?.worstStatus !== undefined && day.worstStatus <= 2 && (
+                    <span className="absolute top-0.5 right-0.5 w-1.5 h-1.5 rounded-full bg-red-700" />
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        ) : (
+          // Weeks as columns, weekdays as rows
+          <div className="overflow-x-auto">
+            <div className="grid grid-rows-7 grid-flow-col gap-0.5 w-max">
+              {leading.map((_, index) => <div key={`blank-${index}`} className="w-2.5 h-2.5" />)}
+              {dates.map(date => {
+                const key = format(date, 'yyyy-MM-dd');
+                const day = daysByKey.get(key);
+                return (
+                  <div
+                    key={key}
+                    title={describeDay(key, day)}
+                    className={`w-2.5 h-2.5 rounded-sm ${cellClass(day)} ${isLoading ? 'opacity-50' : ''}`}
+                  />
+                );
+              })}
+            </div>
+          </div>
+        )}
+
+        {calendar && (
+          <p className="text-xs text-readable-muted mt-3">
+            Active on {activeDays} days, with symptoms on {symptomDays}. A red dot marks days with a product likely to contain gluten.
+          </p>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default ActivityHeatmap;
@@ -1,82 +1,31 @@
-
-import React from 'react';
+import React, { useState } from 'react';
 import { Card, CardContent } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { ArrowLeft } from 'lucide-react';
-
-interface Symptom {
-  id: string;
-  name: string;
-  emoji: string;
-  description: string;
-  count: number;
-}
+import { useSymptomCatalog } from '@/hooks/useSymptomCatalog';
+import { useProductSymptomStats } from '@/hooks/useProductSymptomStats';
+import { getSeverityBadgeColorClass } from '@/lib/utils';
 
 interface AllSymptomsPageProps {
   onBack: () => void;
-  productId: string;
+  productId: string; // Product barcode
 }
 
+// Time windows offered for the community statistics; undefined means all time
+const TIME_WINDOWS: { label: string; days?: number }[] = [
+  { label: '30 days', days: 30 },
+  { label: '90 days', days: 90 },
+  { label: '1 year', days: 365 },
+  { label: 'All time' },
+];
+
 const AllSymptomsPage: React.FC<AllSymptomsPageProps> = ({ onBack, productId }) => {
-  // Mock symptoms data - in a real app, this would come from an API
-  const symptoms: Symptom[] = [
-    {
-      id: '1',
-      name: 'Headache',
-      emoji: '🤕',
-      description: 'Persistent head pain reported after consuming this product',
-      count: 12
-    },
-    {
-      id: '2',
-      name: 'Nausea',
-      emoji: '🤢',
-      description: 'Feeling of sickness and urge to vomit',
-      count: 8
-    },
-    {
-      id: '3',
-      name: 'Bloating',
-      emoji: '🤰',
-      description: 'Abdominal swelling and discomfort',
-      count: 15
-    },
-    {
-      id: '4',
-      name: 'Fatigue',
-      emoji: '😴',
-      description: 'Extreme tiredness and lack of energy',
-      count: 6
-    },
-    {
-      id: '5',
-      name: 'Skin Rash',
-      emoji: '🔴',
-      description: 'Red, itchy patches appearing on skin',
-      count: 4
-    },
-    {
-      id: '6',
-      name: 'Stomach Pain',
-      emoji: '😣',
-      description: 'Sharp or dull pain in the stomach area',
-      count: 9
-    },
-    {
-      id: '7',
-      name: 'Diarrhea',
-      emoji: '💩',
-      description: 'Loose, watery bowel movements',
-      count: 7
-    },
-    {
-      id: '8',
-      name: 'Joint Pain',
-      emoji: '🦴',
-      description: 'Aching or stiffness in joints',
-      count: 3
-    }
-  ];
+  const [days, setDays] = useState<number | undefined>(undefined);
+  const { getSymptom, catalog } = useSymptomCatalog();
+  const { data: stats, isLoading, error } = useProductSymptomStats(productId, days);
+
+  const severityLabel = (severity: number) =>
+    catalog?.severityScale.find(step => step.level === Math.round(severity))?.label;
 
   return (
     <div className="bg-background min-h-screen">
@@ -95,52 +44,87 @@ const AllSymptomsPage: React.FC<AllSymptomsPageProps> = ({ onBack, productId })
           </p>
         </div>
 
+        {/* Time window */}
+        <div className="flex flex-wrap gap-2 mb-4">
+          {TIME_WINDOWS.map((window) => (
+            <Button
+              key={window.label}
+              size="sm"
+              variant={days === window.days ? 'default' : 'outline'}
+              onClick={() => setDays(window.days)}
+            >
+              {window.label}
+            </Button>
+          ))}
+        </div>
+
         {/* Symptoms List */}
+        {isLoading && <p className="text-sm text-muted-foreground">Loading symptoms...</p>}
+        {error && <p className="text-sm text-red-500">Could not load symptom reports.</p>}
+        {stats && stats.suppressed && (
+          <p className="text-sm text-muted-foreground">
+            {stats.hiddenSymptoms > 0
+              ? `Symptoms are shown once at least ${stats.minReporters} people have reported them, to keep reports anonymous.`
+              : 'No symptoms reported by the community in this period.'}
+          </p>
+        )}
         <div className="space-y-3">
-          {symptoms.map((symptom) => (
-            <Card key={symptom.id} className="bg-card border-border">
-              <CardContent className="p-4">
-                <div className="flex items-start space-x-3">
-                  <div className="text-2xl flex-shrink-0">
-                    {symptom.emoji}
-                  </div>
-                  <div className="flex-1 min-w-0">
-                    <div className="flex items-center justify-between mb-2">
-                      <h3 className="font-semibold text-foreground">
-                        {symptom.name}
-                      </h3>
-                      <div className="flex items-center space-x-1">
-                        <span className="text-sm text-muted-foreground">Reported</span>
-                        <span className="font-bold text-primary">{symptom.count}</span>
-                        <span className="text-sm text-muted-foreground">times</span>
+          {stats && stats.symptoms.map((symptom) => {
+            const entry = getSymptom(symptom.symptomId);
+            return (
+              <Card key={symptom.symptomId} className="bg-card border-border">
+                <CardContent className="p-4">
+                  <div className="flex items-start space-x-3">
+                    <div className="text-2xl flex-shrink-0">
+                      {entry?.icon ?? '•'}
+                    </div>
+                    <div className="flex-1 min-w-0">
+                      <div className="flex items-center justify-between mb-2">
+                        <h3 className="font-semibold text-foreground">
+                          {entry?.name ?? symptom.symptomId}
+                        </h3>
+                        <div className="flex items-center space-x-1">
+                          <span className="font-bold text-primary">{symptom.reporters}</span>
+                          <span className="text-sm text-muted-foreground">people</span>
+                        </div>
+                      </div>
+                      <p className="text-sm text-muted-foreground leading-relaxed">
+                        {entry?.description}
+                      </p>
+                      <div className="flex items-center gap-2 mt-2 text-xs">
+                        <span className={`rounded-full px-2 py-0.5 ${getSeverityBadgeColorClass(Math.round(symptom.averageSeverity))}`}>
+                          Avg. {symptom.averageSeverity}{severityLabel(symptom.averageSeverity) ? ` · ${severityLabel(symptom.averageSeverity)}` : ''}
+                        </span>
+                        <span className="text-muted-foreground">Worst: {symptom.maxSeverity}/5</span>
+                        <span className="text-muted-foreground">· {symptom.reports} reports</span>
                       </div>
                     </div>
-                    <p className="text-sm text-muted-foreground leading-relaxed">
-                      {symptom.description}
-                    </p>
                   </div>
-                </div>
-              </CardContent>
-            </Card>
-          ))}
+                </CardContent>
+              </Card>
+            );
+          })}
         </div>
 
         {/* Summary */}
-        <Card className="mt-6 bg-accent/30 border-primary/20">
-          <CardContent className="p-4">
-            <div className="text-center">
-              <h3 className="font-semibold text-foreground mb-2">
-                Total Reports: {symptoms.reduce((sum, s) => sum + s.count, 0)}
-              </h3>
-              <p className="text-sm text-muted-foreground">
-                Data collected from community symptom reports
-              </p>
-            </div>
-          </CardContent>
-        </Card>
+        {stats && !stats.suppressed && (
+          <Card className="mt-6 bg-accent/30 border-primary/20">
+            <CardContent className="p-4">
+              <div className="text-center">
+                <h3 className="font-semibold text-foreground mb-2">
+                  Total Reports: {stats.reports} from {stats.reporters} people
+                </h3>
+                <p className="text-sm text-muted-foreground">
+                  Data collected from community symptom reports.
+                  {stats.hiddenSymptoms > 0 && ` ${stats.hiddenSymptoms} less common symptoms are hidden to keep reports anonymous.`}
+                </p>
+              </div>
+            </CardContent>
+          </Card>
+        )}
       </div>
     </div>
   );
 };
 
-export default AllSymptomsPage;
+export default AllSymptomsPage;
\ No newline at end of file
@@ -1,45 +1,34 @@
 import React from 'react';
 import { Link } from 'react-router-dom';
-import { Claim } from '../types'; // Adjust path as needed
+import { Claim, ClaimState } from '../types'; // Adjust path as needed
 import { Badge } from '@/components/ui/badge';
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
 import { format } from 'date-fns'; // For formatting date
+import { CLAIM_REASON_LABELS } from '@/lib/utils';
+import ClaimVoteBar from './ClaimVoteBar';
+
+const STATUS_LABELS: Record<number, string> = {
+  1: 'Contains Gluten',
+  2: 'Likely Contains Gluten',
+  3: 'Unknown',
+  4: 'Likely Gluten-Free',
+  5: 'Gluten-Free',
+};
+
+const CLAIM_STATE_BADGES: Record<ClaimState, { label: string; variant: "default" | "secondary" | "destructive" | "outline" }> = {
+  open: { label: 'Open', variant: 'secondary' },
+  under_review: { label: 'Under Review', variant: 'outline' },
+  accepted: { label: 'Accepted', variant: 'default' },
+  rejected: { label: 'Rejected', variant: 'destructive' },
+  duplicate: { label: 'Duplicate', variant: 'secondary' },
+};
 
 interface ClaimSearchResultItemProps {
   claim: Claim; // Expecting Claim type to have productBarcode, and optional product.name, product.pictureUrl
 }
 
 const ClaimSearchResultItem: React.FC<ClaimSearchResultItemProps> = ({ claim }) => {
-  // The Claim type has status: boolean (false = open, true = closed)
-  // Backend GET /api/claims/search returns status as a string like "Pending", "Approved", "Rejected"
-  // For now, let's stick to the boolean interpretation or prepare for string status.
-  // Assuming boolean: false is "Open/Pending", true might mean "Closed/Resolved".
-  // The backend schema says: status: { type: String, enum: ['Pending', 'Approved', 'Rejected'], default: 'Pending' }
-  // So, claim.status is actually a string. Let's adapt.
-
-  let statusVariant: "default" | "secondary" | "destructive" | "outline" = "secondary";
-  let statusText = claim.status as string; // Assuming status is string like 'Pending', 'Approved', 'Rejected'
-
-  if (typeof claim.status === 'string') {
-    statusText = claim.status.charAt(0).toUpperCase() + claim.status.slice(1);
-    switch (claim.status.toLowerCase()) {
-      case 'approved':
-        statusVariant = 'default'; // Greenish in shadcn (default primary color)
-        break;
-      case 'rejected':
-        statusVariant = 'destructive'; // Red
-        break;
-      case 'pending':
-      default:
-        statusVariant = 'secondary'; // Grey
-        break;
-    }
-  } else {
-    // Fallback if status is boolean (as initially propsed in subtask, but schema differs)
-    statusText = claim.status ? 'Closed' : 'Open';
-    statusVariant = claim.status ? 'destructive' : 'secondary';
-  }
-
+  const { label: statusText, variant: statusVariant } = CLAIM_STATE_BADGES[claim.state] ?? CLAIM_STATE_BADGES.open;
 
   const productDisplayName = claim.product?.name
     ? `${claim.product.name} (Barcode: ${claim.productBarcode})`
@@ -63,6 +52,21 @@ const ClaimSearchResultItem: React.FC<ClaimSearchResultItemProps> = ({ claim })
         </CardDescription>
       </CardHeader>
       <CardContent>
+        {(claim.proposedStatus || claim.reason) && (
+          <div className="flex flex-wrap gap-2 mb-2">
+            {claim.proposedStatus && (
+              <Badge variant="outline">Proposed: {STATUS_LABELS[claim.proposedStatus]}</Badge>
+            )}
+            {claim.reason && (
+              <Badge variant="secondary">{CLAIM_REASON_LABELS[claim.reason]}</Badge>
+            )}
+          </div>
+        )}
+        {claim.resolutionNote && (
+          <p className="text-sm text-muted-foreground mb-2">
+            <span className="font-medium text-foreground">Moderator note:</span> {claim.resolutionNote}
+          </p>
+        )}
         <div className="text-sm">
           Related Product:
           <Link
@@ -78,13 +82,21 @@ const ClaimSearchResultItem: React.FC<ClaimSearchResultItemProps> = ({ claim })
             <img src={claim.product.pictureUrl} alt={claim.product.name || 'Product image'} className="w-full h-24 object-cover rounded-md border"/>
           </div>
         )}
-         {/* Display claim mediaProofUrl if available */}
-         {claim.mediaProofUrl && (
+        {claim.evidenceUrls?.length > 0 && (
           <div className="mt-2">
-            <p className="text-xs text-muted-foreground">Proof:</p>
-            <img src={claim.mediaProofUrl} alt="Claim proof" className="w-full h-24 object-cover rounded-md border"/>
+            <p className="text-xs text-muted-foreground">Evidence:</p>
+            <div className="grid grid-cols-3 gap-2">
+              {claim.evidenceUrls.map((url, index) => (
+                <a key={url} href={url} target="_blank" rel="noopener noreferrer">
+                  <img src={url} alt={`Claim evidence ${index + 1}`} className="w-full h-24 object-cover rounded-md border"/>
+                </a>
+              ))}
+            </div>
           </div>
         )}
+        <div className="mt-3">
+          <ClaimVoteBar claim={claim} />
+        </div>
       </CardContent>
       {/* Optional Footer for a direct link to a single claim page if that existed */}
       {/* <CardFooter className="p-4 pt-0">
@@ -0,0 +1,90 @@
+import React, { useEffect, useState } from 'react';
+import { useMutation } from '@tanstack/react-query';
+import { ThumbsDown, ThumbsUp, Eye } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { toast } from '@/hooks/use-toast';
+import { claimApi } from '@/lib/api';
+import { cn } from '@/lib/utils';
+import { useAuth } from '../contexts/AuthContext';
+import { Claim, ClaimVote, ClaimVoteResponse, ClaimVoteSummary } from '../types';
+
+const EMPTY_SUMMARY: ClaimVoteSummary = { up: 0, down: 0, confirmations: 0, score: 0 };
+const RESOLVED_STATES = ['accepted', 'rejected', 'duplicate'];
+
+interface ClaimVoteBarProps {
+  claim: Pick<Claim, 'id' | 'userId' | 'state' | 'voteSummary' | 'escalatedAt'>;
+  myVote?: ClaimVote | null;
+}
+
+// Vote totals for a claim, with buttons to agree, disagree or confirm the label
+const ClaimVoteBar: React.FC<ClaimVoteBarProps> = ({ claim, myVote: initialVote = null }) => {
+  const { user, token } = useAuth();
+  const [summary, setSummary] = useState<ClaimVoteSummary>(claim.voteSummary ?? EMPTY_SUMMARY);
+  const [myVote, setMyVote] = useState<ClaimVote | null>(initialVote);
+  const [escalated, setEscalated] = useState(!!claim.escalatedAt);
+
+  // The user's vote arrives after the claim itself on pages that look it up separately
+  useEffect(() => setMyVote(initialVote), [initialVote]);
+
+  const canVote = !!token && !!user && user.id !== claim.userId && !RESOLVED_STATES.includes(claim.state);
+
+  const { mutate: castVote, isPending } = useMutation({
+    mutationFn: async (vote: ClaimVote | null) => {
+      const response = vote
+        ? await claimApi.vote(claim.id, vote, token!)
+        : await claimApi.removeVote(claim.id, token!);
+      if (response.error) throw new Error(response.error);
+      return response.data as ClaimVoteResponse;
+    },
+    onSuccess: (result) => {
+      setSummary(result.voteSummary);
+      setMyVote(result.myVote);
+      setEscalated(!!result.escalatedAt);
+    },
+    onError: (e: Error) => toast({ title: "Vote Not Saved", description: e.message, variant: "destructive" }),
+  });
+
+  // Clicking the active choice again withdraws the vote
+  const choose = (vote: ClaimVote) => {
+    const same = myVote && myVote.value === vote.value && myVote.confirms === vote.confirms;
+    castVote(same ? null : vote);
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 text-sm text-muted-foreground">
+      <Button
+        variant="ghost"
+        size="sm"
+        className={cn("h-7 px-2", myVote?.value === 1 && !myVote.confirms && "text-green-600")}
+        disabled={!canVote || isPending}
+        onClick={() => choose({ value: 1, confirms: false })}
+        title="Agree"
+      >
+        <ThumbsUp className="w-4 h-4 mr-1" />{summary.up}
+      </Button>
+      <Button
+        variant="ghost"
+        size="sm"
+        className={cn("h-7 px-2", myVote?.value === -1 && "text-red-600")}
+        disabled={!canVote || isPending}
+        onClick={() => choose({ value: -1, confirms: false })}
+        title="Disagree"
+      >
+        <ThumbsDown className="w-4 h-4 mr-1" />{summary.down}
+      </Button>
+      <Button
+        variant="ghost"
+        size="sm"
+        className={cn("h-7 px-2", myVote?.confirms && "text-primary")}
+        disabled={!canVote || isPending}
+        onClick={() => choose({ value: 1, confirms: true })}
+        title="I see the same label"
+      >
+        <Eye className="w-4 h-4 mr-1" />{summary.confirmations} same label
+      </Button>
+      {escalated && <span className="text-xs text-orange-600">Escalated to moderators</span>}
+    </div>
+  );
+};
+
+export default ClaimVoteBar;
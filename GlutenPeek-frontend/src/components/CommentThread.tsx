@@ -0,0 +1,256 @@
+import React, { useState } from 'react';
+import { useInfiniteQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { formatDistanceToNow } from 'date-fns';
+import { Send } from 'lucide-react';
+import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { toast } from '@/hooks/use-toast';
+import { commentApi } from '@/lib/api';
+import { hasPrivilege } from '@/lib/utils';
+import { useAuth } from '../contexts/AuthContext';
+import ImageUpload from './ui/image-upload';
+import ProductTagCard from './ProductTagCard';
+import ProductTagPicker from './ProductTagPicker';
+import MentionPicker from './MentionPicker';
+import RichText from './RichText';
+import { appendMention } from '@/lib/textEntities';
+import { Comment, CommentsResponse, NewComment, ProductTag, RepliesResponse } from '../types';
+
+interface CommentThreadProps {
+  postId: string;
+}
+
+const unwrap = <T,>(response: { data?: T; error?: string }): T => {
+  if (response.error) throw new Error(response.error);
+  return response.data as T;
+};
+
+// Shared by every comment under one post, so any change refreshes the whole thread
+const useCommentMutations = (postId: string) => {
+  const { token } = useAuth();
+  const queryClient = useQueryClient();
+  const refresh = () => {
+    queryClient.invalidateQueries({ queryKey: ['comments', postId] });
+    queryClient.invalidateQueries({ queryKey: ['commentReplies', postId] });
+  };
+  const onError = (e: Error) => toast({ title: "Comment Not Saved", description: e.message, variant: "destructive" });
+
+  const add = useMutation({
+    mutationFn: async (comment: NewComment) => unwrap(await commentApi.addComment(postId, comment, token!)),
+    onSuccess: refresh,
+    onError,
+  });
+  const edit = useMutation({
+    mutationFn: async ({ id, content }: { id: string; content: string }) => unwrap(await commentApi.editComment(id, content, token!)),
+    onSuccess: refresh,
+    onError,
+  });
+  const remove = useMutation({
+    mutationFn: async ({ id, asModerator }: { id: string; asModerator: boolean }) => unwrap(asModerator
+      ? await commentApi.removeComment(id, undefined, token!)
+      : await commentApi.deleteComment(id, token!)),
+    onSuccess: refresh,
+    onError,
+  });
+  return { add, edit, remove };
+};
+
+interface CommentFormProps {
+  postId: string;
+  parentId?: string;
+  placeholder: string;
+  onDone?: () => void;
+}
+
+const CommentForm: React.FC<CommentFormProps> = ({ postId, parentId, placeholder, onDone }) => {
+  const { user } = useAuth();
+  const { add } = useCommentMutations(postId);
+  const [text, setText] = useState('');
+  const [images, setImages] = useState<string[]>([]);
+  const [products, setProducts] = useState<ProductTag[]>([]);
+
+  const submit = () => {
+    if (!text.trim() || add.isPending) return;
+    add.mutate({ content: text.trim(), mediaUrls: images, productBarcodes: products.map(product => product.barcode), parentId }, {
+      onSuccess: () => {
+        setText('');
+        setImages([]);
+        setProducts([]);
+        onDone?.();
+      },
+    });
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex space-x-3">
+        <Avatar className="w-8 h-8"><AvatarImage src={user?.pfp} /><AvatarFallback className="gradient-bg text-white text-xs">{user?.name?.charAt(0) || 'U'}</AvatarFallback></Avatar>
+        <div className="flex-1 flex space-x-2">
+          <Input placeholder={placeholder} value={text} onChange={(e) => setText(e.target.value)} onKeyDown={(e) => e.key === 'Enter' && submit()} className="flex-1" disabled={add.isPending} />
+          <Button onClick={submit} disabled={add.isPending || !text.trim()} size="sm" className="gradient-bg text-white">
+            <Send className={add.isPending ? "w-4 h-4 animate-pulse" : "w-4 h-4"} />
+          </Button>
+        </div>
+      </div>
+      {!parentId && (
+        <div className="ml-11 space-y-2">
+          <ImageUpload images={images} onImagesChange={setImages} maxImages={5} purpose="post" buttonText="Add Images to Comment" />
+          <ProductTagPicker value={products} onChange={setProducts} disabled={add.isPending} />
+          <MentionPicker onPick={(markup) => setText(current => appendMention(current, markup))} disabled={add.isPending} />
+        </div>
+      )}
+    </div>
+  );
+};
+
+interface CommentItemProps {
+  comment: Comment;
+  onReply?: () => void;
+}
+
+const CommentItem: React.FC<CommentItemProps> = ({ comment, onReply }) => {
+  const { user, token } = useAuth();
+  const { edit, remove } = useCommentMutations(comment.postId);
+  const [editing, setEditing] = useState(false);
+  const [draft, setDraft] = useState(comment.content || '');
+
+  const hidden = comment.content === null;
+  const isAuthor = !!user && user.id === comment.userId;
+  const canModerate = hasPrivilege(user, 'moderate');
+
+  const saveEdit = () => {
+    if (!draft.trim()) return;
+    edit.mutate({ id: comment.id, content: draft.trim() }, { onSuccess: () => setEditing(false) });
+  };
+
+  return (
+    <div className="flex space-x-3">
+      <Avatar className="w-8 h-8"><AvatarImage src={comment.user?.pfp} /><AvatarFallback className="gradient-bg text-white text-xs">{comment.user?.name?.charAt(0) || 'U'}</AvatarFallback></Avatar>
+      <div className="flex-1 min-w-0">
+        <div className="bg-muted rounded-lg px-3 py-2">
+          <div className="font-semibold text-sm">{comment.user?.name || 'Unknown user'}</div>
+          {editing ? (
+            <div className="flex space-x-2 mt-1">
+              <Input value={draft} onChange={(e) => setDraft(e.target.value)} onKeyDown={(e) => e.key === 'Enter' && saveEdit()} className="flex-1 h-8" disabled={edit.isPending} />
+              <Button size="sm" className="h-8" onClick={saveEdit} disabled={edit.isPending || !draft.trim()}>Save</Button>
+              <Button size="sm" variant="ghost" className="h-8" onClick={() => setEditing(false)}>Cancel</Button>
+            </div>
+          ) : hidden ? (
+            <div className="text-sm italic text-muted-foreground">{comment.removedAt ? 'Removed by a moderator' : 'Comment deleted'}</div>
+          ) : (
+            <div className="text-sm break-words"><RichText text={comment.content} /></div>
+          )}
+          {!hidden && comment.mediaUrls.length > 0 && (
+            <div className="flex flex-wrap gap-2 mt-2">
+              {comment.mediaUrls.map(url => <img key={url} src={url} alt="" className="w-16 h-16 object-cover rounded" />)}
+            </div>
+          )}
+          {!hidden && comment.products && comment.products.length > 0 && (
+            <div className="mt-2 space-y-1">
+              {comment.products.map(product => <ProductTagCard key={product.barcode} product={product} className="bg-background" />)}
+            </div>
+          )}
+        </div>
+        <div className="flex items-center gap-3 text-xs text-muted-foreground mt-1">
+          <span>{formatDistanceToNow(new Date(comment.createdAt), { addSuffix: true })}{comment.editedAt && !hidden ? ' (edited)' : ''}</span>
+          {token && onReply && !hidden && <button className="hover:text-foreground" onClick={onReply}>Reply</button>}
+          {isAuthor && !hidden && !editing && (
+            <>
+              <button className="hover:text-foreground" onClick={() => { setDraft(comment.content || ''); setEditing(true); }}>Edit</button>
+              <button className="hover:text-red-600" disabled={remove.isPending} onClick={() => remove.mutate({ id: comment.id, asModerator: false })}>Delete</button>
+            </>
+          )}
+          {canModerate && !isAuthor && !hidden && (
+            <button className="hover:text-red-600" disabled={remove.isPending} onClick={() => remove.mutate({ id: comment.id, asModerator: true })}>Remove</button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+// A top-level comment with its replies. Only the preview comes with the post's
+// comments; "Show all replies" pages through the rest.
+const CommentWithReplies: React.FC<{ comment: Comment }> = ({ comment }) => {
+  const { token } = useAuth();
+  const [replying, setReplying] = useState(false);
+  const [expanded, setExpanded] = useState(false);
+  const preview = comment.replies || [];
+  const replyCount = comment.replyCount || 0;
+
+  const {
+    data,
+    fetchNextPage,
+    hasNextPage,
+    isFetchingNextPage,
+  } = useInfiniteQuery<RepliesResponse, Error>({
+    queryKey: ['commentReplies', comment.postId, comment.id],
+    queryFn: async ({ pageParam }) => unwrap(await commentApi.getReplies(comment.id, pageParam as string | undefined)),
+    initialPageParam: undefined,
+    getNextPageParam: (lastPage) => lastPage.nextCursor || undefined,
+    enabled: expanded,
+  });
+  const replies = expanded && data ? data.pages.flatMap(page => page.replies) : preview;
+
+  return (
+    <div className="space-y-2">
+      <CommentItem comment={comment} onReply={() => setReplying(true)} />
+      {(replies.length > 0 || replying) && (
+        <div className="ml-11 space-y-2">
+          {replies.map(reply => <CommentItem key={reply.id} comment={reply} onReply={() => setReplying(true)} />)}
+          {!expanded && replyCount > preview.length && (
+            <button className="text-xs text-primary" onClick={() => setExpanded(true)}>Show all {replyCount} replies</button>
+          )}
+          {expanded && hasNextPage && (
+            <button className="text-xs text-primary" onClick={() => fetchNextPage()} disabled={isFetchingNextPage}>
+              {isFetchingNextPage ? 'Loading...' : 'Show more replies'}
+            </button>
+          )}
+          {token && replying && (
+            <CommentForm postId={comment.postId} parentId={comment.id} placeholder="Write a reply..." onDone={() => setReplying(false)} />
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+// Comments under a post, oldest first, with one level of replies
+const CommentThread: React.FC<CommentThreadProps> = ({ postId }) => {
+  const { user } = useAuth();
+
+  const {
+    data,
+    fetchNextPage,
+    hasNextPage,
+    isFetchingNextPage,
+    isLoading,
+    error,
+  } = useInfiniteQuery<CommentsResponse, Error>({
+    queryKey: ['comments', postId],
+    queryFn: async ({ pageParam }) => unwrap(await commentApi.getComments(postId, pageParam as string | undefined)),
+    initialPageParam: undefined,
+    getNextPageParam: (lastPage) => lastPage.nextCursor || undefined,
+  });
+  const comments = data ? data.pages.flatMap(page => page.comments) : [];
+
+  return (
+    <div className="mt-4 border-t pt-4 space-y-3">
+      {isLoading && <p className="text-sm text-muted-foreground">Loading comments...</p>}
+      {error && <p className="text-sm text-red-600">Could not load comments: {error.message}</p>}
+      {!isLoading && !error && comments.length === 0 && (
+        <p className="text-sm text-muted-foreground">No comments yet. Be the first to comment!</p>
+      )}
+      {comments.map(comment => <CommentWithReplies key={comment.id} comment={comment} />)}
+      {hasNextPage && (
+        <Button variant="ghost" size="sm" className="h-7 text-xs" onClick={() => fetchNextPage()} disabled={isFetchingNextPage}>
+          {isFetchingNextPage ? 'Loading...' : 'Show more comments'}
+        </Button>
+      )}
+      {user && <CommentForm postId={postId} placeholder="Write a comment..." />}
+    </div>
+  );
+};
+
+export default CommentThread;
@@ -5,13 +5,29 @@ import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Textarea } from '@/components/ui/textarea';
 import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
-import { MessageCircle, Heart, Share, Send, Plus, Search, Loader2 } from 'lucide-react';
-import { Post } from '../types';
+import { MessageCircle, Heart, Share, Plus, Search, Loader2 } from 'lucide-react';
+import { FeedMode, Post, ProductTag } from '../types';
 import { useAuth } from '../contexts/AuthContext';
 import { toast } from '@/hooks/use-toast';
 import ImageUpload from './ui/image-upload';
 import { useInfiniteQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { useInView } from 'react-intersection-observer';
+import ReportPostButton from './ReportPostButton';
+import CommentThread from './CommentThread';
+import PostOwnerActions from './PostOwnerActions';
+import PostEditedMarker from './PostEditedMarker';
+import ProductTagCard from './ProductTagCard';
+import ProductTagPicker from './ProductTagPicker';
+import MentionPicker from './MentionPicker';
+import RichText from './RichText';
+import TrendingTags from './TrendingTags';
+import { appendMention } from '@/lib/textEntities';
+
+const FEED_MODES: { value: FeedMode; label: string; signedInOnly?: boolean }[] = [
+  { value: 'ranked', label: 'For you' },
+  { value: 'following', label: 'Following', signedInOnly: true },
+  { value: 'global', label: 'Latest' },
+];
 
 interface ApiPostsResponse {
   posts: Post[];
@@ -29,17 +45,19 @@ const CommunityTab: React.FC = () => {
 
   const [localSearchInput, setLocalSearchInput] = useState(searchQuery);
   const [showComments, setShowComments] = useState<Set<string>>(new Set());
-  const [commentText, setCommentText] = useState<Record<string, string>>({});
-  const [commentImages, setCommentImages] = useState<Record<string, string[]>>({});
+  const [feedMode, setFeedMode] = useState<FeedMode>('ranked');
+  // "Following" needs a token; signed out (or after logging out) the default feed is shown
+  const activeFeedMode: FeedMode = feedMode === 'following' && !token ? 'ranked' : feedMode;
   const [showNewPost, setShowNewPost] = useState(false);
   const [newPostContent, setNewPostContent] = useState('');
   const [newPostImages, setNewPostImages] = useState<string[]>([]);
+  const [newPostProducts, setNewPostProducts] = useState<ProductTag[]>([]);
 
   // API Fetch Functions
   const fetchFeedPosts = async ({ pageParam = undefined, queryKey }: any): Promise<ApiPostsResponse> => {
-    const [_key, _feedIdentifier, authToken] = queryKey;
-    let url = '/api/posts';
-    if (pageParam) url += `?cursor=${pageParam}`;
+    const [_key, _feedIdentifier, mode, authToken] = queryKey;
+    let url = `/api/posts?feed=${mode}`;
+    if (pageParam) url += `&cursor=${encodeURIComponent(pageParam)}`;
     const headers: HeadersInit = {};
     if (authToken) headers['Authorization'] = `Bearer ${authToken}`;
     const response = await fetch(url, { headers });
@@ -67,7 +85,7 @@ const CommunityTab: React.FC = () => {
 
   const queryFn = searchQuery
     ? ({ pageParam }: { pageParam?: string }) => fetchSearchedPostsByName({ pageParam, queryKey: ['posts', 'search', searchQuery, token] })
-    : ({ pageParam }: { pageParam?: string }) => fetchFeedPosts({ pageParam, queryKey: ['posts', 'feed', token] });
+    : ({ pageParam }: { pageParam?: string }) => fetchFeedPosts({ pageParam, queryKey: ['posts', 'feed', activeFeedMode, token] });
 
   const {
     data,
@@ -79,7 +97,7 @@ const CommunityTab: React.FC = () => {
     error,
     // refetch // Not explicitly used yet, but good to have if manual refresh needed
   } = useInfiniteQuery<ApiPostsResponse, Error>(
-    ['posts', searchQuery || 'feed', token], // Dynamic query key
+    ['posts', searchQuery || 'feed', activeFeedMode, token], // Dynamic query key
     queryFn,
     {
       getNextPageParam: (lastPage) => lastPage.nextCursor || undefined,
@@ -112,13 +130,12 @@ const CommunityTab: React.FC = () => {
     }
   };
 
-  // --- Like/Unlike, Comment, CreatePost mutations (ensure queryClient.invalidateQueries uses the dynamic key) ---
-  const dynamicQueryKeyToInvalidate = ['posts', searchQuery || 'feed', token];
+  // --- Like/Unlike, CreatePost mutations (ensure queryClient.invalidateQueries uses the dynamic key) ---
+  const dynamicQueryKeyToInvalidate = ['posts', searchQuery || 'feed', activeFeedMode, token];
 
   const likePostApi = async ({ postId }: { postId: string }): Promise<Post> => { /* ... existing ... */ if (!token) throw new Error("Auth token not found."); const r = await fetch(`/api/posts/${postId}/like`,{method:'POST',headers:{Authorization:`Bearer ${token}`}}); if(!r.ok) throw new Error("Failed to like."); return r.json(); };
   const unlikePostApi = async ({ postId }: { postId: string }): Promise<Post> => { /* ... existing ... */ if (!token) throw new Error("Auth token not found."); const r = await fetch(`/api/posts/${postId}/unlike`,{method:'POST',headers:{Authorization:`Bearer ${token}`}}); if(!r.ok) throw new Error("Failed to unlike."); return r.json();};
-  const addCommentApi = async (data: {postId: string; postText: string; mediaUrls?: string[]}): Promise<Comment> => { /* ... existing ... */ if(!token) throw new Error("Auth token not found"); const {postId, ...payload}=data; const r = await fetch(`/api/comments/${postId}`,{method:'POST',headers:{'Content-Type':'application/json',Authorization:`Bearer ${token}`},body:JSON.stringify(payload)}); if(!r.ok){const ed=await r.json().catch(()=>({})); throw new Error(ed.message||"Failed to comment");} return r.json();};
-  const addPostApi = async ({postText, mediaUrls}:{postText:string; mediaUrls?:string[]}): Promise<Post> => { /* ... existing ... */ if(!token) throw new Error("Auth token not found"); const r = await fetch('/api/posts/',{method:'POST',headers:{'Content-Type':'application/json',Authorization:`Bearer ${token}`},body:JSON.stringify({postText,mediaUrls})}); if(!r.ok){const ed=await r.json().catch(()=>({})); throw new Error(ed.message||"Failed to post");} return r.json();};
+  const addPostApi = async ({postText, mediaUrls, productBarcodes}:{postText:string; mediaUrls?:string[]; productBarcodes?:string[]}): Promise<Post> => { /* ... existing ... */ if(!token) throw new Error("Auth token not found"); const r = await fetch('/api/posts/',{method:'POST',headers:{'Content-Type':'application/json',Authorization:`Bearer ${token}`},body:JSON.stringify({postText,mediaUrls,productBarcodes})}); if(!r.ok){const ed=await r.json().catch(()=>({})); throw new Error(ed.message||"Failed to post");} return r.json();};
 
   const { mutate: likePostMutation, isLoading: isLikingPost } = useMutation(likePostApi, {
     onSuccess: () => queryClient.invalidateQueries(dynamicQueryKeyToInvalidate),
@@ -128,29 +145,20 @@ const CommunityTab: React.FC = () => {
     onSuccess: () => queryClient.invalidateQueries(dynamicQueryKeyToInvalidate),
     onError: (e: Error) => toast({ title: "Error", description: e.message, variant: "destructive" }),
   });
-  const { mutate: addComment, isLoading: isAddingComment } = useMutation(addCommentApi, {
-    onSuccess: (_d, vars) => {
-      queryClient.invalidateQueries(dynamicQueryKeyToInvalidate);
-      toast({ title: "Comment Posted!" });
-      setCommentText(prev => ({ ...prev, [vars.postId]: '' }));
-      setCommentImages(prev => ({ ...prev, [vars.postId]: [] }));
-    },
-    onError: (e: Error) => toast({ title: "Error Posting Comment", description: e.message, variant: "destructive" }),
-  });
-  const { mutate: createPost, isLoading: isCreatingPost } = useMutation(addPostApi, {
+  const { mutate: createPost, isPending: isCreatingPost } = useMutation({
+    mutationFn: addPostApi,
     onSuccess: () => {
-      queryClient.invalidateQueries(dynamicQueryKeyToInvalidate);
+      queryClient.invalidateQueries({ queryKey: dynamicQueryKeyToInvalidate });
       toast({ title: "Post Created!" });
-      setNewPostContent(''); setNewPostImages([]); setShowNewPost(false);
+      setNewPostContent(''); setNewPostImages([]); setNewPostProducts([]); setShowNewPost(false);
     },
     onError: (e: Error) => toast({ title: "Error Creating Post", description: e.message, variant: "destructive" }),
   });
 
-  // Event Handlers (handleLike, toggleComments, handleComment, handleNewPost are mostly the same, ensure they use correct states)
+  // Event Handlers (handleLike, toggleComments, handleNewPost are mostly the same, ensure they use correct states)
   const handleLike = (post: Post) => { /* ... uses likePostMutation / unlikePostMutation ... */ if(!user||!token)return; const liked=post.likes.some(l=>(typeof l==='string'?l:l.id)===user.id); if(liked)unlikePostMutation({postId:post.id});else likePostMutation({postId:post.id}); };
   const toggleComments = (postId: string) => { /* ... same ... */ setShowComments(p=>{const n=new Set(p); if(n.has(postId))n.delete(postId);else n.add(postId); return n;}); };
-  const handleComment = (postId: string) => { /* ... uses addComment ... */ if(!user||!token)return;const text=commentText[postId]?.trim();const urls=commentImages[postId]||[];if(!text&&urls.length===0)return;addComment({postId,postText:text||'',mediaUrls:urls}); };
-  const handleNewPost = () => { /* ... uses createPost ... */ if(!newPostContent.trim()&&newPostImages.length===0)return;createPost({postText:newPostContent,mediaUrls:newPostImages}); };
+  const handleNewPost = () => { /* ... uses createPost ... */ if(!newPostContent.trim()&&newPostImages.length===0)return;createPost({postText:newPostContent,mediaUrls:newPostImages,productBarcodes:newPostProducts.map(p=>p.barcode)}); };
   const formatTimeAgo = (ds: string) => { /* ... same ... */ if(!ds)return '';const d=new Date(ds);const n=new Date();const df=Math.floor((n.getTime()-d.getTime())/(36e5));if(df<1)return 'Just now';if(df<24)return `${df}h ago`;return `${Math.floor(df/24)}d ago`;};
 
 
@@ -184,8 +192,24 @@ const CommunityTab: React.FC = () => {
              <Button variant="outline" onClick={() => { setLocalSearchInput(''); navigate('/community'); }}>Clear Search</Button>
           )}
         </form>
+        {!searchQuery && (
+          <div className="flex gap-2 mt-3">
+            {FEED_MODES.filter(mode => token || !mode.signedInOnly).map(mode => (
+              <Button
+                key={mode.value}
+                size="sm"
+                variant={activeFeedMode === mode.value ? 'default' : 'outline'}
+                onClick={() => setFeedMode(mode.value)}
+              >
+                {mode.label}
+              </Button>
+            ))}
+          </div>
+        )}
       </div>
 
+      {!searchQuery && <TrendingTags />}
+
       {isError && (
         <Card>
           <CardContent className="p-4 text-red-500 text-center">
@@ -214,10 +238,16 @@ const CommunityTab: React.FC = () => {
             </div>
             <Textarea placeholder="Share your thoughts, experiences, or questions..." value={newPostContent} onChange={(e) => setNewPostContent(e.target.value)} className="mb-3 min-h-[100px]" />
             <div className="mb-3">
-              <ImageUpload images={newPostImages} onImagesChange={setNewPostImages} maxImages={5} pathPrefix="posts/" buttonText="Add Images to Post" />
+              <ImageUpload images={newPostImages} onImagesChange={setNewPostImages} maxImages={5} purpose="post" buttonText="Add Images to Post" />
+            </div>
+            <div className="mb-3">
+              <ProductTagPicker value={newPostProducts} onChange={setNewPostProducts} disabled={isCreatingPost} />
+            </div>
+            <div className="mb-3">
+              <MentionPicker onPick={(markup) => setNewPostContent(current => appendMention(current, markup))} disabled={isCreatingPost} />
             </div>
             <div className="flex justify-end space-x-2">
-              <Button variant="outline" onClick={() => { setShowNewPost(false); setNewPostContent(''); setNewPostImages([]); }} disabled={isCreatingPost}>Cancel</Button>
+              <Button variant="outline" onClick={() => { setShowNewPost(false); setNewPostContent(''); setNewPostImages([]); setNewPostProducts([]); }} disabled={isCreatingPost}>Cancel</Button>
               <Button onClick={handleNewPost} disabled={(!newPostContent.trim() && newPostImages.length === 0) || isCreatingPost} className="gradient-bg text-white">{isCreatingPost ? 'Posting...' : 'Post'}</Button>
             </div>
           </CardContent>
@@ -239,10 +269,10 @@ const CommunityTab: React.FC = () => {
               <Avatar className="w-10 h-10"><AvatarImage src={post.user.pfp} /><AvatarFallback className="gradient-bg text-white">{post.user.name.charAt(0)}</AvatarFallback></Avatar>
               <div className="flex-1">
                 <div className="font-semibold text-sm">{post.user.name}</div>
-                <div className="text-xs text-muted-foreground">{formatTimeAgo(post.createdAt)}</div>
+                <div className="text-xs text-muted-foreground">{formatTimeAgo(post.createdAt)} <PostEditedMarker postId={post.id} editedAt={post.editedAt} /></div>
               </div>
             </div>
-            <p className="text-foreground mb-3 leading-relaxed whitespace-pre-wrap">{post.postText}</p>
+            <p className="text-foreground mb-3 leading-relaxed whitespace-pre-wrap"><RichText text={post.postText} /></p>
             {post.mediaUrls && post.mediaUrls.length > 0 && (
               <div className="mb-3 grid grid-cols-2 gap-2">
                 {post.mediaUrls.slice(0, 4).map((image, index) => (
@@ -257,47 +287,23 @@ const CommunityTab: React.FC = () => {
                 ))}
               </div>
             )}
+            {post.products && post.products.length > 0 && (
+              <div className="mb-3 space-y-2">
+                {post.products.map(product => <ProductTagCard key={product.barcode} product={product} />)}
+              </div>
+            )}
             <div className="flex items-center space-x-6 text-muted-foreground border-t pt-3">
               <Button variant="ghost" size="sm" onClick={() => handleLike(post)} disabled={isLikingPost || isUnlikingPost} className={`p-0 h-auto font-normal hover:text-red-500 ${user && post.likes.some((l:string|{id:string})=>typeof l==='string'?l===user.id:l.id===user.id) ? 'text-red-500':'text-muted-foreground'}`}>
                 <Heart className={`w-4 h-4 mr-1 ${user && post.likes.some((l:string|{id:string})=>typeof l==='string'?l===user.id:l.id===user.id) ? 'fill-current':''}`} />
                 {Array.isArray(post.likes) ? post.likes.length : 0}
               </Button>
               <Button variant="ghost" size="sm" onClick={() => toggleComments(post.id)} className="p-0 h-auto font-normal text-muted-foreground hover:text-blue-500">
-                <MessageCircle className="w-4 h-4 mr-1" /> {Array.isArray(post.comments) ? post.comments.length : 0}
+                <MessageCircle className="w-4 h-4 mr-1" /> {post.commentCount ?? 0}
               </Button>
               <Button variant="ghost" size="sm" className="p-0 h-auto font-normal text-muted-foreground hover:text-green-500"><Share className="w-4 h-4 mr-1" />{post.shares || 0}</Button>
+              <div className="ml-auto flex items-center space-x-3"><PostOwnerActions post={post} /><ReportPostButton postId={post.id} /></div>
             </div>
-            {showComments.has(post.id) && (
-              <div className="mt-4 border-t pt-4 space-y-3">
-                {post.comments && post.comments.length > 0 ? (
-                  post.comments.map((comment) => (
-                    <div key={comment.id} className="flex space-x-3">
-                      <Avatar className="w-8 h-8"><AvatarImage src={comment.user.pfp} /><AvatarFallback className="gradient-bg text-white text-xs">{comment.user.name.charAt(0)}</AvatarFallback></Avatar>
-                      <div className="flex-1">
-                        <div className="bg-muted rounded-lg px-3 py-2"><div className="font-semibold text-sm">{comment.user.name}</div><div className="text-sm">{comment.content}</div></div>
-                        <div className="text-xs text-muted-foreground mt-1">{formatTimeAgo(comment.createdAt)}</div>
-                      </div>
-                    </div>
-                  ))
-                ) : <p className="text-sm text-muted-foreground">No comments yet. Be the first to comment!</p>}
-                {user && (
-                  <div className="space-y-2">
-                    <div className="flex space-x-3">
-                      <Avatar className="w-8 h-8"><AvatarImage src={user?.pfp} /><AvatarFallback className="gradient-bg text-white text-xs">{user?.name?.charAt(0) || 'U'}</AvatarFallback></Avatar>
-                      <div className="flex-1 flex space-x-2">
-                        <Input placeholder="Write a comment..." value={commentText[post.id] || ''} onChange={(e) => setCommentText(prev => ({ ...prev, [post.id]: e.target.value }))} onKeyPress={(e) => e.key==='Enter' && !isAddingComment && handleComment(post.id)} className="flex-1" disabled={isAddingComment} />
-                        <Button onClick={() => handleComment(post.id)} disabled={isAddingComment || (!commentText[post.id]?.trim() && (!commentImages[post.id] || commentImages[post.id].length === 0))} size="sm" className="gradient-bg text-white">
-                          {isAddingComment ? <Send className="w-4 h-4 animate-pulse" /> : <Send className="w-4 h-4" />}
-                        </Button>
-                      </div>
-                    </div>
-                    <div className="ml-11">
-                      <ImageUpload images={commentImages[post.id] || []} onImagesChange={(urls) => setCommentImages(prev => ({ ...prev, [post.id]: urls }))} maxImages={5} pathPrefix="comments/" buttonText="Add Images to Comment" />
-                    </div>
-                  </div>
-                )}
-              </div>
-            )}
+            {showComments.has(post.id) && <CommentThread postId={post.id} />}
           </CardContent>
         </Card>
       ))}
@@ -1,7 +1,8 @@
 
 import React from 'react';
-import { cn } from '@/lib/utils';
-import { User, User as UserIcon, Camera, Settings, Bot } from 'lucide-react';
+import { cn, hasPrivilege } from '@/lib/utils';
+import { User, User as UserIcon, Camera, Settings, Bot, ShieldCheck } from 'lucide-react';
+import { useAuth } from '../contexts/AuthContext';
 
 interface DesktopSidebarProps {
   activeTab: string;
@@ -9,12 +10,14 @@ interface DesktopSidebarProps {
 }
 
 const DesktopSidebar: React.FC<DesktopSidebarProps> = ({ activeTab, onTabChange }) => {
+  const { user } = useAuth();
   const navItems = [
     { id: 'welcome', icon: UserIcon, label: 'Profile' },
     { id: 'community', icon: User, label: 'Community' },
     { id: 'scan', icon: Camera, label: 'Scan' },
     { id: 'settings', icon: Settings, label: 'Settings' },
     { id: 'chatbot', icon: Bot, label: 'AI' },
+    ...(hasPrivilege(user, 'moderate') ? [{ id: 'moderation', icon: ShieldCheck, label: 'Review' }] : []),
   ];
 
   return (
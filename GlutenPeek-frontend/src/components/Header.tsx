@@ -6,6 +6,7 @@ import { Badge } from '@/components/ui/badge';
 import { Search, ChevronDown } from 'lucide-react';
 import { useAuth } from '../contexts/AuthContext';
 import { useNavigate } from 'react-router-dom'; // Import useNavigate
+import NotificationsButton from './NotificationsButton';
 
 const Header: React.FC = () => {
   const { user: authUser, isLoading: isAuthLoading } = useAuth();
@@ -98,6 +99,7 @@ const Header: React.FC = () => {
       </form>
 
       <div className="flex items-center gap-1 flex-shrink-0">
+        <NotificationsButton />
         <div className="text-lg sm:text-2xl">🔥</div>
         <Badge variant="secondary" className="text-xs px-1 sm:px-2 py-1 gradient-gold-bg text-black">
           {isAuthLoading ? '...' : authUser?.streak || 0}
@@ -0,0 +1,69 @@
+import React from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { ShieldCheck } from 'lucide-react';
+import { Card, CardContent } from '@/components/ui/card';
+import { productApi } from '@/lib/api';
+import { ClassificationReason, GlutenClassification } from '../types';
+
+interface IngredientAnalysisProps {
+  barcode: string;
+}
+
+const CATEGORY_STYLES: Record<ClassificationReason['category'], string> = {
+  'gluten': 'bg-red-100 text-red-800 border-red-200',
+  'likely-gluten': 'bg-orange-100 text-orange-800 border-orange-200',
+  'ambiguous': 'bg-yellow-100 text-yellow-800 border-yellow-200',
+  'may-contain': 'bg-yellow-100 text-yellow-800 border-yellow-200',
+  'safe': 'bg-green-100 text-green-800 border-green-200',
+  'claim': 'bg-green-100 text-green-800 border-green-200',
+  'unknown': 'bg-gray-100 text-gray-800 border-gray-200',
+};
+
+const fetchClassification = async (barcode: string): Promise<GlutenClassification> => {
+  const response = await productApi.getClassification(barcode);
+  if (response.error) {
+    throw new Error(response.error);
+  }
+  return response.data;
+};
+
+// Explains the rule-based verdict ingredient by ingredient
+const IngredientAnalysis: React.FC<IngredientAnalysisProps> = ({ barcode }) => {
+  const { data: classification, isLoading, error } = useQuery<GlutenClassification, Error>({
+    queryKey: ['classification', barcode],
+    queryFn: () => fetchClassification(barcode),
+    enabled: !!barcode,
+  });
+
+  if (isLoading || error || !classification) {
+    return null; // The status card already covers the verdict; this section is supplementary
+  }
+
+  return (
+    <Card className="mx-4 mb-4 bg-card border-border">
+      <CardContent className="p-4">
+        <h3 className="font-semibold text-foreground mb-1 flex items-center">
+          <ShieldCheck className="w-4 h-4 mr-2" />
+          Ingredient Analysis
+        </h3>
+        <p className="text-xs text-muted-foreground mb-3">
+          Automatic check against our ingredient rules · {classification.confidence} confidence
+        </p>
+        {classification.reasons.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No gluten sources found in the ingredient list.</p>
+        ) : (
+          <ul className="space-y-2">
+            {classification.reasons.map((finding, index) => (
+              <li key={`${finding.term}-${index}`} className={`text-sm border rounded-md p-2 ${CATEGORY_STYLES[finding.category]}`}>
+                {finding.ingredient && <span className="font-medium capitalize">{finding.ingredient}: </span>}
+                {finding.reason}
+              </li>
+            ))}
+          </ul>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default IngredientAnalysis;
@@ -0,0 +1,108 @@
+import React, { useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { useNavigate } from 'react-router-dom';
+import { Card, CardContent } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { symptomApi } from '@/lib/api';
+import { useAuth } from '../contexts/AuthContext';
+import { useSymptomCatalog } from '@/hooks/useSymptomCatalog';
+import { SymptomTrigger, TriggerAnalysis } from '../types';
+
+// How long after a scan a symptom still counts, offered as presets
+const WINDOW_OPTIONS = [6, 24, 48];
+
+const CONFIDENCE_STYLES: Record<SymptomTrigger['confidence'], string> = {
+  high: 'bg-red-100 text-red-800 border-red-200',
+  medium: 'bg-orange-100 text-orange-800 border-orange-200',
+  low: 'bg-gray-100 text-gray-800 border-gray-200',
+};
+
+const fetchTriggers = async (token: string, windowHours: number): Promise<TriggerAnalysis> => {
+  const response = await symptomApi.getTriggers(token, windowHours);
+  if (response.error) {
+    throw new Error(response.error);
+  }
+  return response.data;
+};
+
+// Products and ingredients the user's symptoms tend to follow, from their own scan history
+const LikelyTriggersCard: React.FC = () => {
+  const { token } = useAuth();
+  const navigate = useNavigate();
+  const { getSymptom } = useSymptomCatalog();
+  const [windowHours, setWindowHours] = useState(24);
+
+  const { data: analysis, isLoading, error } = useQuery<TriggerAnalysis, Error>({
+    queryKey: ['symptomTriggers', windowHours],
+    queryFn: () => fetchTriggers(token as string, windowHours),
+    enabled: !!token,
+  });
+
+  const triggers = analysis ? [...analysis.products, ...analysis.ingredients.slice(0, 3)] : [];
+
+  const describeSymptoms = (trigger: SymptomTrigger) =>
+    trigger.topSymptoms.map(symptom => getSymptom(symptom.symptomId)?.name ?? symptom.symptomId).join(', ');
+
+  return (
+    <Card className="bg-card border-border">
+      <CardContent className="p-3 sm:p-4">
+        <div className="flex items-center justify-between mb-3 sm:mb-4">
+          <h3 className="text-sm sm:text-base font-semibold text-readable">Likely Triggers</h3>
+          <div className="flex gap-1">
+            {WINDOW_OPTIONS.map(hours => (
+              <Button
+                key={hours}
+                size="sm"
+                variant={windowHours === hours ? 'default' : 'ghost'}
+                className="text-xs px-2 h-7"
+                onClick={() => setWindowHours(hours)}
+              >
+                {hours}h
+              </Button>
+            ))}
+          </div>
+        </div>
+
+        {isLoading && <p className="text-xs text-readable-muted">Analysing your history...</p>}
+        {error && <p className="text-xs text-red-500">Could not analyse your history.</p>}
+        {analysis && triggers.length === 0 && (
+          <p className="text-xs text-readable-muted">
+            No clear triggers yet. Keep scanning what you eat and reporting symptoms; patterns show up after a few repeats.
+          </p>
+        )}
+        {analysis && triggers.length > 0 && (
+          <div className="space-y-2">
+            {triggers.map(trigger => (
+              <div
+                key={trigger.barcode ?? `ingredient-${trigger.ingredient}`}
+                className={`flex items-start justify-between gap-2 p-2 rounded-lg bg-background border border-border ${trigger.barcode ? 'cursor-pointer hover:bg-accent' : ''}`}
+                onClick={trigger.barcode ? () => navigate(`/product/${trigger.barcode}`) : undefined}
+              >
+                <div className="min-w-0">
+                  <div className="text-sm font-medium text-readable truncate">
+                    {trigger.barcode ? (trigger.name || trigger.barcode) : `Ingredient: ${trigger.ingredient}`}
+                  </div>
+                  <div className="text-xs text-readable-muted">
+                    Symptoms after {trigger.followed} of {trigger.exposures} times · {trigger.relativeRisk}× your usual risk
+                  </div>
+                  {trigger.topSymptoms.length > 0 && (
+                    <div className="text-xs text-readable-muted truncate">{describeSymptoms(trigger)}</div>
+                  )}
+                </div>
+                <Badge variant="outline" className={`text-xs capitalize flex-shrink-0 ${CONFIDENCE_STYLES[trigger.confidence]}`}>
+                  {trigger.confidence}
+                </Badge>
+              </div>
+            ))}
+            <p className="text-xs text-readable-muted">
+              Based on {analysis.scans} scans. Patterns are not a diagnosis; talk to your doctor about suspected triggers.
+            </p>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default LikelyTriggersCard;
\ No newline at end of file
@@ -0,0 +1,65 @@
+import React, { useEffect, useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { Input } from '@/components/ui/input';
+import { authApi } from '@/lib/api';
+import { mentionMarkup } from '@/lib/textEntities';
+import { User } from '../types';
+
+interface MentionPickerProps {
+  onPick: (markup: string) => void;
+  disabled?: boolean;
+}
+
+// Searches people by name and hands back the mention to insert into the text
+const MentionPicker: React.FC<MentionPickerProps> = ({ onPick, disabled }) => {
+  const [term, setTerm] = useState('');
+  const [query, setQuery] = useState('');
+
+  // Waits for a pause in typing before searching
+  useEffect(() => {
+    const timeout = setTimeout(() => setQuery(term.trim()), 300);
+    return () => clearTimeout(timeout);
+  }, [term]);
+
+  const { data: results = [], isFetching } = useQuery({
+    queryKey: ['mentionSearch', query],
+    queryFn: async () => {
+      const response = await authApi.searchUsers(query);
+      if (response.error) throw new Error(response.error);
+      return (response.data?.users || []) as User[];
+    },
+    enabled: query.length >= 2,
+  });
+
+  const pick = (user: User) => {
+    onPick(mentionMarkup(user));
+    setTerm('');
+    setQuery('');
+  };
+
+  return (
+    <div className="relative">
+      <Input
+        placeholder="Mention someone..."
+        value={term}
+        onChange={(e) => setTerm(e.target.value)}
+        disabled={disabled}
+        className="h-8 text-sm"
+      />
+      {query.length >= 2 && (results.length > 0 || !isFetching) && (
+        <ul className="absolute z-10 mt-1 w-full bg-background border border-border rounded-md shadow-md max-h-48 overflow-y-auto">
+          {results.length === 0 && <li className="px-3 py-2 text-xs text-muted-foreground">No people found</li>}
+          {results.map(user => (
+            <li key={user.id}>
+              <button type="button" className="w-full text-left px-3 py-2 text-sm hover:bg-muted" onClick={() => pick(user)}>
+                {user.name}
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default MentionPicker;
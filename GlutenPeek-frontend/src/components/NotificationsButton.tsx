@@ -0,0 +1,116 @@
+import React, { useState } from 'react';
+import { useInfiniteQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { Link } from 'react-router-dom';
+import { formatDistanceToNow } from 'date-fns';
+import { Bell } from 'lucide-react';
+import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { authApi } from '@/lib/api';
+import { useAuth } from '../contexts/AuthContext';
+import { Notification, NotificationsResponse } from '../types';
+
+const describe = (notification: Notification): string =>
+  notification.commentId ? 'mentioned you in a comment' : 'mentioned you in a post';
+
+// Bell with the unread count; opening it lists the notifications and marks them read
+const NotificationsButton: React.FC = () => {
+  const { token } = useAuth();
+  const queryClient = useQueryClient();
+  const [open, setOpen] = useState(false);
+
+  const {
+    data,
+    fetchNextPage,
+    hasNextPage,
+    isFetchingNextPage,
+    isLoading,
+    error,
+  } = useInfiniteQuery<NotificationsResponse, Error>({
+    queryKey: ['notifications'],
+    queryFn: async ({ pageParam }) => {
+      const response = await authApi.getMyNotifications(token!, pageParam as string | undefined);
+      if (response.error) throw new Error(response.error);
+      return response.data!;
+    },
+    initialPageParam: undefined,
+    getNextPageParam: (lastPage) => lastPage.nextCursor || undefined,
+    enabled: !!token,
+    refetchInterval: 60 * 1000,
+  });
+
+  const markRead = useMutation({
+    mutationFn: async () => {
+      const response = await authApi.markNotificationsRead(token!);
+      if (response.error) throw new Error(response.error);
+      return response.data!;
+    },
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ['notifications'] }),
+  });
+
+  if (!token) return null;
+
+  const unreadCount = data?.pages[0]?.unreadCount || 0;
+  const notifications = data?.pages.flatMap(page => page.notifications) ?? [];
+
+  const openList = () => {
+    setOpen(true);
+    if (unreadCount > 0) markRead.mutate();
+  };
+
+  return (
+    <>
+      <Button variant="ghost" size="icon" className="relative" onClick={openList} aria-label="Notifications">
+        <Bell className="w-5 h-5" />
+        {unreadCount > 0 && (
+          <span className="absolute -top-0.5 -right-0.5 min-w-4 h-4 px-1 rounded-full bg-red-600 text-white text-[10px] leading-4 text-center">
+            {unreadCount > 99 ? '99+' : unreadCount}
+          </span>
+        )}
+      </Button>
+      <Dialog open={open} onOpenChange={setOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Notifications</DialogTitle>
+          </DialogHeader>
+          {isLoading && <p className="text-sm text-muted-foreground">Loading...</p>}
+          {error && <p className="text-sm text-red-600">{error.message}</p>}
+          {!isLoading && !error && notifications.length === 0 && (
+            <p className="text-sm text-muted-foreground">Nothing yet. You'll see here when someone mentions you.</p>
+          )}
+          <ul className="space-y-3 max-h-[60vh] overflow-y-auto">
+            {notifications.map(notification => (
+              <li key={notification.id} className="flex items-center gap-3">
+                <Avatar className="w-8 h-8">
+                  <AvatarImage src={notification.actor?.pfp} />
+                  <AvatarFallback className="gradient-bg text-white text-xs">{notification.actor?.name?.charAt(0) || 'U'}</AvatarFallback>
+                </Avatar>
+                <div className="flex-1 text-sm">
+                  {notification.actor ? (
+                    <Link to={`/profile/${notification.actor.id}`} className="font-semibold hover:underline" onClick={() => setOpen(false)}>
+                      {notification.actor.name}
+                    </Link>
+                  ) : (
+                    <span className="font-semibold">Someone</span>
+                  )}{' '}
+                  {describe(notification)}
+                  <div className="text-xs text-muted-foreground">
+                    {formatDistanceToNow(new Date(notification.createdAt), { addSuffix: true })}
+                  </div>
+                </div>
+                {!notification.readAt && <span className="w-2 h-2 rounded-full bg-primary" />}
+              </li>
+            ))}
+          </ul>
+          {hasNextPage && (
+            <Button variant="ghost" size="sm" className="h-7 text-xs" onClick={() => fetchNextPage()} disabled={isFetchingNextPage}>
+              {isFetchingNextPage ? 'Loading...' : 'Show more'}
+            </Button>
+          )}
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+};
+
+export default NotificationsButton;
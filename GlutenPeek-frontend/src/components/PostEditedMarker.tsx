@@ -0,0 +1,60 @@
+import React, { useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { format } from 'date-fns';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { postApi } from '@/lib/api';
+import RichText from './RichText';
+
+interface PostEditedMarkerProps {
+  postId: string;
+  editedAt?: string;
+}
+
+// "Edited" label on a post; opens the earlier versions
+const PostEditedMarker: React.FC<PostEditedMarkerProps> = ({ postId, editedAt }) => {
+  const [open, setOpen] = useState(false);
+
+  const { data, isLoading, error } = useQuery({
+    queryKey: ['postEdits', postId, editedAt],
+    queryFn: async () => {
+      const response = await postApi.getPostEdits(postId);
+      if (response.error) throw new Error(response.error);
+      return response.data!;
+    },
+    enabled: open,
+  });
+
+  if (!editedAt) return null;
+
+  return (
+    <>
+      <button className="hover:underline" onClick={() => setOpen(true)} title={`Edited ${format(new Date(editedAt), 'd MMM yyyy, HH:mm')}`}>
+        · edited
+      </button>
+      <Dialog open={open} onOpenChange={setOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Edit History</DialogTitle>
+          </DialogHeader>
+          {isLoading && <p className="text-sm text-muted-foreground">Loading...</p>}
+          {error && <p className="text-sm text-red-600">{(error as Error).message}</p>}
+          <ul className="space-y-3 max-h-[60vh] overflow-y-auto">
+            {data?.edits.map(edit => (
+              <li key={edit.editedAt} className="border-b border-border pb-3">
+                <div className="text-xs text-muted-foreground mb-1">Replaced {format(new Date(edit.editedAt), 'd MMM yyyy, HH:mm')}</div>
+                <p className="text-sm whitespace-pre-wrap"><RichText text={edit.postText} /></p>
+                {edit.mediaUrls.length > 0 && (
+                  <div className="flex flex-wrap gap-2 mt-2">
+                    {edit.mediaUrls.map(url => <img key={url} src={url} alt="" className="w-16 h-16 object-cover rounded" />)}
+                  </div>
+                )}
+              </li>
+            ))}
+          </ul>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+};
+
+export default PostEditedMarker;
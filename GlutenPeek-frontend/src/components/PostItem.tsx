@@ -3,6 +3,12 @@ import { Post } from '../types'; // Adjust path if your types are elsewhere
 import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
 import { Card, CardContent } from '@/components/ui/card';
 import { Heart, MessageCircle } from 'lucide-react'; // For basic stat display
+import ResponsiveImage from './ResponsiveImage';
+import ReportPostButton from './ReportPostButton';
+import PostOwnerActions from './PostOwnerActions';
+import PostEditedMarker from './PostEditedMarker';
+import ProductTagCard from './ProductTagCard';
+import RichText from './RichText';
 
 interface PostItemProps {
   post: Post;
@@ -33,21 +39,25 @@ const PostItem: React.FC<PostItemProps> = ({ post }) => {
           </Avatar>
           <div className="flex-1">
             <div className="font-semibold text-sm">{post.user?.name || 'Unknown User'}</div>
-            <div className="text-xs text-muted-foreground">{formatTimeAgo(post.createdAt)}</div>
+            <div className="text-xs text-muted-foreground">
+              {formatTimeAgo(post.createdAt)} <PostEditedMarker postId={post.id} editedAt={post.editedAt} />
+            </div>
           </div>
         </div>
 
         {/* Post Content */}
         <p className="text-foreground mb-3 leading-relaxed whitespace-pre-wrap">
-          {post.postText}
+          <RichText text={post.postText} />
         </p>
 
         {/* Post Media (Simplified: shows first image if available) */}
         {post.mediaUrls && post.mediaUrls.length > 0 && (
           <div className="mb-3">
-            <img
+            <ResponsiveImage
               src={post.mediaUrls[0]}
+              image={post.media?.find(image => image.url === post.mediaUrls![0])}
               alt="Post media"
+              sizes="(min-width: 768px) 600px, 100vw"
               className="w-full rounded-lg object-cover max-h-64 border" // Added border
             />
             {post.mediaUrls.length > 1 && (
@@ -58,6 +68,15 @@ const PostItem: React.FC<PostItemProps> = ({ post }) => {
           </div>
         )}
 
+        {/* Products the post is about */}
+        {post.products && post.products.length > 0 && (
+          <div className="mb-3 space-y-2">
+            {post.products.map(product => (
+              <ProductTagCard key={product.barcode} product={product} />
+            ))}
+          </div>
+        )}
+
         {/* Post Stats (Read-only) */}
         <div className="flex items-center space-x-4 text-muted-foreground text-sm border-t pt-3">
           <div className="flex items-center">
@@ -66,7 +85,11 @@ const PostItem: React.FC<PostItemProps> = ({ post }) => {
           </div>
           <div className="flex items-center">
             <MessageCircle className="w-4 h-4 mr-1" />
-            <span>{Array.isArray(post.comments) ? post.comments.length : 0}</span>
+            <span>{post.commentCount ?? 0}</span>
+          </div>
+          <div className="ml-auto flex items-center space-x-3">
+            <PostOwnerActions post={post} />
+            <ReportPostButton postId={post.id} />
           </div>
         </div>
       </CardContent>
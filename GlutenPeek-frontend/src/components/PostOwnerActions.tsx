@@ -0,0 +1,122 @@
+import React, { useState } from 'react';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { Pencil, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Textarea } from '@/components/ui/textarea';
+import { toast } from '@/hooks/use-toast';
+import { postApi } from '@/lib/api';
+import { useAuth } from '../contexts/AuthContext';
+import ImageUpload from './ui/image-upload';
+import ProductTagPicker from './ProductTagPicker';
+import MentionPicker from './MentionPicker';
+import { appendMention } from '@/lib/textEntities';
+import { Post, ProductTag } from '../types';
+
+// Only the products the author picked; the rest are found in the text again on save
+const pickedProducts = (post: Pick<Post, 'products' | 'pickedBarcodes'>): ProductTag[] =>
+  (post.products || []).filter(product => !post.pickedBarcodes || post.pickedBarcodes.includes(product.barcode));
+
+interface PostOwnerActionsProps {
+  post: Pick<Post, 'id' | 'userId' | 'postText' | 'mediaUrls' | 'products' | 'pickedBarcodes'>;
+}
+
+// Edit and delete buttons, shown to the post's author only
+const PostOwnerActions: React.FC<PostOwnerActionsProps> = ({ post }) => {
+  const { user, token } = useAuth();
+  const queryClient = useQueryClient();
+  const [editing, setEditing] = useState(false);
+  const [confirmingDelete, setConfirmingDelete] = useState(false);
+  const [text, setText] = useState(post.postText);
+  const [images, setImages] = useState<string[]>(post.mediaUrls || []);
+  const [products, setProducts] = useState<ProductTag[]>(() => pickedProducts(post));
+
+  const refresh = () => {
+    queryClient.invalidateQueries({ queryKey: ['posts'] });
+    queryClient.invalidateQueries({ queryKey: ['userPosts'] });
+  };
+
+  const { mutate: savePost, isPending: isSaving } = useMutation({
+    mutationFn: async () => {
+      const response = await postApi.updatePost(post.id, { postText: text.trim(), mediaUrls: images, productBarcodes: products.map(product => product.barcode) }, token!);
+      if (response.error) throw new Error(response.error);
+      return response.data;
+    },
+    onSuccess: () => {
+      refresh();
+      setEditing(false);
+      toast({ title: "Post Updated" });
+    },
+    onError: (e: Error) => toast({ title: "Could Not Update Post", description: e.message, variant: "destructive" }),
+  });
+
+  const { mutate: deletePost, isPending: isDeleting } = useMutation({
+    mutationFn: async () => {
+      const response = await postApi.deletePost(post.id, token!);
+      if (response.error) throw new Error(response.error);
+    },
+    onSuccess: () => {
+      refresh();
+      setConfirmingDelete(false);
+      toast({ title: "Post Deleted" });
+    },
+    onError: (e: Error) => toast({ title: "Could Not Delete Post", description: e.message, variant: "destructive" }),
+  });
+
+  if (!token || !user || user.id !== post.userId) return null;
+
+  const openEditor = () => {
+    setText(post.postText);
+    setImages(post.mediaUrls || []);
+    setProducts(pickedProducts(post));
+    setEditing(true);
+  };
+
+  return (
+    <>
+      <Button variant="ghost" size="sm" onClick={openEditor} className="p-0 h-auto font-normal text-muted-foreground hover:text-foreground" title="Edit post">
+        <Pencil className="w-4 h-4" />
+      </Button>
+      <Button variant="ghost" size="sm" onClick={() => setConfirmingDelete(true)} className="p-0 h-auto font-normal text-muted-foreground hover:text-red-600" title="Delete post">
+        <Trash2 className="w-4 h-4" />
+      </Button>
+
+      <Dialog open={editing} onOpenChange={setEditing}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Edit Post</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-3">
+            <Textarea value={text} onChange={(e) => setText(e.target.value)} className="min-h-[100px]" />
+            <ImageUpload images={images} onImagesChange={setImages} maxImages={5} purpose="post" buttonText="Add Images to Post" />
+            <ProductTagPicker value={products} onChange={setProducts} disabled={isSaving} />
+            <MentionPicker onPick={(markup) => setText(current => appendMention(current, markup))} disabled={isSaving} />
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setEditing(false)} disabled={isSaving}>Cancel</Button>
+            <Button onClick={() => savePost()} disabled={isSaving || !text.trim()}>
+              {isSaving ? 'Saving...' : 'Save'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={confirmingDelete} onOpenChange={setConfirmingDelete}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Delete Post?</DialogTitle>
+            <DialogDescription>The post, its comments and its images will be deleted for good.</DialogDescription>
+          </DialogHeader>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setConfirmingDelete(false)} disabled={isDeleting}>Cancel</Button>
+            <Button variant="destructive" onClick={() => deletePost()} disabled={isDeleting}>
+              {isDeleting ? 'Deleting...' : 'Delete'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+};
+
+export default PostOwnerActions;
@@ -0,0 +1,64 @@
+import React from 'react';
+import { useInfiniteQuery } from '@tanstack/react-query';
+import { MessagesSquare } from 'lucide-react';
+import { Card, CardContent } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { postApi } from '@/lib/api';
+import PostItem from './PostItem';
+import { PostsResponse } from '../types';
+
+interface ProductDiscussionProps {
+  barcode: string;
+}
+
+const fetchProductPosts = async (barcode: string, cursor?: string): Promise<PostsResponse> => {
+  const response = await postApi.getProductPosts(barcode, cursor);
+  if (response.error) {
+    throw new Error(response.error);
+  }
+  return response.data!;
+};
+
+// Community posts about a product, or with a comment about it
+const ProductDiscussion: React.FC<ProductDiscussionProps> = ({ barcode }) => {
+  const {
+    data,
+    fetchNextPage,
+    hasNextPage,
+    isFetchingNextPage,
+    isLoading,
+    error,
+  } = useInfiniteQuery<PostsResponse, Error>({
+    queryKey: ['productPosts', barcode],
+    queryFn: ({ pageParam }) => fetchProductPosts(barcode, pageParam as string | undefined),
+    initialPageParam: undefined,
+    getNextPageParam: (lastPage) => lastPage.nextCursor || undefined,
+    enabled: !!barcode,
+  });
+
+  const posts = data?.pages.flatMap(page => page.posts) ?? [];
+
+  return (
+    <Card className="mx-4 mb-4 bg-card border-border">
+      <CardContent className="p-4">
+        <div className="flex items-center gap-2 mb-3">
+          <MessagesSquare className="w-4 h-4 text-muted-foreground" />
+          <h3 className="font-semibold text-foreground">Community Discussion</h3>
+        </div>
+        {isLoading && <p className="text-sm text-muted-foreground">Loading posts...</p>}
+        {error && <p className="text-sm text-red-600">Could not load posts: {error.message}</p>}
+        {!isLoading && !error && posts.length === 0 && (
+          <p className="text-sm text-muted-foreground">No one has posted about this product yet.</p>
+        )}
+        {posts.map(post => <PostItem key={post.id} post={post} />)}
+        {hasNextPage && (
+          <Button variant="ghost" size="sm" className="h-7 text-xs" onClick={() => fetchNextPage()} disabled={isFetchingNextPage}>
+            {isFetchingNextPage ? 'Loading...' : 'Show more posts'}
+          </Button>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default ProductDiscussion;
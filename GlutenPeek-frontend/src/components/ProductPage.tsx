@@ -12,12 +12,31 @@ import { Input } from '@/components/ui/input'; // Added for completeness, though
 import { Textarea } from '@/components/ui/textarea'; // Added for completeness
 import { ArrowLeft, CheckCircle, XCircle, AlertTriangle, Flag, PackageSearch } from 'lucide-react';
 import { toast } from '@/hooks/use-toast';
-import { Product, StatusRef, Claim } from '../types'; // Import Claim type
+import { Product, StatusRef, Claim, ClaimReason, CreateClaimData } from '../types'; // Import Claim type
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'; // Import mutation hooks
 import { useAuth } from '../contexts/AuthContext'; // Import useAuth for token
 import ImageUpload from './ui/image-upload'; // Import ImageUpload
+import StatusHistoryTimeline from './StatusHistoryTimeline';
+import IngredientAnalysis from './IngredientAnalysis';
+import ResponsiveImage from './ResponsiveImage';
+import { useProductSymptomStats } from '@/hooks/useProductSymptomStats';
+import { CLAIM_REASON_LABELS } from '@/lib/utils';
+import { claimApi } from '@/lib/api';
+import ClaimVoteBar from './ClaimVoteBar';
+import ProductDiscussion from './ProductDiscussion';
 
 // Interface for props remains the same
+// Matches MAX_CLAIM_EVIDENCE on the backend
+const MAX_CLAIM_EVIDENCE = 5;
+
+const STATUS_LABELS: Record<number, string> = {
+  1: 'Contains Gluten',
+  2: 'Likely Contains Gluten',
+  3: 'May Contain Gluten',
+  4: 'Likely Gluten-Free',
+  5: 'Gluten-Free',
+};
+
 interface ProductPageProps {
   onBack: () => void;
   onReportSymptoms: (productId: string) => void;
@@ -31,9 +50,9 @@ const ProductPage: React.FC<ProductPageProps> = ({ onBack, onReportSymptoms, onV
 
   const [showReportForm, setShowReportForm] = useState(false);
   const [newStatus, setNewStatus] = useState(''); // This state is for the dropdown in the modal
+  const [reportReason, setReportReason] = useState<ClaimReason | ''>('');
   const [reportDescription, setReportDescription] = useState(''); // This is the 'explanation' for the claim
-  // const [imageProof, setImageProof] = useState<File | null>(null); // Replaced by mediaProofS3Url
-  const [mediaProofS3Url, setMediaProofS3Url] = useState<string | null>(null);
+  const [evidenceUrls, setEvidenceUrls] = useState<string[]>([]);
 
 
   const fetchProductByBarcode = async (barcode: string): Promise<Product> => {
@@ -48,13 +67,28 @@ const ProductPage: React.FC<ProductPageProps> = ({ onBack, onReportSymptoms, onV
     return response.json();
   };
 
-  const { data: product, isLoading, error } = useQuery<Product, Error>(
-    ['product', barcode],
-    () => fetchProductByBarcode(barcode as string),
-    {
-      enabled: !!barcode, // Only run query if barcode is available
-    }
-  );
+  const { data: product, isLoading, error } = useQuery<Product, Error>({
+    queryKey: ['product', barcode],
+    queryFn: () => fetchProductByBarcode(barcode as string),
+    enabled: !!barcode, // Only run query if barcode is available
+  });
+
+  // Claims come populated with the product, newest first
+  const claims = ((product?.claims ?? []).filter(claim => typeof claim === 'object') as Claim[])
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+  const claimIds = claims.map(claim => claim.id);
+
+  const { data: myClaimVotes } = useQuery({
+    queryKey: ['myClaimVotes', claimIds],
+    queryFn: async () => {
+      const response = await claimApi.getMyVotes(claimIds, token!);
+      if (response.error) throw new Error(response.error);
+      return response.data.votes;
+    },
+    enabled: !!token && claimIds.length > 0,
+  });
+
+  const { data: symptomStats } = useProductSymptomStats(barcode);
 
   // Updated getStatusInfo to work with StatusRef or string
   const getStatusInfo = (status?: StatusRef | string | number) => {
@@ -107,12 +141,6 @@ const ProductPage: React.FC<ProductPageProps> = ({ onBack, onReportSymptoms, onV
   // Local getSeverityBadgeColorClass is now removed. Centralized version will be used by SymptomDisplayBadge.
 
   // --- Create Claim API Function and Mutation ---
-  interface CreateClaimData {
-    productBarcode: string;
-    explanation: string;
-    mediaProofUrl?: string; // This will be undefined for now
-  }
-
   const createClaimApi = async (data: CreateClaimData): Promise<Claim> => {
     if (!token) throw new Error("Authentication token not found.");
 
@@ -127,58 +155,59 @@ const ProductPage: React.FC<ProductPageProps> = ({ onBack, onReportSymptoms, onV
 
     if (!response.ok) {
       const errorData = await response.json().catch(() => ({ message: 'Failed to submit claim and could not parse error response' }));
-      throw new Error(errorData.message || 'Failed to submit claim');
+      throw new Error(errorData.error || errorData.message || 'Failed to submit claim');
     }
     return response.json();
   };
 
-  const { mutate: createClaim, isLoading: isCreatingClaim } = useMutation(
-    createClaimApi,
-    {
-      onSuccess: () => {
-        toast({
-          title: "Claim Submitted",
-          description: "Your claim has been successfully submitted for review.",
-        });
-        if (barcode) {
-          queryClient.invalidateQueries(['product', barcode]); // Refetch product data (which might include claims)
-        }
-        queryClient.invalidateQueries(['claims']); // Invalidate a general claims query if one exists
-
-        // Reset modal form and close
-        setShowReportForm(false);
-        setNewStatus('');
-        setReportDescription('');
-        // setImageProof(null); // Old state
-        setMediaProofS3Url(null); // Reset S3 URL state
-      },
-      onError: (error: Error) => {
-        toast({
-          title: "Error Submitting Claim",
-          description: error.message || "An unexpected error occurred.",
-          variant: "destructive",
-        });
-      },
-    }
-  );
+  const { mutate: createClaim, isPending: isCreatingClaim } = useMutation({
+    mutationFn: createClaimApi,
+    onSuccess: () => {
+      toast({
+        title: "Claim Submitted",
+        description: "Your claim has been successfully submitted for review.",
+      });
+      if (barcode) {
+        queryClient.invalidateQueries({ queryKey: ['product', barcode] }); // Refetch product data (which might include claims)
+      }
+      queryClient.invalidateQueries({ queryKey: ['claims'] }); // Invalidate a general claims query if one exists
+
+      // Reset modal form and close
+      setShowReportForm(false);
+      setNewStatus('');
+      setReportReason('');
+      setReportDescription('');
+      setEvidenceUrls([]);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error Submitting Claim",
+        description: error.message || "An unexpected error occurred.",
+        variant: "destructive",
+      });
+    },
+  });
 
   const handleReportSubmit = () => {
     if (!reportDescription.trim()) {
       toast({ title: "Explanation Required", description: "Please provide an explanation for your report.", variant: "destructive" });
       return;
     }
+    if (!newStatus || !reportReason) {
+      toast({ title: "Status and Reason Required", description: "Please choose the correct status and why you think it is wrong.", variant: "destructive" });
+      return;
+    }
     if (!barcode) {
       toast({ title: "Product Barcode Missing", description: "Cannot submit a claim without a product barcode.", variant: "destructive" });
       return;
     }
 
-    // mediaProofUrl will be undefined for now. S3 upload is Phase 3.
-    // The `newStatus` from the modal is not directly part of the Claim schema as defined,
-    // but the `explanation` (reportDescription) is.
     createClaim({
       productBarcode: barcode,
       explanation: reportDescription,
-      mediaProofUrl: mediaProofS3Url || undefined, // Use S3 URL if available
+      proposedStatus: Number(newStatus) as StatusRef['level'],
+      reason: reportReason,
+      evidenceUrls,
     });
   };
 
@@ -270,7 +299,7 @@ const ProductPage: React.FC<ProductPageProps> = ({ onBack, onReportSymptoms, onV
         {/* Product Image */}
         <div className="w-full h-64 bg-muted flex items-center justify-center">
           {product.pictureUrl ? (
-            <img src={product.pictureUrl} alt={product.name} className="w-full h-full object-contain" />
+            <ResponsiveImage src={product.pictureUrl} image={product.picture} alt={product.name} sizes="100vw" className="w-full h-full object-contain" />
           ) : (
             <span className="text-6xl">📦</span>
           )}
@@ -327,47 +356,68 @@ const ProductPage: React.FC<ProductPageProps> = ({ onBack, onReportSymptoms, onV
           </CardContent>
         </Card>
 
-        {/* Community Symptoms - Placeholder/Simplified for now */}
-        {/* This section will need more specific data from the API (product.symptoms) */}
-        {/* For now, let's assume product.symptoms might be an array of SymptomRef or strings */}
+        <IngredientAnalysis barcode={barcode as string} />
+
+        <StatusHistoryTimeline barcode={barcode as string} />
+
+        {/* Community claims about this product's status, with votes */}
+        {claims.length > 0 && (
+          <Card className="mx-4 mb-4 bg-card border-border">
+            <CardContent className="p-4">
+              <h3 className="font-semibold text-foreground mb-3">Community Reports</h3>
+              <div className="space-y-4">
+                {claims.map(claim => (
+                  <div key={claim.id} className="border-b border-border last:border-0 pb-3 last:pb-0">
+                    <div className="flex flex-wrap gap-2 mb-1">
+                      {claim.proposedStatus && (
+                        <Badge variant="outline">Proposed: {STATUS_LABELS[claim.proposedStatus]}</Badge>
+                      )}
+                      {claim.reason && <Badge variant="secondary">{CLAIM_REASON_LABELS[claim.reason]}</Badge>}
+                      <Badge variant="secondary" className="capitalize">{claim.state.replace('_', ' ')}</Badge>
+                    </div>
+                    <p className="text-sm text-foreground mb-1">{claim.explanation}</p>
+                    <ClaimVoteBar claim={claim} myVote={myClaimVotes?.[claim.id] ?? null} />
+                  </div>
+                ))}
+              </div>
+            </CardContent>
+          </Card>
+        )}
+
+        <ProductDiscussion barcode={barcode as string} />
+
+        {/* Community Symptoms - anonymized, only shown once enough different users have reported */}
         <Card className="mx-4 mb-4 bg-card border-border">
           <CardContent className="p-4">
             <h3 className="font-semibold text-foreground mb-3">Symptoms Reported by Others</h3>
-            {product.symptoms && Array.isArray(product.symptoms) && product.symptoms.length > 0 ? (
+            {symptomStats && !symptomStats.suppressed && symptomStats.symptoms.length > 0 ? (
               <>
                 <div className="flex flex-wrap gap-2 mb-3">
-                  {product.symptoms.map((symptomData: any, index: number) => {
-                    // Adapt to the expected structure of product.symptoms.
-                    // If it's just SymptomRef[], then count and severity will be undefined.
-                    // If it's the richer structure { name, count, averageSeverity, maxSeverity }, it will be used.
-                    const name = typeof symptomData === 'string' ? symptomData : symptomData.name;
-                    const count = typeof symptomData === 'object' && symptomData.count ? symptomData.count : undefined;
-                    const severity = typeof symptomData === 'object' ? (symptomData.averageSeverity ?? symptomData.maxSeverity) : undefined;
-
-                    // Fallback key for safety, prefer id or name if available
-                    const key = (typeof symptomData === 'object' && symptomData.id) ? symptomData.id : name + index;
-
-                    return (
-                      <SymptomDisplayBadge
-                        key={key}
-                        name={name}
-                        count={count}
-                        severity={severity}
-                      />
-                    );
-                  })}
+                  {symptomStats.symptoms.slice(0, 6).map((symptom) => (
+                    <SymptomDisplayBadge
+                      key={symptom.symptomId}
+                      symptomId={symptom.symptomId}
+                      count={symptom.reporters}
+                      severity={Math.round(symptom.averageSeverity)}
+                    />
+                  ))}
                 </div>
-                {/* The View All button might need to be re-evaluated if the number of unique symptoms is small */}
-                {/* For now, keeping it based on total entries if that's how product.symptoms is structured */}
+                <p className="text-xs text-muted-foreground mb-3">
+                  From {symptomStats.reporters} people who ate this product
+                </p>
                 <Button 
                   variant="outline" 
                   size="sm" 
                   className="gradient-gold-bg text-black border-0"
-                  onClick={() => onViewAllSymptoms(product.id)}
+                  onClick={() => onViewAllSymptoms(product.barcode)}
                 >
-                  View All ({product.symptoms.length})
+                  View All ({symptomStats.symptoms.length})
                 </Button>
               </>
+            ) : symptomStats && symptomStats.suppressed && symptomStats.hiddenSymptoms > 0 ? (
+              <p className="text-sm text-muted-foreground">
+                A few symptoms have been reported. They will be shown once at least {symptomStats.minReporters} people have reported, to keep reports anonymous.
+              </p>
             ) : (
               <p className="text-sm text-muted-foreground">No symptoms reported by the community yet.</p>
             )}
@@ -435,14 +485,30 @@ const ProductPage: React.FC<ProductPageProps> = ({ onBack, onReportSymptoms, onV
 
                 <div>
                   <Label className="text-sm font-medium text-foreground mb-2 block">
-                    Upload Evidence (Optional)
+                    Reason
+                  </Label>
+                  <select
+                    value={reportReason}
+                    onChange={(e) => setReportReason(e.target.value as ClaimReason | '')}
+                    className="w-full p-2 border border-border rounded-md bg-background text-foreground"
+                  >
+                    <option value="">Select a reason</option>
+                    {(Object.keys(CLAIM_REASON_LABELS) as ClaimReason[]).map(reason => (
+                      <option key={reason} value={reason}>{CLAIM_REASON_LABELS[reason]}</option>
+                    ))}
+                  </select>
+                </div>
+
+                <div>
+                  <Label className="text-sm font-medium text-foreground mb-2 block">
+                    Upload Evidence (Optional, up to {MAX_CLAIM_EVIDENCE} images)
                   </Label>
                   <ImageUpload
-                    images={mediaProofS3Url ? [mediaProofS3Url] : []}
-                    onImagesChange={(urls) => setMediaProofS3Url(urls[0] || null)}
-                    maxImages={1}
-                    pathPrefix="claims/"
-                    buttonText="Upload Proof Image"
+                    images={evidenceUrls}
+                    onImagesChange={setEvidenceUrls}
+                    maxImages={MAX_CLAIM_EVIDENCE}
+                    purpose="claim"
+                    buttonText="Upload Proof Images"
                   />
                 </div>
 
@@ -463,7 +529,7 @@ const ProductPage: React.FC<ProductPageProps> = ({ onBack, onReportSymptoms, onV
                   <Button 
                     onClick={handleReportSubmit}
                     className="flex-1 gradient-bg text-white"
-                    disabled={isCreatingClaim || !reportDescription.trim()}
+                    disabled={isCreatingClaim || !reportDescription.trim() || !newStatus || !reportReason}
                   >
                     {isCreatingClaim ? 'Submitting...' : 'Submit Report'}
                   </Button>
@@ -472,9 +538,9 @@ const ProductPage: React.FC<ProductPageProps> = ({ onBack, onReportSymptoms, onV
                       if (isCreatingClaim) return; // Prevent closing if submitting
                       setShowReportForm(false);
                       setNewStatus('');
+                      setReportReason('');
                       setReportDescription('');
-                      // setImageProof(null); // Old state
-                      setMediaProofS3Url(null); // Reset S3 URL state
+                      setEvidenceUrls([]);
                     }}
                     variant="outline"
                     className="flex-1"
@@ -0,0 +1,102 @@
+import React, { useState } from 'react';
+import { AlertTriangle } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { ExtractedProduct, ProductDraft } from '../types';
+
+interface ProductReviewFormProps {
+  extraction: ExtractedProduct;
+  isSaving: boolean;
+  onSave: (draft: ProductDraft) => void;
+  onCancel: () => void;
+}
+
+// Below this the AI reading is shown with a warning to check it carefully
+const LOW_CONFIDENCE = 0.6;
+
+// Lists are edited one entry per line
+const toLines = (items: string[]) => items.join('\n');
+const fromLines = (text: string) => text.split('\n').map(line => line.trim()).filter(Boolean);
+
+// Lets the contributor check and correct AI-extracted label data before the product is saved
+const ProductReviewForm: React.FC<ProductReviewFormProps> = ({ extraction, isSaving, onSave, onCancel }) => {
+  const [name, setName] = useState(extraction.name);
+  const [brand, setBrand] = useState(extraction.brand || '');
+  const [ingredients, setIngredients] = useState(toLines(extraction.ingredients));
+  const [allergens, setAllergens] = useState(toLines(extraction.allergens));
+  const [mayContain, setMayContain] = useState(toLines(extraction.mayContain));
+  const [certifications, setCertifications] = useState(toLines(extraction.certifications));
+
+  const canSave = name.trim().length > 0 && fromLines(ingredients).length > 0 && !isSaving;
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!canSave) return;
+    onSave({
+      name: name.trim(),
+      brand: brand.trim() || null,
+      ingredients: fromLines(ingredients),
+      allergens: fromLines(allergens),
+      mayContain: fromLines(mayContain),
+      certifications: fromLines(certifications),
+      language: extraction.language,
+    });
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-3">
+      {(extraction.confidence < LOW_CONFIDENCE || extraction.repairs.length > 0) && (
+        <div className="flex items-start text-sm bg-yellow-50 border border-yellow-200 text-yellow-800 rounded-md p-2">
+          <AlertTriangle className="w-4 h-4 mr-2 mt-0.5 flex-shrink-0" />
+          <span>
+            The AI wasn't sure about some of this label ({Math.round(extraction.confidence * 100)}% confidence).
+            Please compare it with the package before saving.
+          </span>
+        </div>
+      )}
+
+      <div className="space-y-1">
+        <Label htmlFor="review-name">Product name</Label>
+        <Input id="review-name" value={name} onChange={(e) => setName(e.target.value)} required />
+      </div>
+
+      <div className="space-y-1">
+        <Label htmlFor="review-brand">Brand</Label>
+        <Input id="review-brand" value={brand} onChange={(e) => setBrand(e.target.value)} />
+      </div>
+
+      <div className="space-y-1">
+        <Label htmlFor="review-ingredients">Ingredients (one per line)</Label>
+        <Textarea id="review-ingredients" value={ingredients} onChange={(e) => setIngredients(e.target.value)} rows={5} />
+      </div>
+
+      <div className="space-y-1">
+        <Label htmlFor="review-allergens">Allergen statements</Label>
+        <Textarea id="review-allergens" value={allergens} onChange={(e) => setAllergens(e.target.value)} rows={2} />
+      </div>
+
+      <div className="space-y-1">
+        <Label htmlFor="review-may-contain">"May contain" warnings</Label>
+        <Textarea id="review-may-contain" value={mayContain} onChange={(e) => setMayContain(e.target.value)} rows={2} />
+      </div>
+
+      <div className="space-y-1">
+        <Label htmlFor="review-certifications">Certifications</Label>
+        <Textarea id="review-certifications" value={certifications} onChange={(e) => setCertifications(e.target.value)} rows={2} />
+      </div>
+
+      <div className="flex space-x-2 pt-1">
+        <Button type="button" variant="outline" className="flex-1" onClick={onCancel} disabled={isSaving}>
+          Cancel
+        </Button>
+        <Button type="submit" className="flex-1 gradient-bg text-white" disabled={!canSave}>
+          {isSaving ? 'Saving...' : 'Save Product'}
+        </Button>
+      </div>
+    </form>
+  );
+};
+
+export default ProductReviewForm;
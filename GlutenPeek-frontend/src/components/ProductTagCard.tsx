@@ -0,0 +1,54 @@
+import React from 'react';
+import { Link } from 'react-router-dom';
+import { PackageSearch } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { ProductTag } from '../types';
+
+const STATUS_LABELS: Record<number, string> = {
+  1: 'Contains Gluten',
+  2: 'Likely Contains Gluten',
+  3: 'May Contain Gluten',
+  4: 'Likely Gluten-Free',
+  5: 'Gluten-Free',
+};
+
+const statusColor = (status?: number) => {
+  if (!status) return 'bg-muted text-muted-foreground';
+  if (status >= 4) return 'bg-green-100 text-green-800';
+  if (status === 3) return 'bg-yellow-100 text-yellow-800';
+  return 'bg-red-100 text-red-800';
+};
+
+interface ProductTagCardProps {
+  product: ProductTag;
+  className?: string;
+}
+
+// A product a post or comment is about, with its current gluten status
+const ProductTagCard: React.FC<ProductTagCardProps> = ({ product, className }) => {
+  const status = product.status?.status;
+
+  return (
+    <Link
+      to={`/product/${product.barcode}`}
+      className={cn("flex items-center gap-3 p-2 border border-border rounded-lg hover:bg-muted/50 transition-colors", className)}
+    >
+      {product.pictureUrl ? (
+        <img src={product.pictureUrl} alt={product.name} className="w-10 h-10 rounded object-cover" />
+      ) : (
+        <div className="w-10 h-10 rounded bg-muted flex items-center justify-center">
+          <PackageSearch className="w-5 h-5 text-muted-foreground" />
+        </div>
+      )}
+      <div className="flex-1 min-w-0">
+        <div className="text-sm font-medium text-foreground truncate">{product.name}</div>
+        {product.brand && <div className="text-xs text-muted-foreground truncate">{product.brand}</div>}
+      </div>
+      <span className={cn("text-xs px-2 py-0.5 rounded-full whitespace-nowrap", statusColor(status))}>
+        {status ? STATUS_LABELS[status] : 'No status yet'}
+      </span>
+    </Link>
+  );
+};
+
+export default ProductTagCard;
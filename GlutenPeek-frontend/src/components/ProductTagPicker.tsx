@@ -0,0 +1,95 @@
+import React, { useEffect, useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { PackageSearch, X } from 'lucide-react';
+import { Input } from '@/components/ui/input';
+import { productApi } from '@/lib/api';
+import { Product, ProductTag } from '../types';
+
+// Backend: MAX_TAGGED_PRODUCTS in utils/productTags.js
+const MAX_TAGGED_PRODUCTS = 5;
+
+interface ProductTagPickerProps {
+  value: ProductTag[];
+  onChange: (products: ProductTag[]) => void;
+  disabled?: boolean;
+}
+
+// Searches products by name and collects the ones a post or comment is about
+const ProductTagPicker: React.FC<ProductTagPickerProps> = ({ value, onChange, disabled }) => {
+  const [term, setTerm] = useState('');
+  const [query, setQuery] = useState('');
+
+  // Waits for a pause in typing before searching
+  useEffect(() => {
+    const timeout = setTimeout(() => setQuery(term.trim()), 300);
+    return () => clearTimeout(timeout);
+  }, [term]);
+
+  const { data: results = [], isFetching } = useQuery({
+    queryKey: ['productTagSearch', query],
+    queryFn: async () => {
+      const response = await productApi.searchProducts(query, undefined, 5);
+      if (response.error) throw new Error(response.error);
+      return (response.data?.products || []) as Product[];
+    },
+    enabled: query.length >= 2,
+  });
+
+  const full = value.length >= MAX_TAGGED_PRODUCTS;
+  const choices = results.filter(product => !value.some(tag => tag.barcode === product.barcode));
+
+  const add = (product: Product) => {
+    onChange([...value, { id: product.id, barcode: product.barcode, name: product.name, brand: product.brand, pictureUrl: product.pictureUrl }]);
+    setTerm('');
+    setQuery('');
+  };
+
+  return (
+    <div className="space-y-2">
+      {value.length > 0 && (
+        <div className="flex flex-wrap gap-2">
+          {value.map(product => (
+            <span key={product.barcode} className="flex items-center gap-1 text-xs px-2 py-1 rounded-full bg-muted text-foreground">
+              <PackageSearch className="w-3 h-3" />
+              {product.name}
+              <button
+                type="button"
+                onClick={() => onChange(value.filter(tag => tag.barcode !== product.barcode))}
+                disabled={disabled}
+                aria-label={`Remove ${product.name}`}
+              >
+                <X className="w-3 h-3" />
+              </button>
+            </span>
+          ))}
+        </div>
+      )}
+      {!full && (
+        <div className="relative">
+          <Input
+            placeholder="Tag a product..."
+            value={term}
+            onChange={(e) => setTerm(e.target.value)}
+            disabled={disabled}
+            className="h-8 text-sm"
+          />
+          {query.length >= 2 && (choices.length > 0 || !isFetching) && (
+            <ul className="absolute z-10 mt-1 w-full bg-background border border-border rounded-md shadow-md max-h-48 overflow-y-auto">
+              {choices.length === 0 && <li className="px-3 py-2 text-xs text-muted-foreground">No products found</li>}
+              {choices.map(product => (
+                <li key={product.barcode}>
+                  <button type="button" className="w-full text-left px-3 py-2 text-sm hover:bg-muted" onClick={() => add(product)}>
+                    {product.name}
+                    {product.brand && <span className="text-xs text-muted-foreground ml-2">{product.brand}</span>}
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ProductTagPicker;
@@ -1,11 +1,15 @@
 
-import React from 'react';
+import React, { useState } from 'react';
 import { Card, CardContent } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
-import { ArrowLeft, AlertTriangle, CheckCircle, XCircle, PackageSearch } from 'lucide-react';
+import { Input } from '@/components/ui/input';
+import { ArrowLeft, AlertTriangle, CheckCircle, XCircle, PackageSearch, Pencil, Trash2 } from 'lucide-react';
+import { toast } from '@/hooks/use-toast';
 import { useAuth } from '../contexts/AuthContext';
-import { useQuery } from '@tanstack/react-query';
-import { Scan, Product, StatusRef } from '../types'; // Import global Scan and Product type
+import { useInfiniteQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { scanApi } from '@/lib/api';
+import { ScanHistoryItem, ScanHistoryResponse, ScanHistoryFilters, StatusRef } from '../types';
+import ResponsiveImage from './ResponsiveImage';
 
 // Props interface remains the same
 interface RecentScansPageProps {
@@ -14,19 +18,25 @@ interface RecentScansPageProps {
   onReportSymptoms: (productBarcode: string, scanId: string) => void; // Updated prop
 }
 
-const fetchRecentScans = async (token: string): Promise<Scan[]> => {
-  const response = await fetch('/api/scans', {
-    headers: {
-      Authorization: `Bearer ${token}`,
-    },
-  });
-  if (!response.ok) {
-    const errorData = await response.json().catch(() => ({ message: 'Failed to fetch recent scans and could not parse error response' }));
-    throw new Error(errorData.message || 'Failed to fetch recent scans');
+const PAGE_SIZE = 10;
+
+const fetchRecentScans = async (token: string, filters: ScanHistoryFilters): Promise<ScanHistoryResponse> => {
+  const response = await scanApi.getRecentScans(token, { ...filters, limit: PAGE_SIZE });
+  if (response.error) {
+    throw new Error(response.error || 'Failed to fetch recent scans');
   }
-  return response.json();
+  return response.data;
 };
 
+// Converts a datetime-local input value to an ISO string, keeping the user's local time
+const toIsoString = (localValue: string) => new Date(localValue).toISOString();
+
+// Formats an ISO string for a datetime-local input in the user's local time
+const toLocalInputValue = (isoString: string) => {
+  const date = new Date(isoString);
+  const offsetMs = date.getTimezoneOffset() * 60000;
+  return new Date(date.getTime() - offsetMs).toISOString().slice(0, 16);
+};
 
 const RecentScansPage: React.FC<RecentScansPageProps> = ({ 
   onBack, 
@@ -34,13 +44,71 @@ const RecentScansPage: React.FC<RecentScansPageProps> = ({
   onReportSymptoms 
 }) => {
   const { token } = useAuth();
-  const { data: scans = [], isLoading, error } = useQuery<Scan[], Error>(
-    ['recentScans'],
-    () => fetchRecentScans(token!),
-    {
-      enabled: !!token,
+  const queryClient = useQueryClient();
+
+  const [fromDate, setFromDate] = useState('');
+  const [toDate, setToDate] = useState('');
+  const [statusFilter, setStatusFilter] = useState('');
+  const [editingScanId, setEditingScanId] = useState<string | null>(null);
+  const [editingDate, setEditingDate] = useState('');
+
+  const filters: ScanHistoryFilters = {
+    // Date inputs are local calendar days; cover the whole of the end day
+    from: fromDate ? new Date(`${fromDate}T00:00:00`).toISOString() : undefined,
+    to: toDate ? new Date(`${toDate}T23:59:59.999`).toISOString() : undefined,
+    status: statusFilter ? [Number(statusFilter) as StatusRef['level']] : undefined,
+  };
+
+  const {
+    data,
+    fetchNextPage,
+    hasNextPage,
+    isFetchingNextPage,
+    isLoading,
+    error,
+  } = useInfiniteQuery<ScanHistoryResponse, Error>({
+    queryKey: ['recentScans', 'history', fromDate, toDate, statusFilter],
+    queryFn: ({ pageParam }) => fetchRecentScans(token!, { ...filters, cursor: pageParam as string | undefined }),
+    initialPageParam: undefined,
+    getNextPageParam: (lastPage) => lastPage.nextCursor || undefined,
+    enabled: !!token,
+  });
+
+  const scans: ScanHistoryItem[] = data?.pages.flatMap(page => page.scans) || [];
+
+  const { mutate: deleteScan, isPending: isDeletingScan } = useMutation({
+    mutationFn: async (scanId: string) => {
+      const response = await scanApi.deleteScan(scanId, token!);
+      if (response.error) throw new Error(response.error);
+    },
+    onSuccess: () => {
+      toast({ title: "Scan Deleted", description: "Symptoms reported against it stay in your log." });
+      queryClient.invalidateQueries({ queryKey: ['recentScans'] });
+      queryClient.invalidateQueries({ queryKey: ['currentUser'] }); // For streak
+    },
+    onError: (e: Error) => toast({ title: "Error Deleting Scan", description: e.message, variant: "destructive" }),
+  });
+
+  const { mutate: updateScan, isPending: isUpdatingScan } = useMutation({
+    mutationFn: async ({ scanId, date }: { scanId: string; date: string }) => {
+      const response = await scanApi.updateScan(scanId, { date }, token!);
+      if (response.error) throw new Error(response.error);
+      return response.data;
+    },
+    onSuccess: () => {
+      toast({ title: "Scan Updated" });
+      setEditingScanId(null);
+      queryClient.invalidateQueries({ queryKey: ['recentScans'] });
+      queryClient.invalidateQueries({ queryKey: ['currentUser'] }); // For streak
+    },
+    onError: (e: Error) => toast({ title: "Error Updating Scan", description: e.message, variant: "destructive" }),
+  });
+
+  const handleDelete = (scanId: string) => {
+    if (window.confirm('Delete this scan? Symptoms reported against it stay in your log.')) {
+      deleteScan(scanId);
     }
-  );
+  };
 
   // Re-using getStatusInfo logic from ProductPage, adapted slightly for product.status
   const getStatusDisplayInfo = (status?: StatusRef | string | number) => {
@@ -93,20 +161,6 @@ const RecentScansPage: React.FC<RecentScansPageProps> = ({
     });
   };
 
-  const getSymptomEmoji = (symptom: string) => {
-    // This function can be kept if reportedSymptoms are strings.
-    // If they become objects, it might need adjustment.
-    const symptomsMap: Record<string, string> = {
-      headache: '🤕',
-      nausea: '🤢',
-      bloating: '🤰',
-      fatigue: '😴',
-      rash: '🔴',
-      pain: '😣'
-    };
-    return symptomsMap[symptom.toLowerCase()] || '😷';
-  };
-
   if (isLoading) {
     return (
       <div className="p-4 bg-background min-h-screen">
@@ -164,19 +218,54 @@ const RecentScansPage: React.FC<RecentScansPageProps> = ({
         <h1 className="text-xl font-semibold text-foreground">Recent Scans</h1>
       </div>
 
+      {/* Filters */}
+      <Card className="bg-card border-border mb-4">
+        <CardContent className="p-4 grid grid-cols-1 sm:grid-cols-3 gap-3">
+          <div>
+            <label htmlFor="scan-from" className="text-xs text-muted-foreground">From</label>
+            <Input id="scan-from" type="date" value={fromDate} onChange={(e) => setFromDate(e.target.value)} />
+          </div>
+          <div>
+            <label htmlFor="scan-to" className="text-xs text-muted-foreground">To</label>
+            <Input id="scan-to" type="date" value={toDate} onChange={(e) => setToDate(e.target.value)} />
+          </div>
+          <div>
+            <label htmlFor="scan-status" className="text-xs text-muted-foreground">Status</label>
+            <select
+              id="scan-status"
+              value={statusFilter}
+              onChange={(e) => setStatusFilter(e.target.value)}
+              className="w-full h-10 px-2 border border-border rounded-md bg-background text-foreground"
+            >
+              <option value="">All statuses</option>
+              <option value="1">Contains Gluten</option>
+              <option value="2">Likely Contains Gluten</option>
+              <option value="3">May Contain Gluten</option>
+              <option value="4">Likely Gluten-Free</option>
+              <option value="5">Gluten-Free</option>
+            </select>
+          </div>
+        </CardContent>
+      </Card>
+
       {/* Scans List */}
       {scans.length === 0 && !isLoading && (
         <Card className="bg-card border-border">
           <CardContent className="p-6 text-center">
             <PackageSearch className="w-16 h-16 text-muted-foreground mx-auto mb-4" />
-            <h3 className="text-xl font-semibold text-foreground mb-2">No Scans Yet</h3>
-            <p className="text-muted-foreground">You haven't scanned any products. Start scanning to see them here!</p>
+            <h3 className="text-xl font-semibold text-foreground mb-2">No Scans Found</h3>
+            <p className="text-muted-foreground">
+              {fromDate || toDate || statusFilter
+                ? 'No scans match these filters.'
+                : "You haven't scanned any products. Start scanning to see them here!"}
+            </p>
           </CardContent>
         </Card>
       )}
       <div className="space-y-4">
         {scans.map((scan) => {
-          const productStatusInfo = getStatusDisplayInfo(scan.product?.status);
+          const productStatusInfo = getStatusDisplayInfo(scan.product?.status?.status);
+          const statusExplanation = scan.product?.status?.explanation;
           return (
             <Card
               key={scan.id}
@@ -189,7 +278,7 @@ const RecentScansPage: React.FC<RecentScansPageProps> = ({
                   {/* Product Image */}
                   <div className="w-16 h-16 bg-muted rounded-lg flex items-center justify-center flex-shrink-0">
                     {scan.product?.pictureUrl ? (
-                      <img src={scan.product.pictureUrl} alt={scan.product.name} className="w-full h-full object-cover rounded-lg" />
+                      <ResponsiveImage src={scan.product.pictureUrl} image={scan.product.picture} alt={scan.product.name} sizes="64px" className="w-full h-full object-cover rounded-lg" />
                     ) : (
                       <span className="text-2xl">📦</span>
                     )}
@@ -204,26 +293,40 @@ const RecentScansPage: React.FC<RecentScansPageProps> = ({
                       {productStatusInfo.icon}
                     </div>
 
-                    <p className="text-sm text-muted-foreground mb-1">
-                      Scanned: {formatDate(scan.scannedAt)}
-                    </p>
+                    {editingScanId === scan.id ? (
+                      <div className="flex items-center gap-2 mb-2" onClick={(e) => e.stopPropagation()}>
+                        <Input
+                          type="datetime-local"
+                          value={editingDate}
+                          onChange={(e) => setEditingDate(e.target.value)}
+                          className="h-8 text-sm"
+                        />
+                        <Button
+                          size="sm"
+                          disabled={!editingDate || isUpdatingScan}
+                          onClick={() => updateScan({ scanId: scan.id, date: toIsoString(editingDate) })}
+                        >
+                          Save
+                        </Button>
+                        <Button size="sm" variant="ghost" onClick={() => setEditingScanId(null)}>
+                          Cancel
+                        </Button>
+                      </div>
+                    ) : (
+                      <p className="text-sm text-muted-foreground mb-1">
+                        Scanned: {formatDate(scan.date)}
+                      </p>
+                    )}
 
                     <p className={`text-sm font-medium mb-2 ${productStatusInfo.color}`}>
-                      {productStatusInfo.label}: {productStatusInfo.description}
+                      {productStatusInfo.label}{statusExplanation ? `: ${statusExplanation}` : ''}
                     </p>
 
                     {/* Symptoms */}
-                    {scan.reportedSymptoms && scan.reportedSymptoms.length > 0 && (
-                      <div className="flex items-center space-x-2 mb-3">
-                        <span className="text-sm text-muted-foreground">Symptoms ({scan.reportedSymptoms.length}):</span>
-                        <div className="flex space-x-1">
-                          {scan.reportedSymptoms.slice(0, 5).map((symptom, index) => ( // Show max 5 symptoms
-                            <span key={index} className="text-lg" title={symptom}>
-                              {getSymptomEmoji(symptom)}
-                            </span>
-                          ))}
-                        </div>
-                      </div>
+                    {scan.symptoms && scan.symptoms.length > 0 && (
+                      <p className="text-sm text-muted-foreground mb-3">
+                        Symptom reports: {scan.symptoms.length}
+                      </p>
                     )}
 
                     {/* Report Symptoms Button */}
@@ -243,6 +346,32 @@ const RecentScansPage: React.FC<RecentScansPageProps> = ({
                     >
                       Report Symptoms
                     </Button>
+                    <Button
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        setEditingScanId(scan.id);
+                        setEditingDate(toLocalInputValue(scan.date));
+                      }}
+                      variant="ghost"
+                      size="sm"
+                      className="ml-2"
+                      aria-label="Edit scan"
+                    >
+                      <Pencil className="w-4 h-4" />
+                    </Button>
+                    <Button
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        handleDelete(scan.id);
+                      }}
+                      variant="ghost"
+                      size="sm"
+                      className="text-red-600 hover:bg-red-50"
+                      disabled={isDeletingScan}
+                      aria-label="Delete scan"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </Button>
                   </div>
                 </div>
               </CardContent>
@@ -251,11 +380,15 @@ const RecentScansPage: React.FC<RecentScansPageProps> = ({
         })}
       </div>
 
-      {/* Load More - Placeholder for pagination */}
-      {scans.length > 0 && (
+      {hasNextPage && (
         <div className="mt-6 text-center">
-          <Button variant="outline" className="border-border text-foreground" onClick={() => alert('Pagination not yet implemented.')}>
-            Load More Scans
+          <Button
+            variant="outline"
+            className="border-border text-foreground"
+            onClick={() => fetchNextPage()}
+            disabled={isFetchingNextPage}
+          >
+            {isFetchingNextPage ? 'Loading...' : 'Load More Scans'}
           </Button>
         </div>
       )}
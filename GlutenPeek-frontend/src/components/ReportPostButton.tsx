@@ -0,0 +1,101 @@
+import React, { useState } from 'react';
+import { useMutation } from '@tanstack/react-query';
+import { Flag } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { toast } from '@/hooks/use-toast';
+import { postApi } from '@/lib/api';
+import { useAuth } from '../contexts/AuthContext';
+import { PostReportReason } from '../types';
+
+const REASONS: { value: PostReportReason; label: string }[] = [
+  { value: 'spam', label: 'Spam or advertising' },
+  { value: 'misinformation', label: 'Misleading gluten information' },
+  { value: 'harassment', label: 'Harassment or abuse' },
+  { value: 'off_topic', label: 'Off topic' },
+  { value: 'other', label: 'Something else' },
+];
+
+interface ReportPostButtonProps {
+  postId: string;
+}
+
+// Sends a post to the moderation queue with a reason
+const ReportPostButton: React.FC<ReportPostButtonProps> = ({ postId }) => {
+  const { token } = useAuth();
+  const [open, setOpen] = useState(false);
+  const [reason, setReason] = useState<PostReportReason>('spam');
+  const [details, setDetails] = useState('');
+
+  const { mutate: reportPost, isPending } = useMutation({
+    mutationFn: async () => {
+      const response = await postApi.reportPost(postId, { reason, details: details.trim() || undefined }, token!);
+      if (response.error) throw new Error(response.error);
+      return response.data;
+    },
+    onSuccess: () => {
+      toast({ title: "Post Reported", description: "Thanks, a moderator will take a look." });
+      setOpen(false);
+      setDetails('');
+    },
+    onError: (e: Error) => toast({ title: "Could Not Report Post", description: e.message, variant: "destructive" }),
+  });
+
+  if (!token) return null;
+
+  return (
+    <>
+      <Button
+        variant="ghost"
+        size="sm"
+        onClick={() => setOpen(true)}
+        className="p-0 h-auto font-normal text-muted-foreground hover:text-orange-500"
+        title="Report post"
+      >
+        <Flag className="w-4 h-4" />
+      </Button>
+      <Dialog open={open} onOpenChange={setOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Report Post</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-3">
+            <div>
+              <Label htmlFor={`report-reason-${postId}`}>Reason</Label>
+              <select
+                id={`report-reason-${postId}`}
+                value={reason}
+                onChange={(e) => setReason(e.target.value as PostReportReason)}
+                className="w-full mt-1 p-2 border border-border rounded-md bg-background text-sm"
+              >
+                {REASONS.map(option => (
+                  <option key={option.value} value={option.value}>{option.label}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <Label htmlFor={`report-details-${postId}`}>Details (optional)</Label>
+              <Textarea
+                id={`report-details-${postId}`}
+                value={details}
+                onChange={(e) => setDetails(e.target.value)}
+                maxLength={500}
+                placeholder="Anything the moderators should know"
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setOpen(false)} disabled={isPending}>Cancel</Button>
+            <Button onClick={() => reportPost()} disabled={isPending}>
+              {isPending ? 'Reporting...' : 'Report'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+};
+
+export default ReportPostButton;
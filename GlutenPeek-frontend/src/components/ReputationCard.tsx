@@ -0,0 +1,128 @@
+import React from 'react';
+import { useInfiniteQuery } from '@tanstack/react-query';
+import { format } from 'date-fns';
+import { Card, CardContent } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { authApi } from '@/lib/api';
+import { useAuth } from '../contexts/AuthContext';
+import { Privilege, ReputationReason, ReputationSummary } from '../types';
+
+const REASON_LABELS: Record<ReputationReason, string> = {
+  claim_accepted: 'Claim accepted',
+  claim_rejected: 'Claim rejected',
+  product_approved: 'Product approved',
+  product_rejected: 'Product rejected',
+  post_liked: 'Post liked',
+  post_unliked: 'Like removed',
+  post_removed: 'Post removed',
+  comment_removed: 'Comment removed',
+};
+
+const PRIVILEGE_LABELS: Record<Privilege, string> = {
+  publish_products: 'Publishes products without review',
+  instant_status: 'Status suggestions apply immediately',
+  moderate: 'Moderation tools',
+};
+
+interface ReputationCardProps {
+  userId: string;
+}
+
+const fetchReputation = async (userId: string, ownToken: string | null, cursor?: string): Promise<ReputationSummary> => {
+  const response = ownToken
+    ? await authApi.getMyReputation(ownToken, cursor)
+    : await authApi.getUserReputation(userId, cursor);
+  if (response.error) {
+    throw new Error(response.error);
+  }
+  return response.data;
+};
+
+// Reputation total, unlocked privileges and the history of points on a profile
+const ReputationCard: React.FC<ReputationCardProps> = ({ userId }) => {
+  const { user: currentUser, token } = useAuth();
+  const isOwnProfile = !!token && currentUser?.id === userId;
+
+  const {
+    data,
+    fetchNextPage,
+    hasNextPage,
+    isFetchingNextPage,
+    isLoading,
+    error,
+  } = useInfiniteQuery<ReputationSummary, Error>({
+    queryKey: ['reputation', userId, isOwnProfile],
+    queryFn: ({ pageParam }) => fetchReputation(userId, isOwnProfile ? token : null, pageParam as string | undefined),
+    initialPageParam: undefined,
+    getNextPageParam: (lastPage) => lastPage.nextCursor || undefined,
+  });
+
+  if (isLoading) return <p className="text-sm text-muted-foreground">Loading reputation...</p>;
+  if (error || !data) return null;
+
+  const summary = data.pages[0];
+  const history = data.pages.flatMap(page => page.history);
+  const next = summary.nextPrivilege;
+
+  return (
+    <Card className="bg-card border-border">
+      <CardContent className="p-4 space-y-4">
+        <div>
+          <div className="text-2xl font-bold text-primary">{summary.reputation}</div>
+          <div className="text-xs text-muted-foreground">Reputation</div>
+        </div>
+
+        {summary.privileges.length > 0 && (
+          <div className="flex flex-wrap gap-2">
+            {summary.privileges.map(privilege => (
+              <Badge key={privilege} variant="secondary">{PRIVILEGE_LABELS[privilege]}</Badge>
+            ))}
+          </div>
+        )}
+
+        {isOwnProfile && next && (
+          <div>
+            <div className="flex justify-between text-xs">
+              <span className="font-medium text-foreground">Next: {PRIVILEGE_LABELS[next.privilege]}</span>
+              <span className="text-muted-foreground">{summary.reputation}/{next.reputation}</span>
+            </div>
+            <div className="h-1.5 mt-1 rounded-full bg-muted overflow-hidden">
+              <div
+                className="h-full bg-primary"
+                style={{ width: `${Math.min(Math.max(summary.reputation / next.reputation, 0), 1) * 100}%` }}
+              />
+            </div>
+          </div>
+        )}
+
+        <div>
+          <h3 className="text-sm font-semibold text-foreground mb-2">History</h3>
+          {history.length === 0 && (
+            <p className="text-xs text-muted-foreground">No reputation changes yet.</p>
+          )}
+          <ul className="space-y-1">
+            {history.map(event => (
+              <li key={event.id} className="flex justify-between text-xs">
+                <span className="text-foreground">
+                  {REASON_LABELS[event.reason] || event.reason}
+                  <span className="text-muted-foreground ml-2">{format(new Date(event.date), 'd MMM yyyy')}</span>
+                </span>
+                <span className={event.delta >= 0 ? 'text-green-600' : 'text-red-600'}>
+                  {event.delta >= 0 ? `+${event.delta}` : event.delta}
+                </span>
+              </li>
+            ))}
+          </ul>
+          {hasNextPage && (
+            <Button variant="ghost" size="sm" className="mt-2 h-7 text-xs" onClick={() => fetchNextPage()} disabled={isFetchingNextPage}>
+              {isFetchingNextPage ? 'Loading...' : 'Show more'}
+            </Button>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default ReputationCard;
@@ -0,0 +1,40 @@
+import React from 'react';
+import { ImageSet, ImageVariant } from '../types';
+
+interface ResponsiveImageProps {
+  src: string; // Fallback when there is no image set, e.g. Open Food Facts pictures
+  image?: ImageSet | null;
+  alt: string;
+  sizes: string; // How wide the image renders, e.g. "64px" or "100vw"
+  className?: string;
+}
+
+const toSrcSet = (variants: ImageVariant[], format: ImageVariant['format']) => variants
+  .filter(variant => variant.format === format)
+  .map(variant => `${variant.url} ${variant.width}w`)
+  .join(', ');
+
+// Lets the browser pick the smallest processed variant that fits, preferring WebP
+const ResponsiveImage: React.FC<ResponsiveImageProps> = ({ src, image, alt, sizes, className }) => {
+  if (!image || !image.variants || image.variants.length === 0) {
+    return <img src={src} alt={alt} className={className} loading="lazy" />;
+  }
+
+  return (
+    <picture>
+      <source type="image/webp" srcSet={toSrcSet(image.variants, 'webp')} sizes={sizes} />
+      <img
+        src={image.url}
+        srcSet={toSrcSet(image.variants, 'jpeg')}
+        sizes={sizes}
+        width={image.width}
+        height={image.height}
+        alt={alt}
+        className={className}
+        loading="lazy"
+      />
+    </picture>
+  );
+};
+
+export default ResponsiveImage;
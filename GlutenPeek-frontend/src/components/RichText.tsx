@@ -0,0 +1,25 @@
+import React from 'react';
+import { Link } from 'react-router-dom';
+import { splitRichText } from '@/lib/textEntities';
+
+interface RichTextProps {
+  text: string;
+  className?: string;
+}
+
+// Post or comment text with #hashtags linking to their posts and @mentions to profiles
+const RichText: React.FC<RichTextProps> = ({ text, className }) => (
+  <span className={className}>
+    {splitRichText(text).map((segment, index) => {
+      if (segment.type === 'hashtag') {
+        return <Link key={index} to={`/tags/${encodeURIComponent(segment.tag)}`} className="text-primary hover:underline">{segment.text}</Link>;
+      }
+      if (segment.type === 'mention') {
+        return <Link key={index} to={`/profile/${segment.userId}`} className="text-primary font-medium hover:underline">{segment.text}</Link>;
+      }
+      return <React.Fragment key={index}>{segment.text}</React.Fragment>;
+    })}
+  </span>
+);
+
+export default RichText;
@@ -8,9 +8,10 @@ import { useNavigate } from 'react-router-dom';
 import { toast } from '@/hooks/use-toast';
 import { useAuth } from '../contexts/AuthContext';
 import { useMutation, useQueryClient, useQuery } from '@tanstack/react-query';
-import { Scan as ScanType } from '../types'; // Renamed to avoid conflict with component name
-import { barcodeApi, scanApi, productApi, openFoodFactsApi, statusApi, geminiApi } from '@/lib/api';
-import { uploadFileToS3 } from '@/lib/s3upload';
+import { Scan as ScanType, ScanHistoryItem, ExtractedProduct, ProductDraft } from '../types'; // Renamed to avoid conflict with component name
+import { barcodeApi, scanApi, productApi, openFoodFactsApi, statusApi, aiApi } from '@/lib/api';
+import { uploadFile } from '@/lib/upload';
+import ProductReviewForm from './ProductReviewForm';
 
 const fileToBase64 = (file: File): Promise<string> => {
   return new Promise((resolve, reject) => {
@@ -21,9 +22,9 @@ const fileToBase64 = (file: File): Promise<string> => {
   });
 };
 
-// Using real S3 upload instead of placeholder
-const uploadImageToServer = async (file: File, pathPrefix: string = "products/"): Promise<string> => {
-  const uploadResult = await uploadFileToS3(file, pathPrefix);
+// Uploads a product photo through the backend upload service
+const uploadImageToServer = async (file: File, token: string): Promise<string> => {
+  const uploadResult = await uploadFile(file, 'product', token);
   
   if (uploadResult.error) {
     throw new Error(uploadResult.error);
@@ -46,6 +47,8 @@ const ScanTab: React.FC = () => {
   const [showUploadModal, setShowUploadModal] = useState(false); // For "product not found" flow
   const [uploadedImages, setUploadedImages] = useState<File[]>([]);
   const [currentBarcodeForUpload, setCurrentBarcodeForUpload] = useState<string | null>(null);
+  const [productDraft, setProductDraft] = useState<ExtractedProduct | null>(null); // AI reading awaiting review
+  const [isSavingProduct, setIsSavingProduct] = useState(false);
 
 
   // --- Create Scan API Function and Mutation ---
@@ -153,7 +156,7 @@ interface ProductInScan {
   createdAt: string; // ISO date string for product creation/last update
   // Assuming 'status' object exists directly on product from backend API /api/scans/
   status: {
-    status: 'gluten-free' | 'contains-gluten' | 'unknown' | string;
+    status: number; // Status level 1-5
     explanation?: string;
   };
 }
@@ -181,33 +184,26 @@ const checkAndProcessGlutenStatus = async (product: ProductInScan, authToken: st
   // globalSetIsScanning(true); // Avoid using global isScanning if possible for background tasks like this.
 
   try {
-    const geminiPayload = {
-      productName: product.name,
-      ingredients: product.ingredients,
-      currentStatus: product.status?.status,
-    };
-    
-    // Use our API service to check gluten status with Gemini
-    const geminiResponse = await geminiApi.checkGlutenStatus(geminiPayload);
+    if (!authToken) {
+      console.error("Auth token not available for AI gluten check.");
+      return product.status;
+    }
 
-    if (geminiResponse.error) {
-      throw new Error(`Gemini API for gluten check failed: ${geminiResponse.error}`);
+    // The backend proxies the AI provider, so no provider key is needed in the browser
+    const aiResponse = await aiApi.checkGlutenStatus(product.barcode, authToken);
+
+    if (aiResponse.error) {
+      throw new Error(`AI gluten check failed: ${aiResponse.error}`);
     }
 
-    if (!geminiResponse.data?.success || !geminiResponse.data?.glutenFreeStatus) {
-      throw new Error('Gemini gluten check was not successful or status missing');
+    if (!aiResponse.data?.level) {
+      throw new Error('AI gluten check returned no status');
     }
 
-    const { glutenFreeStatus, explanation } = geminiResponse.data;
+    const { level: glutenFreeStatus, explanation } = aiResponse.data;
 
     if (glutenFreeStatus !== product.status?.status) {
       console.log(`AI suggests updating status for ${product.barcode} from ${product.status.status} to ${glutenFreeStatus}`);
-      if (!authToken) {
-        // Not throwing error here, just logging, as scan already succeeded.
-        // But status update won't happen.
-        console.error("Auth token not available for status update.");
-        return product.status; // Return original status as update cannot proceed
-      }
 
       const statusUpdatePayload = { status: glutenFreeStatus, explanation: explanation || '' };
       
@@ -513,70 +509,76 @@ const checkAndProcessGlutenStatus = async (product: ProductInScan, authToken: st
     try {
       const base64Images = await Promise.all(uploadedImages.map(fileToBase64));
 
-      // Define the prompt for Gemini
-      const prompt = `Analyze these images to identify the product name and ingredients.
-      The product has barcode: ${currentBarcodeForUpload}.
-      Provide name and ingredients.`;
+      if (!token) {
+        throw new Error("Authentication token not found.");
+      }
 
-      // Use our API service to call Gemini
-      const geminiResponse = await geminiApi.generateProductInfo(base64Images, prompt);
+      // Extraction runs on the backend AI proxy, which caches by barcode and image hash
+      const aiResponse = await aiApi.extractProductInfo(currentBarcodeForUpload, base64Images, token);
 
-      if (geminiResponse.error) {
-        throw new Error(`Gemini API failed: ${geminiResponse.error}`);
+      if (aiResponse.error) {
+        throw new Error(`AI extraction failed: ${aiResponse.error}`);
       }
 
-      if (!geminiResponse.data?.success || !geminiResponse.data?.product) {
+      if (!aiResponse.data?.product) {
         throw new Error('Failed to get product info from AI.');
       }
 
-      const geminiProduct = geminiResponse.data.product;
+      // Show the reading for review instead of saving it blindly
+      setProductDraft(aiResponse.data.product);
+    } catch (error) {
+      console.error("Error in handleMultipleImageUpload:", error);
+      toast({
+        title: "AI Product Extraction Failed",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    } finally {
+      setIsScanning(false);
+    }
+  };
 
-      // Use the first uploaded image for pictureUrl with real S3 upload
-      const firstImageUrl = await uploadImageToServer(uploadedImages[0], `products/${currentBarcodeForUpload}`);
+  const resetUploadFlow = () => {
+    setShowUploadModal(false);
+    setUploadedImages([]);
+    setProductDraft(null);
+    setCurrentBarcodeForUpload(null);
+  };
 
-      const productPayload = {
-        barcode: currentBarcodeForUpload,
-        name: geminiProduct.name || 'Unknown Product (from AI)',
-        ingredients: geminiProduct.ingredients || '',
-        pictureUrl: firstImageUrl,
-      };
+  const handleSaveReviewedProduct = async (draft: ProductDraft) => {
+    if (!currentBarcodeForUpload || !token) {
+      toast({ title: "Error", description: "Missing barcode or login. Please try scanning again.", variant: "destructive" });
+      return;
+    }
+    const barcode = currentBarcodeForUpload;
+    setIsSavingProduct(true);
 
-      if (!token) {
-        throw new Error("Authentication token not found.");
-      }
+    try {
+      // Use the first uploaded image for pictureUrl
+      const firstImageUrl = await uploadImageToServer(uploadedImages[0], token);
 
-      // Save the new product to the backend using our API service
-      const backendResponse = await productApi.createProduct(productPayload, token);
+      // Save the reviewed product to the backend using our API service
+      const backendResponse = await productApi.createProduct({ ...draft, barcode, pictureUrl: firstImageUrl }, token);
 
       if (backendResponse.error) {
-        throw new Error(`Failed to save AI-generated product: ${backendResponse.error}`);
+        throw new Error(`Failed to save product: ${backendResponse.error}`);
       }
 
       toast({
-        title: "Product Added with AI!",
-        description: "The new product information has been saved. Recording your scan...",
+        title: "Product Added!",
+        description: "Thanks for contributing. Recording your scan...",
       });
-      setShowUploadModal(false); // Close modal on full success
-      processBarcode(currentBarcodeForUpload); // This will set isScanning for recordScan
-
+      resetUploadFlow();
+      processBarcode(barcode); // This will set isScanning for recordScan
     } catch (error) {
-      console.error("Error in handleMultipleImageUpload:", error);
+      console.error("Error in handleSaveReviewedProduct:", error);
       toast({
-        title: "AI Product Creation Failed",
+        title: "Saving Product Failed",
         description: (error as Error).message,
         variant: "destructive",
       });
-      setIsScanning(false); // Reset scanning if AI/backend product creation fails
     } finally {
-      // Clean up states, modal remains open if there was an error and not explicitly closed
-      // If setShowUploadModal(false) was called on success, this is fine.
-      // If an error occurred, we might want to keep the modal open for user to retry/cancel.
-      // For now, the prompt implies closing it primarily on success.
-      // Let's ensure uploadedImages and currentBarcodeForUpload are cleared if modal is hidden or on success.
-      if (!showUploadModal || (showUploadModal && !isScanning) ) { // if modal closed or processing stopped
-         setUploadedImages([]);
-         setCurrentBarcodeForUpload(null);
-      }
+      setIsSavingProduct(false);
     }
   };
 
@@ -591,7 +593,7 @@ const checkAndProcessGlutenStatus = async (product: ProductInScan, authToken: st
             </h3>
             <p className="text-readable-muted">
               {uploadedImages.length > 0 
-                ? 'Please wait while we analyze your images and add the product to our database'
+                ? 'Please wait while we read the product label from your images'
                 : 'Please wait while we analyze your product'
               }
             </p>
@@ -709,76 +711,87 @@ const checkAndProcessGlutenStatus = async (product: ProductInScan, authToken: st
 
       {showUploadModal && (
         <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
-          <Card className="w-full max-w-md bg-card">
+          <Card className="w-full max-w-md bg-card max-h-[90vh] overflow-y-auto">
             <CardContent className="p-6">
-              <h3 className="text-lg font-semibold mb-4 text-foreground">Product Not Found</h3>
-              <p className="text-sm text-muted-foreground mb-4">
-                Help us add this product to our database by uploading 4-8 images of all product sides.
-              </p>
+              {productDraft ? (
+                <>
+                  <h3 className="text-lg font-semibold mb-4 text-foreground">Review Product Details</h3>
+                  <ProductReviewForm
+                    extraction={productDraft}
+                    isSaving={isSavingProduct}
+                    onSave={handleSaveReviewedProduct}
+                    onCancel={resetUploadFlow}
+                  />
+                </>
+              ) : (
+                <>
+                  <h3 className="text-lg font-semibold mb-4 text-foreground">Product Not Found</h3>
+                  <p className="text-sm text-muted-foreground mb-4">
+                    Help us add this product to our database by uploading 4-8 images of all product sides.
+                  </p>
               
-              <div className="space-y-4">
-                <div className="grid grid-cols-2 gap-2">
-                  {Array.from({length: 8}).map((_, i) => (
-                    <div key={i} className="aspect-square border-2 border-dashed border-border rounded-lg flex items-center justify-center">
-                      {uploadedImages[i] ? (
-                        <img 
-                          src={URL.createObjectURL(uploadedImages[i])} 
-                          alt={`Upload ${i+1}`}
-                          className="w-full h-full object-cover rounded-lg"
-                        />
-                      ) : (
-                        <div className="text-muted-foreground text-xs text-center">
-                          Image {i+1}
+                  <div className="space-y-4">
+                    <div className="grid grid-cols-2 gap-2">
+                      {Array.from({length: 8}).map((_, i) => (
+                        <div key={i} className="aspect-square border-2 border-dashed border-border rounded-lg flex items-center justify-center">
+                          {uploadedImages[i] ? (
+                            <img 
+                              src={URL.createObjectURL(uploadedImages[i])} 
+                              alt={`Upload ${i+1}`}
+                              className="w-full h-full object-cover rounded-lg"
+                            />
+                          ) : (
+                            <div className="text-muted-foreground text-xs text-center">
+                              Image {i+1}
+                            </div>
+                          )}
                         </div>
-                      )}
+                      ))}
                     </div>
-                  ))}
-                </div>
                 
-                <input
-                  type="file"
-                  accept="image/*"
-                  multiple
-                  onChange={(e) => {
-                    const files = Array.from(e.target.files || []);
-                    if (files.length > 0) {
-                      setUploadedImages(prev => [...prev, ...files].slice(0, 8)); // Limit to 8 images
-                    }
-                    if (e.target) e.target.value = ''; // Clear input
-                  }}
-                  className="hidden"
-                  id="multiple-upload"
-                />
+                    <input
+                      type="file"
+                      accept="image/*"
+                      multiple
+                      onChange={(e) => {
+                        const files = Array.from(e.target.files || []);
+                        if (files.length > 0) {
+                          setUploadedImages(prev => [...prev, ...files].slice(0, 8)); // Limit to 8 images
+                        }
+                        if (e.target) e.target.value = ''; // Clear input
+                      }}
+                      className="hidden"
+                      id="multiple-upload"
+                    />
                 
-                <div className="flex space-x-2">
-                  <Button 
-                    onClick={() => document.getElementById('multiple-upload')?.click()}
-                    variant="outline"
-                    className="flex-1"
-                    disabled={isScanning} // Disable if any scanning operation is in progress
-                  >
-                    Add Images ({uploadedImages.length}/8)
-                  </Button>
-                  <Button 
-                    onClick={handleMultipleImageUpload}
-                    className="flex-1 gradient-bg text-white"
-                    disabled={uploadedImages.length < 4 || isScanning}
-                  >
-                    Submit
-                  </Button>
-                </div>
+                    <div className="flex space-x-2">
+                      <Button 
+                        onClick={() => document.getElementById('multiple-upload')?.click()}
+                        variant="outline"
+                        className="flex-1"
+                        disabled={isScanning} // Disable if any scanning operation is in progress
+                      >
+                        Add Images ({uploadedImages.length}/8)
+                      </Button>
+                      <Button 
+                        onClick={handleMultipleImageUpload}
+                        className="flex-1 gradient-bg text-white"
+                        disabled={uploadedImages.length < 4 || isScanning}
+                      >
+                        Submit
+                      </Button>
+                    </div>
                 
-                <Button 
-                  onClick={() => {
-                    setShowUploadModal(false);
-                    setUploadedImages([]);
-                  }}
-                  variant="ghost"
-                  className="w-full"
-                >
-                  Cancel
-                </Button>
-              </div>
+                    <Button 
+                      onClick={resetUploadFlow}
+                      variant="ghost"
+                      className="w-full"
+                    >
+                      Cancel
+                    </Button>
+                  </div>
+                </>
+              )}
             </CardContent>
           </Card>
         </div>
@@ -791,14 +804,14 @@ const checkAndProcessGlutenStatus = async (product: ProductInScan, authToken: st
 const RecentScansSection: React.FC<{ token: string | null }> = ({ token }) => {
   const navigate = useNavigate();
   const { data: recentScans, isLoading, error } = useQuery({
-    queryKey: ['recentScans'],
+    queryKey: ['recentScans', 'preview'],
     queryFn: async () => {
       if (!token) return [];
-      const response = await scanApi.getRecentScans(token, 3); // Get 3 most recent scans
+      const response = await scanApi.getRecentScans(token, { limit: 3 }); // Get 3 most recent scans
       if (response.error) {
         throw new Error(response.error);
       }
-      return response.data || [];
+      return response.data?.scans || [];
     },
     enabled: !!token, // Only run if we have a token
   });
@@ -845,9 +858,9 @@ const RecentScansSection: React.FC<{ token: string | null }> = ({ token }) => {
 
   return (
     <div className="space-y-3">
-      {recentScans.map((scan: any, index: number) => (
+      {recentScans.map((scan: ScanHistoryItem) => (
         <div 
-          key={index} 
+          key={scan.id} 
           className="flex items-center justify-between cursor-pointer hover:bg-accent p-2 rounded"
           onClick={() => navigate(`/product/${scan.productBarcode}`)}
         >
@@ -860,8 +873,9 @@ const RecentScansSection: React.FC<{ token: string | null }> = ({ token }) => {
             </div>
           </div>
           <div className={`w-3 h-3 rounded-full ${
-            scan.product?.status?.status === 'gluten-free' ? 'bg-green-500' : 
-            scan.product?.status?.status === 'unknown' ? 'bg-yellow-500' : 'bg-red-500'
+            !scan.product?.status ? 'bg-gray-400' :
+            scan.product.status.status >= 4 ? 'bg-green-500' :
+            scan.product.status.status === 3 ? 'bg-yellow-500' : 'bg-red-500'
           }`} />
         </div>
       ))}
@@ -1,5 +1,6 @@
 
 import React, { useState } from 'react';
+import { Link } from 'react-router-dom';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
@@ -9,6 +10,7 @@ import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
 import { useAuth } from '../contexts/AuthContext';
 import { useTheme } from '../contexts/ThemeContext';
 import { toast } from '@/hooks/use-toast';
+import { hasPrivilege } from '@/lib/utils';
 import { useMutation, useQueryClient } from '@tanstack/react-query';
 import { User } from '../types'; // Import User type for API response
 
@@ -27,8 +29,16 @@ interface UserSettingsUpdateData {
   theme?: boolean;
   telegram_notifications?: boolean;
   telegram_number?: string;
+  timezone?: string;
 }
 
+// IANA zones known to the browser; older browsers only get the current zone and UTC
+const browserTimeZone = Intl.DateTimeFormat().resolvedOptions().timeZone;
+const supportedValuesOf = (Intl as unknown as { supportedValuesOf?: (key: string) => string[] }).supportedValuesOf;
+const TIME_ZONES: string[] = supportedValuesOf
+  ? supportedValuesOf('timeZone')
+  : Array.from(new Set([browserTimeZone, 'UTC']));
+
 const SettingsTab: React.FC = () => {
   const { user, token, setUser: setAuthUser } = useAuth(); // Get token and setUser for optimistic update
   const { isDarkMode, toggleDarkMode } = useTheme();
@@ -85,34 +95,32 @@ const SettingsTab: React.FC = () => {
     });
     if (!response.ok) {
       const errorData = await response.json().catch(() => ({ message: 'Failed to update settings' }));
-      throw new Error(errorData.message || 'Failed to update settings');
+      throw new Error(errorData.error || errorData.message || 'Failed to update settings');
     }
     return response.json();
   };
 
-  const { mutate: updateUserSettings, isLoading: isUpdatingSettings } = useMutation(
-    updateUserSettingsApi,
-    {
-      onSuccess: (updatedUser) => {
-        toast({
-          title: "Settings Updated",
-          description: "Your settings have been successfully updated.",
-        });
-        queryClient.invalidateQueries(['currentUser']);
-        setAuthUser(updatedUser); // Optimistically update user in AuthContext
-        queryClient.setQueryData(['currentUser', token], updatedUser); // And in react-query cache
-      },
-      onError: (error: Error) => {
-        toast({
-          title: "Error Updating Settings",
-          description: error.message || "An unexpected error occurred.",
-          variant: "destructive",
-        });
-        // Optionally, refetch user to revert optimistic updates if any were done before error
-        // queryClient.invalidateQueries(['currentUser']);
-      },
-    }
-  );
+  const { mutate: updateUserSettings, isPending: isUpdatingSettings } = useMutation({
+    mutationFn: updateUserSettingsApi,
+    onSuccess: (updatedUser) => {
+      toast({
+        title: "Settings Updated",
+        description: "Your settings have been successfully updated.",
+      });
+      queryClient.invalidateQueries({ queryKey: ['currentUser'] });
+      setAuthUser(updatedUser); // Optimistically update user in AuthContext
+      queryClient.setQueryData(['currentUser', token], updatedUser); // And in react-query cache
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error Updating Settings",
+        description: error.message || "An unexpected error occurred.",
+        variant: "destructive",
+      });
+      // Optionally, refetch user to revert optimistic updates if any were done before error
+      // queryClient.invalidateQueries({ queryKey: ['currentUser'] });
+    },
+  });
 
   // --- API Function and Mutation for Profile Update ---
   const updateUserProfileApi = async (
@@ -240,7 +248,7 @@ const SettingsTab: React.FC = () => {
                   images={user?.pfp ? [user.pfp] : []} // Initial image is current user PFP
                   onImagesChange={(urls) => setNewPfpS3Url(urls[0] || null)}
                   maxImages={1}
-                  pathPrefix="pfp/"
+                  purpose="profile"
                   buttonText="Upload New Picture"
                 />
                  {newPfpS3Url && <p className="text-xs text-muted-foreground mt-1">New picture selected. Save profile to apply.</p>}
@@ -381,6 +389,40 @@ const SettingsTab: React.FC = () => {
         </CardContent>
       </Card>
 
+      {/* Time Zone */}
+      <Card>
+        <CardHeader>
+          <CardTitle>Time Zone</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-2">
+          <Label htmlFor="timezone">Your days and streaks follow this time zone</Label>
+          <select
+            id="timezone"
+            value={user?.settings?.timezone || 'UTC'}
+            onChange={(e) => updateUserSettings({ settingsData: { timezone: e.target.value } })}
+            className="w-full h-10 px-2 border border-border rounded-md bg-background text-foreground"
+            disabled={isUpdatingSettings}
+          >
+            {Array.from(new Set([...(user?.settings?.timezone ? [user.settings.timezone] : []), ...TIME_ZONES, 'UTC'])).map(zone => (
+              <option key={zone} value={zone}>{zone.replace(/_/g, ' ')}</option>
+            ))}
+          </select>
+          {user?.settings?.timezone && user.settings.timezone !== browserTimeZone && (
+            <p className="text-xs text-gray-500">
+              This device is set to {browserTimeZone.replace(/_/g, ' ')}.{' '}
+              <button
+                type="button"
+                className="text-primary underline"
+                onClick={() => updateUserSettings({ settingsData: { timezone: browserTimeZone } })}
+                disabled={isUpdatingSettings}
+              >
+                Use it instead
+              </button>
+            </p>
+          )}
+        </CardContent>
+      </Card>
+
       {/* Theme Settings */}
       <Card>
         <CardHeader>
@@ -414,6 +456,20 @@ const SettingsTab: React.FC = () => {
         </CardContent>
       </Card>
 
+      {/* Moderation, also reachable from the desktop sidebar */}
+      {hasPrivilege(user, 'moderate') && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Moderation</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <Button asChild variant="outline" className="w-full">
+              <Link to="/moderation">Open moderation queue</Link>
+            </Button>
+          </CardContent>
+        </Card>
+      )}
+
       {/* Logout */}
       <Button 
         onClick={handleLogout}
@@ -0,0 +1,100 @@
+import React from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { format } from 'date-fns';
+import { History } from 'lucide-react';
+import { Card, CardContent } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { statusApi } from '@/lib/api';
+import { StatusChange, StatusChangeSource } from '../types';
+
+interface StatusHistoryTimelineProps {
+  barcode: string;
+}
+
+const STATUS_LABELS: Record<number, string> = {
+  1: 'Contains Gluten',
+  2: 'Likely Contains Gluten',
+  3: 'May Contain Gluten',
+  4: 'Likely Gluten-Free',
+  5: 'Gluten-Free',
+};
+
+const SOURCE_LABELS: Record<StatusChangeSource, string> = {
+  admin: 'Moderator',
+  classifier: 'Ingredient Rules',
+  ai: 'AI Analysis',
+  claim: 'Community Claim',
+  consensus: 'Community Consensus (provisional)',
+  import: 'Import',
+};
+
+const getStatusDotClass = (level: number) => {
+  if (level >= 4) return 'bg-green-500';
+  if (level === 3) return 'bg-yellow-500';
+  return 'bg-red-500';
+};
+
+const fetchStatusHistory = async (barcode: string): Promise<StatusChange[]> => {
+  const response = await statusApi.getStatusHistory(barcode);
+  if (response.error) {
+    throw new Error(response.error);
+  }
+  return response.data || [];
+};
+
+const StatusHistoryTimeline: React.FC<StatusHistoryTimelineProps> = ({ barcode }) => {
+  const { data: history = [], isLoading, error } = useQuery<StatusChange[], Error>({
+    queryKey: ['statusHistory', barcode],
+    queryFn: () => fetchStatusHistory(barcode),
+    enabled: !!barcode,
+  });
+
+  return (
+    <Card className="mx-4 mb-4 bg-card border-border">
+      <CardContent className="p-4">
+        <h3 className="font-semibold text-foreground mb-3 flex items-center">
+          <History className="w-4 h-4 mr-2" />
+          Status History
+        </h3>
+        {isLoading ? (
+          <div className="space-y-2">
+            {[1, 2].map(i => (
+              <div key={i} className="h-10 bg-muted rounded animate-pulse"></div>
+            ))}
+          </div>
+        ) : error ? (
+          <p className="text-sm text-destructive">Could not load status history.</p>
+        ) : history.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No status changes recorded yet.</p>
+        ) : (
+          <ol className="relative border-l border-border ml-2 space-y-4">
+            {history.map(change => (
+              <li key={change.id} className="ml-4">
+                <span className={`absolute -left-1.5 w-3 h-3 rounded-full ${getStatusDotClass(change.newStatus)}`}></span>
+                <div className="flex flex-wrap items-center gap-2 mb-1">
+                  <span className="text-sm font-medium text-foreground">
+                    {change.previousStatus !== null
+                      ? `${STATUS_LABELS[change.previousStatus]} → ${STATUS_LABELS[change.newStatus]}`
+                      : STATUS_LABELS[change.newStatus]}
+                  </span>
+                  <Badge variant="secondary" className="text-xs">
+                    {SOURCE_LABELS[change.source] || change.source}
+                  </Badge>
+                </div>
+                {change.explanation && (
+                  <p className="text-sm text-muted-foreground">{change.explanation}</p>
+                )}
+                <p className="text-xs text-muted-foreground mt-1">
+                  {format(new Date(change.date), 'MMM d, yyyy h:mm a')}
+                  {change.changedBy?.name && ` · by ${change.changedBy.name}`}
+                </p>
+              </li>
+            ))}
+          </ol>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default StatusHistoryTimeline;
@@ -9,14 +9,14 @@ import { Carousel, CarouselContent, CarouselItem, CarouselNext, CarouselPrevious
 import { ArrowLeft, Calendar, Clock } from 'lucide-react';
 import { toast } from '@/hooks/use-toast';
 import { useLocation } from 'react-router-dom';
+import { format } from 'date-fns';
 import { useAuth } from '../contexts/AuthContext';
 import { useMutation, useQueryClient, useQuery } from '@tanstack/react-query';
-import { Symptom as SymptomType, CreateSymptomsPayload, SymptomPayloadItem, Scan, DayFromApi, ScanDataFromApi } from '../types'; // Use SymptomType alias
+import { Symptom as SymptomType, Scan, DayFromApi, ScanDataFromApi } from '../types'; // Use SymptomType alias
+import { useSymptomCatalog } from '@/hooks/useSymptomCatalog';
 
-// Local state version of Symptom for UI interaction
-interface UISymptom {
-  id: string; // e.g. 'headache'
-  name: string; // e.g. 'Headache'
+// Local state for one rated symptom, keyed by catalog id
+interface UISymptomRating {
   severity: number;
   description: string;
 }
@@ -39,9 +39,8 @@ const SymptomReportPage: React.FC<SymptomReportPageProps> = ({ onBack }) => {
       return [];
     }
 
-    const formatDate = (date: Date): string => {
-      return date.toISOString().split('T')[0]; // YYYY-MM-DD
-    };
+    // Local calendar dates; the backend reads them as days in the user's time zone
+    const formatDate = (date: Date): string => format(date, 'yyyy-MM-dd');
 
     const endDate = new Date();
     const startDate = new Date();
@@ -50,7 +49,7 @@ const SymptomReportPage: React.FC<SymptomReportPageProps> = ({ onBack }) => {
     const formattedStartDate = formatDate(startDate);
     const formattedEndDate = formatDate(endDate);
 
-    const response = await fetch(`/api/day/?startdate=${formattedStartDate}&enddate=${formattedEndDate}`, {
+    const response = await fetch(`/api/days/?startdate=${formattedStartDate}&enddate=${formattedEndDate}`, {
       headers: {
         Authorization: `Bearer ${token}`,
       },
@@ -105,16 +104,11 @@ const SymptomReportPage: React.FC<SymptomReportPageProps> = ({ onBack }) => {
   const productBarcode = queryParams.get('productId'); // This is the barcode
   const scanId = queryParams.get('scanId'); // Optional scanId
 
-  const [date, setDate] = useState(new Date().toISOString().split('T')[0]);
+  const [date, setDate] = useState(format(new Date(), 'yyyy-MM-dd'));
   const [time, setTime] = useState(new Date().toTimeString().slice(0, 5));
 
-  const initialSymptoms: UISymptom[] = Array.from({ length: 10 }, (_, i) => ({
-    id: `symptom_${i + 1}`,
-    name: `Symptom ${i + 1}`,
-    severity: 0,
-    description: '',
-  }));
-  const [symptoms, setSymptoms] = useState<UISymptom[]>(initialSymptoms);
+  const { catalog, isLoading: isLoadingCatalog, isError: isErrorCatalog } = useSymptomCatalog();
+  const [ratings, setRatings] = useState<Record<string, UISymptomRating>>({});
   const [selectedScanIds, setSelectedScanIds] = useState<string[]>([]);
 
   const toggleScanSelection = (scanId: string) => {
@@ -126,9 +120,14 @@ const SymptomReportPage: React.FC<SymptomReportPageProps> = ({ onBack }) => {
   };
 
   const updateSymptom = (id: string, field: 'severity' | 'description', value: number | string) => {
-    setSymptoms(prev => prev.map(symptom => 
-      symptom.id === id ? { ...symptom, [field]: value } : symptom
-    ));
+    setRatings(prev => {
+      const current = prev[id] ?? { severity: 0, description: '' };
+      // Tapping the selected severity again clears the rating
+      if (field === 'severity' && current.severity === value) {
+        return { ...prev, [id]: { ...current, severity: 0 } };
+      }
+      return { ...prev, [id]: { ...current, [field]: value } };
+    });
   };
 
   // Removed toggleProduct as selectedProducts is removed
@@ -136,7 +135,7 @@ const SymptomReportPage: React.FC<SymptomReportPageProps> = ({ onBack }) => {
   // --- Create Symptoms API Function and Mutation ---
   const createSymptomsApi = async (data: {
     date: string; // ISO datetime string
-    symptomsData: { [symptomName: string]: number };
+    symptomsData: { [symptomId: string]: number };
     selectedScanIds: string[];
     token: string | null;
   }): Promise<SymptomType[]> => { // Assuming SymptomType[] is what the backend returns on success
@@ -160,35 +159,33 @@ const SymptomReportPage: React.FC<SymptomReportPageProps> = ({ onBack }) => {
     });
 
     if (!response.ok) {
-      const errorData = await response.json().catch(() => ({ message: 'Failed to report symptoms' }));
-      throw new Error(errorData.message || 'Failed to report symptoms');
+      const errorData = await response.json().catch(() => ({ error: 'Failed to report symptoms' }));
+      throw new Error(errorData.error || errorData.message || 'Failed to report symptoms');
     }
     return response.json();
   };
 
-  const { mutate: reportSymptoms, isLoading: isReportingSymptoms } = useMutation(
-    createSymptomsApi,
-    {
-      onSuccess: () => {
-        toast({
-          title: "Symptoms Reported",
-          description: "Your symptoms have been successfully reported.",
-        });
-        queryClient.invalidateQueries(['recentScans']);
-        queryClient.invalidateQueries(['currentUser']);
-        // Consider if specific product queries need invalidation based on selectedScanIds if necessary
-        // e.g., selectedScanIds.forEach(id => queryClient.invalidateQueries(['scan', id]));
-        onBack();
-      },
-      onError: (error: Error) => {
-        toast({
-          title: "Error Reporting Symptoms",
-          description: error.message || "An unexpected error occurred.",
-          variant: "destructive",
-        });
-      },
-    }
-  );
+  const { mutate: reportSymptoms, isPending: isReportingSymptoms } = useMutation({
+    mutationFn: createSymptomsApi,
+    onSuccess: () => {
+      toast({
+        title: "Symptoms Reported",
+        description: "Your symptoms have been successfully reported.",
+      });
+      queryClient.invalidateQueries({ queryKey: ['recentScans'] });
+      queryClient.invalidateQueries({ queryKey: ['currentUser'] });
+      // Consider if specific product queries need invalidation based on selectedScanIds if necessary
+      // e.g., selectedScanIds.forEach(id => queryClient.invalidateQueries({ queryKey: ['scan', id] }));
+      onBack();
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error Reporting Symptoms",
+        description: error.message || "An unexpected error occurred.",
+        variant: "destructive",
+      });
+    },
+  });
 
   const handleSubmit = () => {
     // Check if any scans are selected
@@ -202,10 +199,10 @@ const SymptomReportPage: React.FC<SymptomReportPageProps> = ({ onBack }) => {
     }
 
     // Prepare symptomsObject
-    const symptomsObject: { [symptomName: string]: number } = {};
-    symptoms.forEach(symptomItem => {
-      if (symptomItem.severity > 0) {
-        symptomsObject[symptomItem.name] = symptomItem.severity;
+    const symptomsObject: { [symptomId: string]: number } = {};
+    Object.entries(ratings).forEach(([symptomId, rating]) => {
+      if (rating.severity > 0) {
+        symptomsObject[symptomId] = rating.severity;
       }
     });
 
@@ -219,7 +216,8 @@ const SymptomReportPage: React.FC<SymptomReportPageProps> = ({ onBack }) => {
       return;
     }
 
-    const combinedDateTime = `${date}T${time}:00.000Z`;
+    // The inputs hold local wall-clock time; send the matching instant
+    const combinedDateTime = new Date(`${date}T${time}`).toISOString();
 
     // Call reportSymptoms (Mutation)
     reportSymptoms({
@@ -338,55 +336,79 @@ const SymptomReportPage: React.FC<SymptomReportPageProps> = ({ onBack }) => {
         <Card className="bg-card border-border">
           <CardContent className="p-4">
             <h3 className="font-semibold mb-4 text-foreground">What symptoms did you experience?</h3>
-            <div className="space-y-4">
-              {symptoms.map((symptom) => (
-                <div key={symptom.id} className="border border-border rounded-lg p-4">
-                  <div className="flex items-center justify-between mb-3"> {/* This div might need adjustment if symptom name is now alone */}
-                    {/* Removed emoji span: <span className="text-2xl">{getMoodEmoji(symptom.severity)}</span> */}
-                    <span className="font-medium text-foreground text-lg">{symptom.name}</span> {/* Increased text size slightly and ensured it's a block or inline-block if further styling needed */}
-                  </div>
-                  
-                  {/* Severity Scale */}
-                  <div className="mb-3">
-                    <Label className="text-sm text-muted-foreground mb-2 block">
-                      Severity (1-5)
-                    </Label>
-                    <div className="flex space-x-2">
-                      {Array.from({length: 5}).map((_, i) => (
-                        <button
-                          key={i}
-                          onClick={() => updateSymptom(symptom.id, 'severity', i + 1)}
-                          className={`w-8 h-8 rounded transition-colors ${
-                            symptom.severity >= i + 1 
-                              ? getSeverityColor(i + 1)
-                              : 'bg-muted hover:bg-muted/80'
-                          }`}
-                        >
-                          <span className="text-xs font-semibold text-white">
-                            {i + 1}
-                          </span>
-                        </button>
-                      ))}
-                    </div>
-                  </div>
-
-                  {/* Description */}
-                  {symptom.severity > 0 && (
-                    <div>
-                      <Label className="text-sm text-muted-foreground mb-2 block">
-                        Description (optional)
-                      </Label>
-                      <Textarea
-                        placeholder="Describe the symptom..."
-                        value={symptom.description}
-                        onChange={(e) => updateSymptom(symptom.id, 'description', e.target.value)}
-                        className="bg-background min-h-[60px]"
-                      />
+            {isLoadingCatalog && <p className="text-center text-muted-foreground">Loading symptoms...</p>}
+            {isErrorCatalog && !isLoadingCatalog && <p className="text-center text-red-500">Could not load the symptom list.</p>}
+            {catalog && (
+              <div className="space-y-6">
+                {catalog.categories.map((category) => {
+                  const categorySymptoms = catalog.symptoms.filter(symptom => symptom.category === category.id && !symptom.retired);
+                  if (categorySymptoms.length === 0) return null;
+                  return (
+                    <div key={category.id}>
+                      <h4 className="text-sm font-semibold text-muted-foreground uppercase tracking-wide mb-2">{category.name}</h4>
+                      <div className="space-y-4">
+                        {categorySymptoms.map((symptom) => {
+                          const rating = ratings[symptom.id] ?? { severity: 0, description: '' };
+                          const selectedStep = catalog.severityScale.find(step => step.level === rating.severity);
+                          return (
+                            <div key={symptom.id} className="border border-border rounded-lg p-4">
+                              <div className="flex items-start gap-3 mb-3">
+                                <span className="text-2xl">{symptom.icon}</span>
+                                <div>
+                                  <span className="font-medium text-foreground text-lg">{symptom.name}</span>
+                                  <p className="text-xs text-muted-foreground">{symptom.description}</p>
+                                </div>
+                              </div>
+
+                              {/* Severity Scale */}
+                              <div className="mb-3">
+                                <Label className="text-sm text-muted-foreground mb-2 block">
+                                  Severity{selectedStep ? `: ${selectedStep.label}` : ''}
+                                </Label>
+                                <div className="flex space-x-2">
+                                  {catalog.severityScale.map((step) => (
+                                    <button
+                                      key={step.level}
+                                      type="button"
+                                      title={`${step.label}: ${step.description}`}
+                                      onClick={() => updateSymptom(symptom.id, 'severity', step.level)}
+                                      className={`w-8 h-8 rounded transition-colors ${
+                                        rating.severity >= step.level
+                                          ? getSeverityColor(step.level)
+                                          : 'bg-muted hover:bg-muted/80'
+                                      }`}
+                                    >
+                                      <span className="text-xs font-semibold text-white">
+                                        {step.level}
+                                      </span>
+                                    </button>
+                                  ))}
+                                </div>
+                              </div>
+
+                              {/* Description */}
+                              {rating.severity > 0 && (
+                                <div>
+                                  <Label className="text-sm text-muted-foreground mb-2 block">
+                                    Description (optional)
+                                  </Label>
+                                  <Textarea
+                                    placeholder="Describe the symptom..."
+                                    value={rating.description}
+                                    onChange={(e) => updateSymptom(symptom.id, 'description', e.target.value)}
+                                    className="bg-background min-h-[60px]"
+                                  />
+                                </div>
+                              )}
+                            </div>
+                          );
+                        })}
+                      </div>
                     </div>
-                  )}
-                </div>
-              ))}
-            </div>
+                  );
+                })}
+              </div>
+            )}
           </CardContent>
         </Card>
 
@@ -0,0 +1,42 @@
+import React from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { Link } from 'react-router-dom';
+import { Hash } from 'lucide-react';
+import { Card, CardContent } from '@/components/ui/card';
+import { postApi } from '@/lib/api';
+import { TrendingTagsResponse } from '../types';
+
+// The most used hashtags of the last days, linking to their posts
+const TrendingTags: React.FC = () => {
+  const { data } = useQuery<TrendingTagsResponse, Error>({
+    queryKey: ['trendingTags'],
+    queryFn: async () => {
+      const response = await postApi.getTrendingTags();
+      if (response.error) throw new Error(response.error);
+      return response.data!;
+    },
+    staleTime: 5 * 60 * 1000,
+  });
+
+  if (!data || data.tags.length === 0) return null;
+
+  return (
+    <Card className="bg-card border-border">
+      <CardContent className="p-4">
+        <div className="flex items-center gap-2 mb-2">
+          <Hash className="w-4 h-4 text-muted-foreground" />
+          <h3 className="text-sm font-semibold text-foreground">Trending this week</h3>
+        </div>
+        <div className="flex flex-wrap gap-2">
+          {data.tags.map(({ tag, count }) => (
+            <Link key={tag} to={`/tags/${encodeURIComponent(tag)}`} className="text-xs px-2 py-1 rounded-full bg-muted text-primary hover:bg-primary/10">
+              #{tag} <span className="text-muted-foreground">{count}</span>
+            </Link>
+          ))}
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default TrendingTags;
@@ -8,6 +8,8 @@ import { useNavigate } from 'react-router-dom';
 import { useQuery } from '@tanstack/react-query';
 import { UserRecentSymptomSummary } from '../types';
 import SymptomDisplayBadge from './ui/SymptomDisplayBadge'; // Import the new component
+import LikelyTriggersCard from './LikelyTriggersCard';
+import ActivityHeatmap from './ActivityHeatmap';
 import { Avatar, AvatarImage, AvatarFallback } from '@/components/ui/avatar';
 import { Carousel, CarouselContent, CarouselItem } from '@/components/ui/carousel';
 import { Input } from '@/components/ui/input';
@@ -27,12 +29,12 @@ const WelcomeTab: React.FC<WelcomeTabProps> = ({ onNavigateToRecentScans }) => {
     // For now, return mock data. AuthToken is passed for future use.
     console.log('fetchUserRecentSymptoms called with token:', authToken ? 'present' : 'absent');
     const mockUserSymptomsData: UserRecentSymptomSummary[] = [
-      { name: 'Symptom 1', count: 3, averageSeverity: 4.2 },
-      { name: 'Symptom 3', count: 1, averageSeverity: 2.0 },
-      { name: 'Symptom 5', count: 5, averageSeverity: 3.5, maxSeverity: 5 },
-      { name: 'Bloating', count: 2, averageSeverity: 2.8 }, // Example with more data
-      { name: 'Fatigue', count: 4, maxSeverity: 3 }, // Example with only maxSeverity
-      { name: 'Itching', count: 1 }, // Example with no severity
+      { symptomId: 'headache', count: 3, averageSeverity: 4.2 },
+      { symptomId: 'nausea', count: 1, averageSeverity: 2.0 },
+      { symptomId: 'abdominal_pain', count: 5, averageSeverity: 3.5, maxSeverity: 5 },
+      { symptomId: 'bloating', count: 2, averageSeverity: 2.8 }, // Example with more data
+      { symptomId: 'fatigue', count: 4, maxSeverity: 3 }, // Example with only maxSeverity
+      { symptomId: 'itching', count: 1 }, // Example with no severity
     ];
     return Promise.resolve(mockUserSymptomsData);
   };
@@ -163,7 +165,7 @@ const WelcomeTab: React.FC<WelcomeTabProps> = ({ onNavigateToRecentScans }) => {
         <Card className="bg-card border-border text-center">
           <CardContent className="p-2 sm:p-4">
             <div className="text-lg sm:text-2xl font-bold text-primary flex items-center justify-center">
-              🔥 {user?.streak || 7}
+              🔥 {user?.streak ?? 0}
             </div>
             <div className="text-xs text-readable-muted">Day Streak</div>
           </CardContent>
@@ -238,8 +240,8 @@ const WelcomeTab: React.FC<WelcomeTabProps> = ({ onNavigateToRecentScans }) => {
                 const severity = symptom.averageSeverity ?? symptom.maxSeverity;
                 return (
                   <SymptomDisplayBadge
-                    key={symptom.name} // Assuming name is unique enough for key in this mock list
-                    name={symptom.name}
+                    key={symptom.symptomId}
+                    symptomId={symptom.symptomId}
                     count={symptom.count}
                     severity={severity}
                   />
@@ -250,6 +252,10 @@ const WelcomeTab: React.FC<WelcomeTabProps> = ({ onNavigateToRecentScans }) => {
         </CardContent>
       </Card>
 
+      <ActivityHeatmap />
+
+      <LikelyTriggersCard />
+
       {/* Action Buttons */}
       <div className="space-y-3">
         <Button 
@@ -1,21 +1,27 @@
 import React from 'react';
 import { Badge } from '@/components/ui/badge';
 import { getSeverityBadgeColorClass } from '@/lib/utils'; // Adjusted path assuming src/lib/utils.ts
+import { useSymptomCatalog } from '@/hooks/useSymptomCatalog';
 
 interface SymptomDisplayBadgeProps {
-  name: string;
+  symptomId?: string; // Catalog id; the localized name and icon are looked up from the symptom catalog
+  name?: string; // Shown when there is no catalog entry for symptomId
   count?: number;
   severity?: number; // Represents the severity level (e.g., 1-5) used for coloring
   className?: string; // Allow for additional custom classes
 }
 
 const SymptomDisplayBadge: React.FC<SymptomDisplayBadgeProps> = ({
+  symptomId,
   name,
   count,
   severity,
   className = '',
 }) => {
-  let displayText = name;
+  const { getSymptom } = useSymptomCatalog();
+  const entry = symptomId ? getSymptom(symptomId) : undefined;
+
+  let displayText = entry ? `${entry.icon} ${entry.name}` : (name ?? symptomId ?? '');
   if (count && count > 1) {
     displayText += ` x${count}`;
   }
@@ -27,7 +33,7 @@ const SymptomDisplayBadge: React.FC<SymptomDisplayBadgeProps> = ({
   const badgeClasses = `rounded-full px-3 py-1 text-xs whitespace-nowrap ${colorClass} ${className}`;
 
   return (
-    <Badge className={badgeClasses}>
+    <Badge className={badgeClasses} title={entry?.description}>
       {displayText}
     </Badge>
   );
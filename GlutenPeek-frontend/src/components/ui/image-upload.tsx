@@ -3,7 +3,9 @@ import React, { useState, useRef, useEffect } from 'react';
 import { Button } from '@/components/ui/button';
 import { ImageIcon, X, Loader2, AlertCircle } from 'lucide-react'; // Added Loader2 and AlertCircle
 import { toast } from '@/hooks/use-toast';
-import { uploadFileToS3 } from '@/lib/s3upload'; // Import the S3 upload utility
+import { uploadFile, validateImageFile } from '@/lib/upload';
+import { useAuth } from '@/contexts/AuthContext';
+import { UploadPurpose } from '@/types';
 import { v4 as uuidv4 } from 'uuid';
 
 // Define the state for each image being handled
@@ -21,7 +23,7 @@ interface ImageUploadProps {
   images: string[]; // Initial images (S3 URLs)
   onImagesChange: (s3Urls: string[]) => void; // Callback with array of S3 URLs
   maxImages?: number;
-  pathPrefix?: string; // Optional S3 path prefix (e.g., "posts/", "avatars/")
+  purpose: UploadPurpose; // Decides allowed types, size limit and storage location
   buttonText?: string; // Optional text for the upload button
 }
 
@@ -29,9 +31,10 @@ const ImageUpload: React.FC<ImageUploadProps> = ({
   images: initialS3Urls, // Renamed for clarity
   onImagesChange, 
   maxImages = 5,
-  pathPrefix = "uploads/", // Default path prefix
+  purpose,
   buttonText = "Add Images"
 }) => {
+  const { token } = useAuth();
   const [uploadedImages, setUploadedImages] = useState<UploadableImage[]>([]);
   const fileInputRef = useRef<HTMLInputElement>(null);
 
@@ -57,7 +60,14 @@ const ImageUpload: React.FC<ImageUploadProps> = ({
     ));
 
     try {
-      const s3Url = await uploadFileToS3(imageToUpload.file, pathPrefix);
+      if (!token) {
+        throw new Error("Please log in to upload images");
+      }
+      const result = await uploadFile(imageToUpload.file, purpose, token);
+      if (result.error || !result.data) {
+        throw new Error(result.error || "Upload failed");
+      }
+      const s3Url = result.data.fileUrl;
       setUploadedImages(prev => prev.map(img =>
         img.id === imageToUpload.id ? { ...img, status: 'success', s3Url, file: undefined } : img
       ));
@@ -99,22 +109,12 @@ const ImageUpload: React.FC<ImageUploadProps> = ({
     const newUploadableImages: UploadableImage[] = [];
 
     filesToProcess.forEach((file) => {
-      // Client-side validation (type)
-      const validImageTypes = ['image/jpeg', 'image/png', 'image/gif', 'image/webp'];
-      if (!validImageTypes.includes(file.type)) {
+      // Client-side validation for quick feedback; the backend re-checks type and size
+      const fileError = validateImageFile(file, purpose);
+      if (fileError) {
         toast({
-          title: "Invalid file type",
-          description: `${file.name} is not a valid image type. Only JPG, PNG, GIF, WEBP are allowed.`,
-          variant: "destructive"
-        });
-        return; // Skip this file
-      }
-      // Client-side validation (size) - S3 utility also validates, but good for UX
-      const MAX_FILE_SIZE_MB = 5;
-      if (file.size > MAX_FILE_SIZE_MB * 1024 * 1024) {
-         toast({
-          title: "File too large",
-          description: `${file.name} exceeds the ${MAX_FILE_SIZE_MB}MB size limit.`,
+          title: "Invalid image",
+          description: `${file.name}: ${fileError}`,
           variant: "destructive"
         });
         return; // Skip this file
@@ -146,9 +146,8 @@ const ImageUpload: React.FC<ImageUploadProps> = ({
     if (imageToRemove && imageToRemove.file && imageToRemove.previewUrl.startsWith('blob:')) {
       URL.revokeObjectURL(imageToRemove.previewUrl);
     }
-    // TODO: If image is currently uploading, ideally cancel the S3 upload.
-    // PutObjectCommand doesn't support cancellation directly. For that, @aws-sdk/lib-storage Upload is needed.
-    // For now, we just remove it from UI. It might still upload in background.
+    // TODO: If image is currently uploading, ideally abort the PUT.
+    // For now, we just remove it from UI. It might still upload in background; unconfirmed uploads expire after a day.
     setUploadedImages(prev => prev.filter(img => img.id !== idToRemove));
     // onImagesChange will be called by the useEffect hook listening to uploadedImages changes
   };
@@ -287,6 +287,21 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
     localStorageUser: getUserFromLocalStorage() // What's currently in localStorage
   });
   
+  // Store the browser's time zone the first time we see a user without one,
+  // so days and streaks follow the user's local calendar
+  useEffect(() => {
+    if (!token || !currentUser || currentUser.settings?.timezone) return;
+    const timezone = Intl.DateTimeFormat().resolvedOptions().timeZone;
+    if (!timezone) return;
+    authApi.updateSettings({ timezone }, token).then(response => {
+      if (response.data) {
+        setUserWithStorage(response.data);
+        queryClient.setQueryData(['currentUser', token], response.data);
+      }
+    });
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [token, currentUser?.id, currentUser?.settings?.timezone]);
+
   // If query finished successfully but returned no data, check if we should use localStorage data
   useEffect(() => {
     if (!isUserFetching && !fetchedUser && token) {
@@ -0,0 +1,20 @@
+import { useQuery } from '@tanstack/react-query';
+import { productApi } from '@/lib/api';
+import { ProductSymptomStats } from '@/types';
+
+const fetchProductSymptomStats = async (barcode: string, days?: number): Promise<ProductSymptomStats> => {
+  const response = await productApi.getSymptomStats(barcode, days);
+  if (response.error) {
+    throw new Error(response.error);
+  }
+  return response.data;
+};
+
+// Anonymized community symptom statistics for a product, optionally for the last `days` days
+export const useProductSymptomStats = (barcode: string | undefined, days?: number) => {
+  return useQuery<ProductSymptomStats, Error>({
+    queryKey: ['productSymptoms', barcode, days ?? 'all'],
+    queryFn: () => fetchProductSymptomStats(barcode as string, days),
+    enabled: !!barcode,
+  });
+};
\ No newline at end of file
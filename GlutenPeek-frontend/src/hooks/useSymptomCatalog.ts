@@ -0,0 +1,29 @@
+import { useCallback } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { symptomApi } from '@/lib/api';
+import { SymptomCatalog, SymptomCatalogEntry } from '@/types';
+
+const fetchSymptomCatalog = async (lang: string): Promise<SymptomCatalog> => {
+  const response = await symptomApi.getCatalog(lang);
+  if (response.error) {
+    throw new Error(response.error);
+  }
+  return response.data;
+};
+
+// Loads the server-managed symptom catalog once per session, in the browser's language
+export const useSymptomCatalog = () => {
+  const lang = navigator.language;
+  const query = useQuery<SymptomCatalog, Error>({
+    queryKey: ['symptomCatalog', lang],
+    queryFn: () => fetchSymptomCatalog(lang),
+    staleTime: Infinity,
+  });
+
+  const getSymptom = useCallback(
+    (symptomId: string): SymptomCatalogEntry | undefined => query.data?.symptoms.find(symptom => symptom.id === symptomId),
+    [query.data]
+  );
+
+  return { ...query, catalog: query.data, getSymptom };
+};
\ No newline at end of file
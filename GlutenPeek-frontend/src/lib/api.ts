@@ -1,12 +1,8 @@
-import { toast } from '@/hooks/use-toast';
+import { AchievementSummary, ActivityCalendar, ClaimStateUpdate, ClaimVote, ClaimVoteResponse, Comment, CommentsResponse, NewComment, RepliesResponse, ModerationItemType, ModerationQueueFilters, ModerationQueueResponse, NotificationsResponse, Post, PostEdit, PostReportReason, PostsResponse, PostUpdate, ReputationSummary, StatusChange, GlutenClassification, UploadPurpose, UploadRecord, UploadTicket, AiProductExtraction, AiGlutenCheck, AiUsage, ScanHistoryFilters, ScanHistoryItem, ScanHistoryResponse, SymptomCatalog, TagPostsResponse, TrendingTagsResponse, ProductSymptomStats, TriggerAnalysis, User, UserSettings } from '@/types';
 
 // Base URL configuration (should be moved to environment variables in production)
 const API_BASE_URL = import.meta.env.VITE_API_BASE_URL || 'http://localhost:3001'; // Default to localhost if not set
 
-const GEMINI_API_URL = import.meta.env.VITE_GEMINI_API_URL || 'https://generativelanguage.googleapis.com/v1beta';
-const GEMINI_API_KEY = import.meta.env.VITE_GEMINI_API_KEY;
-const GEMINI_MODEL = import.meta.env.VITE_GEMINI_MODEL || 'gemini-2.0-flash';
-
 // Open Food Facts configuration (no key needed)
 const OFF_API_URL = 'https://world.openfoodfacts.org/api/v3';
 
@@ -215,6 +211,63 @@ export const authApi = {
         status: 0
       };
     }
+  },
+
+  updateSettings: async (settings: Partial<UserSettings>, token: string): Promise<ApiResponse<User>> => {
+    return apiFetch('/api/users/settings', {
+      method: 'PATCH',
+      headers: getAuthHeader(token),
+      body: JSON.stringify(settings)
+    });
+  },
+
+  // Own badges, including upcoming ones with progress
+  getMyAchievements: async (token: string): Promise<ApiResponse<AchievementSummary>> => {
+    return apiFetch('/api/users/me/achievements', {
+      headers: getAuthHeader(token)
+    });
+  },
+
+  // Another user's earned badges
+  getUserAchievements: async (userId: string): Promise<ApiResponse<AchievementSummary>> => {
+    return apiFetch(`/api/users/${userId}/achievements`, {
+      headers: getAuthHeader(null)
+    });
+  },
+
+  getMyReputation: async (token: string, cursor?: string): Promise<ApiResponse<ReputationSummary>> => {
+    const query = cursor ? `?cursor=${cursor}` : '';
+    return apiFetch(`/api/users/me/reputation${query}`, {
+      headers: getAuthHeader(token)
+    });
+  },
+
+  getUserReputation: async (userId: string, cursor?: string): Promise<ApiResponse<ReputationSummary>> => {
+    const query = cursor ? `?cursor=${cursor}` : '';
+    return apiFetch(`/api/users/${userId}/reputation${query}`, {
+      headers: getAuthHeader(null)
+    });
+  },
+
+  searchUsers: async (query: string, limit = 5): Promise<ApiResponse<{ users: User[]; nextCursor: string | null }>> => {
+    return apiFetch(`/api/users/search?q=${encodeURIComponent(query)}&limit=${limit}`);
+  },
+
+  // Mentions and other notifications, newest first, with the unread count
+  getMyNotifications: async (token: string, cursor?: string): Promise<ApiResponse<NotificationsResponse>> => {
+    const query = cursor ? `?cursor=${cursor}` : '';
+    return apiFetch(`/api/users/me/notifications${query}`, {
+      headers: getAuthHeader(token)
+    });
+  },
+
+  // Marks the given notifications, or all of them, as read
+  markNotificationsRead: async (token: string, ids?: string[]): Promise<ApiResponse<{ marked: number }>> => {
+    return apiFetch('/api/users/me/notifications/read', {
+      method: 'POST',
+      headers: getAuthHeader(token),
+      body: JSON.stringify({ ids })
+    });
   }
 };
 
@@ -239,6 +292,22 @@ export const productApi = {
     });
   },
   
+  // days limits the statistics to recent reports (30, 90 or 365); omit for all time
+  getSymptomStats: async (barcode: string, days?: number): Promise<ApiResponse<ProductSymptomStats>> => {
+    const params = new URLSearchParams();
+    if (days) params.append('days', days.toString());
+
+    return apiFetch(`/api/products/${barcode}/symptoms?${params.toString()}`, {
+      headers: getAuthHeader(null)
+    });
+  },
+
+  getClassification: async (barcode: string): Promise<ApiResponse<GlutenClassification>> => {
+    return apiFetch(`/api/products/${barcode}/classification`, {
+      headers: getAuthHeader(null)
+    });
+  },
+  
   createProduct: async (productData: any, token: string): Promise<ApiResponse<any>> => {
     return apiFetch('/api/products', {
       method: 'POST',
@@ -260,13 +329,59 @@ export const scanApi = {
     });
   },
   
-  getRecentScans: async (token: string, limit?: number): Promise<ApiResponse<any>> => {
+  getRecentScans: async (token: string, filters: ScanHistoryFilters = {}): Promise<ApiResponse<ScanHistoryResponse>> => {
     const params = new URLSearchParams();
-    if (limit) params.append('limit', limit.toString());
+    if (filters.limit) params.append('limit', filters.limit.toString());
+    if (filters.cursor) params.append('cursor', filters.cursor);
+    if (filters.from) params.append('from', filters.from);
+    if (filters.to) params.append('to', filters.to);
+    if (filters.status && filters.status.length > 0) params.append('status', filters.status.join(','));
     
     return apiFetch(`/api/scans?${params.toString()}`, {
       headers: getAuthHeader(token)
     });
+  },
+
+  updateScan: async (scanId: string, scanData: { date?: string, productBarcode?: string }, token: string): Promise<ApiResponse<ScanHistoryItem>> => {
+    return apiFetch(`/api/scans/${scanId}`, {
+      method: 'PATCH',
+      headers: getAuthHeader(token),
+      body: JSON.stringify(scanData)
+    });
+  },
+
+  // DELETE responds with 204 and no body, so apiFetch's JSON parsing is skipped here
+  deleteScan: async (scanId: string, token: string): Promise<ApiResponse<null>> => {
+    try {
+      const response = await fetch(`${API_BASE_URL}/api/scans/${scanId}`, {
+        method: 'DELETE',
+        headers: getAuthHeader(token)
+      });
+      if (!response.ok) {
+        return handleApiError(response);
+      }
+      return { data: null, status: response.status };
+    } catch (error) {
+      console.error("Delete scan API call failed:", error);
+      return {
+        error: error instanceof Error ? error.message : "Unknown error deleting scan",
+        status: 0
+      };
+    }
+  }
+};
+
+// =====================
+// Day API functions
+// =====================
+export const dayApi = {
+  // from and to are local dates (YYYY-MM-DD), inclusive
+  getCalendar: async (token: string, from: string, to: string): Promise<ApiResponse<ActivityCalendar>> => {
+    const params = new URLSearchParams({ from, to });
+
+    return apiFetch(`/api/days/calendar?${params.toString()}`, {
+      headers: getAuthHeader(token)
+    });
   }
 };
 
@@ -274,264 +389,351 @@ export const scanApi = {
 // Status API functions
 // =====================
 export const statusApi = {
-  updateProductStatus: async (barcode: string, statusData: { status: string, explanation: string }, token: string): Promise<ApiResponse<any>> => {
+  updateProductStatus: async (barcode: string, statusData: { status: number, explanation: string }, token: string): Promise<ApiResponse<any>> => {
     return apiFetch(`/api/status/${barcode}`, {
       method: 'PATCH',
       headers: getAuthHeader(token),
       body: JSON.stringify(statusData)
     });
+  },
+
+  getStatusHistory: async (barcode: string): Promise<ApiResponse<StatusChange[]>> => {
+    return apiFetch(`/api/status/${barcode}/history`, {
+      headers: getAuthHeader(null)
+    });
   }
 };
 
 // =====================
-// Open Food Facts API
+// Symptom API functions
 // =====================
-export const openFoodFactsApi = {
-  getProduct: async (barcode: string): Promise<ApiResponse<any>> => {
-    return apiFetch(`/product/${barcode}.json`, {}, OFF_API_URL);
+export const symptomApi = {
+  getCatalog: async (lang?: string): Promise<ApiResponse<SymptomCatalog>> => {
+    const params = new URLSearchParams();
+    if (lang) params.append('lang', lang);
+
+    return apiFetch(`/api/symptoms/catalog?${params.toString()}`, {
+      headers: getAuthHeader(null)
+    });
+  },
+
+  getTriggers: async (token: string, windowHours?: number): Promise<ApiResponse<TriggerAnalysis>> => {
+    const params = new URLSearchParams();
+    if (windowHours) params.append('windowHours', windowHours.toString());
+
+    return apiFetch(`/api/symptoms/triggers?${params.toString()}`, {
+      headers: getAuthHeader(token)
+    });
   }
 };
 
 // =====================
-// Barcode Scanner API
+// Post API functions
 // =====================
-import { scanBlobForBarcode } from './barcodeScanner';
+export const postApi = {
+  getPost: async (postId: string): Promise<ApiResponse<Post>> => {
+    return apiFetch(`/api/posts/${postId}`);
+  },
 
-export const barcodeApi = {
-  scanBarcodeFromImage: async (imageBlob: Blob): Promise<ApiResponse<{barcode: string}>> => {
+  getUserPosts: async (userId: string, cursor?: string): Promise<ApiResponse<PostsResponse>> => {
+    return apiFetch(`/api/posts/user/${userId}${cursor ? `?cursor=${cursor}` : ''}`);
+  },
+
+  // Posts about a product, or with a comment about it
+  getProductPosts: async (barcode: string, cursor?: string): Promise<ApiResponse<PostsResponse>> => {
+    return apiFetch(`/api/posts/product/${barcode}${cursor ? `?cursor=${cursor}` : ''}`);
+  },
+
+  // Most used hashtags of the last days
+  getTrendingTags: async (limit?: number): Promise<ApiResponse<TrendingTagsResponse>> => {
+    return apiFetch(`/api/posts/tags/trending${limit ? `?limit=${limit}` : ''}`);
+  },
+
+  // Posts using a hashtag, or with a comment using it
+  getTagPosts: async (tag: string, cursor?: string): Promise<ApiResponse<TagPostsResponse>> => {
+    return apiFetch(`/api/posts/tag/${encodeURIComponent(tag)}${cursor ? `?cursor=${cursor}` : ''}`);
+  },
+
+  // Earlier versions, newest first
+  getPostEdits: async (postId: string): Promise<ApiResponse<{ editedAt: string | null; edits: PostEdit[] }>> => {
+    return apiFetch(`/api/posts/${postId}/edits`);
+  },
+
+  updatePost: async (postId: string, update: PostUpdate, token: string): Promise<ApiResponse<Post>> => {
+    return apiFetch(`/api/posts/${postId}`, {
+      method: 'PATCH',
+      headers: getAuthHeader(token),
+      body: JSON.stringify(update)
+    });
+  },
+
+  // DELETE responds with 204 and no body, so apiFetch's JSON parsing is skipped here
+  deletePost: async (postId: string, token: string): Promise<ApiResponse<null>> => {
     try {
-      // Use the browser-based barcode scanner instead of an external API
-      const barcode = await scanBlobForBarcode(imageBlob);
-      
-      if (barcode) {
-        return { data: { barcode }, status: 200 };
-      } else {
-        return { error: "No barcode detected in the image", status: 404 };
+      const response = await fetch(`${API_BASE_URL}/api/posts/${postId}`, {
+        method: 'DELETE',
+        headers: getAuthHeader(token)
+      });
+      if (!response.ok) {
+        return handleApiError(response);
       }
+      return { data: null, status: response.status };
     } catch (error) {
-      console.error("Barcode scan failed:", error);
+      console.error("Delete post API call failed:", error);
       return {
-        error: error instanceof Error ? error.message : "Unknown error scanning barcode",
+        error: error instanceof Error ? error.message : "Unknown error deleting post",
         status: 0
       };
     }
+  },
+
+  reportPost: async (postId: string, report: { reason: PostReportReason, details?: string }, token: string): Promise<ApiResponse<{ message: string }>> => {
+    return apiFetch(`/api/posts/${postId}/report`, {
+      method: 'POST',
+      headers: getAuthHeader(token),
+      body: JSON.stringify(report)
+    });
   }
 };
 
 // =====================
-// Gemini AI API
+// Comment API functions
 // =====================
-export const geminiApi = {
-  generateProductInfo: async (images: string[], prompt: string): Promise<ApiResponse<any>> => {
-    if (!GEMINI_API_KEY) {
-      toast({
-        title: "API Key Missing",
-        description: "Google Gemini API key is not configured.",
-        variant: "destructive"
-      });
-      return { error: "Gemini API key is not configured", status: 0 };
-    }
-    
-    // Format the request according to Gemini API requirements
-    const requestData = {
-      contents: [
-        {
-          parts: [
-            { text: prompt },
-            ...images.map(image => ({
-              inlineData: {
-                mimeType: "image/jpeg",
-                data: image.split("base64,")[1] // Remove the data:image/jpeg;base64, prefix
-              }
-            }))
-          ]
-        }
-      ],
-      generationConfig: {
-        temperature: 0.4,
-        topK: 32,
-        topP: 1,
-        maxOutputTokens: 2048,
-      }
-    };
-    
+export const commentApi = {
+  getComments: async (postId: string, cursor?: string): Promise<ApiResponse<CommentsResponse>> => {
+    return apiFetch(`/api/comments/post/${postId}${cursor ? `?cursor=${cursor}` : ''}`);
+  },
+
+  getReplies: async (commentId: string, cursor?: string): Promise<ApiResponse<RepliesResponse>> => {
+    return apiFetch(`/api/comments/${commentId}/replies${cursor ? `?cursor=${cursor}` : ''}`);
+  },
+
+  addComment: async (postId: string, comment: NewComment, token: string): Promise<ApiResponse<Comment>> => {
+    return apiFetch(`/api/comments/${postId}`, {
+      method: 'POST',
+      headers: getAuthHeader(token),
+      body: JSON.stringify(comment)
+    });
+  },
+
+  editComment: async (commentId: string, content: string, token: string): Promise<ApiResponse<Comment>> => {
+    return apiFetch(`/api/comments/${commentId}`, {
+      method: 'PATCH',
+      headers: getAuthHeader(token),
+      body: JSON.stringify({ content })
+    });
+  },
+
+  // DELETE responds with 204 and no body, so apiFetch's JSON parsing is skipped here
+  deleteComment: async (commentId: string, token: string): Promise<ApiResponse<null>> => {
     try {
-      const response = await fetch(
-        `${GEMINI_API_URL}/models/${GEMINI_MODEL}:generateContent?key=${GEMINI_API_KEY}`,
-        {
-          method: 'POST',
-          headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify(requestData)
-        }
-      );
-      
+      const response = await fetch(`${API_BASE_URL}/api/comments/${commentId}`, {
+        method: 'DELETE',
+        headers: getAuthHeader(token)
+      });
       if (!response.ok) {
         return handleApiError(response);
       }
-      
-      const data = await response.json();
-      
-      // Extract the relevant text from Gemini's response
-      const responseText = data.candidates?.[0]?.content?.parts?.[0]?.text || '';
-      
-      // Parse the response text to extract product name and ingredients
-      // This is a simple approach; might need more sophisticated parsing depending on Gemini's output format
-      const productInfo = extractProductInfoFromGeminiResponse(responseText);
-      
-      return { 
-        data: {
-          success: true,
-          product: productInfo
-        }, 
-        status: 200 
-      };
+      return { data: null, status: response.status };
     } catch (error) {
-      console.error("Gemini API call failed:", error);
+      console.error("Delete comment API call failed:", error);
       return {
-        error: error instanceof Error ? error.message : "Unknown error with Gemini AI",
+        error: error instanceof Error ? error.message : "Unknown error deleting comment",
         status: 0
       };
     }
   },
-  
-  checkGlutenStatus: async (productData: { productName: string, ingredients: string, currentStatus?: string }): Promise<ApiResponse<any>> => {
-    if (!GEMINI_API_KEY) {
-      toast({
-        title: "API Key Missing",
-        description: "Google Gemini API key is not configured.",
-        variant: "destructive"
-      });
-      return { error: "Gemini API key is not configured", status: 0 };
-    }
-    
-    const prompt = `
-      You are a gluten analysis expert. Analyze this product to determine if it contains gluten.
-      
-      Product name: ${productData.productName}
-      Ingredients: ${productData.ingredients}
-      Current gluten status: ${productData.currentStatus || 'unknown'}
-      
-      Return a JSON object with these fields:
-      - glutenFreeStatus: One of "gluten-free", "contains-gluten", or "unknown"
-      - explanation: A brief explanation for your assessment
-      
-      If ingredients contain wheat, barley, rye, or their derivatives, classify as "contains-gluten".
-      If you're uncertain, classify as "unknown".
-    `;
-    
-    const requestData = {
-      contents: [
-        {
-          parts: [{ text: prompt }]
-        }
-      ],
-      generationConfig: {
-        temperature: 0.2,
-        topK: 32,
-        topP: 1,
-        maxOutputTokens: 1024,
-      }
-    };
-    
+
+  // Moderators only
+  removeComment: async (commentId: string, note: string | undefined, token: string): Promise<ApiResponse<Comment>> => {
+    return apiFetch(`/api/comments/${commentId}/remove`, {
+      method: 'POST',
+      headers: getAuthHeader(token),
+      body: JSON.stringify({ note })
+    });
+  }
+};
+
+// =====================
+// Claim API functions
+// =====================
+export const claimApi = {
+  vote: async (claimId: string, vote: ClaimVote, token: string): Promise<ApiResponse<ClaimVoteResponse>> => {
+    return apiFetch(`/api/claims/${claimId}/vote`, {
+      method: 'PUT',
+      headers: getAuthHeader(token),
+      body: JSON.stringify(vote)
+    });
+  },
+
+  removeVote: async (claimId: string, token: string): Promise<ApiResponse<ClaimVoteResponse>> => {
+    return apiFetch(`/api/claims/${claimId}/vote`, {
+      method: 'DELETE',
+      headers: getAuthHeader(token)
+    });
+  },
+
+  // The current user's votes, keyed by claim id
+  getMyVotes: async (claimIds: string[], token: string): Promise<ApiResponse<{ votes: Record<string, ClaimVote> }>> => {
+    return apiFetch(`/api/claims/votes/mine?ids=${claimIds.join(',')}`, {
+      headers: getAuthHeader(token)
+    });
+  },
+
+  updateState: async (claimId: string, update: ClaimStateUpdate, token: string): Promise<ApiResponse<any>> => {
+    return apiFetch(`/api/claims/${claimId}/state`, {
+      method: 'PATCH',
+      headers: getAuthHeader(token),
+      body: JSON.stringify(update)
+    });
+  }
+};
+
+// =====================
+// Moderation API functions (moderators only)
+// =====================
+export const moderationApi = {
+  getQueue: async (token: string, filters: ModerationQueueFilters = {}): Promise<ApiResponse<ModerationQueueResponse>> => {
+    const params = new URLSearchParams();
+    if (filters.type && filters.type.length > 0) params.append('type', filters.type.join(','));
+    if (filters.state && filters.state.length > 0) params.append('state', filters.state.join(','));
+    if (filters.product) params.append('product', filters.product);
+    if (filters.olderThanDays !== undefined) params.append('olderThanDays', filters.olderThanDays.toString());
+    if (filters.newerThanDays !== undefined) params.append('newerThanDays', filters.newerThanDays.toString());
+    if (filters.assignee) params.append('assignee', filters.assignee);
+    if (filters.limit) params.append('limit', filters.limit.toString());
+    if (filters.cursor) params.append('cursor', filters.cursor);
+
+    return apiFetch(`/api/moderation/queue?${params.toString()}`, {
+      headers: getAuthHeader(token)
+    });
+  },
+
+  // Assigns to the current moderator when userId is omitted
+  assign: async (type: ModerationItemType, id: string, token: string, userId?: string): Promise<ApiResponse<any>> => {
+    return apiFetch(`/api/moderation/${type}/${id}/assignee`, {
+      method: 'PUT',
+      headers: getAuthHeader(token),
+      body: JSON.stringify(userId ? { userId } : {})
+    });
+  },
+
+  // DELETE responds with 204 and no body, so apiFetch's JSON parsing is skipped here
+  unassign: async (type: ModerationItemType, id: string, token: string): Promise<ApiResponse<null>> => {
     try {
-      const response = await fetch(
-        `${GEMINI_API_URL}/models/${GEMINI_MODEL}:generateContent?key=${GEMINI_API_KEY}`,
-        {
-          method: 'POST',
-          headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify(requestData)
-        }
-      );
-      
+      const response = await fetch(`${API_BASE_URL}/api/moderation/${type}/${id}/assignee`, {
+        method: 'DELETE',
+        headers: getAuthHeader(token)
+      });
       if (!response.ok) {
         return handleApiError(response);
       }
+      return { data: null, status: response.status };
+    } catch (error) {
+      console.error("Unassign API call failed:", error);
+      return {
+        error: error instanceof Error ? error.message : "Unknown error unassigning item",
+        status: 0
+      };
+    }
+  },
+
+  resolvePost: async (postId: string, action: 'dismiss' | 'remove', note: string | undefined, token: string): Promise<ApiResponse<any>> => {
+    return apiFetch(`/api/moderation/posts/${postId}/resolve`, {
+      method: 'POST',
+      headers: getAuthHeader(token),
+      body: JSON.stringify({ action, note })
+    });
+  },
+
+  resolveProduct: async (productId: string, action: 'approve' | 'reject', note: string | undefined, token: string): Promise<ApiResponse<any>> => {
+    return apiFetch(`/api/moderation/products/${productId}/resolve`, {
+      method: 'POST',
+      headers: getAuthHeader(token),
+      body: JSON.stringify({ action, note })
+    });
+  }
+};
+
+// =====================
+// Open Food Facts API
+// =====================
+export const openFoodFactsApi = {
+  getProduct: async (barcode: string): Promise<ApiResponse<any>> => {
+    return apiFetch(`/product/${barcode}.json`, {}, OFF_API_URL);
+  }
+};
+
+// =====================
+// Barcode Scanner API
+// =====================
+import { scanBlobForBarcode } from './barcodeScanner';
+
+export const barcodeApi = {
+  scanBarcodeFromImage: async (imageBlob: Blob): Promise<ApiResponse<{barcode: string}>> => {
+    try {
+      // Use the browser-based barcode scanner instead of an external API
+      const barcode = await scanBlobForBarcode(imageBlob);
       
-      const data = await response.json();
-      const responseText = data.candidates?.[0]?.content?.parts?.[0]?.text || '';
-      
-      // Extract JSON from the response (Gemini might wrap it in markdown code blocks)
-      const jsonMatch = responseText.match(/```json\n([\s\S]*?)\n```/) || 
-                        responseText.match(/```\n([\s\S]*?)\n```/) ||
-                        responseText.match(/{[\s\S]*?}/);
-      
-      let glutenInfo;
-      if (jsonMatch) {
-        try {
-          glutenInfo = JSON.parse(jsonMatch[0].replace(/```json\n|```\n|```/g, ''));
-        } catch (e) {
-          // If JSON parsing fails, attempt to extract the information using regex
-          glutenInfo = extractGlutenInfoFromText(responseText);
-        }
+      if (barcode) {
+        return { data: { barcode }, status: 200 };
       } else {
-        glutenInfo = extractGlutenInfoFromText(responseText);
+        return { error: "No barcode detected in the image", status: 404 };
       }
-      
-      return { 
-        data: {
-          success: true,
-          glutenFreeStatus: glutenInfo.glutenFreeStatus || 'unknown',
-          explanation: glutenInfo.explanation || 'Unable to determine'
-        }, 
-        status: 200 
-      };
     } catch (error) {
-      console.error("Gemini API call failed:", error);
+      console.error("Barcode scan failed:", error);
       return {
-        error: error instanceof Error ? error.message : "Unknown error with Gemini AI",
+        error: error instanceof Error ? error.message : "Unknown error scanning barcode",
         status: 0
       };
     }
   }
 };
 
-// Helper function to extract product info from Gemini response
-function extractProductInfoFromGeminiResponse(text: string): { name: string, ingredients: string } {
-  // Default values
-  let productInfo = {
-    name: 'Unknown Product',
-    ingredients: ''
-  };
-  
-  // Look for name
-  const nameMatch = text.match(/Product name:?\s*([^\n]+)/i) ||
-                    text.match(/Name:?\s*([^\n]+)/i);
-  if (nameMatch && nameMatch[1].trim()) {
-    productInfo.name = nameMatch[1].trim();
-  }
-  
-  // Look for ingredients
-  const ingredientsMatch = text.match(/Ingredients:?\s*([^\n]+(?:\n[^\n]+)*)/i);
-  if (ingredientsMatch && ingredientsMatch[1].trim()) {
-    productInfo.ingredients = ingredientsMatch[1].trim();
-  }
-  
-  return productInfo;
-}
+// =====================
+// Upload API (the file itself is PUT to the returned URL, see lib/upload.ts)
+// =====================
+export const uploadApi = {
+  requestUpload: async (purpose: UploadPurpose, contentType: string, size: number, token: string): Promise<ApiResponse<UploadTicket>> => {
+    return apiFetch('/api/uploads', {
+      method: 'POST',
+      headers: getAuthHeader(token),
+      body: JSON.stringify({ purpose, contentType, size })
+    });
+  },
 
-// Helper function to extract gluten info when JSON parsing fails
-function extractGlutenInfoFromText(text: string): { glutenFreeStatus: string, explanation: string } {
-  // Default values
-  let glutenInfo = {
-    glutenFreeStatus: 'unknown',
-    explanation: 'Unable to determine from AI response'
-  };
-  
-  // Look for gluten status
-  if (text.match(/gluten[- ]free/i) && !text.match(/not gluten[- ]free/i)) {
-    glutenInfo.glutenFreeStatus = 'gluten-free';
-  } else if (text.match(/contains gluten|has gluten|gluten[- ]containing/i)) {
-    glutenInfo.glutenFreeStatus = 'contains-gluten';
-  }
-  
-  // Look for explanation
-  const explanationMatch = text.match(/explanation:?\s*([^\n]+(?:\n[^\n]+)*)/i) ||
-                          text.match(/analysis:?\s*([^\n]+(?:\n[^\n]+)*)/i) ||
-                          text.match(/assessment:?\s*([^\n]+(?:\n[^\n]+)*)/i);
-  if (explanationMatch && explanationMatch[1].trim()) {
-    glutenInfo.explanation = explanationMatch[1].trim();
+  completeUpload: async (uploadId: string, token: string): Promise<ApiResponse<UploadRecord>> => {
+    return apiFetch(`/api/uploads/${uploadId}/complete`, {
+      method: 'POST',
+      headers: getAuthHeader(token)
+    });
   }
-  
-  return glutenInfo;
-}
+};
+
+// =====================
+// AI API (proxied by the backend, which holds the provider key)
+// =====================
+export const aiApi = {
+  // images are data URLs (data:image/jpeg;base64,...)
+  extractProductInfo: async (barcode: string, images: string[], token: string): Promise<ApiResponse<AiProductExtraction>> => {
+    return apiFetch('/api/ai/extract', {
+      method: 'POST',
+      headers: getAuthHeader(token),
+      body: JSON.stringify({ barcode, images })
+    });
+  },
 
+  checkGlutenStatus: async (barcode: string, token: string): Promise<ApiResponse<AiGlutenCheck>> => {
+    return apiFetch('/api/ai/gluten-check', {
+      method: 'POST',
+      headers: getAuthHeader(token),
+      body: JSON.stringify({ barcode })
+    });
+  },
+
+  getUsage: async (token: string): Promise<ApiResponse<AiUsage>> => {
+    return apiFetch('/api/ai/usage', {
+      headers: getAuthHeader(token)
+    });
+  }
+};
@@ -0,0 +1,43 @@
+// Hashtags and mentions in post and comment text (backend: utils/textEntities.js).
+// A mention is stored as @[Name](userId) and shown as @Name.
+const HASHTAG_PATTERN = /(^|[^\p{L}\p{N}_&#/])#([\p{L}\p{N}_]*\p{L}[\p{L}\p{N}_]*)/gu;
+const MENTION_PATTERN = /@\[([^\]\n]{1,60})\]\(([a-f0-9]{24})\)/g;
+
+export type TextSegment =
+  | { type: 'text'; text: string }
+  | { type: 'hashtag'; text: string; tag: string }
+  | { type: 'mention'; text: string; userId: string };
+
+const splitHashtags = (text: string): TextSegment[] => {
+  const segments: TextSegment[] = [];
+  let last = 0;
+  for (const match of text.matchAll(HASHTAG_PATTERN)) {
+    const start = match.index! + match[1].length;
+    if (start > last) segments.push({ type: 'text', text: text.slice(last, start) });
+    segments.push({ type: 'hashtag', text: `#${match[2]}`, tag: match[2].toLowerCase() });
+    last = start + match[2].length + 1;
+  }
+  if (last < text.length) segments.push({ type: 'text', text: text.slice(last) });
+  return segments;
+};
+
+// Splits text into plain runs, hashtags and mentions, in order
+export const splitRichText = (text: string): TextSegment[] => {
+  const segments: TextSegment[] = [];
+  let last = 0;
+  for (const match of text.matchAll(MENTION_PATTERN)) {
+    segments.push(...splitHashtags(text.slice(last, match.index)));
+    segments.push({ type: 'mention', text: `@${match[1]}`, userId: match[2] });
+    last = match.index! + match[0].length;
+  }
+  segments.push(...splitHashtags(text.slice(last)));
+  return segments;
+};
+
+// What to insert into the text to mention a user
+export const mentionMarkup = (user: { id: string; name: string }): string =>
+  `@[${user.name.replace(/[\]\n]/g, '').slice(0, 60)}](${user.id})`;
+
+// Adds a mention to the end of the text being written
+export const appendMention = (text: string, markup: string): string =>
+  `${text.trimEnd()}${text.trim() ? ' ' : ''}${markup} `;
@@ -0,0 +1,77 @@
+import { toast } from "@/hooks/use-toast";
+import { uploadApi } from "@/lib/api";
+import { UploadPurpose } from "@/types";
+
+// Define the response type to match our API service pattern
+export interface UploadResponse {
+  data?: { fileUrl: string };
+  error?: string;
+  status: number;
+}
+
+// Mirrors the backend limits so users get instant feedback; the backend re-checks everything
+const VALID_IMAGE_TYPES = ['image/jpeg', 'image/png', 'image/gif', 'image/webp'];
+const MAX_FILE_SIZE_MB: Record<UploadPurpose, number> = {
+  product: 8,
+  claim: 8,
+  post: 8,
+  profile: 2,
+};
+
+export const validateImageFile = (file: File, purpose: UploadPurpose): string | null => {
+  if (!VALID_IMAGE_TYPES.includes(file.type)) {
+    return 'Invalid file type. Only JPG, PNG, GIF, WEBP are allowed.';
+  }
+  if (file.size > MAX_FILE_SIZE_MB[purpose] * 1024 * 1024) {
+    return `File is too large. Maximum size is ${MAX_FILE_SIZE_MB[purpose]}MB.`;
+  }
+  return null;
+};
+
+const fail = (title: string, error: string, status: number): UploadResponse => {
+  toast({ title, description: error, variant: "destructive" });
+  return { error, status };
+};
+
+/**
+ * Upload a file through the backend upload service
+ * 1. The backend issues a short-lived presigned URL for this file
+ * 2. The browser PUTs the file straight to storage
+ * 3. The backend confirms the file and records it as ours
+ * @param file The file to upload
+ * @param purpose What the file is for; decides the allowed types and size
+ * @param token Auth token of the uploading user
+ * @returns Promise resolving to an UploadResponse with the public file URL
+ */
+export const uploadFile = async (file: File, purpose: UploadPurpose, token: string): Promise<UploadResponse> => {
+  const fileError = validateImageFile(file, purpose);
+  if (fileError) {
+    return fail("File Validation Error", fileError, 400);
+  }
+
+  const ticket = await uploadApi.requestUpload(purpose, file.type, file.size, token);
+  if (ticket.error || !ticket.data) {
+    return fail("Upload Failed", ticket.error || "Could not start upload", ticket.status);
+  }
+
+  try {
+    const putResponse = await fetch(ticket.data.uploadUrl, {
+      method: ticket.data.method,
+      headers: ticket.data.headers,
+      body: file,
+    });
+    if (!putResponse.ok) {
+      return fail("Upload Failed", `Storage rejected the file (${putResponse.status})`, putResponse.status);
+    }
+  } catch (error) {
+    console.error("Error uploading file:", error);
+    return fail("Upload Failed", "Network error while uploading. Check your internet connection.", 0);
+  }
+
+  const confirmed = await uploadApi.completeUpload(ticket.data.upload.id, token);
+  if (confirmed.error || !confirmed.data) {
+    return fail("Upload Failed", confirmed.error || "Could not confirm upload", confirmed.status);
+  }
+
+  return { data: { fileUrl: confirmed.data.url }, status: 200 };
+};
@@ -1,5 +1,6 @@
 import { clsx, type ClassValue } from "clsx"
 import { twMerge } from "tailwind-merge"
+import type { ClaimReason, Privilege } from "@/types"
 
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs))
@@ -15,3 +16,16 @@ export const getSeverityBadgeColorClass = (severity?: number): string => {
   if (severity >= 5) return 'bg-rose-100 text-rose-800 hover:bg-rose-200';      // Very Severe / Max
   return 'bg-gray-200 text-gray-800 hover:bg-gray-300'; // Fallback for any other unexpected values
 };
+
+
+// Privileges come from the backend, which grants them by role or reputation
+export const hasPrivilege = (user: { privileges?: Privilege[] } | null | undefined, privilege: Privilege): boolean =>
+  !!user?.privileges?.includes(privilege);
+
+// Reason categories offered when reporting a product's status (backend: CLAIM_REASONS)
+export const CLAIM_REASON_LABELS: Record<ClaimReason, string> = {
+  label_changed: 'Label or ingredients changed',
+  cross_contamination: 'Cross-contamination risk',
+  reaction_experienced: 'I had a reaction',
+  certification_found: 'Gluten-free certification found',
+};
\ No newline at end of file
@@ -22,6 +22,8 @@ import ProductSearchPage from './ProductSearchPage';
 import UserSearchPage from './UserSearchPage';
 import ClaimSearchPage from './ClaimSearchPage';
 import UserProfilePage from './UserProfilePage';
+import ModerationPage from './ModerationPage';
+import TagPage from './TagPage';
 import NotFound from './NotFound';
 
 const Index = () => {
@@ -169,6 +171,8 @@ const Index = () => {
             <Route path="/users/search" element={<UserSearchPage />} />
             <Route path="/claims/search" element={<ClaimSearchPage />} />
             <Route path="/profile/:userId" element={<UserProfilePage />} />
+            <Route path="/tags/:tag" element={<TagPage />} />
+            <Route path="/moderation" element={<ModerationPage />} />
             <Route 
               path="/recent-scans" 
               element={
@@ -0,0 +1,396 @@
+import React, { useState } from 'react';
+import { Link } from 'react-router-dom';
+import { formatDistanceToNow } from 'date-fns';
+import { useInfiniteQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { Loader2, ShieldCheck, Users, Flag } from 'lucide-react';
+import { Card, CardContent } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { toast } from '@/hooks/use-toast';
+import { claimApi, moderationApi } from '@/lib/api';
+import { CLAIM_REASON_LABELS, hasPrivilege } from '@/lib/utils';
+import { useAuth } from '../contexts/AuthContext';
+import {
+  ClaimStateUpdate,
+  ModerationItemType,
+  ModerationQueueFilters,
+  ModerationQueueItem,
+  ModerationQueueResponse,
+  ModerationQueueState,
+  StatusRef,
+} from '../types';
+
+const PAGE_SIZE = 20;
+
+const TYPE_LABELS: Record<ModerationItemType, string> = {
+  claim: 'Claim',
+  post: 'Reported post',
+  product: 'New product',
+};
+
+const STATUS_OPTIONS: { value: StatusRef['level']; label: string }[] = [
+  { value: 1, label: 'Contains Gluten' },
+  { value: 2, label: 'Likely Contains Gluten' },
+  { value: 3, label: 'Unknown' },
+  { value: 4, label: 'Likely Gluten-Free' },
+  { value: 5, label: 'Gluten-Free' },
+];
+
+type AgeFilter = '' | 'today' | 'week' | 'older';
+
+// Maps the age dropdown onto the queue's olderThanDays/newerThanDays window
+const AGE_FILTERS: Record<AgeFilter, Pick<ModerationQueueFilters, 'olderThanDays' | 'newerThanDays'>> = {
+  '': {},
+  today: { newerThanDays: 1 },
+  week: { newerThanDays: 7 },
+  older: { olderThanDays: 7 },
+};
+
+const fetchQueue = async (token: string, filters: ModerationQueueFilters): Promise<ModerationQueueResponse> => {
+  const response = await moderationApi.getQueue(token, { ...filters, limit: PAGE_SIZE });
+  if (response.error) {
+    throw new Error(response.error);
+  }
+  return response.data;
+};
+
+const throwOnError = (response: { error?: string }) => {
+  if (response.error) throw new Error(response.error);
+};
+
+interface QueueItemCardProps {
+  item: ModerationQueueItem;
+  currentUserId: string;
+  token: string;
+}
+
+// One queue entry with the actions that fit its type and state
+const QueueItemCard: React.FC<QueueItemCardProps> = ({ item, currentUserId, token }) => {
+  const queryClient = useQueryClient();
+  const [note, setNote] = useState('');
+  // Accepting a claim applies the reporter's proposed status unless changed here
+  const [applyStatus, setApplyStatus] = useState(item.claim?.proposedStatus ? String(item.claim.proposedStatus) : '');
+  const [duplicateOf, setDuplicateOf] = useState('');
+
+  const onSuccess = (title: string) => () => {
+    toast({ title });
+    setNote('');
+    queryClient.invalidateQueries({ queryKey: ['moderationQueue'] });
+  };
+  const onError = (e: Error) => toast({ title: "Moderation Action Failed", description: e.message, variant: "destructive" });
+
+  const { mutate: toggleAssignment, isPending: isAssigning } = useMutation({
+    mutationFn: async (assign: boolean) => {
+      throwOnError(assign
+        ? await moderationApi.assign(item.type, item.id, token)
+        : await moderationApi.unassign(item.type, item.id, token));
+    },
+    onSuccess: onSuccess('Assignment Updated'),
+    onError,
+  });
+
+  const { mutate: updateClaim, isPending: isUpdatingClaim } = useMutation({
+    mutationFn: async (update: ClaimStateUpdate) => {
+      throwOnError(await claimApi.updateState(item.id, { ...update, resolutionNote: note.trim() || undefined }, token));
+    },
+    onSuccess: onSuccess('Claim Updated'),
+    onError,
+  });
+
+  const { mutate: resolvePost, isPending: isResolvingPost } = useMutation({
+    mutationFn: async (action: 'dismiss' | 'remove') => {
+      throwOnError(await moderationApi.resolvePost(item.id, action, note.trim() || undefined, token));
+    },
+    onSuccess: onSuccess('Report Resolved'),
+    onError,
+  });
+
+  const { mutate: resolveProduct, isPending: isResolvingProduct } = useMutation({
+    mutationFn: async (action: 'approve' | 'reject') => {
+      throwOnError(await moderationApi.resolveProduct(item.id, action, note.trim() || undefined, token));
+    },
+    onSuccess: onSuccess('Product Reviewed'),
+    onError,
+  });
+
+  const isBusy = isAssigning || isUpdatingClaim || isResolvingPost || isResolvingProduct;
+  const isResolved = item.state === 'resolved';
+  const assignedToMe = item.assignedTo?.id === currentUserId;
+  const canResolve = !isResolved && (item.type !== 'claim' || item.sourceState === 'under_review');
+
+  return (
+    <Card className="bg-card border-border">
+      <CardContent className="p-4 space-y-3">
+        <div className="flex flex-wrap items-center gap-2">
+          <Badge variant="outline">{TYPE_LABELS[item.type]}</Badge>
+          <Badge variant="secondary" className="capitalize">{item.sourceState.replace('_', ' ')}</Badge>
+          <span className="ml-auto text-xs text-muted-foreground">
+            queued {formatDistanceToNow(new Date(item.queuedAt), { addSuffix: true })}
+          </span>
+        </div>
+
+        <p className="text-sm text-foreground whitespace-pre-wrap line-clamp-4">{item.summary}</p>
+
+        {item.claim && (
+          <div className="space-y-2">
+            <div className="flex flex-wrap gap-2 text-xs">
+              {item.claim.proposedStatus && (
+                <Badge variant="outline">
+                  Proposed: {STATUS_OPTIONS.find(option => option.value === item.claim!.proposedStatus)?.label}
+                </Badge>
+              )}
+              {item.claim.reason && <Badge variant="secondary">{CLAIM_REASON_LABELS[item.claim.reason]}</Badge>}
+              {item.claim.voteSummary && (
+                <span className="text-muted-foreground">
+                  {item.claim.voteSummary.up} up, {item.claim.voteSummary.down} down, {item.claim.voteSummary.confirmations} same label
+                </span>
+              )}
+              {item.claim.escalatedAt && <Badge variant="destructive">Escalated by votes</Badge>}
+            </div>
+            {item.claim.evidenceUrls?.length > 0 && (
+              <div className="flex gap-2 overflow-x-auto">
+                {item.claim.evidenceUrls.map((url, index) => (
+                  <a key={url} href={url} target="_blank" rel="noopener noreferrer">
+                    <img src={url} alt={`Evidence ${index + 1}`} className="w-20 h-20 object-cover rounded-md border" />
+                  </a>
+                ))}
+              </div>
+            )}
+          </div>
+        )}
+
+        <div className="flex flex-wrap items-center gap-x-4 gap-y-1 text-xs text-muted-foreground">
+          {item.product && (
+            <Link to={`/product/${item.product.barcode}`} className="text-primary hover:underline">
+              {item.product.name}
+            </Link>
+          )}
+          <span className="flex items-center gap-1" title="Users who scanned this product in the last 30 days">
+            <Users className="w-3 h-3" /> {item.recentScanners}
+          </span>
+          {item.type === 'post' && (
+            <span className="flex items-center gap-1"><Flag className="w-3 h-3" /> {item.reports} reports</span>
+          )}
+          <span>Priority {item.priority}</span>
+          <span>{item.assignedTo ? `Assigned to ${assignedToMe ? 'you' : item.assignedTo.name}` : 'Unassigned'}</span>
+        </div>
+
+        {!isResolved && (
+          <>
+            <Textarea
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+              placeholder="Note for the record (optional)"
+              maxLength={1000}
+              className="text-sm"
+            />
+            <div className="flex flex-wrap gap-2">
+              {assignedToMe ? (
+                <Button size="sm" variant="ghost" disabled={isBusy} onClick={() => toggleAssignment(false)}>Unassign</Button>
+              ) : (
+                <Button size="sm" variant="ghost" disabled={isBusy} onClick={() => toggleAssignment(true)}>Assign to me</Button>
+              )}
+
+              {item.type === 'claim' && item.sourceState === 'open' && (
+                <Button size="sm" disabled={isBusy} onClick={() => updateClaim({ state: 'under_review' })}>Start review</Button>
+              )}
+              {item.type === 'claim' && canResolve && (
+                <>
+                  <select
+                    value={applyStatus}
+                    onChange={(e) => setApplyStatus(e.target.value)}
+                    className="p-1 border border-border rounded-md bg-background text-sm"
+                    title="Status to apply when accepting"
+                  >
+                    <option value="">Accept without status change</option>
+                    {STATUS_OPTIONS.map(option => (
+                      <option key={option.value} value={option.value}>
+                        Accept as {option.label}{option.value === item.claim?.proposedStatus ? ' (proposed)' : ''}
+                      </option>
+                    ))}
+                  </select>
+                  <Button
+                    size="sm"
+                    disabled={isBusy}
+                    onClick={() => updateClaim({
+                      state: 'accepted',
+                      applyStatus: applyStatus ? Number(applyStatus) as StatusRef['level'] : undefined,
+                    })}
+                  >
+                    Accept
+                  </Button>
+                  <Button size="sm" variant="destructive" disabled={isBusy} onClick={() => updateClaim({ state: 'rejected' })}>Reject</Button>
+                  <Input
+                    value={duplicateOf}
+                    onChange={(e) => setDuplicateOf(e.target.value)}
+                    placeholder="Duplicate of claim id"
+                    className="h-8 w-48 text-sm"
+                  />
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    disabled={isBusy || !duplicateOf.trim()}
+                    onClick={() => updateClaim({ state: 'duplicate', duplicateOf: duplicateOf.trim() })}
+                  >
+                    Mark duplicate
+                  </Button>
+                  <Button size="sm" variant="ghost" disabled={isBusy} onClick={() => updateClaim({ state: 'open' })}>Release</Button>
+                </>
+              )}
+
+              {item.type === 'post' && (
+                <>
+                  <Button size="sm" variant="outline" disabled={isBusy} onClick={() => resolvePost('dismiss')}>Dismiss reports</Button>
+                  <Button size="sm" variant="destructive" disabled={isBusy} onClick={() => resolvePost('remove')}>Remove post</Button>
+                </>
+              )}
+
+              {item.type === 'product' && (
+                <>
+                  <Button size="sm" disabled={isBusy} onClick={() => resolveProduct('approve')}>Approve</Button>
+                  <Button size="sm" variant="destructive" disabled={isBusy} onClick={() => resolveProduct('reject')}>Reject</Button>
+                </>
+              )}
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+// Shared queue of claims, reported posts and new product submissions for moderators
+const ModerationPage: React.FC = () => {
+  const { user, token } = useAuth();
+  const [types, setTypes] = useState<ModerationItemType[]>([]);
+  const [state, setState] = useState<'' | ModerationQueueState>('');
+  const [assignee, setAssignee] = useState<'' | 'me' | 'unassigned'>('');
+  const [product, setProduct] = useState('');
+  const [age, setAge] = useState<AgeFilter>('');
+
+  const isModerator = hasPrivilege(user, 'moderate');
+
+  const filters: ModerationQueueFilters = {
+    type: types.length > 0 ? types : undefined,
+    state: state ? [state] : undefined,
+    assignee: assignee || undefined,
+    product: /^\d{8,14}$/.test(product.trim()) ? product.trim() : undefined,
+    ...AGE_FILTERS[age],
+  };
+
+  const {
+    data,
+    fetchNextPage,
+    hasNextPage,
+    isFetchingNextPage,
+    isLoading,
+    error,
+  } = useInfiniteQuery<ModerationQueueResponse, Error>({
+    queryKey: ['moderationQueue', filters],
+    queryFn: ({ pageParam }) => fetchQueue(token!, { ...filters, cursor: pageParam as string | undefined }),
+    initialPageParam: undefined,
+    getNextPageParam: (lastPage) => lastPage.nextCursor || undefined,
+    enabled: !!token && isModerator,
+  });
+
+  const items = data?.pages.flatMap(page => page.items) || [];
+
+  const toggleType = (type: ModerationItemType) =>
+    setTypes(current => current.includes(type) ? current.filter(t => t !== type) : [...current, type]);
+
+  if (!isModerator) {
+    return (
+      <div className="p-4 text-center text-muted-foreground">
+        The moderation queue is only available to moderators.
+      </div>
+    );
+  }
+
+  return (
+    <div className="p-4 space-y-4 max-w-3xl mx-auto">
+      <div className="flex items-center gap-2">
+        <ShieldCheck className="w-6 h-6 text-primary" />
+        <h1 className="text-xl font-semibold text-foreground">Moderation Queue</h1>
+      </div>
+
+      <Card className="bg-card border-border">
+        <CardContent className="p-4 space-y-3">
+          <div className="flex flex-wrap gap-2">
+            {(Object.keys(TYPE_LABELS) as ModerationItemType[]).map(type => (
+              <Button
+                key={type}
+                size="sm"
+                variant={types.includes(type) ? 'default' : 'outline'}
+                onClick={() => toggleType(type)}
+              >
+                {TYPE_LABELS[type]}
+              </Button>
+            ))}
+          </div>
+          <div className="grid grid-cols-2 sm:grid-cols-4 gap-2 text-sm">
+            <select
+              value={state}
+              onChange={(e) => setState(e.target.value as '' | ModerationQueueState)}
+              className="p-2 border border-border rounded-md bg-background"
+            >
+              <option value="">Open and in review</option>
+              <option value="open">Open</option>
+              <option value="in_review">In review</option>
+              <option value="resolved">Resolved</option>
+            </select>
+            <select
+              value={assignee}
+              onChange={(e) => setAssignee(e.target.value as '' | 'me' | 'unassigned')}
+              className="p-2 border border-border rounded-md bg-background"
+            >
+              <option value="">Anyone</option>
+              <option value="me">Assigned to me</option>
+              <option value="unassigned">Unassigned</option>
+            </select>
+            <select
+              value={age}
+              onChange={(e) => setAge(e.target.value as AgeFilter)}
+              className="p-2 border border-border rounded-md bg-background"
+            >
+              <option value="">Any age</option>
+              <option value="today">Last 24 hours</option>
+              <option value="week">Last 7 days</option>
+              <option value="older">Older than 7 days</option>
+            </select>
+            <Input
+              value={product}
+              onChange={(e) => setProduct(e.target.value)}
+              placeholder="Product barcode"
+            />
+          </div>
+        </CardContent>
+      </Card>
+
+      {isLoading && (
+        <div className="flex justify-center py-8"><Loader2 className="w-6 h-6 animate-spin text-primary" /></div>
+      )}
+      {error && <p className="text-sm text-red-500">Could not load the queue: {error.message}</p>}
+      {!isLoading && !error && items.length === 0 && (
+        <p className="text-sm text-center text-muted-foreground py-8">Nothing waiting for review.</p>
+      )}
+
+      <div className="space-y-3">
+        {items.map(item => (
+          <QueueItemCard key={`${item.type}-${item.id}`} item={item} currentUserId={user!.id} token={token!} />
+        ))}
+      </div>
+
+      {hasNextPage && (
+        <div className="flex justify-center">
+          <Button variant="outline" onClick={() => fetchNextPage()} disabled={isFetchingNextPage}>
+            {isFetchingNextPage ? 'Loading...' : 'Load more'}
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ModerationPage;
@@ -0,0 +1,64 @@
+import React from 'react';
+import { Link, useParams } from 'react-router-dom';
+import { useInfiniteQuery } from '@tanstack/react-query';
+import { ArrowLeft } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { postApi } from '@/lib/api';
+import PostItem from '../components/PostItem';
+import { TagPostsResponse } from '../types';
+
+const fetchTagPosts = async (tag: string, cursor?: string): Promise<TagPostsResponse> => {
+  const response = await postApi.getTagPosts(tag, cursor);
+  if (response.error) {
+    throw new Error(response.error);
+  }
+  return response.data!;
+};
+
+// Posts using a hashtag, or with a comment using it, newest first
+const TagPage: React.FC = () => {
+  const { tag = '' } = useParams<{ tag: string }>();
+
+  const {
+    data,
+    fetchNextPage,
+    hasNextPage,
+    isFetchingNextPage,
+    isLoading,
+    error,
+  } = useInfiniteQuery<TagPostsResponse, Error>({
+    queryKey: ['tagPosts', tag],
+    queryFn: ({ pageParam }) => fetchTagPosts(tag, pageParam as string | undefined),
+    initialPageParam: undefined,
+    getNextPageParam: (lastPage) => lastPage.nextCursor || undefined,
+    enabled: !!tag,
+  });
+
+  const posts = data?.pages.flatMap(page => page.posts) ?? [];
+
+  return (
+    <div className="container mx-auto p-4 max-w-2xl">
+      <div className="flex items-center mb-4">
+        <Button variant="ghost" size="icon" asChild className="mr-2">
+          <Link to="/community">
+            <ArrowLeft className="w-5 h-5" />
+          </Link>
+        </Button>
+        <h1 className="text-2xl font-bold truncate">#{data?.pages[0]?.tag || tag.toLowerCase()}</h1>
+      </div>
+      {isLoading && <p className="text-sm text-muted-foreground">Loading posts...</p>}
+      {error && <p className="text-sm text-red-600">Could not load posts: {error.message}</p>}
+      {!isLoading && !error && posts.length === 0 && (
+        <p className="text-sm text-muted-foreground">No posts use this hashtag yet.</p>
+      )}
+      {posts.map(post => <PostItem key={post.id} post={post} />)}
+      {hasNextPage && (
+        <Button variant="ghost" size="sm" onClick={() => fetchNextPage()} disabled={isFetchingNextPage}>
+          {isFetchingNextPage ? 'Loading...' : 'Show more posts'}
+        </Button>
+      )}
+    </div>
+  );
+};
+
+export default TagPage;
@@ -1,7 +1,8 @@
 import React from 'react';
 import { useParams, Link } from 'react-router-dom';
-import { useQuery, useQueryClient, useMutation } from '@tanstack/react-query';
-import { User, Post } from '../types';
+import { useQuery, useQueryClient, useMutation, useInfiniteQuery } from '@tanstack/react-query';
+import { User, PostsResponse } from '../types';
+import { postApi } from '@/lib/api';
 import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
 import { Button } from '@/components/ui/button';
 import { Loader2, AlertTriangle, UserPlus, UserMinus } from 'lucide-react';
@@ -9,6 +10,8 @@ import { Card, CardContent, CardHeader } from '@/components/ui/card';
 import { useAuth } from '../contexts/AuthContext';
 import { toast } from '@/hooks/use-toast';
 import PostItem from '../components/PostItem';
+import AchievementsCard from '../components/AchievementsCard';
+import ReputationCard from '../components/ReputationCard';
 
 // Fetches the main user profile data
 const fetchUserProfile = async (userId: string): Promise<User> => {
@@ -21,17 +24,13 @@ const fetchUserProfile = async (userId: string): Promise<User> => {
   return response.json();
 };
 
-// Fetches all posts for a given user (non-paginated, or large limit)
-const fetchUserPostsList = async (profileUserId: string): Promise<Post[]> => {
-  const limit = 100; // Fetch up to 100 posts
-  const response = await fetch(`/api/posts/search?userId=${profileUserId}&q=&limit=${limit}`);
-  if (!response.ok) {
-    const errorData = await response.json().catch(() => ({ message: `Error fetching posts for user ${profileUserId}` }));
-    throw new Error(errorData.message || `Network response was not ok for user posts`);
+// Fetches one page of a user's posts, newest first
+const fetchUserPosts = async (profileUserId: string, cursor?: string): Promise<PostsResponse> => {
+  const response = await postApi.getUserPosts(profileUserId, cursor);
+  if (response.error) {
+    throw new Error(response.error);
   }
-  const data = await response.json();
-  // API for search returns { posts: [], nextCursor: ...}, so we extract posts
-  return data.posts || [];
+  return response.data!;
 };
 
 // --- Follow/Unfollow API Functions ---
@@ -79,19 +78,23 @@ const UserProfilePage: React.FC = () => {
     }
   );
 
-  // Query for User's Posts (now uses useQuery, not useInfiniteQuery)
+  // Query for User's Posts, a page at a time
   const {
-    data: userPostsData,
+    data: userPostsPages,
     isLoading: isLoadingUserPosts,
     isError: isErrorUserPosts,
     error: userPostsError,
-  } = useQuery<Post[], Error>(
-    ['userPostsList', userId], // Unique query key for this user's post list
-    () => fetchUserPostsList(userId!),
-    {
-      enabled: !!userId, // Only fetch if userId is available
-    }
-  );
+    fetchNextPage: fetchMoreUserPosts,
+    hasNextPage: hasMoreUserPosts,
+    isFetchingNextPage: isFetchingMoreUserPosts,
+  } = useInfiniteQuery<PostsResponse, Error>({
+    queryKey: ['userPosts', userId],
+    queryFn: ({ pageParam }) => fetchUserPosts(userId!, pageParam as string | undefined),
+    initialPageParam: undefined,
+    getNextPageParam: (lastPage) => lastPage.nextCursor || undefined,
+    enabled: !!userId, // Only fetch if userId is available
+  });
+  const userPostsData = userPostsPages?.pages.flatMap(page => page.posts);
 
   // Mutations for Follow/Unfollow
   const { mutate: followUserMutation, isLoading: isFollowingUser } = useMutation(followUserApi, {
@@ -164,6 +167,12 @@ const UserProfilePage: React.FC = () => {
           </div>
         </CardHeader>
         <CardContent className="p-6">
+          <div className="mb-6">
+            <AchievementsCard userId={userId!} />
+          </div>
+          <div className="mb-6">
+            <ReputationCard userId={userId!} />
+          </div>
           <h2 className="text-xl font-semibold mb-4 text-foreground">Posts by {userProfile.name}</h2>
           {isLoadingUserPosts && (
             <div className="flex justify-center items-center py-6"><Loader2 className="h-8 w-8 animate-spin text-primary" /></div>
@@ -179,7 +188,14 @@ const UserProfilePage: React.FC = () => {
               <PostItem key={post.id} post={post} />
             ))}
           </div>
-          {/* Infinite scroll elements removed */}
+          {hasMoreUserPosts && (
+            <div className="flex justify-center mt-4">
+              <Button variant="outline" onClick={() => fetchMoreUserPosts()} disabled={isFetchingMoreUserPosts}>
+                {isFetchingMoreUserPosts ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : null}
+                Load more posts
+              </Button>
+            </div>
+          )}
         </CardContent>
       </Card>
     </div>
@@ -3,16 +3,27 @@ export interface UserSettings {
   theme: boolean; // false for light, true for dark
   telegram_notifications: boolean;
   telegram_number?: string;
+  timezone?: string; // IANA name, e.g. 'Europe/Berlin'; days and streaks use this zone (UTC when unset)
 }
 
+// Ordered from least to most privileged, mirroring the backend
+export type UserRole = 'member' | 'contributor' | 'moderator' | 'admin';
+
+// Unlocked by role or by reputation (backend: PRIVILEGES in utils/roles.js)
+export type Privilege = 'publish_products' | 'instant_status' | 'moderate';
+
 export interface User {
   id: string;
   name: string;
   email: string;
   bio: string;
   pfp: string; // Default is a URL, so it should always be a string
+  role?: UserRole; // Only present on the authenticated user's own profile
+  reputation?: number;
+  privileges?: Privilege[]; // Only present on the authenticated user's own profile
   settings: UserSettings;
-  streak: number;
+  streak: number; // Consecutive local days with activity, ending today
+  longestStreak?: number;
   following?: string[] | User[]; // Array of user IDs or populated User objects
   followers?: string[] | User[]; // Array of user IDs or populated User objects
   scans?: string[] | Scan[]; // Array of scan IDs or populated Scan objects
@@ -20,6 +31,74 @@ export interface User {
   createdAt?: string; // From existing type, keep if API sends it
 }
 
+export type AchievementId = 'first_scan' | 'streak_7' | 'products_10' | 'first_accepted_claim';
+
+export interface Achievement {
+  id: AchievementId;
+  name: string;
+  description: string;
+  icon: string;
+  goal: number;
+  earnedAt?: string; // Earned badges only
+  progress?: number; // Upcoming badges only, capped at goal
+}
+
+// GET /api/users/me/achievements (upcoming is empty for other users' profiles)
+export interface AchievementSummary {
+  streak: number;
+  longestStreak: number;
+  earned: Achievement[];
+  upcoming: Achievement[];
+}
+
+export type ReputationReason =
+  | 'claim_accepted'
+  | 'claim_rejected'
+  | 'product_approved'
+  | 'product_rejected'
+  | 'post_liked'
+  | 'post_unliked'
+  | 'post_removed'
+  | 'comment_removed';
+
+export interface ReputationEvent {
+  id: string;
+  reason: ReputationReason;
+  delta: number;
+  refId?: string; // Claim, product or post
+  date: string;
+}
+
+// GET /api/users/me/reputation and /api/users/:id/reputation
+export interface ReputationSummary {
+  reputation: number;
+  privileges: Privilege[];
+  nextPrivilege: { privilege: Privilege; reputation: number } | null;
+  history: ReputationEvent[];
+  nextCursor: string | null;
+}
+
+export type NotificationType = 'mention';
+
+export interface Notification {
+  id: string;
+  userId: string;
+  type: NotificationType;
+  actorId?: string;
+  actor?: Pick<User, 'id' | 'name' | 'pfp'>;
+  postId?: string;
+  commentId?: string;
+  readAt?: string;
+  createdAt: string;
+}
+
+// GET /api/users/me/notifications
+export interface NotificationsResponse {
+  notifications: Notification[];
+  unreadCount: number;
+  nextCursor: string | null;
+}
+
 // Basic Ref types, can be expanded if API populates them
 export interface StatusRef {
   id: string;
@@ -28,6 +107,200 @@ export interface StatusRef {
   description?: string;
 }
 
+export type StatusChangeSource = 'admin' | 'classifier' | 'ai' | 'claim' | 'consensus' | 'import';
+
+// One finding from the backend ingredient classifier
+export interface ClassificationReason {
+  ingredient: string | null;
+  term: string | null;
+  level: StatusRef['level'] | null; // null for recognised gluten-free exceptions
+  category: 'gluten' | 'likely-gluten' | 'ambiguous' | 'may-contain' | 'safe' | 'claim' | 'unknown';
+  reason: string;
+}
+
+// Response of GET /api/products/:barcode/classification
+export interface GlutenClassification {
+  barcode: string;
+  level: StatusRef['level'];
+  confidence: 'high' | 'medium' | 'low';
+  reasons: ClassificationReason[];
+  lexiconVersion: string;
+}
+
+// Editable product fields, as captured from the label
+export interface ProductDraft {
+  name: string;
+  brand: string | null;
+  ingredients: string[];
+  allergens: string[];
+  mayContain: string[];
+  certifications: string[];
+  language: string | null;
+}
+
+// Label data read by the AI, validated against the backend schema
+export interface ExtractedProduct extends ProductDraft {
+  confidence: number; // 0-1
+  repairs: string[]; // Fixes the backend applied to a malformed AI answer
+}
+
+// Upload service (/api/uploads)
+export type UploadPurpose = 'product' | 'claim' | 'post' | 'profile';
+
+export interface UploadRecord {
+  id: string;
+  owner: string;
+  purpose: UploadPurpose;
+  contentType: string;
+  size: number;
+  url: string; // Public URL to store on products, claims, posts or the profile
+  status: 'pending' | 'complete';
+  width?: number;
+  height?: number;
+  variants?: ImageVariant[];
+  createdAt: string;
+  completedAt?: string;
+}
+
+export interface UploadTicket {
+  upload: UploadRecord;
+  uploadUrl: string; // Short-lived presigned URL
+  method: 'PUT';
+  headers: Record<string, string>;
+  expiresAt: string;
+}
+
+// AI proxy responses (/api/ai)
+export interface AiProductExtraction {
+  barcode: string;
+  product: ExtractedProduct;
+  provider: string;
+  cached: boolean;
+}
+
+export interface AiGlutenCheck {
+  barcode: string;
+  level: StatusRef['level'];
+  explanation: string;
+  provider: string;
+  cached: boolean;
+}
+
+export interface AiUsage {
+  used: number;
+  limit: number;
+  remaining: number;
+}
+
+// One immutable entry from GET /api/status/:barcode/history
+export interface StatusChange {
+  id: string;
+  productBarcode: string;
+  changedBy?: Pick<User, 'id' | 'name' | 'pfp'>; // Absent for automated sources
+  source: StatusChangeSource;
+  claimId?: string;
+  previousStatus: StatusRef['level'] | null;
+  newStatus: StatusRef['level'];
+  explanation?: string;
+  date: string; // ISO date string
+}
+
+// Symptom catalog served by GET /api/symptoms/catalog, resolved to one locale
+export type SymptomCategoryId = 'gastrointestinal' | 'neurological' | 'skin' | 'musculoskeletal' | 'general';
+
+export interface SymptomCategory {
+  id: SymptomCategoryId;
+  name: string;
+}
+
+export interface SymptomSeverityStep {
+  level: number; // 1 (mild) to 5 (very severe)
+  label: string;
+  description: string;
+}
+
+export interface SymptomCatalogEntry {
+  id: string; // Stable id used as the key in symptom reports, e.g. 'headache'
+  category: SymptomCategoryId;
+  icon: string; // Emoji
+  name: string;
+  description: string;
+  retired?: boolean; // Kept for displaying older reports; not offered in the report form
+}
+
+export interface SymptomCatalog {
+  version: string;
+  locale: string;
+  severityScale: SymptomSeverityStep[];
+  categories: SymptomCategory[];
+  symptoms: SymptomCatalogEntry[];
+}
+
+// One symptom in GET /api/products/:barcode/symptoms
+export interface ProductSymptomSummary {
+  symptomId: string; // Catalog id
+  reports: number;
+  reporters: number; // Distinct users
+  averageSeverity: number;
+  maxSeverity: number;
+}
+
+// Anonymized community statistics; suppressed until minReporters people have reported
+export interface ProductSymptomStats {
+  barcode: string;
+  since: string | null; // Start of the time window, null for all time
+  minReporters: number;
+  suppressed: boolean;
+  reporters: number | null;
+  reports: number | null;
+  symptoms: ProductSymptomSummary[];
+  hiddenSymptoms: number; // Symptoms left out for having too few reporters
+}
+
+// One product or ingredient from GET /api/symptoms/triggers
+export interface SymptomTrigger {
+  barcode?: string; // Product triggers
+  name?: string | null;
+  ingredient?: string; // Ingredient triggers
+  exposures: number; // Scans of this product or of products containing the ingredient
+  followed: number; // Of those, scans followed by a symptom within the window
+  rate: number;
+  lift: number; // rate compared with the user's overall rate
+  relativeRisk: number; // rate compared with all other scans
+  ciLower: number; // 95% confidence interval of relativeRisk
+  ciUpper: number;
+  confidence: 'high' | 'medium' | 'low';
+  topSymptoms: { symptomId: string; count: number }[];
+}
+
+export interface TriggerAnalysis {
+  since: string;
+  windowHours: number;
+  minExposures: number;
+  scans: number;
+  scansFollowedBySymptoms: number;
+  baselineRate: number;
+  products: SymptomTrigger[];
+  ingredients: SymptomTrigger[];
+}
+
+// One day in the activity calendar (GET /api/days/calendar); only active days are sent
+export interface CalendarDay {
+  day: string; // Local date, YYYY-MM-DD
+  scans: number;
+  symptoms: number;
+  maxSeverity: number | null;
+  worstStatus: number | null; // Lowest status level among products scanned that day
+  scanIds: string[];
+}
+
+export interface ActivityCalendar {
+  from: string;
+  to: string;
+  timeZone: string;
+  days: CalendarDay[];
+}
+
 export interface SymptomRef {
   id: string;
   name: string;
@@ -40,16 +313,38 @@ export interface ClaimRef {
   // Potentially other fields if populated
 }
 
+// One resized copy of an uploaded image
+export interface ImageVariant {
+  width: number;
+  height: number;
+  format: 'webp' | 'jpeg';
+  url: string;
+}
+
+// Responsive image set produced by the backend image pipeline for an uploaded URL
+export interface ImageSet {
+  id: string;
+  url: string; // Same URL as stored on the product/post
+  width: number;
+  height: number;
+  variants: ImageVariant[];
+}
+
 export interface Product {
   id: string; // from _id
-  barcode: string; // Changed from number to string to match typical barcode representations
+  barcode: string; // Canonical GTIN-14 string; the backend normalizes EAN-8, UPC-A, UPC-E and EAN-13 input
   name: string;
+  brand?: string;
   ingredients: string[];
+  allergens?: string[];
+  mayContain?: string[]; // Precautionary "may contain" statements
+  certifications?: string[];
+  language?: string; // ISO 639-1 code of the label
   pictureUrl: string;
+  picture?: ImageSet | null; // Present when pictureUrl was uploaded through /api/uploads
   description?: string; // Kept as optional, as it's in mock but not core schema
   status?: StatusRef | string; // Can be populated object or just an ID
-  symptoms?: SymptomRef[] | string[]; // Array of populated objects or IDs
-  claims?: ClaimRef[] | string[]; // Array of populated objects or IDs
+  claims?: Claim[] | string[]; // Populated by GET /api/products/:barcode
 
   // Fields from old Product type that might be part of 'status' object or derived on frontend
   // status_numeric?: 1 | 2 | 3 | 4 | 5; // Example: if status is an object, this could be status.level
@@ -62,20 +357,119 @@ export interface ProductBasicInfo {
   barcode: string;
   name: string;
   pictureUrl?: string;
+  picture?: ImageSet | null;
 }
 
+// A product referenced by a post or comment, as shown on its product card
+export interface ProductTag extends Omit<ProductBasicInfo, 'picture'> {
+  brand?: string;
+  status?: { id: string; status: 1 | 2 | 3 | 4 | 5 } | null; // Current status
+}
+
+// open -> under_review -> accepted | rejected | duplicate; resolved claims are final
+export type ClaimState = 'open' | 'under_review' | 'accepted' | 'rejected' | 'duplicate';
+
+export type ClaimReason = 'label_changed' | 'cross_contamination' | 'reaction_experienced' | 'certification_found';
+
 export interface Claim {
   id: string;
   userId: string; // Could be a User object if backend populates it
   productBarcode: string;
-  explanation: string;
-  mediaProofUrl?: string;
-  status: boolean; // false = open, true = closed (pending review, approved, rejected)
+  explanation: string; // The reporter's own words, never edited by moderators
+  proposedStatus?: StatusRef['level']; // Missing on claims made before it was asked for
+  reason?: ClaimReason;
+  evidenceUrls: string[];
+  state: ClaimState;
+  resolutionNote?: string; // Moderator's note on the outcome
+  reviewedBy?: string;
+  reviewStartedAt?: string;
+  resolvedAt?: string;
+  duplicateOf?: string; // Claim id, when resolved as a duplicate
+  appliedStatusChange?: string; // StatusChange id, when accepting also changed the product status
+  voteSummary?: ClaimVoteSummary;
+  escalatedAt?: string; // When community votes pushed the claim up the moderation queue
+  provisionalStatusChange?: string; // StatusChange id, when consensus applied the proposed status early
   createdAt: string;
   updatedAt: string;
   product?: ProductBasicInfo; // Optional: if backend populates basic product info
 }
 
+export interface ClaimVoteSummary {
+  up: number;
+  down: number;
+  confirmations: number; // Upvotes that also say "I see the same label"
+  score: number; // Weighted; contributors count double
+}
+
+export interface ClaimVote {
+  value: 1 | -1;
+  confirms: boolean;
+}
+
+// PUT and DELETE /api/claims/:id/vote
+export interface ClaimVoteResponse {
+  id: string;
+  state: ClaimState;
+  voteSummary: ClaimVoteSummary;
+  escalatedAt: string | null;
+  myVote: ClaimVote | null;
+}
+
+// PATCH /api/claims/:id/state (moderators)
+export interface ClaimStateUpdate {
+  state: ClaimState;
+  resolutionNote?: string;
+  duplicateOf?: string;
+  applyStatus?: StatusRef['level'] | true; // Only when accepting; true applies the proposed status
+}
+
+export type ModerationItemType = 'claim' | 'post' | 'product';
+export type ModerationQueueState = 'open' | 'in_review' | 'resolved';
+
+// One entry of GET /api/moderation/queue
+export interface ModerationQueueItem {
+  id: string; // Claim, post or product id
+  type: ModerationItemType;
+  state: ModerationQueueState;
+  sourceState: string; // The item's own state, e.g. 'under_review' for a claim or 'pending' for a product
+  productBarcode: string | null;
+  product: { barcode: string; name: string; pictureUrl?: string } | null;
+  summary: string; // Claim explanation, post text or product name
+  claim: Pick<Claim, 'proposedStatus' | 'reason' | 'evidenceUrls' | 'voteSummary' | 'escalatedAt'> | null; // Claims only
+  reports: number; // Reports against a post; 0 for other types
+  recentScanners: number; // Users who scanned the product in the last 30 days
+  priority: number;
+  queuedAt: string;
+  assignedTo: { id: string; name: string; pfp?: string } | null;
+}
+
+export interface ModerationQueueFilters {
+  type?: ModerationItemType[];
+  state?: ModerationQueueState[];
+  product?: string;
+  olderThanDays?: number;
+  newerThanDays?: number;
+  assignee?: 'me' | 'unassigned' | string;
+  limit?: number;
+  cursor?: string;
+}
+
+export interface ModerationQueueResponse {
+  items: ModerationQueueItem[];
+  nextCursor: string | null;
+}
+
+// POST /api/claims
+export interface CreateClaimData {
+  productBarcode: string;
+  explanation: string;
+  proposedStatus: StatusRef['level'];
+  reason: ClaimReason;
+  evidenceUrls?: string[];
+}
+
+export type PostReportReason = 'spam' | 'misinformation' | 'harassment' | 'off_topic' | 'other';
+
 export interface Scan {
   _id: string;
   productBarcode: string;
@@ -84,6 +478,37 @@ export interface Scan {
   scanDate: string; // ISO date string
 }
 
+// Current status document as populated by the backend (Status model)
+export interface ProductStatus {
+  id: string;
+  status: StatusRef['level'];
+  explanation?: string;
+  date: string; // ISO date string
+}
+
+// Entry from GET /api/scans, with the scanned product populated
+export interface ScanHistoryItem {
+  id: string;
+  userId: string;
+  productBarcode: string;
+  date: string; // ISO date string
+  symptoms?: string[]; // Symptom IDs reported against this scan
+  product?: ProductBasicInfo & { status?: ProductStatus | null };
+}
+
+export interface ScanHistoryResponse {
+  scans: ScanHistoryItem[];
+  nextCursor: string | null;
+}
+
+export interface ScanHistoryFilters {
+  cursor?: string;
+  limit?: number;
+  from?: string; // ISO date string, inclusive
+  to?: string; // ISO date string, inclusive
+  status?: StatusRef['level'][];
+}
+
 // API Response types for /api/day/
 export interface ScanDataFromApi {
   _id: string;
@@ -108,7 +533,7 @@ export interface DayFromApi {
 // Parameters for the createSymptomsApi function in SymptomReportPage.tsx
 export interface CreateSymptomsApiParams {
   date: string; // ISO datetime string
-  symptomsData: { [symptomName: string]: number }; // e.g., {"Headache": 4, "Nausea": 2}
+  symptomsData: { [symptomId: string]: number }; // Catalog ids, e.g., {"headache": 4, "nausea": 2}
   selectedScanIds: string[];
   token: string | null;
 }
@@ -116,13 +541,13 @@ export interface CreateSymptomsApiParams {
 // Actual JSON body sent to POST /api/symptoms/
 export interface SymptomPostBody {
   date: string; // ISO datetime string
-  symptoms: { [symptomName: string]: number }; // symptomsData nested under 'symptoms' key
+  symptoms: { [symptomId: string]: number }; // symptomsData nested under 'symptoms' key
 }
 
 // --- End New Types for Symptom Reporting ---
 
 export interface UserRecentSymptomSummary {
-  name: string;
+  symptomId: string; // Catalog id
   count: number;
   averageSeverity?: number;
   maxSeverity?: number;
@@ -164,20 +589,95 @@ export interface Post {
   user: User;
   postText: string;
   mediaUrls?: string[];
+  media?: ImageSet[]; // Image sets for mediaUrls, matched by url (order not guaranteed)
   likes: number;
-  comments: Comment[];
+  likeCount?: number;
+  comments: Comment[]; // First top-level comments, on a single post only
+  commentCount?: number;
+  productBarcodes?: string[];
+  pickedBarcodes?: string[]; // Chosen by the author; the rest of productBarcodes come from the text
+  products?: ProductTag[];
+  hashtags?: string[]; // Lower-cased, without the #
+  mentions?: string[]; // Ids of the users mentioned as @[Name](userId)
   shares: number;
   createdAt: string;
+  editedAt?: string;
   isLiked?: boolean;
 }
 
+// GET /api/posts ?feed= modes
+export type FeedMode = 'global' | 'following' | 'ranked';
+
+export interface PostsResponse {
+  posts: Post[];
+  nextCursor: string | null;
+}
+
+// GET /api/posts/tags/trending
+export interface TrendingTag {
+  tag: string;
+  count: number;
+}
+
+export interface TrendingTagsResponse {
+  days: number;
+  tags: TrendingTag[];
+}
+
+// GET /api/posts/tag/:tag
+export interface TagPostsResponse extends PostsResponse {
+  tag: string;
+}
+
+// An earlier version of an edited post
+export interface PostEdit {
+  postText: string;
+  mediaUrls: string[];
+  editedAt: string;
+}
+
+export interface PostUpdate {
+  postText?: string;
+  mediaUrls?: string[];
+  productBarcodes?: string[];
+}
+
 export interface Comment {
   id: string;
+  postId: string;
   userId: string;
-  user: User;
-  content: string;
+  user: Pick<User, 'id' | 'name' | 'pfp'>;
+  parentId: string | null; // Set on replies; always a top-level comment
+  content: string | null; // null once deleted or removed
+  mediaUrls: string[];
+  productBarcodes: string[];
+  pickedBarcodes?: string[];
+  products?: ProductTag[];
+  hashtags?: string[];
+  mentions?: string[];
+  editedAt?: string;
+  deletedAt?: string; // Deleted by its author but kept for its replies
+  removedAt?: string; // Removed by a moderator
   createdAt: string;
-  replies?: Comment[];
+  replies?: Comment[]; // First replies of a top-level comment
+  replyCount?: number;
+}
+
+export interface CommentsResponse {
+  comments: Comment[];
+  nextCursor: string | null;
+}
+
+export interface RepliesResponse {
+  replies: Comment[];
+  nextCursor: string | null;
+}
+
+export interface NewComment {
+  content: string;
+  mediaUrls?: string[];
+  productBarcodes?: string[];
+  parentId?: string;
 }
 
 export interface ChatMessage {
@@ -1,19 +1,25 @@
 const express = require('express')
+const path = require('path')
 const morgan = require('morgan')
 const cors = require('cors')
 const mongoose = require('mongoose')
 const env = require('./utils/config')
 const middleware = require('./utils/middleware')
-const { userRouter, getPublicUserProfile } = require('./controllers/users') // Modified import
+const { userRouter, getPublicUserProfile, getPublicUserAchievements, getPublicUserReputation } = require('./controllers/users') // Modified import
 const loginRouter = require('./controllers/login')
 const { productRouter, publicProductRouter } = require('./controllers/products') // Updated import
 const scanRouter = require('./controllers/scans')
 const { claimsRouter, publicClaimsRouter } = require('./controllers/claims') // Updated import
 const dayRouter = require('./controllers/days')
-const symptomRouter = require('./controllers/symptoms')
-const statusRouter = require('./controllers/status')
-const commentRouter = require('./controllers/comment')
+const { symptomRouter, publicSymptomRouter } = require('./controllers/symptoms')
+const { statusRouter, publicStatusRouter } = require('./controllers/status')
+const { commentRouter, publicCommentRouter } = require('./controllers/comment')
 const { postsRouter, publicPostsRouter } = require('./controllers/post') // Updated import
+const adminRouter = require('./controllers/admin')
+const moderationRouter = require('./controllers/moderation')
+const aiRouter = require('./controllers/ai')
+const { uploadsRouter, publicUploadsRouter } = require('./controllers/uploads')
+const { getStorage } = require('./utils/storage')
 
 const app = express()
 
@@ -27,11 +33,20 @@ mongoose.connect(mongoUrl).then(() => {
 })
 
 morgan.token('body', req => {
+  // Don't dump file contents or base64 image payloads into the request log
+  if (Buffer.isBuffer(req.body)) {
+    return `[${req.body.length} bytes]`
+  }
+  if (req.body && Array.isArray(req.body.images)) {
+    return JSON.stringify({ ...req.body, images: `[${req.body.images.length} images]` })
+  }
   return JSON.stringify(req.body)
 })
 
 app.use(morgan(':method :url :status :res[content-length] :response-time ms :body'))
-app.use(express.json())
+// /api/ai takes larger bodies and parses them itself, once the user is authenticated
+const jsonParser = express.json()
+app.use((req, res, next) => (req.path === '/api/ai' || req.path.startsWith('/api/ai/') ? next() : jsonParser(req, res, next)))
 app.use(cors())
 
 app.get('/', (req, res) => {
@@ -42,13 +57,22 @@ app.get('/', (req, res) => {
 app.use('/api/users', userRouter) // Authenticated user routes (handles /me, /:id/follow, etc.)
 // Public user profile route for specific IDs not caught by userRouter
 app.get('/api/users/:id', getPublicUserProfile)
+app.get('/api/users/:id/achievements', getPublicUserAchievements)
+app.get('/api/users/:id/reputation', getPublicUserReputation)
 
 app.use('/api/login', loginRouter)
 // Mount public routes BEFORE authentication middleware
 app.use('/api/products', publicProductRouter) // Handles GET /:barcode, GET /search
-app.use('/api/posts', publicPostsRouter) // Handles GET /, GET /:id, GET /search
+app.use('/api/posts', publicPostsRouter) // Handles GET /, GET /:id, GET /search, GET /user/:userId
 app.use('/api/claims', publicClaimsRouter) // Handles GET /search (already done)
-app.use('/api/status', statusRouter) // Assuming statusRouter is public or handles its own auth
+app.use('/api/status', publicStatusRouter) // Handles GET /:barcode/history
+app.use('/api/symptoms', publicSymptomRouter) // Handles GET /catalog
+app.use('/api/comments', publicCommentRouter) // Handles GET /post/:postId, GET /:id/replies
+app.use('/api/uploads', publicUploadsRouter) // Handles PUT /local/:id (signed URL, local driver only)
+if (getStorage().name === 'local') {
+  // Serves processed images only; raw originals under incoming/ are never public
+  app.use('/uploads/media', express.static(path.join(getStorage().root, 'media'), { immutable: true, maxAge: '1y' }))
+}
 
 app.use(middleware.tokenExtractor, middleware.userExtractor)
 
@@ -56,10 +80,15 @@ app.use(middleware.tokenExtractor, middleware.userExtractor)
 app.use('/api/products', productRouter) // Handles POST /
 app.use('/api/posts', postsRouter) // Handles POST /, POST /:id/like, etc.
 app.use('/api/claims', claimsRouter) // This handles authenticated routes like POST /, GET /:id
+app.use('/api/status', statusRouter) // Handles PATCH /:barcode, POST / (moderators only)
 app.use('/api/scans', scanRouter)
 app.use('/api/days', dayRouter)
 app.use('/api/symptoms', symptomRouter)
 app.use('/api/comments', commentRouter)
+app.use('/api/uploads', uploadsRouter) // Handles POST /, POST /:id/complete, DELETE /:id
+app.use('/api/ai', express.json({ limit: '45mb' }), aiRouter) // Proxies AI providers with quotas and caching; extraction posts several photos at once
+app.use('/api/admin', middleware.requireRole('admin'), adminRouter)
+app.use('/api/moderation', middleware.requirePrivilege('moderate'), moderationRouter)
 app.use(middleware.errorHandler, middleware.unknownEndpoint)
 
 module.exports = app
\ No newline at end of file
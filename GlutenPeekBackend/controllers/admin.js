@@ -0,0 +1,68 @@
+const adminRouter = require('express').Router()
+const User = require('./../models/user')
+const { isValidRole, ROLES } = require('../utils/roles')
+
+// List users holding a given role (or every non-member when no role is given)
+adminRouter.get('/users', async (request, response, next) => {
+  try {
+    const { role } = request.query
+    if (role !== undefined && !isValidRole(role)) {
+      return response.status(400).json({ error: `Invalid role. Must be one of: ${ROLES.join(', ')}.` })
+    }
+
+    const queryCriteria = role ? { role } : { role: { $ne: 'member' } }
+    const users = await User.find(queryCriteria)
+      .sort({ name: 1, _id: 1 })
+      .select('name email pfp role _id')
+
+    response.status(200).json(users.map(user => user.toJSON()))
+  } catch (error) {
+    next(error)
+  }
+})
+
+// Grant a role to a user
+adminRouter.put('/users/:id/role', async (request, response, next) => {
+  try {
+    const { role } = request.body
+    if (!isValidRole(role)) {
+      return response.status(400).json({ error: `Invalid role. Must be one of: ${ROLES.join(', ')}.` })
+    }
+    if (request.params.id === request.user._id.toString() && role !== 'admin') {
+      return response.status(400).json({ error: 'Admins cannot demote themselves.' })
+    }
+
+    const user = await User.findById(request.params.id)
+    if (!user) {
+      return response.status(404).json({ error: 'User not found.' })
+    }
+
+    user.role = role
+    const updatedUser = await user.save()
+    response.status(200).json(updatedUser.toJSON())
+  } catch (error) {
+    next(error)
+  }
+})
+
+// Revoke a user's role, returning them to a regular member
+adminRouter.delete('/users/:id/role', async (request, response, next) => {
+  try {
+    if (request.params.id === request.user._id.toString()) {
+      return response.status(400).json({ error: 'Admins cannot revoke their own role.' })
+    }
+
+    const user = await User.findById(request.params.id)
+    if (!user) {
+      return response.status(404).json({ error: 'User not found.' })
+    }
+
+    user.role = 'member'
+    const updatedUser = await user.save()
+    response.status(200).json(updatedUser.toJSON())
+  } catch (error) {
+    next(error)
+  }
+})
+
+module.exports = adminRouter
@@ -0,0 +1,99 @@
+const aiRouter = require('express').Router()
+const Product = require('../models/product')
+const Status = require('../models/status')
+const { normalizeBarcode } = require('../utils/gtin')
+const { hashOf, getUsage, runAiRequest } = require('../utils/ai/proxy')
+const { EXTRACTION_SCHEMA_VERSION, normalizeExtraction } = require('../utils/ai/productExtraction')
+
+const MAX_IMAGES = 8 // Matches the upload form in ScanTab
+const MAX_IMAGE_BYTES = 4 * 1024 * 1024
+const ALLOWED_IMAGE_TYPES = ['image/jpeg', 'image/png', 'image/webp']
+
+// Accepts data URLs ("data:image/jpeg;base64,...") and returns { mimeType, data } or null
+const parseImage = (image) => {
+  if (typeof image !== 'string') return null
+  const match = image.match(/^data:([\w/+.-]+);base64,(.+)$/)
+  if (!match || !ALLOWED_IMAGE_TYPES.includes(match[1])) return null
+  if (Buffer.byteLength(match[2], 'base64') > MAX_IMAGE_BYTES) return null
+  return { mimeType: match[1], data: match[2] }
+}
+
+// How many AI requests the current user has left today
+aiRouter.get('/usage', async (request, response, next) => {
+  try {
+    response.status(200).json(await getUsage(request.user._id))
+  } catch (error) {
+    next(error)
+  }
+})
+
+// Extract structured label data (name, brand, ingredients, allergens, ...) from packaging photos.
+// The result is a draft for the contributor to review, not a saved product.
+aiRouter.post('/extract', async (request, response, next) => {
+  try {
+    const barcode = normalizeBarcode(request.body.barcode)
+    if (!barcode) {
+      return response.status(400).json({ error: 'Invalid barcode. Expected a valid EAN-8, UPC-A, UPC-E, EAN-13 or GTIN-14.' })
+    }
+
+    const { images } = request.body
+    if (!Array.isArray(images) || images.length === 0 || images.length > MAX_IMAGES) {
+      return response.status(400).json({ error: `Provide between 1 and ${MAX_IMAGES} images.` })
+    }
+    const parsedImages = images.map(parseImage)
+    if (parsedImages.includes(null)) {
+      return response.status(400).json({ error: 'Images must be JPEG, PNG or WebP data URLs of at most 4 MB each.' })
+    }
+
+    // Order-independent, so re-uploading the same photos in another order still hits the cache
+    const imageHash = hashOf(parsedImages.map(image => hashOf(image.data)).sort().join(''))
+    const { result, provider, cached } = await runAiRequest({
+      user: request.user,
+      kind: 'extract',
+      productBarcode: barcode,
+      cacheKey: `extract:v${EXTRACTION_SCHEMA_VERSION}:${barcode}:${imageHash}`,
+      // Normalize before caching so invalid answers are never stored
+      call: async (aiProvider) => normalizeExtraction(await aiProvider.extractProductInfo({ barcode, images: parsedImages }))
+    })
+
+    response.status(200).json({ barcode, product: result, provider, cached })
+  } catch (error) {
+    next(error)
+  }
+})
+
+// Ask the AI provider for a second opinion on a stored product's gluten status
+aiRouter.post('/gluten-check', async (request, response, next) => {
+  try {
+    const barcode = normalizeBarcode(request.body.barcode)
+    if (!barcode) {
+      return response.status(400).json({ error: 'Invalid barcode. Expected a valid EAN-8, UPC-A, UPC-E, EAN-13 or GTIN-14.' })
+    }
+
+    const product = await Product.findOne({ barcode })
+    if (!product) {
+      return response.status(404).json({ error: 'Product not found' })
+    }
+    const currentStatus = await Status.findOne({ productBarcode: barcode })
+
+    // Keyed on the ingredients too, so an edited product gets a fresh analysis
+    const inputHash = hashOf(`${product.name}\n${product.ingredients.join(',')}`)
+    const { result, provider, cached } = await runAiRequest({
+      user: request.user,
+      kind: 'gluten',
+      productBarcode: barcode,
+      cacheKey: `gluten:${barcode}:${inputHash}`,
+      call: (aiProvider) => aiProvider.analyzeGluten({
+        name: product.name,
+        ingredients: product.ingredients,
+        currentStatus: currentStatus ? currentStatus.status : null
+      })
+    })
+
+    response.status(200).json({ barcode, ...result, provider, cached })
+  } catch (error) {
+    next(error)
+  }
+})
+
+module.exports = aiRouter
\ No newline at end of file
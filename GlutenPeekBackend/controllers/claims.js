@@ -2,6 +2,16 @@ const claimsRouter = require('express').Router()
 const publicClaimsRouter = require('express').Router() // New router for public routes
 const Claim = require('./../models/claim')
 const Product = require('./../models/product')
+const Upload = require('./../models/upload')
+const User = require('./../models/user')
+const { requirePrivilege } = require('../utils/middleware')
+const { hasPrivilege } = require('../utils/roles')
+const { awardReputation } = require('../utils/reputation')
+const { normalizeBarcode } = require('../utils/gtin')
+const { awardAchievements } = require('../utils/achievements')
+const { applyStatusChange } = require('../utils/statusHistory')
+const { CLAIM_STATES, CLAIM_REASONS, MAX_CLAIM_EVIDENCE, isClaimState, isResolved, canTransition } = require('../utils/claimStates')
+const { VOTE_VALUES, voteWeight, applyConsensus, revertProvisionalStatus } = require('../utils/claimConsensus')
 
 // Search claims with pagination (public route) - Moved to publicClaimsRouter
 publicClaimsRouter.get('/search', async (req, res, next) => {
@@ -50,66 +60,146 @@ publicClaimsRouter.get('/search', async (req, res, next) => {
   }
 })
 
-// Authenticated routes remain on claimsRouter
-claimsRouter.get('/', async (req, res, next) => {
+// Moderators: every claim, newest first, with cursor-based pagination and an
+// optional state filter. The moderation queue (/api/moderation/queue) ranks them for triage.
+claimsRouter.get('/', requirePrivilege('moderate'), async (req, res, next) => {
   try {
-    if (!req.user) {
-      return res.status(401).json({ error: 'Authentication required to view all claims. Admin role might be necessary.' });
+    const limit = parseInt(req.query.limit, 10) || 20
+    const { cursor, state } = req.query
+
+    const queryCriteria = {}
+    if (state !== undefined) {
+      if (!isClaimState(state)) {
+        return res.status(400).json({ error: `Invalid state. Must be one of: ${CLAIM_STATES.join(', ')}.` })
+      }
+      queryCriteria.state = state
+    }
+    if (cursor) {
+      const cursorClaim = await Claim.findById(cursor).select('createdAt _id').lean()
+      if (!cursorClaim) {
+        return res.status(400).json({ error: 'Invalid cursor' })
+      }
+      queryCriteria.$or = [
+        { createdAt: { $lt: cursorClaim.createdAt } },
+        { createdAt: cursorClaim.createdAt, _id: { $lt: cursorClaim._id } }
+      ]
     }
-    const claims = await Claim.find({})
-    res.json(claims)
+
+    const claims = await Claim.find(queryCriteria)
+      .sort({ createdAt: -1, _id: -1 })
+      .limit(limit + 1)
+
+    let nextCursor = null
+    if (claims.length > limit) {
+      nextCursor = claims[limit - 1]._id.toString()
+      claims.pop() // Remove the extra item
+    }
+
+    res.status(200).json({ claims: claims.map(claim => claim.toJSON()), nextCursor })
   } catch (error) {
     next(error)
   }
 })
 
-// Admin: Close or update a claim's status and explanation
-claimsRouter.patch('/:id/status', async (request, response, next) => {
+// Moderator: move a claim through review (see utils/claimStates.js). Body: state,
+// an optional resolutionNote, duplicateOf (claim id) when resolving as a duplicate,
+// and when accepting, an optional applyStatus (1-5) to set on the product at the same time.
+// applyStatus: true applies the level the reporter proposed.
+claimsRouter.patch('/:id/state', requirePrivilege('moderate'), async (request, response, next) => {
   try {
-    // 1. Authenticate and Authorize Admin
-    if (!request.user) {
-      return response.status(401).json({ error: 'Authentication required.' })
+    const { state, resolutionNote, duplicateOf, applyStatus } = request.body
+
+    if (!isClaimState(state)) {
+      return response.status(400).json({ error: `Invalid state. Must be one of: ${CLAIM_STATES.join(', ')}.` })
     }
-    if (request.user.email !== 'admin@glutenpeek.com') {
-      return response.status(403).json({ error: 'Forbidden: Only admins can modify claim statuses.' })
+    if (resolutionNote !== undefined && typeof resolutionNote !== 'string') {
+      return response.status(400).json({ error: 'resolutionNote must be a string.' })
     }
-
-    const { id: claimId } = request.params
-    const { status, explanation } = request.body
-
-    // 2. Validate input
-    if (typeof status !== 'boolean') {
-      return response.status(400).json({ error: 'Invalid status format. Must be true or false.' })
+    // applyStatus: true applies the proposed status, 1-5 a status of the reviewer's choice; false or absent applies nothing
+    const applies = applyStatus !== undefined && applyStatus !== false
+    if (applies && applyStatus !== true && !(Number.isInteger(applyStatus) && applyStatus >= 1 && applyStatus <= 5)) {
+      return response.status(400).json({ error: 'applyStatus must be true, false or a status from 1 to 5.' })
     }
-    if (status === true && (typeof explanation !== 'string' || explanation.trim() === '')) {
-      // Require explanation only if closing the claim (status: true)
-      return response.status(400).json({ error: 'Explanation is required when closing a claim.' })
+    if (applies && state !== 'accepted') {
+      return response.status(400).json({ error: 'applyStatus can only be used when accepting a claim.' })
     }
 
-
-    // 3. Find and Update Claim
-    const claim = await Claim.findById(claimId)
+    const claim = await Claim.findById(request.params.id)
     if (!claim) {
       return response.status(404).json({ error: 'Claim not found.' })
     }
+    if (claim.userId.equals(request.user._id)) {
+      return response.status(403).json({ error: 'You cannot review your own claim.' })
+    }
+    if (!canTransition(claim.state, state)) {
+      return response.status(400).json({ error: `A claim cannot move from ${claim.state} to ${state}.` })
+    }
+
+    const statusToApply = applyStatus === true ? claim.proposedStatus : (applies ? applyStatus : undefined)
+    if (applyStatus === true && statusToApply === undefined) {
+      return response.status(400).json({ error: 'This claim has no proposed status to apply.' })
+    }
 
-    claim.status = status
-    // Only update explanation if provided, especially useful if admin wants to reopen without changing original explanation
-    // or wants to add a closing explanation.
-    if (explanation !== undefined) {
-        claim.explanation = explanation
-    } else if (status === true && claim.explanation.trim() === '') {
-        // If closing and no new explanation is provided, and old one is empty, this might be an issue.
-        // However, the previous check for (status === true && explanation is empty) should catch this.
-        // This is more of a safeguard or if logic changes.
+    if (state === 'duplicate') {
+      if (!duplicateOf || duplicateOf === claim.id) {
+        return response.status(400).json({ error: 'duplicateOf must be the id of another claim.' })
+      }
+      const original = await Claim.findById(duplicateOf)
+      if (!original) {
+        return response.status(404).json({ error: 'Original claim not found.' })
+      }
+      claim.duplicateOf = original._id
     }
 
+    const now = new Date()
+    claim.state = state
+    if (resolutionNote !== undefined) {
+      claim.resolutionNote = resolutionNote
+    }
+    if (state === 'open') {
+      // Handed back to the queue
+      claim.reviewedBy = undefined
+      claim.reviewStartedAt = undefined
+    } else {
+      claim.reviewedBy = request.user._id
+      if (state === 'under_review') claim.reviewStartedAt = now
+    }
+    if (isResolved(state)) {
+      claim.resolvedAt = now
+    }
+
+    // Validate first so an invalid claim update never leaves a status change behind
+    await claim.validate()
+    if (state === 'accepted' && statusToApply !== undefined) {
+      const { change } = await applyStatusChange({
+        productBarcode: claim.productBarcode,
+        status: statusToApply,
+        explanation: claim.resolutionNote || claim.explanation,
+        source: 'claim',
+        changedBy: request.user._id,
+        claimId: claim._id
+      })
+      claim.appliedStatusChange = change._id
+    }
+
+    // A rejected claim takes back any status that consensus applied early
+    if (state === 'rejected' || state === 'duplicate') {
+      await revertProvisionalStatus(claim, request.user._id)
+    }
 
     const updatedClaim = await claim.save()
 
-    // 4. Respond
-    response.status(200).json(updatedClaim)
+    if (state === 'accepted' || state === 'rejected') {
+      await awardReputation(updatedClaim.userId, `claim_${state}`, updatedClaim._id)
+    }
+    if (state === 'accepted') {
+      const reporter = await User.findById(updatedClaim.userId)
+      if (reporter) {
+        await awardAchievements(reporter)
+      }
+    }
 
+    response.status(200).json(updatedClaim)
   } catch (error) {
     // Handle potential errors like invalid ObjectId for claimId
     if (error.name === 'CastError' && error.path === '_id') {
@@ -119,6 +209,97 @@ claimsRouter.patch('/:id/status', async (request, response, next) => {
   }
 })
 
+const MAX_VOTE_LOOKUP = 100
+
+// The current user's votes on the given claims: ?ids=a,b,c
+claimsRouter.get('/votes/mine', async (request, response, next) => {
+  try {
+    const ids = String(request.query.ids || '').split(',').filter(Boolean)
+    if (ids.length > MAX_VOTE_LOOKUP) {
+      return response.status(400).json({ error: `At most ${MAX_VOTE_LOOKUP} claim ids can be looked up at once.` })
+    }
+    const claims = await Claim.find({ _id: { $in: ids }, 'votes.userId': request.user._id }).select('votes')
+
+    const votes = {}
+    claims.forEach(claim => {
+      const vote = claim.votes.find(v => v.userId.equals(request.user._id))
+      votes[claim.id] = { value: vote.value, confirms: vote.confirms }
+    })
+    response.status(200).json({ votes })
+  } catch (error) {
+    next(error)
+  }
+})
+
+const voteResponse = (claim, userId) => {
+  const vote = claim.votes.find(v => v.userId.equals(userId))
+  return {
+    id: claim.id,
+    state: claim.state,
+    voteSummary: claim.voteSummary,
+    escalatedAt: claim.escalatedAt || null,
+    myVote: vote ? { value: vote.value, confirms: vote.confirms } : null
+  }
+}
+
+// Vote on someone else's unresolved claim. Body: value (1 or -1) and, with an
+// upvote, confirms: true to say you see the same label. Replaces an earlier vote.
+claimsRouter.put('/:id/vote', async (request, response, next) => {
+  try {
+    const { value, confirms = false } = request.body
+    if (!VOTE_VALUES.includes(value)) {
+      return response.status(400).json({ error: 'value must be 1 (agree) or -1 (disagree).' })
+    }
+    if (typeof confirms !== 'boolean' || (confirms && value !== 1)) {
+      return response.status(400).json({ error: 'confirms must be a boolean and can only be set with an upvote.' })
+    }
+
+    const claim = await Claim.findById(request.params.id)
+    if (!claim) {
+      return response.status(404).json({ error: 'Claim not found.' })
+    }
+    if (claim.userId.equals(request.user._id)) {
+      return response.status(403).json({ error: 'You cannot vote on your own claim.' })
+    }
+    if (isResolved(claim.state)) {
+      return response.status(400).json({ error: 'Voting is closed on resolved claims.' })
+    }
+
+    claim.votes = claim.votes.filter(v => !v.userId.equals(request.user._id))
+    claim.votes.push({ userId: request.user._id, value, confirms, weight: voteWeight(request.user) })
+
+    const reporter = await User.findById(claim.userId)
+    await applyConsensus(claim, reporter)
+    await claim.save()
+
+    response.status(200).json(voteResponse(claim, request.user._id))
+  } catch (error) {
+    next(error)
+  }
+})
+
+// Withdraw your vote. Escalation and provisional status are not undone.
+claimsRouter.delete('/:id/vote', async (request, response, next) => {
+  try {
+    const claim = await Claim.findById(request.params.id)
+    if (!claim) {
+      return response.status(404).json({ error: 'Claim not found.' })
+    }
+    if (isResolved(claim.state)) {
+      return response.status(400).json({ error: 'Voting is closed on resolved claims.' })
+    }
+
+    claim.votes = claim.votes.filter(v => !v.userId.equals(request.user._id))
+    const reporter = await User.findById(claim.userId)
+    await applyConsensus(claim, reporter)
+    await claim.save()
+
+    response.status(200).json(voteResponse(claim, request.user._id))
+  } catch (error) {
+    next(error)
+  }
+})
+
 claimsRouter.get('/:id', async (req, res, next) => {
   try {
     if (!req.user) {
@@ -139,21 +320,56 @@ claimsRouter.post('/', async (req, res, next) => {
     if (!req.user || !req.user._id) {
       return res.status(401).json({ error: 'Unauthorized: User not available' })
     }
-    const { productBarcode, explanation, mediaProofUrl } = req.body // Destructure after user check
+    const { explanation, proposedStatus, reason, evidenceUrls = [] } = req.body // Destructure after user check
+    const productBarcode = normalizeBarcode(req.body.productBarcode)
+    if (!productBarcode) {
+      return res.status(400).json({ error: 'Invalid product barcode format.' })
+    }
+    if (![1, 2, 3, 4, 5].includes(proposedStatus)) {
+      return res.status(400).json({ error: 'proposedStatus must be a status level from 1 to 5.' })
+    }
+    if (!CLAIM_REASONS.includes(reason)) {
+      return res.status(400).json({ error: `Invalid reason. Must be one of: ${CLAIM_REASONS.join(', ')}.` })
+    }
+    if (!Array.isArray(evidenceUrls) || evidenceUrls.some(url => typeof url !== 'string')) {
+      return res.status(400).json({ error: 'evidenceUrls must be an array of image URLs.' })
+    }
+    if (evidenceUrls.length > MAX_CLAIM_EVIDENCE) {
+      return res.status(400).json({ error: `You can provide at most ${MAX_CLAIM_EVIDENCE} evidence images.` })
+    }
 
     const productExists = await Product.findOne({ barcode: productBarcode });
     if (!productExists) {
       return res.status(404).json({ error: 'Product with the given barcode not found.' });
     }
+    if ((await Upload.findUnownedUrls(req.user._id, evidenceUrls)).length > 0) {
+      return res.status(400).json({ error: 'Media must be uploaded through /api/uploads by the same user.' })
+    }
 
     const claim = new Claim({
       userId: req.user._id,
       productBarcode,
       explanation,
-      mediaProofUrl,
-      status: false // Explicitly setting default, though schema might handle it
+      proposedStatus,
+      reason,
+      evidenceUrls
     })
-    const savedClaim = await claim.save()
+    let savedClaim = await claim.save()
+
+    // Users with the instant_status privilege see their proposal applied straight
+    // away; a moderator rejecting the claim reverts it like a consensus change
+    if (hasPrivilege(req.user, 'instant_status')) {
+      const { change } = await applyStatusChange({
+        productBarcode,
+        status: proposedStatus,
+        explanation,
+        source: 'claim',
+        changedBy: req.user._id,
+        claimId: savedClaim._id
+      })
+      savedClaim.provisionalStatusChange = change._id
+      savedClaim = await savedClaim.save()
+    }
     res.status(201).json(savedClaim)
   } catch (error) {
     next(error)
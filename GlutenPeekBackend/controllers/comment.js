@@ -1,30 +1,229 @@
 const commentRouter = require('express').Router()
+const publicCommentRouter = require('express').Router()
+const mongoose = require('mongoose')
 const Comment = require('../models/comment')
 const Post = require('../models/post')
+const Upload = require('../models/upload')
+const Notification = require('../models/notification')
+const { requirePrivilege } = require('../utils/middleware')
+const { awardReputation } = require('../utils/reputation')
+const { PRODUCT_CARDS, resolveProductTags, withTextBarcodes, pickedBarcodesOf } = require('../utils/productTags')
+const { extractHashtags } = require('../utils/textEntities')
+const { resolveMentions, notifyMentions } = require('../utils/notifications')
+const { REPLY_PREVIEW_LIMIT, threadParentId, isHidden, canEditComment, threadComments } = require('../utils/commentThreads')
 
+const AUTHOR_FIELDS = 'name pfp'
+
+// Oldest first, so a thread reads as a conversation. Returns null for an unknown cursor.
+const pageOfComments = async (queryCriteria, { cursor, limit }) => {
+  if (cursor) {
+    const cursorComment = await Comment.findById(cursor).select('createdAt _id').lean()
+    if (!cursorComment) return null
+    queryCriteria.$or = [
+      { createdAt: { $gt: cursorComment.createdAt } },
+      { createdAt: cursorComment.createdAt, _id: { $gt: cursorComment._id } }
+    ]
+  }
+
+  const comments = await Comment.find(queryCriteria)
+    .sort({ createdAt: 1, _id: 1 })
+    .limit(limit + 1)
+    .populate('user', AUTHOR_FIELDS)
+    .populate(PRODUCT_CARDS)
+
+  let nextCursor = null
+  if (comments.length > limit) {
+    nextCursor = comments[limit - 1]._id.toString()
+    comments.pop() // Remove the extra item
+  }
+  return { comments: comments.map(comment => comment.toJSON()), nextCursor }
+}
+
+const findVisiblePost = (postId) => Post.findOne({ _id: postId, 'moderation.state': { $ne: 'removed' } })
+
+// Top-level comments on a post, each with its first replies and a reply count
+publicCommentRouter.get('/post/:postId', async (req, res, next) => {
+  try {
+    const limit = Math.min(parseInt(req.query.limit, 10) || 20, 50)
+    const post = await findVisiblePost(req.params.postId)
+    if (!post) {
+      return res.status(404).json({ error: 'Post not found' })
+    }
+
+    const page = await pageOfComments({ postId: post._id, parentId: null }, { cursor: req.query.cursor, limit })
+    if (!page) {
+      return res.status(400).json({ error: 'Invalid cursor' })
+    }
+
+    const parentIds = page.comments.map(comment => new mongoose.Types.ObjectId(comment.id))
+    const [replies, counts] = await Promise.all([
+      Promise.all(parentIds.map(parentId => Comment.find({ parentId })
+        .sort({ createdAt: 1, _id: 1 })
+        .limit(REPLY_PREVIEW_LIMIT)
+        .populate('user', AUTHOR_FIELDS)
+        .populate(PRODUCT_CARDS))),
+      Comment.aggregate([
+        { $match: { parentId: { $in: parentIds } } },
+        { $group: { _id: '$parentId', count: { $sum: 1 } } }
+      ])
+    ])
+
+    const threaded = threadComments(page.comments, replies.flat().map(reply => reply.toJSON()), counts)
+    res.status(200).json({ comments: threaded, nextCursor: page.nextCursor })
+  } catch (error) {
+    next(error)
+  }
+})
+
+// Replies to a top-level comment, after the ones shown in the preview
+publicCommentRouter.get('/:id/replies', async (req, res, next) => {
+  try {
+    const limit = Math.min(parseInt(req.query.limit, 10) || 20, 50)
+    const parent = await Comment.findById(req.params.id)
+    if (!parent || parent.parentId) {
+      return res.status(404).json({ error: 'Comment not found' })
+    }
+
+    const page = await pageOfComments({ parentId: parent._id }, { cursor: req.query.cursor, limit })
+    if (!page) {
+      return res.status(400).json({ error: 'Invalid cursor' })
+    }
+    res.status(200).json({ replies: page.comments, nextCursor: page.nextCursor })
+  } catch (error) {
+    next(error)
+  }
+})
+
+// Comment on a post (:id is the post). Body: content, mediaUrls, productBarcodes
+// and, for a reply, parentId. Replies to a reply are attached to its top-level comment.
 commentRouter.post('/:id', async (req, res, next) => {
   try {
     if (!req.user || !req.user._id) {
       return res.status(401).json({ error: 'Unauthorized: User not available' })
     }
 
-    const postExists = await Post.findById(req.params.id)
+    const postExists = await findVisiblePost(req.params.id)
     if (!postExists) {
       return res.status(404).json({ error: 'Post not found. Cannot create comment.' })
     }
 
-    const { postText, mediaUrls } = req.body // Destructure after user check
+    const { content, mediaUrls, productBarcodes, parentId } = req.body // Destructure after user check
+    let threadId = null
+    if (parentId) {
+      const parent = await Comment.findOne({ _id: parentId, postId: postExists._id })
+      if (!parent) {
+        return res.status(404).json({ error: 'Parent comment not found on this post.' })
+      }
+      threadId = threadParentId(parent)
+    }
+    if ((await Upload.findUnownedUrls(req.user._id, mediaUrls)).length > 0) {
+      return res.status(400).json({ error: 'Media must be uploaded through /api/uploads by the same user.' })
+    }
+    const tags = await resolveProductTags(productBarcodes, content)
+    if (tags.error) {
+      return res.status(400).json({ error: tags.error })
+    }
     const comment = new Comment({
       userId: req.user._id,
-      postText,
+      content,
       mediaUrls,
-      postId: req.params.id
+      productBarcodes: tags.barcodes,
+      pickedBarcodes: tags.picked,
+      hashtags: extractHashtags(content),
+      mentions: await resolveMentions(content),
+      postId: req.params.id,
+      parentId: threadId
     })
     const savedComment = await comment.save()
+    await notifyMentions({ actorId: req.user._id, mentions: savedComment.mentions, postId: savedComment.postId, commentId: savedComment._id })
+    await savedComment.populate([{ path: 'user', select: AUTHOR_FIELDS }, PRODUCT_CARDS])
     res.status(201).json(savedComment)
   } catch (error) {
     next(error)
   }
 })
 
-module.exports = commentRouter
\ No newline at end of file
+// Author: change the text of a comment and, optionally, its productBarcodes
+commentRouter.patch('/:id', async (req, res, next) => {
+  try {
+    const comment = await Comment.findById(req.params.id)
+    if (!comment) {
+      return res.status(404).json({ error: 'Comment not found' })
+    }
+    if (!canEditComment(comment, req.user)) {
+      return res.status(403).json({ error: 'Only the author can edit this comment.' })
+    }
+
+    const { content, productBarcodes } = req.body
+    // Without productBarcodes, the comment keeps the products picked for it
+    const tags = productBarcodes !== undefined
+      ? await resolveProductTags(productBarcodes, content)
+      : { picked: pickedBarcodesOf(comment, comment.content) }
+    if (tags.error) {
+      return res.status(400).json({ error: tags.error })
+    }
+    const previousMentions = [...comment.mentions]
+    comment.content = content
+    comment.pickedBarcodes = tags.picked
+    comment.productBarcodes = tags.barcodes || await withTextBarcodes(tags.picked, content)
+    comment.hashtags = extractHashtags(content)
+    comment.mentions = await resolveMentions(content)
+    comment.editedAt = new Date()
+    await comment.save()
+    await notifyMentions({ actorId: req.user._id, mentions: comment.mentions, previous: previousMentions, postId: comment.postId, commentId: comment._id })
+    await comment.populate([{ path: 'user', select: AUTHOR_FIELDS }, PRODUCT_CARDS])
+    res.status(200).json(comment)
+  } catch (error) {
+    next(error)
+  }
+})
+
+// Author: delete a comment. A top-level comment with replies is blanked
+// instead, so the replies keep their thread.
+commentRouter.delete('/:id', async (req, res, next) => {
+  try {
+    const comment = await Comment.findById(req.params.id)
+    if (!comment) {
+      return res.status(404).json({ error: 'Comment not found' })
+    }
+    if (!comment.userId.equals(req.user._id)) {
+      return res.status(403).json({ error: 'Only the author can delete this comment.' })
+    }
+
+    const hasReplies = !comment.parentId && await Comment.exists({ parentId: comment._id })
+    if (hasReplies) {
+      comment.deletedAt = comment.deletedAt || new Date()
+      await comment.save()
+    } else {
+      await comment.deleteOne()
+      await Notification.deleteMany({ commentId: comment._id })
+    }
+    res.status(204).end()
+  } catch (error) {
+    next(error)
+  }
+})
+
+// Moderators: hide a comment from everyone, with an optional note. The
+// author loses reputation (utils/reputationRules.js).
+commentRouter.post('/:id/remove', requirePrivilege('moderate'), async (req, res, next) => {
+  try {
+    const comment = await Comment.findById(req.params.id)
+    if (!comment) {
+      return res.status(404).json({ error: 'Comment not found' })
+    }
+    if (isHidden(comment)) {
+      return res.status(400).json({ error: 'Comment has already been deleted or removed.' })
+    }
+
+    comment.moderation = { removedBy: req.user._id, removedAt: new Date(), note: req.body.note }
+    await comment.save()
+    await awardReputation(comment.userId, 'comment_removed', comment._id)
+    await comment.populate([{ path: 'user', select: AUTHOR_FIELDS }, PRODUCT_CARDS])
+    res.status(200).json(comment)
+  } catch (error) {
+    next(error)
+  }
+})
+
+module.exports = { commentRouter, publicCommentRouter }
\ No newline at end of file
@@ -1,5 +1,10 @@
 const Scan = require('../models/scan')
 const Symptom = require('../models/symptom')
+const { resolveTimeZone, isDateKey, localDateKey, countDateKeys, dateKeysBetween, startOfLocalDay, addDays } = require('../utils/timezone')
+const { aggregateCalendar } = require('../utils/calendarStats')
+
+const MAX_DAYS = 366
+const MAX_CALENDAR_DAYS = 3 * 366 // Counts only, so a few years at once is fine
 
 const dayRouter = require('express').Router()
 
@@ -14,51 +19,58 @@ dayRouter.get('/', async (request, response, next) => {
       return response.status(400).json({ error: 'startdate and enddate query parameters are required.' })
     }
 
-    const startDate = new Date(request.query.startdate)
-    const endDate = new Date(request.query.enddate)
+    // Days are calendar days in the user's time zone. Plain dates (YYYY-MM-DD) are
+    // taken as local days; full timestamps are converted to the local day they fall on.
+    const timeZone = resolveTimeZone(request.user)
+    const toDateKey = (value) => {
+      if (isDateKey(value)) return value
+      const date = new Date(value)
+      return isNaN(date.getTime()) ? null : localDateKey(date, timeZone)
+    }
+    const startKey = toDateKey(request.query.startdate)
+    const endKey = toDateKey(request.query.enddate)
 
-    if (isNaN(startDate.getTime()) || isNaN(endDate.getTime())) {
+    if (!startKey || !endKey) {
       return response.status(400).json({ error: 'Invalid startdate or enddate format.' })
     }
 
-    if (startDate > endDate) {
+    if (startKey > endKey) {
       return response.status(400).json({ error: 'Start date must be before end date' })
     }
 
-    const curr = new Date(startDate)
-    const dateList = []
-    while (curr <= endDate) {
-      dateList.push(new Date(curr))
-      curr.setDate(curr.getDate() + 1)
+    if (countDateKeys(startKey, endKey) > MAX_DAYS) {
+      return response.status(400).json({ error: `Date range is limited to ${MAX_DAYS} days.` })
     }
+    const dayKeys = dateKeysBetween(startKey, endKey)
 
-    // --- Corrected Date Handling for Database Queries ---
-    // For realSymptoms query
-    const symptomsQueryEndDate = new Date(endDate)
-    symptomsQueryEndDate.setDate(symptomsQueryEndDate.getDate() + 1) // Go to the next day
-    symptomsQueryEndDate.setHours(0, 0, 0, 0) // Set to the beginning of that next day
-
-    const realSymptoms = await Symptom.find({
-      userId,
-      date: { $gte: startDate, $lt: symptomsQueryEndDate },
-    })
+    // From the start of the first local day up to the start of the day after the last
+    const range = {
+      $gte: startOfLocalDay(startKey, timeZone),
+      $lt: startOfLocalDay(addDays(endKey, 1), timeZone)
+    }
 
-    // For realScans query
-    const scansQueryEndDate = new Date(endDate)
-    scansQueryEndDate.setDate(scansQueryEndDate.getDate() + 1) // Go to the next day
-    scansQueryEndDate.setHours(0, 0, 0, 0) // Set to the beginning of that next day
+    const realSymptoms = await Symptom.find({ userId, date: range })
+    const realScans = await Scan.find({ userId, date: range })
 
-    const realScans =  await Scan.find({
-      userId,
-      date: { $gte: startDate, $lt: scansQueryEndDate },
-    })
+    const byDay = (entries) => {
+      const buckets = new Map()
+      entries.forEach(entry => {
+        const key = localDateKey(entry.date, timeZone)
+        if (!buckets.has(key)) buckets.set(key, [])
+        buckets.get(key).push(entry)
+      })
+      return buckets
+    }
+    const scansByDay = byDay(realScans)
+    const symptomsByDay = byDay(realSymptoms)
 
-    const realDays = dateList.map(date => {
-      const key = date.toISOString().split('T')[0]
+    const realDays = dayKeys.map(key => {
       return {
-        date,
-        scans: realScans.filter(scan => new Date(scan.date).toISOString().split('T')[0] === key),
-        symptoms: realSymptoms.filter(symptom => new Date(symptom.date).toISOString().split('T')[0] === key),
+        day: key, // Local date, YYYY-MM-DD
+        date: startOfLocalDay(key, timeZone),
+        timeZone,
+        scans: scansByDay.get(key) || [],
+        symptoms: symptomsByDay.get(key) || [],
         userId,
       }
     })
@@ -69,4 +81,37 @@ dayRouter.get('/', async (request, response, next) => {
   }
 })
 
+// Per-day activity counts for month and year heatmaps, computed by MongoDB.
+// Only days with activity are returned.
+dayRouter.get('/calendar', async (request, response, next) => {
+  try {
+    if (!request.user || !request.user._id) {
+      return response.status(401).json({ error: 'Unauthorized: User not available' })
+    }
+
+    const { from, to } = request.query
+    if (!isDateKey(from) || !isDateKey(to)) {
+      return response.status(400).json({ error: 'from and to must be dates in YYYY-MM-DD format.' })
+    }
+    if (from > to) {
+      return response.status(400).json({ error: 'from must not be after to.' })
+    }
+    if (countDateKeys(from, to) > MAX_CALENDAR_DAYS) {
+      return response.status(400).json({ error: `Date range is limited to ${MAX_CALENDAR_DAYS} days.` })
+    }
+
+    const timeZone = resolveTimeZone(request.user)
+    const days = await aggregateCalendar({
+      userId: request.user._id,
+      start: startOfLocalDay(from, timeZone),
+      end: startOfLocalDay(addDays(to, 1), timeZone),
+      timeZone
+    })
+
+    response.json({ from, to, timeZone, days })
+  } catch (error) {
+    next(error)
+  }
+})
+
 module.exports = dayRouter
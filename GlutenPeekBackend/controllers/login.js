@@ -2,7 +2,7 @@ const loginRouter = require('express').Router()
 const bcrypt = require('bcrypt')
 const User = require('../models/user')
 const jwt = require('jsonwebtoken')
-const { calculateStreak } = require('../utils/streakCalculator') // Import calculateStreak
+const { streakSummary, ensureStreak } = require('../utils/streakCalculator')
 
 loginRouter.post('/', async (request, response, next) => {
   try {
@@ -30,9 +30,9 @@ loginRouter.post('/', async (request, response, next) => {
     // Prepare user object for response (excluding passwordHash, etc.)
     const userObject = user.toJSON() // user.toJSON() is defined in User model
 
-    // Calculate streak
-    const streak = await calculateStreak(user._id)
-    userObject.streak = streak // Add streak to the user object
+    // Add current and longest streak; older accounts get theirs computed once here
+    await ensureStreak(user)
+    Object.assign(userObject, streakSummary(user))
 
     response
       .status(200)
@@ -0,0 +1,242 @@
+const moderationRouter = require('express').Router()
+const mongoose = require('mongoose')
+const Claim = require('./../models/claim')
+const Post = require('./../models/post')
+const Product = require('./../models/product')
+const User = require('./../models/user')
+const { hasPrivilege } = require('../utils/roles')
+const { awardReputation } = require('../utils/reputation')
+const { normalizeBarcode } = require('../utils/gtin')
+const { isResolved } = require('../utils/claimStates')
+const { QUEUE_TYPES, QUEUE_STATES } = require('../utils/moderationStates')
+const { decodeCursor, fetchQueue } = require('../utils/moderationQueue')
+
+const DAY_MS = 24 * 60 * 60 * 1000
+const MAX_LIMIT = 100
+
+// Comma-separated query value, checked against the allowed values
+const parseList = (value, allowed, fallback) => {
+  if (value === undefined || value === '') return fallback
+  const items = String(value).split(',').map(item => item.trim())
+  return items.every(item => allowed.includes(item)) ? [...new Set(items)] : null
+}
+
+// Work queue of claims, reported posts and product submissions.
+// Filters: type and state (comma-separated), product (barcode), olderThanDays,
+// newerThanDays and assignee ('me', 'unassigned' or a user id). Ordered by priority.
+moderationRouter.get('/queue', async (request, response, next) => {
+  try {
+    const types = parseList(request.query.type, QUEUE_TYPES, QUEUE_TYPES)
+    if (!types) {
+      return response.status(400).json({ error: `Invalid type. Use any of: ${QUEUE_TYPES.join(', ')}.` })
+    }
+    const states = parseList(request.query.state, QUEUE_STATES, ['open', 'in_review'])
+    if (!states) {
+      return response.status(400).json({ error: `Invalid state. Use any of: ${QUEUE_STATES.join(', ')}.` })
+    }
+
+    let productBarcode
+    if (request.query.product) {
+      productBarcode = normalizeBarcode(request.query.product)
+      if (!productBarcode) {
+        return response.status(400).json({ error: 'Invalid product barcode format.' })
+      }
+    }
+
+    const now = new Date()
+    const ageToDate = (value) => {
+      const days = Number(value)
+      return value !== '' && Number.isFinite(days) && days >= 0 ? new Date(now.getTime() - days * DAY_MS) : null
+    }
+    const queuedBefore = request.query.olderThanDays !== undefined ? ageToDate(request.query.olderThanDays) : undefined
+    const queuedAfter = request.query.newerThanDays !== undefined ? ageToDate(request.query.newerThanDays) : undefined
+    if (queuedBefore === null || queuedAfter === null) {
+      return response.status(400).json({ error: 'olderThanDays and newerThanDays must be non-negative numbers.' })
+    }
+
+    let assignedTo
+    const { assignee } = request.query
+    if (assignee === 'me') {
+      assignedTo = request.user._id
+    } else if (assignee === 'unassigned') {
+      assignedTo = null
+    } else if (assignee !== undefined) {
+      if (!mongoose.isValidObjectId(assignee)) {
+        return response.status(400).json({ error: 'Invalid assignee. Use "me", "unassigned" or a user id.' })
+      }
+      assignedTo = new mongoose.Types.ObjectId(assignee)
+    }
+
+    let cursor
+    if (request.query.cursor) {
+      cursor = decodeCursor(request.query.cursor)
+      if (!cursor) {
+        return response.status(400).json({ error: 'Invalid cursor' })
+      }
+    }
+
+    const limit = Math.min(parseInt(request.query.limit, 10) || 20, MAX_LIMIT)
+
+    const { items, nextCursor } = await fetchQueue({
+      types,
+      states,
+      productBarcode,
+      queuedBefore,
+      queuedAfter,
+      assignedTo,
+      cursor,
+      limit,
+      now
+    })
+    response.status(200).json({ items, nextCursor })
+  } catch (error) {
+    next(error)
+  }
+})
+
+// The document behind a queue item, or null when it is not in moderation
+const findQueueItem = async (type, id) => {
+  if (type === 'claim') return Claim.findById(id)
+  if (type === 'post') return Post.findOne({ _id: id, 'moderation.state': { $exists: true } })
+  if (type === 'product') return Product.findOne({ _id: id, 'moderation.state': { $exists: true } })
+  return null
+}
+
+const isItemResolved = (type, item) => type === 'claim'
+  ? isResolved(item.state)
+  : !['open', 'pending'].includes(item.moderation.state)
+
+// Who submitted the item. Nobody reviews their own claim, post or product.
+const authorOf = (type, item) => (type === 'product' ? item.createdBy : item.userId)
+
+const isOwnItem = (type, item, user) => {
+  const authorId = authorOf(type, item)
+  return !!authorId && authorId.equals(user._id)
+}
+
+const setAssignee = (type, item, userId) => {
+  if (type === 'claim') item.assignedTo = userId
+  else item.moderation.assignedTo = userId
+}
+
+// Assign a queue item to a moderator (the current user when no userId is given)
+moderationRouter.put('/:type/:id/assignee', async (request, response, next) => {
+  try {
+    const { type, id } = request.params
+    if (!QUEUE_TYPES.includes(type)) {
+      return response.status(400).json({ error: `Invalid type. Use one of: ${QUEUE_TYPES.join(', ')}.` })
+    }
+
+    const item = await findQueueItem(type, id)
+    if (!item) {
+      return response.status(404).json({ error: 'Queue item not found.' })
+    }
+    if (isItemResolved(type, item)) {
+      return response.status(400).json({ error: 'Resolved items cannot be assigned.' })
+    }
+
+    const assignee = request.body.userId ? await User.findById(request.body.userId) : request.user
+    if (!assignee) {
+      return response.status(404).json({ error: 'User not found.' })
+    }
+    if (!hasPrivilege(assignee, 'moderate')) {
+      return response.status(400).json({ error: 'Items can only be assigned to moderators.' })
+    }
+    if (isOwnItem(type, item, assignee)) {
+      return response.status(403).json({ error: 'Items cannot be assigned to the member who submitted them.' })
+    }
+
+    setAssignee(type, item, assignee._id)
+    await item.save()
+    response.status(200).json({ type, id: item.id, assignedTo: { id: assignee.id, name: assignee.name, pfp: assignee.pfp } })
+  } catch (error) {
+    next(error)
+  }
+})
+
+// Return a queue item to the unassigned pool
+moderationRouter.delete('/:type/:id/assignee', async (request, response, next) => {
+  try {
+    const { type, id } = request.params
+    if (!QUEUE_TYPES.includes(type)) {
+      return response.status(400).json({ error: `Invalid type. Use one of: ${QUEUE_TYPES.join(', ')}.` })
+    }
+
+    const item = await findQueueItem(type, id)
+    if (!item) {
+      return response.status(404).json({ error: 'Queue item not found.' })
+    }
+
+    setAssignee(type, item, undefined)
+    await item.save()
+    response.status(204).end()
+  } catch (error) {
+    next(error)
+  }
+})
+
+// Resolve a reported post: dismiss the reports or remove the post from feeds
+moderationRouter.post('/posts/:id/resolve', async (request, response, next) => {
+  try {
+    const { action, note } = request.body
+    if (!['dismiss', 'remove'].includes(action)) {
+      return response.status(400).json({ error: 'Invalid action. Must be dismiss or remove.' })
+    }
+
+    const post = await findQueueItem('post', request.params.id)
+    if (!post) {
+      return response.status(404).json({ error: 'Reported post not found.' })
+    }
+    if (isOwnItem('post', post, request.user)) {
+      return response.status(403).json({ error: 'You cannot resolve reports on your own post.' })
+    }
+    if (post.moderation.state !== 'open') {
+      return response.status(400).json({ error: 'This post has already been resolved.' })
+    }
+
+    post.moderation.state = action === 'dismiss' ? 'dismissed' : 'removed'
+    post.moderation.note = note
+    post.moderation.resolvedBy = request.user._id
+    post.moderation.resolvedAt = new Date()
+    const savedPost = await post.save()
+    if (action === 'remove') {
+      await awardReputation(savedPost.userId, 'post_removed', savedPost._id)
+    }
+    response.status(200).json(savedPost)
+  } catch (error) {
+    next(error)
+  }
+})
+
+// Approve or reject a product submitted by a member
+moderationRouter.post('/products/:id/resolve', async (request, response, next) => {
+  try {
+    const { action, note } = request.body
+    if (!['approve', 'reject'].includes(action)) {
+      return response.status(400).json({ error: 'Invalid action. Must be approve or reject.' })
+    }
+
+    const product = await findQueueItem('product', request.params.id)
+    if (!product) {
+      return response.status(404).json({ error: 'Product submission not found.' })
+    }
+    if (isOwnItem('product', product, request.user)) {
+      return response.status(403).json({ error: 'You cannot review your own product submission.' })
+    }
+    if (product.moderation.state !== 'pending') {
+      return response.status(400).json({ error: 'This submission has already been reviewed.' })
+    }
+
+    product.moderation.state = action === 'approve' ? 'approved' : 'rejected'
+    product.moderation.note = note
+    product.moderation.resolvedBy = request.user._id
+    product.moderation.resolvedAt = new Date()
+    const savedProduct = await product.save()
+    await awardReputation(savedProduct.createdBy, `product_${savedProduct.moderation.state}`, savedProduct._id)
+    response.status(200).json(savedProduct)
+  } catch (error) {
+    next(error)
+  }
+})
+
+module.exports = moderationRouter
\ No newline at end of file
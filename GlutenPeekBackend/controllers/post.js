@@ -1,14 +1,118 @@
 const postsRouter = require('express').Router() // For authenticated routes
 const publicPostsRouter = require('express').Router() // For public routes
 const Post = require('./../models/post')
+const Upload = require('./../models/upload')
+const Comment = require('./../models/comment')
+const Scan = require('./../models/scan')
+const Notification = require('./../models/notification')
+const { IMAGE_SET_FIELDS } = require('../utils/imagePipeline')
+const { POST_REPORT_REASONS } = require('../utils/moderationStates')
+const { awardLikeReputation, revokeLikeReputation } = require('../utils/reputation')
+const { tokenExtractor, optionalUserExtractor } = require('../utils/middleware')
+const { normalizeBarcode } = require('../utils/gtin')
+const { PRODUCT_CARDS, resolveProductTags, withTextBarcodes, pickedBarcodesOf } = require('../utils/productTags')
+const { TRENDING_WINDOW_DAYS, TRENDING_LIMIT, normalizeTag, extractHashtags, mergeTagCounts } = require('../utils/textEntities')
+const { resolveMentions, notifyMentions } = require('../utils/notifications')
+const { FEED_MODES, RANKING_CANDIDATES, isFeedMode, rankingWindowStart, rankingBoundary, olderThanFilter, encodeRankCursor, decodeRankCursor, rankPage } = require('../utils/feedRanking')
 
-// Get posts with cursor-based pagination (feed) - moved to publicPostsRouter
-publicPostsRouter.get('/', async (req, res, next) => {
+const AUTHOR_FIELDS = 'name pfp'
+// Top-level comments embedded in a single post; the rest come from /api/comments/post/:postId
+const EMBEDDED_COMMENTS = 20
+
+const visible = { 'moderation.state': { $ne: 'removed' } }
+const visibleComments = { deletedAt: null, 'moderation.removedAt': null }
+
+// Deletes the uploads behind these media URLs once nothing shows them any more
+const releaseMedia = async (urls) => {
+  const uploads = await Upload.find({ url: { $in: urls }, purpose: 'post' })
+  for (const upload of uploads) {
+    if (!(await Upload.isReferenced(upload.url))) {
+      await upload.removeWithFiles()
+    }
+  }
+}
+
+// The ranked feed (utils/feedRanking.js). Returns null for an invalid cursor.
+const rankedFeed = async (viewer, { cursor, limit }) => {
+  const after = cursor ? decodeRankCursor(cursor) : null
+  if (cursor && !after) return null
+  const asOf = after ? after.asOf : Date.now()
+
+  let page = []
+  let nextCursor = null
+  let olderThan = after && after.olderThan
+  if (!olderThan) {
+    const candidates = await Post.find({
+      ...visible,
+      createdAt: { $gte: new Date(rankingWindowStart(asOf)), $lte: new Date(asOf) }
+    })
+      .sort({ createdAt: -1, _id: -1 })
+      .limit(RANKING_CANDIDATES)
+      .select('likes productBarcodes createdAt')
+      .populate('commentCount')
+    const scannedBarcodes = new Set(viewer ? await Scan.distinct('productBarcode', { userId: viewer._id }) : [])
+    const ranked = rankPage(candidates, { asOf, scannedBarcodes, after, limit })
+    page = ranked.page
+    nextCursor = ranked.nextCursor
+    olderThan = rankingBoundary(candidates, asOf)
+  }
+
+  const ids = page.map(item => item.id)
+  // Once the ranked posts run out, the page is filled with older posts, newest first
+  if (!nextCursor) {
+    const needed = limit - ids.length
+    const older = await Post.find({ ...visible, ...olderThanFilter(olderThan) })
+      .sort({ createdAt: -1, _id: -1 })
+      .limit(needed + 1)
+      .select('createdAt')
+    if (older.length > needed) {
+      const last = needed > 0 ? older[needed - 1] : null
+      nextCursor = encodeRankCursor({
+        asOf,
+        olderThan: last ? { createdAt: last.createdAt.getTime(), id: last._id.toString() } : olderThan
+      })
+    }
+    ids.push(...older.slice(0, needed).map(post => post._id.toString()))
+  }
+
+  const posts = await Post.find({ _id: { $in: ids } })
+    .populate('user', AUTHOR_FIELDS)
+    .populate('media', IMAGE_SET_FIELDS)
+    .populate('commentCount')
+    .populate(PRODUCT_CARDS)
+  const byId = new Map(posts.map(post => [post._id.toString(), post]))
+  return {
+    posts: ids.filter(id => byId.has(id)).map(id => byId.get(id).toJSON()),
+    nextCursor
+  }
+}
+
+// Get posts with cursor-based pagination (feed) - moved to publicPostsRouter.
+// ?feed= picks the mode (utils/feedRanking.js); "following" needs a signed-in user.
+publicPostsRouter.get('/', tokenExtractor, optionalUserExtractor, async (req, res, next) => {
   try {
     const limit = parseInt(req.query.limit, 10) || 10
     const cursor = req.query.cursor
+    const feed = req.query.feed || 'global'
+    if (!isFeedMode(feed)) {
+      return res.status(400).json({ error: `Invalid feed. Must be one of: ${FEED_MODES.join(', ')}.` })
+    }
+    if (feed === 'following' && !req.user) {
+      return res.status(401).json({ error: 'Sign in to see posts from people you follow.' })
+    }
+
+    if (feed === 'ranked') {
+      const ranked = await rankedFeed(req.user, { cursor, limit })
+      if (!ranked) {
+        return res.status(400).json({ error: 'Invalid cursor' })
+      }
+      return res.status(200).json(ranked)
+    }
 
-    const query = {}
+    const query = { ...visible }
+    if (feed === 'following') {
+      query.userId = { $in: [...req.user.following, req.user._id] }
+    }
     if (cursor) {
       query._id = { $lt: cursor }
     }
@@ -17,7 +121,10 @@ publicPostsRouter.get('/', async (req, res, next) => {
     const posts = await Post.find(query)
       .sort({ createdAt: -1 })
       .limit(limit + 1)
-      .populate('userId', 'name pfp') // Populate user details for each post
+      .populate('user', AUTHOR_FIELDS) // Populate user details for each post
+      .populate('media', IMAGE_SET_FIELDS)
+      .populate('commentCount')
+      .populate(PRODUCT_CARDS)
 
     let nextCursor = null
     if (posts.length > limit) {
@@ -41,8 +148,12 @@ publicPostsRouter.get('/search', async (req, res, next) => {
     const cursor = req.query.cursor
     const searchQuery = req.query.q
 
-    const queryCriteria = {}
-    if (searchQuery) {
+    const queryCriteria = { 'moderation.state': { $ne: 'removed' } }
+    // A single #tag is looked up in the hashtag index instead of the text
+    const searchTag = searchQuery && searchQuery.trim().startsWith('#') ? normalizeTag(searchQuery) : null
+    if (searchTag) {
+      queryCriteria.hashtags = searchTag
+    } else if (searchQuery) {
       queryCriteria.postText = { $regex: searchQuery, $options: 'i' }
     }
 
@@ -63,7 +174,10 @@ publicPostsRouter.get('/search', async (req, res, next) => {
     const posts = await Post.find(queryCriteria)
       .sort(sortCriteria)
       .limit(limit + 1)
-      .populate('userId', 'name pfp') // Populate user details
+      .populate('user', AUTHOR_FIELDS) // Populate user details
+      .populate('media', IMAGE_SET_FIELDS)
+      .populate('commentCount')
+      .populate(PRODUCT_CARDS)
 
     let nextCursor = null
     if (posts.length > limit) {
@@ -78,10 +192,171 @@ publicPostsRouter.get('/search', async (req, res, next) => {
   }
 })
 
-// Get single post by ID - moved to publicPostsRouter
+// A user's posts, newest first, with cursor-based pagination
+publicPostsRouter.get('/user/:userId', async (req, res, next) => {
+  try {
+    const limit = Math.min(parseInt(req.query.limit, 10) || 10, 50)
+    const cursor = req.query.cursor
+
+    const queryCriteria = { ...visible, userId: req.params.userId }
+    if (cursor) {
+      const cursorPost = await Post.findById(cursor).select('createdAt _id').lean()
+      if (!cursorPost) {
+        return res.status(400).json({ error: 'Invalid cursor' })
+      }
+      queryCriteria.$or = [
+        { createdAt: { $lt: cursorPost.createdAt } },
+        { createdAt: cursorPost.createdAt, _id: { $lt: cursorPost._id } }
+      ]
+    }
+
+    const posts = await Post.find(queryCriteria)
+      .sort({ createdAt: -1, _id: -1 })
+      .limit(limit + 1)
+      .populate('user', AUTHOR_FIELDS)
+      .populate('media', IMAGE_SET_FIELDS)
+      .populate('commentCount')
+      .populate(PRODUCT_CARDS)
+
+    let nextCursor = null
+    if (posts.length > limit) {
+      nextCursor = posts[limit - 1]._id.toString()
+      posts.pop() // Remove the extra item used for determining nextCursor
+    }
+
+    res.status(200).json({ posts: posts.map(post => post.toJSON()), nextCursor })
+  } catch (error) {
+    next(error)
+  }
+})
+
+// Community discussion of a product: posts about it, or with a comment about
+// it, newest first with cursor-based pagination
+publicPostsRouter.get('/product/:barcode', async (req, res, next) => {
+  try {
+    const limit = Math.min(parseInt(req.query.limit, 10) || 10, 50)
+    const cursor = req.query.cursor
+    const barcode = normalizeBarcode(req.params.barcode)
+    if (!barcode) {
+      return res.status(400).json({ error: 'Invalid barcode. Expected a valid EAN-8, UPC-A, UPC-E, EAN-13 or GTIN-14.' })
+    }
+
+    const commentedPostIds = await Comment.distinct('postId', { ...visibleComments, productBarcodes: barcode })
+    const queryCriteria = { ...visible, $or: [{ productBarcodes: barcode }, { _id: { $in: commentedPostIds } }] }
+    if (cursor) {
+      const cursorPost = await Post.findById(cursor).select('createdAt _id').lean()
+      if (!cursorPost) {
+        return res.status(400).json({ error: 'Invalid cursor' })
+      }
+      queryCriteria.$and = [{
+        $or: [
+          { createdAt: { $lt: cursorPost.createdAt } },
+          { createdAt: cursorPost.createdAt, _id: { $lt: cursorPost._id } }
+        ]
+      }]
+    }
+
+    const posts = await Post.find(queryCriteria)
+      .sort({ createdAt: -1, _id: -1 })
+      .limit(limit + 1)
+      .populate('user', AUTHOR_FIELDS)
+      .populate('media', IMAGE_SET_FIELDS)
+      .populate('commentCount')
+      .populate(PRODUCT_CARDS)
+
+    let nextCursor = null
+    if (posts.length > limit) {
+      nextCursor = posts[limit - 1]._id.toString()
+      posts.pop() // Remove the extra item used for determining nextCursor
+    }
+
+    res.status(200).json({ posts: posts.map(post => post.toJSON()), nextCursor })
+  } catch (error) {
+    next(error)
+  }
+})
+
+// Most used hashtags in posts and comments over the last TRENDING_WINDOW_DAYS (?limit=)
+publicPostsRouter.get('/tags/trending', async (req, res, next) => {
+  try {
+    const limit = Math.min(parseInt(req.query.limit, 10) || TRENDING_LIMIT, 50)
+    const since = new Date(Date.now() - TRENDING_WINDOW_DAYS * 24 * 60 * 60 * 1000)
+    const countTags = (match) => [
+      { $match: { ...match, createdAt: { $gte: since }, 'hashtags.0': { $exists: true } } },
+      { $unwind: '$hashtags' },
+      { $group: { _id: '$hashtags', count: { $sum: 1 } } }
+    ]
+
+    const [postTags, commentTags] = await Promise.all([
+      Post.aggregate(countTags(visible)),
+      Comment.aggregate(countTags(visibleComments))
+    ])
+    res.status(200).json({ days: TRENDING_WINDOW_DAYS, tags: mergeTagCounts([postTags, commentTags], limit) })
+  } catch (error) {
+    next(error)
+  }
+})
+
+// Posts using a hashtag, or with a comment using it, newest first with
+// cursor-based pagination. The tag may be given with or without the #.
+publicPostsRouter.get('/tag/:tag', async (req, res, next) => {
+  try {
+    const limit = Math.min(parseInt(req.query.limit, 10) || 10, 50)
+    const cursor = req.query.cursor
+    const tag = normalizeTag(req.params.tag)
+    if (!tag) {
+      return res.status(400).json({ error: 'Invalid hashtag. Use letters, digits and underscores, with at least one letter.' })
+    }
+
+    const commentedPostIds = await Comment.distinct('postId', { ...visibleComments, hashtags: tag })
+    const queryCriteria = { ...visible, $or: [{ hashtags: tag }, { _id: { $in: commentedPostIds } }] }
+    if (cursor) {
+      const cursorPost = await Post.findById(cursor).select('createdAt _id').lean()
+      if (!cursorPost) {
+        return res.status(400).json({ error: 'Invalid cursor' })
+      }
+      queryCriteria.$and = [{
+        $or: [
+          { createdAt: { $lt: cursorPost.createdAt } },
+          { createdAt: cursorPost.createdAt, _id: { $lt: cursorPost._id } }
+        ]
+      }]
+    }
+
+    const posts = await Post.find(queryCriteria)
+      .sort({ createdAt: -1, _id: -1 })
+      .limit(limit + 1)
+      .populate('user', AUTHOR_FIELDS)
+      .populate('media', IMAGE_SET_FIELDS)
+      .populate('commentCount')
+      .populate(PRODUCT_CARDS)
+
+    let nextCursor = null
+    if (posts.length > limit) {
+      nextCursor = posts[limit - 1]._id.toString()
+      posts.pop() // Remove the extra item used for determining nextCursor
+    }
+
+    res.status(200).json({ tag, posts: posts.map(post => post.toJSON()), nextCursor })
+  } catch (error) {
+    next(error)
+  }
+})
+
+// Get single post by ID, with its author, like and comment counts and first comments
 publicPostsRouter.get('/:id', async (req, res, next) => {
   try {
-    const post = await Post.find({ userId: req.params.id }).populate('comments')
+    const post = await Post.findOne({ ...visible, _id: req.params.id })
+      .populate('user', AUTHOR_FIELDS)
+      .populate('media', IMAGE_SET_FIELDS)
+      .populate('commentCount')
+      .populate(PRODUCT_CARDS)
+      .populate({
+        path: 'comments',
+        match: { parentId: null },
+        options: { sort: { createdAt: 1, _id: 1 }, perDocumentLimit: EMBEDDED_COMMENTS },
+        populate: [{ path: 'user', select: AUTHOR_FIELDS }, PRODUCT_CARDS]
+      })
     if (!post) {
       return res.status(404).json({ error: 'Post not found' })
     }
@@ -91,6 +366,19 @@ publicPostsRouter.get('/:id', async (req, res, next) => {
   }
 })
 
+// Earlier versions of an edited post, newest first
+publicPostsRouter.get('/:id/edits', async (req, res, next) => {
+  try {
+    const post = await Post.findOne({ ...visible, _id: req.params.id }).select('edits editedAt')
+    if (!post) {
+      return res.status(404).json({ error: 'Post not found' })
+    }
+    res.status(200).json({ editedAt: post.editedAt || null, edits: [...post.edits].reverse() })
+  } catch (error) {
+    next(error)
+  }
+})
+
 // Like a post
 postsRouter.post('/:id/like', async (request, response, next) => {
   try {
@@ -110,6 +398,9 @@ postsRouter.post('/:id/like', async (request, response, next) => {
     if (!post.likes.includes(userId)) {
       post.likes.push(userId)
       await post.save()
+      if (!post.userId.equals(userId)) {
+        await awardLikeReputation(post.userId, post._id)
+      }
     }
     // Populate user details for likes before sending response
     const populatedPost = await Post.findById(postId).populate('likes', 'name pfp')
@@ -140,6 +431,9 @@ postsRouter.post('/:id/unlike', async (request, response, next) => {
 
     if (post.likes.length < initialLikeCount) { // only save if a like was actually removed
       await post.save()
+      if (!post.userId.equals(userId)) {
+        await revokeLikeReputation(post.userId, post._id)
+      }
     }
 
     // Populate user details for likes before sending response
@@ -150,18 +444,62 @@ postsRouter.post('/:id/unlike', async (request, response, next) => {
   }
 })
 
+// Report a post to moderators; each user can report a post once
+postsRouter.post('/:id/report', async (request, response, next) => {
+  try {
+    if (!request.user || !request.user._id) {
+      return response.status(401).json({ error: 'Unauthorized: User not available' })
+    }
+    const { reason, details } = request.body
+    if (!POST_REPORT_REASONS.includes(reason)) {
+      return response.status(400).json({ error: `Invalid reason. Must be one of: ${POST_REPORT_REASONS.join(', ')}.` })
+    }
+
+    const post = await Post.findById(request.params.id)
+    if (!post || (post.moderation && post.moderation.state === 'removed')) {
+      return response.status(404).json({ error: 'Post not found.' })
+    }
+    if (post.reports.some(report => report.userId.toString() === request.user._id.toString())) {
+      return response.status(400).json({ error: 'You have already reported this post.' })
+    }
+
+    post.reports.push({ userId: request.user._id, reason, details })
+    // A new report reopens a post whose earlier reports were dismissed
+    if (!post.moderation || post.moderation.state !== 'open') {
+      post.moderation = { state: 'open', openedAt: new Date() }
+    }
+    await post.save()
+    response.status(201).json({ message: 'Post reported. Thank you for helping keep the community safe.' })
+  } catch (error) {
+    next(error)
+  }
+})
+
 postsRouter.post('/', async (req, res, next) => {
   try {
     if (!req.user || !req.user._id) {
       return res.status(401).json({ error: 'Unauthorized: User not available' })
     }
-    const { postText, mediaUrls } = req.body // Destructure after user check
+    const { postText, mediaUrls, productBarcodes } = req.body // Destructure after user check
+    if ((await Upload.findUnownedUrls(req.user._id, mediaUrls)).length > 0) {
+      return res.status(400).json({ error: 'Media must be uploaded through /api/uploads by the same user.' })
+    }
+    const tags = await resolveProductTags(productBarcodes, postText)
+    if (tags.error) {
+      return res.status(400).json({ error: tags.error })
+    }
     const post = new Post({
       userId: req.user._id,
       postText,
-      mediaUrls
+      mediaUrls,
+      productBarcodes: tags.barcodes,
+      pickedBarcodes: tags.picked,
+      hashtags: extractHashtags(postText),
+      mentions: await resolveMentions(postText)
     })
     const savedPost = await post.save()
+    await notifyMentions({ actorId: req.user._id, mentions: savedPost.mentions, postId: savedPost._id })
+    await savedPost.populate([{ path: 'user', select: AUTHOR_FIELDS }, PRODUCT_CARDS])
     // Ensure the created post is also transformed before sending
     res.status(201).json(savedPost.toJSON())
   } catch (error) {
@@ -169,6 +507,84 @@ postsRouter.post('/', async (req, res, next) => {
   }
 })
 
+// Author: edit a post's text and media. The previous version goes into the edit history.
+postsRouter.patch('/:id', async (req, res, next) => {
+  try {
+    const post = await Post.findOne({ ...visible, _id: req.params.id })
+    if (!post) {
+      return res.status(404).json({ error: 'Post not found.' })
+    }
+    if (!post.userId.equals(req.user._id)) {
+      return res.status(403).json({ error: 'Only the author can edit this post.' })
+    }
+
+    const { postText, mediaUrls, productBarcodes } = req.body
+    if ((await Upload.findUnownedUrls(req.user._id, mediaUrls)).length > 0) {
+      return res.status(400).json({ error: 'Media must be uploaded through /api/uploads by the same user.' })
+    }
+    // Without productBarcodes, the post keeps the products picked for it
+    const text = postText !== undefined ? postText : post.postText
+    const tags = productBarcodes !== undefined
+      ? await resolveProductTags(productBarcodes, text)
+      : { picked: pickedBarcodesOf(post, post.postText) }
+    if (tags.error) {
+      return res.status(400).json({ error: tags.error })
+    }
+    const previous = { postText: post.postText, mediaUrls: [...post.mediaUrls] }
+    if (postText !== undefined) post.postText = postText
+    if (mediaUrls !== undefined) post.mediaUrls = mediaUrls
+    const changed = post.postText !== previous.postText ||
+      post.mediaUrls.join('\n') !== previous.mediaUrls.join('\n')
+    if (changed) {
+      post.edits.push({ ...previous, editedAt: new Date() })
+      post.editedAt = new Date()
+    }
+    post.pickedBarcodes = tags.picked
+    post.productBarcodes = tags.barcodes || await withTextBarcodes(tags.picked, text)
+    const previousMentions = [...post.mentions]
+    post.hashtags = extractHashtags(post.postText)
+    post.mentions = await resolveMentions(post.postText)
+    await post.save()
+    await notifyMentions({ actorId: req.user._id, mentions: post.mentions, previous: previousMentions, postId: post._id })
+    await post.populate([
+      { path: 'user', select: AUTHOR_FIELDS },
+      { path: 'media', select: IMAGE_SET_FIELDS },
+      { path: 'commentCount' },
+      PRODUCT_CARDS
+    ])
+    res.status(200).json(post)
+  } catch (error) {
+    next(error)
+  }
+})
+
+// Author: delete a post with its comments and any media nothing else uses
+postsRouter.delete('/:id', async (req, res, next) => {
+  try {
+    const post = await Post.findById(req.params.id)
+    if (!post) {
+      return res.status(404).json({ error: 'Post not found.' })
+    }
+    if (!post.userId.equals(req.user._id)) {
+      return res.status(403).json({ error: 'Only the author can delete this post.' })
+    }
+
+    const comments = await Comment.find({ postId: post._id }).select('mediaUrls')
+    const mediaUrls = [
+      ...post.mediaUrls,
+      ...post.edits.flatMap(edit => edit.mediaUrls),
+      ...comments.flatMap(comment => comment.mediaUrls)
+    ]
+    await Comment.deleteMany({ postId: post._id })
+    await Notification.deleteMany({ postId: post._id })
+    await post.deleteOne()
+    await releaseMedia([...new Set(mediaUrls)])
+    res.status(204).end()
+  } catch (error) {
+    next(error)
+  }
+})
+
 // Authenticated routes (POST /, POST /:id/like, POST /:id/unlike) remain on postsRouter
 // These already have user checks and will be further protected by middleware in app.js
 
@@ -1,6 +1,16 @@
 const productRouter = require('express').Router() // For authenticated routes
 const publicProductRouter = require('express').Router() // For public routes
 const Product = require('./../models/product')
+const Status = require('./../models/status')
+const Upload = require('./../models/upload')
+const { normalizeBarcode } = require('../utils/gtin')
+const { requirePrivilege } = require('../utils/middleware')
+const { hasPrivilege } = require('../utils/roles')
+const { applyStatusChange } = require('../utils/statusHistory')
+const { classifyProduct, summarizeClassification } = require('../utils/glutenClassifier')
+const { IMAGE_SET_FIELDS } = require('../utils/imagePipeline')
+const { STATS_WINDOWS, windowStart, aggregateProductSymptoms } = require('../utils/symptomStats')
+const { awardAchievements } = require('../utils/achievements')
 
 // POST / remains on productRouter (intended for authentication)
 productRouter.post('/', async (request, response, next) => {
@@ -12,46 +22,126 @@ productRouter.post('/', async (request, response, next) => {
     return response.status(401).json({ error: 'Authentication required to create a product.' });
   }
   try {
-    const { name, ingredients, pictureUrl, barcode } = request.body
+    const { name, brand, ingredients, allergens, mayContain, certifications, language, pictureUrl } = request.body
+    const barcode = normalizeBarcode(request.body.barcode)
+    if (!barcode) {
+      return response.status(400).json({ error: 'Invalid barcode. Expected a valid EAN-8, UPC-A, UPC-E, EAN-13 or GTIN-14.' })
+    }
+    if ((await Upload.findUnownedUrls(request.user._id, [pictureUrl])).length > 0) {
+      return response.status(400).json({ error: 'Media must be uploaded through /api/uploads by the same user.' })
+    }
     const product = new Product({
       barcode,
       name,
+      brand,
       ingredients,
-      pictureUrl
+      allergens,
+      mayContain,
+      certifications,
+      language,
+      pictureUrl,
+      createdBy: request.user._id,
+      // Members' submissions wait in the moderation queue; they can be scanned meanwhile
+      moderation: hasPrivilege(request.user, 'publish_products') ? undefined : { state: 'pending' }
     })
     const savedProduct = await product.save()
+    await awardAchievements(request.user)
+
+    // Give new products an initial verdict from the rule-based classifier
+    const existingStatus = await Status.findOne({ productBarcode: barcode })
+    if (!existingStatus) {
+      const classification = classifyProduct(savedProduct)
+      await applyStatusChange({
+        productBarcode: barcode,
+        status: classification.level,
+        explanation: summarizeClassification(classification),
+        source: 'classifier'
+      })
+    }
+
     response.status(201).json(savedProduct)
   } catch (error) {
     next(error)
   }
 })
 
-// GET /:barcode moves to publicProductRouter
-publicProductRouter.get('/:barcode', async (request, response, next) => {
+// Moderator: re-run the classifier (e.g. after a lexicon update) and apply its verdict
+productRouter.post('/:barcode/classify', requirePrivilege('moderate'), async (request, response, next) => {
   try {
-    const barcode = parseInt(request.params.barcode, 10)
-    if (isNaN(barcode)) {
-      return response.status(400).json({ error: 'Invalid barcode format. Barcode must be a number.' })
+    const barcode = normalizeBarcode(request.params.barcode)
+    if (!barcode) {
+      return response.status(400).json({ error: 'Invalid barcode. Expected a valid EAN-8, UPC-A, UPC-E, EAN-13 or GTIN-14.' })
     }
-    // Changed to findOne, and ensure product is an object or null, not an array
-    const product = await Product.findOne({ barcode }).populate([{ path: 'symptoms' }, { path: 'claims' }])
-    if (!product) { // Check if product is null (findOne returns null if not found)
+    const product = await Product.findOne({ barcode })
+    if (!product) {
       return response.status(404).json({ error: 'Product not found' })
     }
-    response.status(200).json(product)
+
+    const classification = classifyProduct(product)
+    const { status } = await applyStatusChange({
+      productBarcode: barcode,
+      status: classification.level,
+      explanation: summarizeClassification(classification),
+      source: 'classifier',
+      changedBy: request.user._id
+    })
+
+    response.status(200).json({ barcode, ...classification, status })
+  } catch (error) {
+    next(error)
+  }
+})
+
+// Explain how the classifier reads a product's ingredients, without changing its status
+publicProductRouter.get('/:barcode/classification', async (request, response, next) => {
+  try {
+    const barcode = normalizeBarcode(request.params.barcode)
+    if (!barcode) {
+      return response.status(400).json({ error: 'Invalid barcode. Expected a valid EAN-8, UPC-A, UPC-E, EAN-13 or GTIN-14.' })
+    }
+    const product = await Product.findOne({ barcode }).select('barcode ingredients mayContain certifications')
+    if (!product) {
+      return response.status(404).json({ error: 'Product not found' })
+    }
+
+    response.status(200).json({ barcode, ...classifyProduct(product) })
+  } catch (error) {
+    next(error)
+  }
+})
+
+// Anonymized community symptom statistics, optionally limited to the last ?days=N days
+publicProductRouter.get('/:barcode/symptoms', async (request, response, next) => {
+  try {
+    const barcode = normalizeBarcode(request.params.barcode)
+    if (!barcode) {
+      return response.status(400).json({ error: 'Invalid barcode. Expected a valid EAN-8, UPC-A, UPC-E, EAN-13 or GTIN-14.' })
+    }
+
+    let since = null
+    if (request.query.days !== undefined) {
+      since = windowStart(Number(request.query.days))
+      if (!since) {
+        return response.status(400).json({ error: `Invalid days filter. Use one of: ${STATS_WINDOWS.join(', ')}, or leave it out for all time.` })
+      }
+    }
+
+    const stats = await aggregateProductSymptoms({ productBarcode: barcode, since })
+    response.status(200).json({ barcode, since, ...stats })
   } catch (error) {
     next(error)
   }
 })
 
-// Search products with pagination moves to publicProductRouter
+// Search products with pagination moves to publicProductRouter.
+// Registered before /:barcode, which would otherwise match "search".
 publicProductRouter.get('/search', async (req, res, next) => {
   try {
     const limit = parseInt(req.query.limit, 10) || 10
     const cursor = req.query.cursor
     const searchQuery = req.query.q
 
-    const queryCriteria = {}
+    const queryCriteria = { 'moderation.state': { $ne: 'rejected' } } // Rejected submissions stay reachable by barcode only
     if (searchQuery) {
       queryCriteria.name = { $regex: searchQuery, $options: 'i' }
     }
@@ -86,4 +176,26 @@ publicProductRouter.get('/search', async (req, res, next) => {
   }
 })
 
+// GET /:barcode moves to publicProductRouter
+publicProductRouter.get('/:barcode', async (request, response, next) => {
+  try {
+    const barcode = normalizeBarcode(request.params.barcode)
+    if (!barcode) {
+      return response.status(400).json({ error: 'Invalid barcode. Expected a valid EAN-8, UPC-A, UPC-E, EAN-13 or GTIN-14.' })
+    }
+    // Changed to findOne, and ensure product is an object or null, not an array
+    // Symptom reports are personal; the community view comes from GET /:barcode/symptoms
+    const product = await Product.findOne({ barcode }).populate([
+      { path: 'claims' },
+      { path: 'picture', select: IMAGE_SET_FIELDS }
+    ])
+    if (!product) { // Check if product is null (findOne returns null if not found)
+      return response.status(404).json({ error: 'Product not found' })
+    }
+    response.status(200).json(product)
+  } catch (error) {
+    next(error)
+  }
+})
+
 module.exports = { productRouter, publicProductRouter }
\ No newline at end of file
@@ -1,12 +1,105 @@
 const scanRouter = require('express').Router()
 const Scan = require('./../models/scan')
+const Status = require('./../models/status')
+const Symptom = require('./../models/symptom')
+const Product = require('./../models/product')
+const { normalizeBarcode } = require('../utils/gtin')
+const { IMAGE_SET_FIELDS } = require('../utils/imagePipeline')
+const { recordActivity, rebuildStreak } = require('../utils/streakCalculator')
+const { awardAchievements } = require('../utils/achievements')
+
+const productPopulate = {
+  path: 'product',
+  select: 'barcode name pictureUrl',
+  populate: [
+    { path: 'status', select: 'status explanation date' },
+    { path: 'picture', select: IMAGE_SET_FIELDS }
+  ]
+}
+
+// Scan history for the current user with cursor-based pagination
+// Optional filters: from/to (dates, inclusive) and status (comma-separated levels 1-5)
+scanRouter.get('/', async (request, response, next) => {
+  try {
+    if (!request.user || !request.user._id) {
+      return response.status(401).json({ error: 'Unauthorized: User not available' })
+    }
+    const limit = parseInt(request.query.limit, 10) || 10
+    const { cursor, from, to, status } = request.query
+
+    const queryCriteria = { userId: request.user._id }
+
+    if (from || to) {
+      queryCriteria.date = {}
+      if (from) {
+        const fromDate = new Date(from)
+        if (isNaN(fromDate.getTime())) {
+          return response.status(400).json({ error: 'Invalid from date format.' })
+        }
+        queryCriteria.date.$gte = fromDate
+      }
+      if (to) {
+        const toDate = new Date(to)
+        if (isNaN(toDate.getTime())) {
+          return response.status(400).json({ error: 'Invalid to date format.' })
+        }
+        queryCriteria.date.$lte = toDate
+      }
+    }
+
+    if (status) {
+      const levels = status.split(',').map(level => parseInt(level, 10))
+      if (levels.some(level => isNaN(level) || level < 1 || level > 5)) {
+        return response.status(400).json({ error: 'Invalid status filter. Use levels 1-5, comma-separated.' })
+      }
+      // Only the products this user has scanned, so the lookup grows with their history, not the catalog
+      const scannedBarcodes = await Scan.distinct('productBarcode', { userId: request.user._id })
+      const statuses = await Status.find({ productBarcode: { $in: scannedBarcodes }, status: { $in: levels } }).select('productBarcode').lean()
+      queryCriteria.productBarcode = { $in: statuses.map(s => s.productBarcode) }
+    }
+
+    // Sort by date descending (latest first), then by _id descending as a tie-breaker
+    const sortCriteria = { date: -1, _id: -1 }
+
+    if (cursor) {
+      const cursorScan = await Scan.findOne({ _id: cursor, userId: request.user._id }).select('date _id').lean()
+      if (!cursorScan) {
+        return response.status(400).json({ error: 'Invalid cursor' })
+      }
+      queryCriteria.$or = [
+        { date: { $lt: cursorScan.date } },
+        { date: cursorScan.date, _id: { $lt: cursorScan._id } }
+      ]
+    }
+
+    const scans = await Scan.find(queryCriteria)
+      .sort(sortCriteria)
+      .limit(limit + 1)
+      .populate(productPopulate)
+
+    let nextCursor = null
+    if (scans.length > limit) {
+      nextCursor = scans[limit - 1]._id.toString()
+      scans.pop() // Remove the extra item used for determining nextCursor
+    }
+
+    const transformedScans = scans.map(scan => scan.toJSON())
+    response.status(200).json({ scans: transformedScans, nextCursor })
+  } catch (error) {
+    next(error)
+  }
+})
 
 scanRouter.post('/', async (request, response, next) => {
   try {
     if (!request.user || !request.user._id) {
       return response.status(401).json({ error: 'Unauthorized: User not available' })
     }
-    const { productBarcode, date } =  request.body // Use const
+    const { date } =  request.body // Use const
+    const productBarcode = normalizeBarcode(request.body.productBarcode)
+    if (!productBarcode) {
+      return response.status(400).json({ error: 'Invalid product barcode format.' })
+    }
 
     const scan = new Scan({
       productBarcode,
@@ -14,10 +107,92 @@ scanRouter.post('/', async (request, response, next) => {
       date
     })
     const savedScan = await scan.save()
+    await recordActivity(request.user, savedScan.date)
+    await awardAchievements(request.user)
     response.status(201).json(savedScan)
   } catch (error) {
     next(error)
   }
 })
 
-module.exports = scanRouter
\ No newline at end of file
+// Edit the date or product of one of the current user's scans
+scanRouter.patch('/:id', async (request, response, next) => {
+  try {
+    if (!request.user || !request.user._id) {
+      return response.status(401).json({ error: 'Unauthorized: User not available' })
+    }
+
+    const scan = await Scan.findById(request.params.id)
+    if (!scan) {
+      return response.status(404).json({ error: 'Scan not found.' })
+    }
+    if (scan.userId.toString() !== request.user._id.toString()) {
+      return response.status(403).json({ error: 'You are not authorized to edit this scan.' })
+    }
+
+    const { date } = request.body
+    const productBarcode = request.body.productBarcode !== undefined
+      ? normalizeBarcode(request.body.productBarcode)
+      : undefined
+    if (productBarcode === null) {
+      return response.status(400).json({ error: 'Invalid product barcode format.' })
+    }
+
+    if (date !== undefined) {
+      if (isNaN(new Date(date).getTime())) {
+        return response.status(400).json({ error: 'Invalid date format.' })
+      }
+      scan.date = date
+    }
+
+    if (productBarcode !== undefined && productBarcode !== scan.productBarcode) {
+      const productExists = await Product.findOne({ barcode: productBarcode })
+      if (!productExists) {
+        return response.status(404).json({ error: 'Product with the given barcode not found.' })
+      }
+      scan.productBarcode = productBarcode
+      // Keep symptoms linked to this scan pointing at the same product
+      await Symptom.updateMany({ scanId: scan._id }, { productBarcode })
+    }
+
+    const savedScan = await scan.save()
+    if (date !== undefined) {
+      await rebuildStreak(request.user)
+    }
+    await savedScan.populate(productPopulate)
+    response.status(200).json(savedScan)
+  } catch (error) {
+    next(error)
+  }
+})
+
+// Delete one of the current user's scans. Symptoms reported against it stay in
+// the user's log, detached from the scan, unless ?withSymptoms=true.
+scanRouter.delete('/:id', async (request, response, next) => {
+  try {
+    if (!request.user || !request.user._id) {
+      return response.status(401).json({ error: 'Unauthorized: User not available' })
+    }
+
+    const scan = await Scan.findById(request.params.id)
+    if (!scan) {
+      return response.status(404).json({ error: 'Scan not found.' })
+    }
+    if (scan.userId.toString() !== request.user._id.toString()) {
+      return response.status(403).json({ error: 'You are not authorized to delete this scan.' })
+    }
+
+    if (request.query.withSymptoms === 'true') {
+      await Symptom.deleteMany({ scanId: scan._id })
+    } else {
+      await Symptom.updateMany({ scanId: scan._id }, { $unset: { scanId: 1 } })
+    }
+    await Scan.findByIdAndDelete(scan._id)
+    await rebuildStreak(request.user)
+    response.status(204).end()
+  } catch (error) {
+    next(error)
+  }
+})
+
+module.exports = scanRouter
@@ -1,10 +1,33 @@
-const statusRouter = require('express').Router()
+const statusRouter = require('express').Router() // For authenticated routes
+const publicStatusRouter = require('express').Router() // For public routes
 const Status = require('./../models/status')
+const StatusChange = require('./../models/statusChange')
+const { requirePrivilege } = require('../utils/middleware')
+const { applyStatusChange } = require('../utils/statusHistory')
+const { normalizeBarcode } = require('../utils/gtin')
 
-statusRouter.patch('/:barcode', async (req, res, next) => {
+// Full change history for a product, newest first
+publicStatusRouter.get('/:barcode/history', async (req, res, next) => {
   try {
-    const productBarcode = parseInt(req.params.barcode, 10)
-    if (isNaN(productBarcode)) {
+    const productBarcode = normalizeBarcode(req.params.barcode)
+    if (!productBarcode) {
+      return res.status(400).json({ error: 'Invalid product barcode format.' })
+    }
+
+    const history = await StatusChange.find({ productBarcode })
+      .sort({ date: -1, _id: -1 })
+      .populate('changedBy', 'name pfp')
+
+    res.status(200).json(history.map(change => change.toJSON()))
+  } catch (error) {
+    next(error)
+  }
+})
+
+statusRouter.patch('/:barcode', requirePrivilege('moderate'), async (req, res, next) => {
+  try {
+    const productBarcode = normalizeBarcode(req.params.barcode)
+    if (!productBarcode) {
       return res.status(400).json({ error: 'Invalid product barcode format.' })
     }
 
@@ -16,11 +39,13 @@ statusRouter.patch('/:barcode', async (req, res, next) => {
       return res.status(404).json({ message: 'Status not found' })
     }
 
-    // Only update provided fields
-    if (status !== undefined) currentStatus.status = status
-    if (explanation !== undefined) currentStatus.explanation = explanation
-
-    const updatedStatus = await currentStatus.save()
+    const { status: updatedStatus } = await applyStatusChange({
+      productBarcode,
+      status: status !== undefined ? status : currentStatus.status,
+      explanation,
+      source: 'admin',
+      changedBy: req.user._id
+    })
 
     res.status(200).json(updatedStatus)
   } catch (error) {
@@ -28,19 +53,30 @@ statusRouter.patch('/:barcode', async (req, res, next) => {
   }
 })
 
-statusRouter.post('/', async (req, res, next) => {
+statusRouter.post('/', requirePrivilege('moderate'), async (req, res, next) => {
   try {
-    const { productBarcode, status, explanation } = req.body // Destructure after user check
-    const newStatus = new Status({
+    const { status, explanation } = req.body
+    const productBarcode = normalizeBarcode(req.body.productBarcode)
+    if (!productBarcode) {
+      return res.status(400).json({ error: 'Invalid product barcode format.' })
+    }
+
+    const existingStatus = await Status.findOne({ productBarcode })
+    if (existingStatus) {
+      return res.status(409).json({ error: 'Status already exists for this product. Use PATCH to change it.' })
+    }
+
+    const { status: savedStatus } = await applyStatusChange({
       productBarcode,
       status,
-      explanation
+      explanation,
+      source: 'admin',
+      changedBy: req.user._id
     })
-    const savedStatus = await newStatus.save()
     res.status(201).json(savedStatus)
   } catch (error) {
     next(error)
   }
 })
 
-module.exports = statusRouter
\ No newline at end of file
+module.exports = { statusRouter, publicStatusRouter }
@@ -1,7 +1,22 @@
-const symptomRouter = require('express').Router()
+const symptomRouter = require('express').Router() // For authenticated routes
+const publicSymptomRouter = require('express').Router() // For public routes
 const mongoose = require('mongoose')
 const Scan = require('../models/scan')
 const Symptom = require('./../models/symptom')
+const Product = require('./../models/product')
+const { LOCALES, getCatalog, validateSymptomReport } = require('../utils/symptomCatalog')
+const { DEFAULT_WINDOW_HOURS, MAX_WINDOW_HOURS, detectTriggers } = require('../utils/triggerDetection')
+const { recordActivity } = require('../utils/streakCalculator')
+const { awardAchievements } = require('../utils/achievements')
+
+const DEFAULT_TRIGGER_DAYS = 180
+
+// Symptom catalog for report forms and badges, in ?lang= or the browser's language
+publicSymptomRouter.get('/catalog', (request, response) => {
+  const locale = request.query.lang || request.acceptsLanguages(...LOCALES) || undefined
+  response.set('Vary', 'Accept-Language')
+  response.status(200).json(getCatalog(locale))
+})
 
 symptomRouter.post('/', async (request, response, next) => {
   if (!request.user || !request.user._id) {
@@ -10,6 +25,10 @@ symptomRouter.post('/', async (request, response, next) => {
   if (request.body.date === undefined || request.body.symptoms === undefined) {
     return response.status(400).json({ error: 'Missing required fields in body: date, or symptoms.' })
   }
+  const symptomsError = validateSymptomReport(request.body.symptoms)
+  if (symptomsError) {
+    return response.status(400).json({ error: symptomsError })
+  }
 
   try {
     const { date, symptoms } = request.body
@@ -38,10 +57,40 @@ symptomRouter.post('/', async (request, response, next) => {
     if (savedSymptoms.length === 0 && allQueryValues.length > 0) {
       return response.status(400).json({ error: 'No valid symptoms created. Check barcode formats or other data.' })
     }
+    await recordActivity(request.user, savedSymptoms[0].date)
+    await awardAchievements(request.user)
     response.status(201).json(savedSymptoms) // Send a single response
   } catch (error) {
     next(error)
   }
 })
 
-module.exports = symptomRouter
\ No newline at end of file
+// Products and ingredients the current user's symptoms tend to follow.
+// Optional: windowHours (how long after a scan a symptom still counts) and days (history to analyse)
+symptomRouter.get('/triggers', async (request, response, next) => {
+  if (!request.user || !request.user._id) {
+    return response.status(401).json({ error: 'Unauthorized: User not available' })
+  }
+  try {
+    const windowHours = request.query.windowHours === undefined ? DEFAULT_WINDOW_HOURS : Number(request.query.windowHours)
+    if (!Number.isInteger(windowHours) || windowHours < 1 || windowHours > MAX_WINDOW_HOURS) {
+      return response.status(400).json({ error: `Invalid windowHours. Use a whole number of hours from 1 to ${MAX_WINDOW_HOURS}.` })
+    }
+    const days = request.query.days === undefined ? DEFAULT_TRIGGER_DAYS : Number(request.query.days)
+    if (!Number.isInteger(days) || days < 1 || days > 3650) {
+      return response.status(400).json({ error: 'Invalid days filter. Use a whole number of days from 1 to 3650.' })
+    }
+
+    const since = new Date(Date.now() - days * 24 * 60 * 60 * 1000)
+    const scans = await Scan.find({ userId: request.user._id, date: { $gte: since } }).select('productBarcode date').lean()
+    const symptoms = await Symptom.find({ userId: request.user._id, date: { $gte: since } }).select('date symptoms').lean()
+    const barcodes = [...new Set(scans.map(scan => scan.productBarcode))]
+    const products = await Product.find({ barcode: { $in: barcodes } }).select('barcode name ingredients').lean()
+
+    response.status(200).json({ since, ...detectTriggers({ scans, symptoms, products, windowHours }) })
+  } catch (error) {
+    next(error)
+  }
+})
+
+module.exports = { symptomRouter, publicSymptomRouter }
\ No newline at end of file
@@ -0,0 +1,179 @@
+const express = require('express')
+const crypto = require('crypto')
+const uploadsRouter = express.Router() // Authenticated: request and confirm uploads
+const publicUploadsRouter = express.Router() // Signed-URL target for the local driver
+const Upload = require('../models/upload')
+const { getStorage } = require('../utils/storage')
+const { UPLOAD_PURPOSES, EXTENSIONS, SNIFF_BYTES, detectContentType, validateUploadRequest } = require('../utils/uploadPolicy')
+const { hashContent, processImage } = require('../utils/imagePipeline')
+
+const UPLOAD_URL_TTL_SECONDS = 5 * 60
+
+// Replaces the raw original with sanitized variants, reusing those of an identical earlier upload.
+// Returns false if the file is not a decodable image.
+const processUpload = async (upload, storage) => {
+  const original = await storage.getObject(upload.key)
+  const contentHash = hashContent(original)
+
+  const duplicate = await Upload.findOne({ contentHash, driver: upload.driver, status: 'complete' })
+  if (duplicate) {
+    upload.set({ url: duplicate.url, width: duplicate.width, height: duplicate.height, variants: duplicate.variants })
+  } else {
+    let processed
+    try {
+      processed = await processImage(original)
+    } catch {
+      return false
+    }
+    for (const variant of processed.variants) {
+      await storage.putObject(variant.key, variant.buffer, variant.contentType)
+    }
+    const variants = processed.variants.map(({ width, height, format, key }) => ({ width, height, format, key, url: storage.getPublicUrl(key) }))
+    const largestJpeg = variants.filter(variant => variant.format === 'jpeg').pop()
+    upload.set({ url: largestJpeg.url, width: processed.width, height: processed.height, variants })
+  }
+
+  upload.contentHash = contentHash
+  // The original may carry GPS and camera metadata, so it is never kept
+  await storage.deleteObject(upload.key)
+  return true
+}
+
+// Step 1: ask for a short-lived URL to PUT one file to
+uploadsRouter.post('/', async (request, response, next) => {
+  try {
+    const { purpose, contentType } = request.body
+    const size = Number(request.body.size)
+    const validationError = validateUploadRequest({ purpose, contentType, size })
+    if (validationError) {
+      return response.status(400).json({ error: validationError })
+    }
+
+    const storage = getStorage()
+    const key = `incoming/${purpose}/${request.user._id}/${crypto.randomUUID()}.${EXTENSIONS[contentType]}`
+    const upload = new Upload({
+      owner: request.user._id,
+      purpose,
+      key,
+      driver: storage.name,
+      contentType,
+      size,
+      url: storage.getPublicUrl(key)
+    })
+
+    const { uploadUrl, headers } = await storage.createUploadUrl({
+      id: upload._id.toString(),
+      key,
+      contentType,
+      size,
+      expiresIn: UPLOAD_URL_TTL_SECONDS
+    })
+    const savedUpload = await upload.save()
+
+    response.status(201).json({
+      upload: savedUpload,
+      uploadUrl,
+      method: 'PUT',
+      headers,
+      expiresAt: new Date(Date.now() + UPLOAD_URL_TTL_SECONDS * 1000)
+    })
+  } catch (error) {
+    next(error)
+  }
+})
+
+// Step 2: after the PUT, confirm the file so its URL can be attached to content.
+// Runs the image pipeline: strips metadata, fixes orientation, builds resized WebP/JPEG variants.
+uploadsRouter.post('/:id/complete', async (request, response, next) => {
+  try {
+    const upload = await Upload.findById(request.params.id)
+    if (!upload || upload.owner.toString() !== request.user._id.toString()) {
+      return response.status(404).json({ error: 'Upload not found' })
+    }
+    if (upload.status === 'complete') {
+      return response.status(200).json(upload)
+    }
+
+    const storage = getStorage(upload.driver)
+    const stored = await storage.statObject(upload.key)
+    if (!stored) {
+      return response.status(400).json({ error: 'File has not been uploaded yet.' })
+    }
+
+    // Re-check on the server: the size limit and the real file type, not the declared one
+    const policy = UPLOAD_PURPOSES[upload.purpose]
+    const detectedType = stored.size <= policy.maxBytes
+      ? detectContentType(await storage.readStart(upload.key, SNIFF_BYTES))
+      : null
+    if (detectedType !== upload.contentType) {
+      await storage.deleteObject(upload.key)
+      await Upload.findByIdAndDelete(upload._id)
+      return response.status(400).json({ error: 'Uploaded file does not match the declared type or size.' })
+    }
+
+    if (!(await processUpload(upload, storage))) {
+      await storage.deleteObject(upload.key)
+      await Upload.findByIdAndDelete(upload._id)
+      return response.status(400).json({ error: 'Image could not be processed.' })
+    }
+
+    upload.status = 'complete'
+    upload.completedAt = new Date()
+    const savedUpload = await upload.save()
+    response.status(200).json(savedUpload)
+  } catch (error) {
+    next(error)
+  }
+})
+
+// Delete one of your uploads, unless a product, post, comment, claim or profile still shows it
+uploadsRouter.delete('/:id', async (request, response, next) => {
+  try {
+    const upload = await Upload.findById(request.params.id)
+    if (!upload || upload.owner.toString() !== request.user._id.toString()) {
+      return response.status(404).json({ error: 'Upload not found' })
+    }
+    if (await Upload.isReferenced(upload.url)) {
+      return response.status(409).json({ error: 'This upload is still in use. Remove it from its product, post, comment, claim or profile first.' })
+    }
+
+    await upload.removeWithFiles()
+    response.status(204).end()
+  } catch (error) {
+    next(error)
+  }
+})
+
+// Local driver only: accepts the file body for a signed upload URL
+publicUploadsRouter.put('/local/:id', express.raw({ type: () => true, limit: '10mb' }), async (request, response, next) => {
+  try {
+    const storage = getStorage('local')
+    const upload = await Upload.findById(request.params.id)
+    if (!upload || upload.driver !== storage.name || upload.status !== 'pending') {
+      return response.status(404).json({ error: 'Upload not found' })
+    }
+
+    const { expires, signature } = request.query
+    const signed = storage.verifyUploadUrl({
+      id: upload._id.toString(),
+      key: upload.key,
+      contentType: upload.contentType,
+      size: upload.size,
+      expires,
+      signature
+    })
+    if (!signed) {
+      return response.status(403).json({ error: 'Upload URL is invalid or has expired.' })
+    }
+    if (request.get('content-type') !== upload.contentType || !Buffer.isBuffer(request.body) || request.body.length !== upload.size) {
+      return response.status(400).json({ error: 'File does not match the requested type and size.' })
+    }
+
+    await storage.putObject(upload.key, request.body)
+    response.status(200).end()
+  } catch (error) {
+    next(error)
+  }
+})
+
+module.exports = { uploadsRouter, publicUploadsRouter }
\ No newline at end of file
@@ -1,20 +1,96 @@
 const userRouter = require('express').Router()
 const User = require('./../models/user')
+const Upload = require('./../models/upload')
+const Notification = require('./../models/notification')
 const bcrypt = require('bcrypt')
 const { tokenExtractor, userExtractor } = require('../utils/middleware')
-const { calculateStreak } = require('../utils/streakCalculator') // Import calculateStreak
+const { streakSummary, ensureStreak, peekStreak, rebuildStreak } = require('../utils/streakCalculator')
+const { describeAchievements, awardAchievements } = require('../utils/achievements')
+const { describeReputation } = require('../utils/reputation')
+const { describeNotifications } = require('../utils/notifications')
+const { isValidTimeZone } = require('../utils/timezone')
 
 // Get authenticated user's own profile
 userRouter.get('/me', tokenExtractor, userExtractor, async (request, response) => {
   if (!request.user) {
     return response.status(401).json({ error: 'Unauthorized: User not available' })
   }
-  const userId = request.user.id // Or request.user._id, depending on preference
-  const userObject = await request.user.toJSON()
-  userObject.streak = await calculateStreak(userId)
+  await ensureStreak(request.user)
+  const userObject = request.user.toJSON()
+  Object.assign(userObject, streakSummary(request.user))
   response.status(200).json(userObject)
 })
 
+// Earned and upcoming badges for the authenticated user's profile
+userRouter.get('/me/achievements', tokenExtractor, userExtractor, async (request, response, next) => {
+  try {
+    if (!request.user) {
+      return response.status(401).json({ error: 'Unauthorized: User not available' })
+    }
+    await ensureStreak(request.user)
+    const progress = await awardAchievements(request.user)
+    response.status(200).json({
+      ...streakSummary(request.user),
+      ...describeAchievements(request.user.achievements, progress)
+    })
+  } catch (error) {
+    next(error)
+  }
+})
+
+// Reputation total, privileges and history for the authenticated user (?cursor=&limit=)
+userRouter.get('/me/reputation', tokenExtractor, userExtractor, async (request, response, next) => {
+  try {
+    if (!request.user) {
+      return response.status(401).json({ error: 'Unauthorized: User not available' })
+    }
+    const limit = Math.min(parseInt(request.query.limit, 10) || 20, 100)
+    const reputation = await describeReputation(request.user, { cursor: request.query.cursor, limit })
+    if (!reputation) {
+      return response.status(400).json({ error: 'Invalid cursor' })
+    }
+    response.status(200).json(reputation)
+  } catch (error) {
+    next(error)
+  }
+})
+
+// Mentions and other notifications for the authenticated user, with the unread count (?cursor=&limit=)
+userRouter.get('/me/notifications', tokenExtractor, userExtractor, async (request, response, next) => {
+  try {
+    if (!request.user) {
+      return response.status(401).json({ error: 'Unauthorized: User not available' })
+    }
+    const limit = Math.min(parseInt(request.query.limit, 10) || 20, 100)
+    const notifications = await describeNotifications(request.user, { cursor: request.query.cursor, limit })
+    if (!notifications) {
+      return response.status(400).json({ error: 'Invalid cursor' })
+    }
+    response.status(200).json(notifications)
+  } catch (error) {
+    next(error)
+  }
+})
+
+// Mark the authenticated user's notifications as read: the ones in body.ids, or all of them
+userRouter.post('/me/notifications/read', tokenExtractor, userExtractor, async (request, response, next) => {
+  try {
+    if (!request.user) {
+      return response.status(401).json({ error: 'Unauthorized: User not available' })
+    }
+    const { ids } = request.body
+    if (ids !== undefined && !Array.isArray(ids)) {
+      return response.status(400).json({ error: 'ids must be a list of notification ids.' })
+    }
+    const query = { userId: request.user._id, readAt: null }
+    if (ids) query._id = { $in: ids }
+    const result = await Notification.updateMany(query, { $set: { readAt: new Date() } })
+    response.status(200).json({ marked: result.modifiedCount })
+  } catch (error) {
+    next(error)
+  }
+})
+
 // Search users with pagination (public route)
 userRouter.get('/search', async (req, res, next) => {
   try {
@@ -97,9 +173,8 @@ userRouter.post('/', async (request, response, next) => {
     // Prepare user object for response (excluding passwordHash)
     const userObject = savedUser.toJSON()
     
-    // Calculate initial streak (will be 0)
-    const streak = await calculateStreak(savedUser._id)
-    userObject.streak = streak
+    // A new user starts without a streak
+    Object.assign(userObject, streakSummary(savedUser))
     
     // Return token and user object, just like the login endpoint
     response.status(201).json({ token, user: userObject })
@@ -199,6 +274,47 @@ const getPublicUserProfile = async (request, response, next) => {
   }
 }
 
+// Streak and earned badges shown on a user's public profile
+const getPublicUserAchievements = async (request, response, next) => {
+  try {
+    const user = await User.findById(request.params.id)
+    if (!user) {
+      return response.status(404).json({ error: 'User not found.' })
+    }
+    // A public read: legacy users without a stored streak get one computed, not saved
+    response.status(200).json({
+      ...streakSummary(user, await peekStreak(user)),
+      ...describeAchievements(user.achievements)
+    })
+  } catch (error) {
+    if (error.kind === 'ObjectId') {
+      return response.status(404).json({ error: 'User not found (invalid ID format).' })
+    }
+    next(error)
+  }
+}
+
+// Reputation and its history on a user's public profile
+const getPublicUserReputation = async (request, response, next) => {
+  try {
+    const user = await User.findById(request.params.id)
+    if (!user) {
+      return response.status(404).json({ error: 'User not found.' })
+    }
+    const limit = Math.min(parseInt(request.query.limit, 10) || 20, 100)
+    const reputation = await describeReputation(user, { cursor: request.query.cursor, limit })
+    if (!reputation) {
+      return response.status(400).json({ error: 'Invalid cursor' })
+    }
+    response.status(200).json(reputation)
+  } catch (error) {
+    if (error.kind === 'ObjectId') {
+      return response.status(404).json({ error: 'User not found (invalid ID format).' })
+    }
+    next(error)
+  }
+}
+
 // Update user settings
 userRouter.patch('/settings', tokenExtractor, userExtractor, async (request, response, next) => {
   try {
@@ -208,7 +324,7 @@ userRouter.patch('/settings', tokenExtractor, userExtractor, async (request, res
     }
 
     const userId = request.user.id
-    const { theme, telegram_notifications, telegram_number } = request.body
+    const { theme, telegram_notifications, telegram_number, timezone } = request.body
 
     // Fetch the user to ensure we're working with the latest document
     // request.user is from the token, might be slightly stale if updated elsewhere
@@ -219,6 +335,7 @@ userRouter.patch('/settings', tokenExtractor, userExtractor, async (request, res
     }
 
     let changesMade = false;
+    let timezoneChanged = false;
 
     // Update theme if provided and valid
     if (theme !== undefined) {
@@ -251,6 +368,16 @@ userRouter.patch('/settings', tokenExtractor, userExtractor, async (request, res
       changesMade = true;
     }
 
+    // Update timezone if provided; days and streaks are counted in this IANA zone
+    if (timezone !== undefined) {
+      if (!isValidTimeZone(timezone)) {
+        return response.status(400).json({ error: 'Invalid timezone. Use an IANA time zone name such as "Europe/Berlin".' })
+      }
+      timezoneChanged = timezone !== user.settings.timezone
+      user.settings.timezone = timezone
+      changesMade = true;
+    }
+
     if (!user.settings) { // Should be initialized by mongoose default
         user.settings = {};
     }
@@ -259,11 +386,15 @@ userRouter.patch('/settings', tokenExtractor, userExtractor, async (request, res
     if (changesMade) {
       await user.save() // Save the user document
     }
+    if (timezoneChanged) {
+      // Stored streak days were counted in the previous time zone
+      await rebuildStreak(user)
+    }
 
     // Fetch the potentially updated user again to ensure settings are correctly populated for toJSON()
     const userForResponse = await User.findById(userId)
     const userObject = userForResponse.toJSON()
-    userObject.streak = await calculateStreak(userId)
+    Object.assign(userObject, streakSummary(userForResponse))
     response.status(200).json(userObject)
   } catch (error) {
     next(error)
@@ -310,7 +441,9 @@ const updateUserProfile = async (request, response, next) => {
 
     // PFP Update
     if (pfp !== undefined && pfp !== user.pfp) {
-      // Optional: Add URL validation for pfp if needed
+      if ((await Upload.findUnownedUrls(user._id, [pfp])).length > 0) {
+        return response.status(400).json({ error: 'Media must be uploaded through /api/uploads by the same user.' })
+      }
       user.pfp = pfp
       changesMade = true
     }
@@ -338,7 +471,7 @@ const updateUserProfile = async (request, response, next) => {
     // Fetch the potentially updated user again to ensure all fields are fresh
     const userForResponse = await User.findById(userId)
     const userObject = userForResponse.toJSON()
-    userObject.streak = await calculateStreak(userId)
+    Object.assign(userObject, streakSummary(userForResponse))
     response.status(200).json(userObject)
   } catch (error) {
     // Handle potential errors like duplicate key if email check somehow fails before save
@@ -352,4 +485,4 @@ const updateUserProfile = async (request, response, next) => {
 // Add the new updateUserProfile to the router for the authenticated user
 userRouter.patch('/profile', tokenExtractor, userExtractor, updateUserProfile)
 
-module.exports = { userRouter, getPublicUserProfile, updateUserProfile }
\ No newline at end of file
+module.exports = { userRouter, getPublicUserProfile, getPublicUserAchievements, getPublicUserReputation, updateUserProfile }
\ No newline at end of file
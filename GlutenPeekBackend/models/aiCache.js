@@ -0,0 +1,26 @@
+const mongoose = require('mongoose')
+const { AI_CACHE_TTL_DAYS } = require('../utils/config')
+
+// Provider responses keyed by barcode and input hash, so repeat lookups skip the provider
+const aiCacheSchema = new mongoose.Schema({
+  key: {
+    type: String,
+    required: true,
+    unique: true
+  },
+  provider: {
+    type: String,
+    required: true
+  },
+  result: {
+    type: mongoose.Schema.Types.Mixed,
+    required: true
+  },
+  createdAt: {
+    type: Date,
+    default: Date.now,
+    expires: AI_CACHE_TTL_DAYS * 24 * 60 * 60 // TTL index lets MongoDB evict stale entries
+  }
+})
+
+module.exports = mongoose.model('AiCache', aiCacheSchema)
\ No newline at end of file
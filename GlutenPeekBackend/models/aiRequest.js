@@ -0,0 +1,48 @@
+const mongoose = require('mongoose')
+
+// One entry per call to the AI proxy; doubles as the usage ledger for quotas
+const aiRequestSchema = new mongoose.Schema({
+  userId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  kind: {
+    type: String,
+    enum: ['extract', 'gluten'],
+    required: true
+  },
+  provider: {
+    type: String,
+    required: true
+  },
+  productBarcode: String,
+  cacheKey: String,
+  cached: {
+    type: Boolean,
+    default: false // Cache hits are logged but do not count towards the quota
+  },
+  success: {
+    type: Boolean,
+    default: true
+  },
+  error: String,
+  durationMs: Number,
+  date: {
+    type: Date,
+    default: Date.now
+  }
+}, {
+  toJSON: {
+    transform(doc, ret) {
+      ret.id = ret._id.toString()
+      delete ret._id
+      delete ret.__v
+      return ret
+    }
+  }
+})
+
+aiRequestSchema.index({ userId: 1, date: -1 })
+
+module.exports = mongoose.model('AiRequest', aiRequestSchema)
\ No newline at end of file
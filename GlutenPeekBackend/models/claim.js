@@ -1,4 +1,6 @@
 const mongoose = require('mongoose')
+const { toGtin14, gtinValidator } = require('../utils/gtin')
+const { CLAIM_STATES, CLAIM_REASONS, MAX_CLAIM_EVIDENCE } = require('../utils/claimStates')
 
 const claimSchema = new mongoose.Schema({
   userId: {
@@ -7,22 +9,95 @@ const claimSchema = new mongoose.Schema({
     required: true
   },
   productBarcode: {
-    type: Number,
+    type: String,
+    set: toGtin14,
+    validate: gtinValidator,
     ref: 'Product',
     required: true
   },
+  // The reporter's own words; moderators write to resolutionNote instead
   explanation: {
     type: String,
     required: true,
-    trim: true
+    trim: true,
+    immutable: true
   },
-  mediaProofUrl: {
+  // Status level the reporter thinks the product should have. Required for new
+  // claims by the controller; claims from before it existed have none.
+  proposedStatus: {
+    type: Number,
+    enum: [1, 2, 3, 4, 5],
+    immutable: true
+  },
+  reason: {
+    type: String,
+    enum: CLAIM_REASONS,
+    immutable: true
+  },
+  evidenceUrls: {
+    type: [String],
+    immutable: true,
+    validate: {
+      validator: function (val) {
+        return val.length <= MAX_CLAIM_EVIDENCE
+      },
+      message: `You can provide at most ${MAX_CLAIM_EVIDENCE} evidence images.`
+    }
+  },
+  state: {
+    type: String,
+    enum: CLAIM_STATES,
+    default: 'open'
+  },
+  resolutionNote: {
     type: String,
     trim: true
   },
-  status: {
-    type: Boolean,
-    default: false // false means "not closed", true means "closed"
+  assignedTo: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User' // Moderator the claim is assigned to in the moderation queue
+  },
+  reviewedBy: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User' // Moderator who took the claim under review and resolved it
+  },
+  reviewStartedAt: {
+    type: Date
+  },
+  resolvedAt: {
+    type: Date
+  },
+  duplicateOf: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Claim' // Set when resolved as a duplicate
+  },
+  appliedStatusChange: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'StatusChange' // Set when accepting the claim also changed the product's status
+  },
+  // One vote per user (utils/claimConsensus.js). weight is fixed when the vote is cast.
+  votes: [
+    {
+      _id: false,
+      userId: { type: mongoose.Schema.Types.ObjectId, ref: 'User', required: true },
+      value: { type: Number, enum: [1, -1], required: true },
+      confirms: { type: Boolean, default: false }, // "I see the same label"
+      weight: { type: Number, required: true },
+      date: { type: Date, default: Date.now }
+    }
+  ],
+  voteSummary: {
+    up: { type: Number, default: 0 },
+    down: { type: Number, default: 0 },
+    confirmations: { type: Number, default: 0 },
+    score: { type: Number, default: 0 }
+  },
+  escalatedAt: {
+    type: Date // When community votes first pushed the claim up the moderation queue
+  },
+  provisionalStatusChange: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'StatusChange' // Set when consensus applied the proposed status before review
   }
 }, {
   timestamps: true,
@@ -32,10 +107,14 @@ const claimSchema = new mongoose.Schema({
       ret.id = ret._id.toString() // Add this line
       delete ret._id
       delete ret.__v
+      delete ret.votes // Individual votes stay private; voteSummary has the totals
       return ret
     }
   },
   toObject: { virtuals: true }
 })
 
+claimSchema.index({ userId: 1 })
+claimSchema.index({ state: 1, createdAt: 1 })
+
 module.exports = mongoose.model('Claim', claimSchema)
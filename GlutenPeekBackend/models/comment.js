@@ -11,11 +11,24 @@ const CommentSchema = new mongoose.Schema({
     ref: 'User',
     required: true
   },
-  postText: {
+  // Replies are one level deep: always the id of a top-level comment
+  parentId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Comment',
+    default: null,
+    immutable: true
+  },
+  content: {
     type: String,
     required: true,
     trim: true
   },
+  // GTIN-14s of the products the comment is about (utils/productTags.js)
+  productBarcodes: [String],
+  pickedBarcodes: { type: [String], default: undefined }, // The ones the author chose; the rest come from content
+  // Taken from content on every write (utils/textEntities.js)
+  hashtags: [String],
+  mentions: [{ type: mongoose.Schema.Types.ObjectId, ref: 'User' }],
   mediaUrls: {
     type: [String],
     validate: {
@@ -24,6 +37,15 @@ const CommentSchema = new mongoose.Schema({
       },
       message: 'You can provide at most 5 media URLs.'
     }
+  },
+  editedAt: Date,
+  // Deleted by its author while it still had replies, so the thread is kept
+  deletedAt: Date,
+  // Set when a moderator removes the comment
+  moderation: {
+    removedBy: { type: mongoose.Schema.Types.ObjectId, ref: 'User' },
+    removedAt: Date,
+    note: { type: String, trim: true }
   }
 }, {
   timestamps: true,
@@ -33,10 +55,40 @@ const CommentSchema = new mongoose.Schema({
       ret.id = ret._id.toString() // Add this line
       delete ret._id
       delete ret.__v
+      ret.removedAt = ret.moderation ? ret.moderation.removedAt : undefined
+      delete ret.moderation // The moderator and note stay private
+      if (ret.deletedAt || ret.removedAt) {
+        ret.content = null
+        ret.mediaUrls = []
+        ret.productBarcodes = []
+        ret.pickedBarcodes = []
+        ret.products = []
+        ret.hashtags = []
+        ret.mentions = []
+      }
       return ret
     }
   },
   toObject: { virtuals: true }
 })
 
+CommentSchema.virtual('user', {
+  ref: 'User',
+  localField: 'userId',
+  foreignField: '_id',
+  justOne: true
+})
+
+CommentSchema.virtual('products', {
+  ref: 'Product',
+  localField: 'productBarcodes',
+  foreignField: 'barcode',
+  justOne: false
+})
+
+CommentSchema.index({ postId: 1, parentId: 1, createdAt: 1 })
+CommentSchema.index({ productBarcodes: 1 })
+CommentSchema.index({ hashtags: 1, createdAt: -1 })
+CommentSchema.index({ mentions: 1 })
+
 module.exports = mongoose.model('Comment', CommentSchema)
@@ -0,0 +1,60 @@
+const mongoose = require('mongoose')
+
+const NOTIFICATION_TYPES = ['mention']
+
+// Something a user should know about, e.g. being mentioned in a post or comment (utils/notifications.js)
+const notificationSchema = new mongoose.Schema({
+  userId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    required: true,
+    immutable: true
+  },
+  type: {
+    type: String,
+    enum: NOTIFICATION_TYPES,
+    required: true,
+    immutable: true
+  },
+  // Who caused it, and where
+  actorId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    immutable: true
+  },
+  postId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Post',
+    immutable: true
+  },
+  commentId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Comment',
+    immutable: true
+  },
+  readAt: Date
+}, {
+  timestamps: true,
+  toJSON: {
+    virtuals: true,
+    transform(doc, ret) {
+      ret.id = ret._id.toString()
+      delete ret._id
+      delete ret.__v
+      return ret
+    }
+  },
+  toObject: { virtuals: true }
+})
+
+notificationSchema.virtual('actor', {
+  ref: 'User',
+  localField: 'actorId',
+  foreignField: '_id',
+  justOne: true
+})
+
+// A user's notifications, newest first
+notificationSchema.index({ userId: 1, createdAt: -1 })
+
+module.exports = mongoose.model('Notification', notificationSchema)
@@ -1,4 +1,5 @@
 const mongoose = require('mongoose')
+const { POST_MODERATION_STATES, POST_REPORT_REASONS } = require('../utils/moderationStates')
 
 const postSchema = new mongoose.Schema({
   userId: {
@@ -20,7 +21,41 @@ const postSchema = new mongoose.Schema({
       message: 'You can provide at most 5 media URLs.'
     }
   },
-  likes: [{ type: mongoose.Schema.Types.ObjectId, ref: 'User' }]
+  likes: [{ type: mongoose.Schema.Types.ObjectId, ref: 'User' }],
+  // GTIN-14s of the products the post is about (utils/productTags.js)
+  productBarcodes: [String],
+  pickedBarcodes: { type: [String], default: undefined }, // The ones the author chose; the rest come from postText
+  // Taken from postText on every write (utils/textEntities.js)
+  hashtags: [String],
+  mentions: [{ type: mongoose.Schema.Types.ObjectId, ref: 'User' }],
+  editedAt: Date,
+  // Earlier versions, oldest first; the current text and media stay on the post
+  edits: [
+    {
+      _id: false,
+      postText: String,
+      mediaUrls: [String],
+      editedAt: { type: Date, default: Date.now }
+    }
+  ],
+  reports: [
+    {
+      _id: false,
+      userId: { type: mongoose.Schema.Types.ObjectId, ref: 'User', required: true },
+      reason: { type: String, enum: POST_REPORT_REASONS, required: true },
+      details: { type: String, trim: true, maxLength: 500 },
+      date: { type: Date, default: Date.now }
+    }
+  ],
+  // Set once the post is reported (utils/moderationStates.js)
+  moderation: {
+    state: { type: String, enum: POST_MODERATION_STATES },
+    openedAt: Date, // When the latest round of reports started
+    assignedTo: { type: mongoose.Schema.Types.ObjectId, ref: 'User' },
+    resolvedBy: { type: mongoose.Schema.Types.ObjectId, ref: 'User' },
+    resolvedAt: Date,
+    note: { type: String, trim: true }
+  }
 }, {
   timestamps: true,
   toJSON: {
@@ -29,12 +64,36 @@ const postSchema = new mongoose.Schema({
       ret.id = ret._id.toString() // Add this line
       delete ret._id
       delete ret.__v
+      delete ret.reports // Reporters stay private; moderators see them through the queue
+      delete ret.edits // Served by GET /api/posts/:id/edits
       return ret
     }
   },
   toObject: { virtuals: true }
 })
 
+// Responsive image sets for mediaUrls (match by url; order is not preserved)
+postSchema.virtual('media', {
+  ref: 'Upload',
+  localField: 'mediaUrls',
+  foreignField: 'url',
+  justOne: false
+})
+
+postSchema.virtual('user', {
+  ref: 'User',
+  localField: 'userId',
+  foreignField: '_id',
+  justOne: true
+})
+
+postSchema.virtual('products', {
+  ref: 'Product',
+  localField: 'productBarcodes',
+  foreignField: 'barcode',
+  justOne: false
+})
+
 postSchema.virtual('comments', {
   ref: 'Comment',
   localField: '_id',
@@ -42,4 +101,23 @@ postSchema.virtual('comments', {
   justOne: false
 })
 
+// Deleted and removed comments are not counted (they also do not add to the ranked feed's score)
+postSchema.virtual('commentCount', {
+  ref: 'Comment',
+  localField: '_id',
+  foreignField: 'postId',
+  match: { deletedAt: null, 'moderation.removedAt': null },
+  count: true
+})
+
+postSchema.virtual('likeCount').get(function () {
+  return this.likes ? this.likes.length : 0
+})
+
+postSchema.index({ 'moderation.state': 1 })
+postSchema.index({ userId: 1, createdAt: -1 })
+postSchema.index({ productBarcodes: 1 })
+postSchema.index({ hashtags: 1, createdAt: -1 })
+postSchema.index({ mentions: 1 })
+
 module.exports = mongoose.model('Post', postSchema)
@@ -1,8 +1,12 @@
 const mongoose = require('mongoose')
+const { toGtin14, gtinValidator } = require('../utils/gtin')
+const { PRODUCT_REVIEW_STATES } = require('../utils/moderationStates')
 
 const productSchema = new mongoose.Schema({
   barcode: {
-    type: Number,
+    type: String,
+    set: toGtin14,
+    validate: gtinValidator,
     required: true,
     unique: true
   },
@@ -11,14 +15,40 @@ const productSchema = new mongoose.Schema({
     required: true,
     trim: true
   },
+  brand: {
+    type: String,
+    trim: true
+  },
   ingredients: {
     type: [String],
     required: true
   },
+  // Label data, usually pre-filled from AI extraction and reviewed by the contributor
+  allergens: [String], // e.g. "Contains: wheat, milk"
+  mayContain: [String], // Precautionary statements such as "May contain traces of barley"
+  certifications: [String], // Logos or claims such as "Crossed Grain", "Certified Gluten-Free"
+  language: {
+    type: String,
+    trim: true,
+    lowercase: true,
+    match: /^[a-z]{2}$/ // ISO 639-1 code of the label text
+  },
   pictureUrl: {
     type: String,
     trim: true,
     required: true
+  },
+  createdBy: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User'
+  },
+  // Set for submissions awaiting moderator approval (utils/moderationStates.js)
+  moderation: {
+    state: { type: String, enum: PRODUCT_REVIEW_STATES },
+    assignedTo: { type: mongoose.Schema.Types.ObjectId, ref: 'User' },
+    resolvedBy: { type: mongoose.Schema.Types.ObjectId, ref: 'User' },
+    resolvedAt: Date,
+    note: { type: String, trim: true }
   }
 }, {
   toJSON: { virtuals: true,
@@ -39,6 +69,14 @@ productSchema.virtual('status', {
   justOne: true
 })
 
+// Responsive image set for pictureUrl; absent for external images such as Open Food Facts
+productSchema.virtual('picture', {
+  ref: 'Upload',
+  localField: 'pictureUrl',
+  foreignField: 'url',
+  justOne: true
+})
+
 productSchema.virtual('symptoms', {
   ref: 'Symptom',
   localField: 'barcode',
@@ -53,4 +91,8 @@ productSchema.virtual('claims', {
   justOne: false
 })
 
+// Products contributed by a user (achievements)
+productSchema.index({ createdBy: 1 })
+productSchema.index({ 'moderation.state': 1 })
+
 module.exports = mongoose.model('Product', productSchema)
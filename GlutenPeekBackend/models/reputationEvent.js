@@ -0,0 +1,46 @@
+const mongoose = require('mongoose')
+const { REPUTATION_REASONS } = require('../utils/reputationRules')
+
+// Append-only record of every reputation change; User.reputation holds the running total
+const reputationEventSchema = new mongoose.Schema({
+  userId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    required: true,
+    immutable: true
+  },
+  reason: {
+    type: String,
+    enum: REPUTATION_REASONS,
+    required: true,
+    immutable: true
+  },
+  delta: {
+    type: Number,
+    required: true,
+    immutable: true
+  },
+  refId: {
+    type: mongoose.Schema.Types.ObjectId, // The claim, product or post that earned or cost the points
+    immutable: true
+  },
+  date: {
+    type: Date,
+    default: Date.now,
+    immutable: true
+  }
+}, {
+  toJSON: {
+    transform(doc, ret) {
+      ret.id = ret._id.toString()
+      delete ret._id
+      delete ret.__v
+      return ret
+    }
+  }
+})
+
+// A user's history, newest first
+reputationEventSchema.index({ userId: 1, date: -1 })
+
+module.exports = mongoose.model('ReputationEvent', reputationEventSchema)
\ No newline at end of file
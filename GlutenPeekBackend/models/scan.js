@@ -1,4 +1,5 @@
 const mongoose = require('mongoose')
+const { toGtin14, gtinValidator } = require('../utils/gtin')
 
 const scanSchema = new mongoose.Schema({
   userId: {
@@ -11,7 +12,9 @@ const scanSchema = new mongoose.Schema({
     required: true
   },
   productBarcode: {
-    type: Number,
+    type: String,
+    set: toGtin14,
+    validate: gtinValidator,
     ref: 'Product',
     required: true
   },
@@ -23,14 +26,27 @@ const scanSchema = new mongoose.Schema({
   ]
 }, {
   toJSON: {
+    virtuals: true,
     transform(doc, ret) {
       ret.id = ret._id.toString()
       delete ret._id
       delete ret.__v
       return ret
     }
-  }
+  },
+  toObject: { virtuals: true }
+})
+
+scanSchema.virtual('product', {
+  ref: 'Product',
+  localField: 'productBarcode',
+  foreignField: 'barcode',
+  justOne: true
 })
 
+// Per-user date ranges (controllers/days.js, utils/calendarStats.js)
+scanSchema.index({ userId: 1, date: -1 })
+// Recent scanners of a product (moderation queue priority)
+scanSchema.index({ productBarcode: 1, date: -1 })
 
 module.exports = mongoose.model('Scan', scanSchema)
@@ -1,8 +1,11 @@
 const mongoose = require('mongoose')
+const { toGtin14, gtinValidator } = require('../utils/gtin')
 
 const statusSchema = new mongoose.Schema({
   productBarcode: {
-    type: Number,
+    type: String,
+    set: toGtin14,
+    validate: gtinValidator,
     ref: 'Product', // Still useful for virtual population if barcode is unique in Product
     required: true
   },
@@ -32,4 +35,7 @@ const statusSchema = new mongoose.Schema({
   toObject: { virtuals: true }
 })
 
+// Current status lookups by product, including the calendar's $lookup
+statusSchema.index({ productBarcode: 1 })
+
 module.exports = mongoose.model('Status', statusSchema)
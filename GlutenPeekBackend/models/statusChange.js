@@ -0,0 +1,80 @@
+const mongoose = require('mongoose')
+const { toGtin14, gtinValidator } = require('../utils/gtin')
+
+// Append-only audit trail of every change to a product's gluten status
+const statusChangeSchema = new mongoose.Schema({
+  productBarcode: {
+    type: String,
+    set: toGtin14,
+    validate: gtinValidator,
+    ref: 'Product',
+    required: true,
+    immutable: true
+  },
+  changedBy: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User', // Absent for automated sources such as imports
+    immutable: true
+  },
+  source: {
+    type: String,
+    enum: ['admin', 'classifier', 'ai', 'claim', 'consensus', 'import'],
+    required: true,
+    immutable: true
+  },
+  claimId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Claim', // Set when the change came from a community claim, accepted or by consensus
+    immutable: true
+  },
+  previousStatus: {
+    type: Number,
+    enum: [1, 2, 3, 4, 5, null], // null when the product had no status yet
+    default: null,
+    immutable: true
+  },
+  newStatus: {
+    type: Number,
+    enum: [1, 2, 3, 4, 5],
+    required: true,
+    immutable: true
+  },
+  explanation: {
+    type: String,
+    trim: true,
+    immutable: true
+  },
+  date: {
+    type: Date,
+    default: Date.now,
+    immutable: true
+  }
+}, {
+  toJSON: {
+    virtuals: true,
+    transform(doc, ret) {
+      ret.id = ret._id.toString()
+      delete ret._id
+      delete ret.__v
+      return ret
+    }
+  },
+  toObject: { virtuals: true }
+})
+
+statusChangeSchema.index({ productBarcode: 1, date: -1 })
+
+const rejectMutation = function (next) {
+  next(new Error('Status history entries are immutable.'))
+}
+
+statusChangeSchema.pre(['updateOne', 'updateMany', 'findOneAndUpdate', 'replaceOne'], rejectMutation)
+statusChangeSchema.pre(['deleteOne', 'deleteMany', 'findOneAndDelete'], rejectMutation)
+statusChangeSchema.pre('save', function (next) {
+  if (!this.isNew) {
+    return next(new Error('Status history entries are immutable.'))
+  }
+  next()
+})
+
+module.exports = mongoose.model('StatusChange', statusChangeSchema)
@@ -1,4 +1,6 @@
 const mongoose = require('mongoose')
+const { toGtin14, gtinValidator } = require('../utils/gtin')
+const { isSymptomId, isSeverity, MIN_SEVERITY, MAX_SEVERITY } = require('../utils/symptomCatalog')
 
 const symptomSchema = new mongoose.Schema({
   userId: {
@@ -11,18 +13,39 @@ const symptomSchema = new mongoose.Schema({
     required: true
   },
   productBarcode: {
-    type: Number,
+    type: String,
+    set: toGtin14,
+    validate: gtinValidator,
     ref: 'Product',
     required: true
   },
+  // Every report is made against a scan. The id is unset when the scan is
+  // deleted, so the report stays in the user's symptom log.
   scanId: {
     type: mongoose.Schema.Types.ObjectId,
-    ref: 'Scan',
-    required: true
+    ref: 'Scan'
   },
+  // Severity per symptom, keyed by symptom catalog id (see utils/symptomCatalog.js)
   symptoms: {
     type: Map,
+    of: {
+      type: Number,
+      validate: {
+        validator: isSeverity,
+        message: `Severity must be a whole number from ${MIN_SEVERITY} to ${MAX_SEVERITY}.`
+      }
+    },
     required: true,
+    validate: [
+      {
+        validator: (symptoms) => symptoms.size > 0,
+        message: 'Report at least one symptom.'
+      },
+      {
+        validator: (symptoms) => [...symptoms.keys()].every(isSymptomId),
+        message: 'Unknown symptom id.'
+      }
+    ]
   }
 }, {
   toJSON: {
@@ -35,5 +58,9 @@ const symptomSchema = new mongoose.Schema({
   }
 })
 
+// Community statistics per product (utils/symptomStats.js)
+symptomSchema.index({ productBarcode: 1, date: -1 })
+// Per-user date ranges (controllers/days.js, utils/calendarStats.js)
+symptomSchema.index({ userId: 1, date: -1 })
 
 module.exports = mongoose.model('Symptom', symptomSchema)
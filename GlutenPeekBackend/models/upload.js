@@ -0,0 +1,138 @@
+const mongoose = require('mongoose')
+const { UPLOAD_PURPOSES } = require('../utils/uploadPolicy')
+const { getStorage } = require('../utils/storage')
+
+// A resized, metadata-free copy produced by the image pipeline
+const variantSchema = new mongoose.Schema({
+  width: Number,
+  height: Number,
+  format: {
+    type: String,
+    enum: ['webp', 'jpeg']
+  },
+  key: String,
+  url: String
+}, { _id: false })
+
+// A file a user uploaded (or is about to upload) through a presigned URL.
+// Once complete it doubles as the responsive image set for the URL it produced.
+const uploadSchema = new mongoose.Schema({
+  owner: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    required: true,
+    immutable: true
+  },
+  purpose: {
+    type: String,
+    enum: Object.keys(UPLOAD_PURPOSES),
+    required: true,
+    immutable: true
+  },
+  key: {
+    type: String,
+    required: true,
+    unique: true,
+    immutable: true // Where the raw original is PUT; deleted once processed
+  },
+  driver: {
+    type: String,
+    required: true,
+    immutable: true
+  },
+  contentType: {
+    type: String,
+    required: true,
+    immutable: true
+  },
+  size: {
+    type: Number,
+    required: true,
+    immutable: true // Declared by the client and bound into the upload URL
+  },
+  url: {
+    type: String,
+    required: true // The largest processed JPEG once complete
+  },
+  contentHash: String, // SHA-256 of the original, for deduplication
+  width: Number,
+  height: Number,
+  variants: [variantSchema],
+  status: {
+    type: String,
+    enum: ['pending', 'complete'],
+    default: 'pending'
+  },
+  createdAt: {
+    type: Date,
+    default: Date.now
+  },
+  completedAt: Date
+}, {
+  toJSON: {
+    transform(doc, ret) {
+      ret.id = ret._id.toString()
+      delete ret._id
+      delete ret.__v
+      delete ret.key
+      delete ret.driver
+      if (ret.variants) ret.variants.forEach(variant => delete variant.key)
+      return ret
+    }
+  }
+})
+
+// Uploads never confirmed within a day are forgotten
+uploadSchema.index({ createdAt: 1 }, { expireAfterSeconds: 24 * 60 * 60, partialFilterExpression: { status: 'pending' } })
+uploadSchema.index({ url: 1 })
+uploadSchema.index({ contentHash: 1 })
+
+// Of the given media URLs, returns those pointing at our storage that the user did not upload.
+// External URLs (e.g. Open Food Facts images) are not ours to vouch for and are let through.
+uploadSchema.statics.findUnownedUrls = async function (userId, urls) {
+  const storagePrefix = getStorage().getPublicUrl('')
+  const ours = (urls || []).filter(url => typeof url === 'string' && url.startsWith(storagePrefix))
+  if (ours.length === 0) return []
+
+  const owned = await this.find({ url: { $in: ours }, owner: userId, status: 'complete' }).select('url')
+  const ownedUrls = new Set(owned.map(upload => upload.url))
+  return ours.filter(url => !ownedUrls.has(url))
+}
+
+// Where an uploaded URL can be shown. Models are looked up when called, as they
+// are registered after this one.
+const URL_REFERENCES = [
+  ['Product', ['pictureUrl']],
+  ['Post', ['mediaUrls', 'edits.mediaUrls']],
+  ['Comment', ['mediaUrls']],
+  ['Claim', ['evidenceUrls']],
+  ['User', ['pfp']]
+]
+
+// Whether a product, post, comment, claim or profile still shows this URL
+uploadSchema.statics.isReferenced = async function (url) {
+  for (const [modelName, paths] of URL_REFERENCES) {
+    const inUse = await mongoose.model(modelName).exists({ $or: paths.map(path => ({ [path]: url })) })
+    if (inUse) return true
+  }
+  return false
+}
+
+// Deletes the upload and its stored files. Variants are shared between
+// identical uploads, so they are kept while anyone else uses them.
+uploadSchema.methods.removeWithFiles = async function () {
+  const storage = getStorage(this.driver)
+  if (this.status === 'pending') {
+    await storage.deleteObject(this.key)
+  } else {
+    const shared = await this.constructor.exists({ contentHash: this.contentHash, driver: this.driver, _id: { $ne: this._id } })
+    if (!shared) {
+      for (const variant of this.variants) {
+        await storage.deleteObject(variant.key)
+      }
+    }
+  }
+  await this.deleteOne()
+}
+
+module.exports = mongoose.model('Upload', uploadSchema)
\ No newline at end of file
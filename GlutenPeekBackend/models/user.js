@@ -1,4 +1,6 @@
 const mongoose = require('mongoose')
+const { ROLES, privilegesFor } = require('../utils/roles')
+const { isValidTimeZone } = require('../utils/timezone')
 
 const userSchema = new mongoose.Schema(
   {
@@ -30,12 +32,43 @@ const userSchema = new mongoose.Schema(
       type: String,
       required: true,
     },
+    role: {
+      type: String,
+      enum: ROLES,
+      default: 'member',
+    },
+    // Running total of ReputationEvents (utils/reputation.js); unlocks privileges in utils/roles.js
+    reputation: {
+      type: Number,
+      default: 0,
+    },
+    // Updated as activity is recorded (utils/streakCalculator.js)
+    streak: {
+      current: { type: Number, default: 0 },
+      longest: { type: Number, default: 0 },
+      lastActiveDay: { type: String }, // Local date, YYYY-MM-DD; null once computed for a user without activity
+    },
+    achievements: [
+      {
+        _id: false,
+        id: { type: String, required: true }, // See utils/achievements.js
+        earnedAt: { type: Date, default: Date.now },
+      },
+    ],
     following: [{ type: mongoose.Schema.Types.ObjectId, ref: 'User' }],
     followers: [{ type: mongoose.Schema.Types.ObjectId, ref: 'User' }],
     settings: {
       theme: { type: Boolean, default: false },
       telegram_notifications: { type: Boolean, default: false },
       telegram_number: { type: String },
+      // IANA time zone used for day boundaries and streaks; UTC when unset
+      timezone: {
+        type: String,
+        validate: {
+          validator: isValidTimeZone,
+          message: 'Invalid timezone. Use an IANA time zone name such as "Europe/Berlin".',
+        },
+      },
     },
   },
   {
@@ -46,6 +79,7 @@ const userSchema = new mongoose.Schema(
         delete returnedObject._id
         delete returnedObject.__v
         delete returnedObject.passwordHash
+        returnedObject.privileges = privilegesFor(returnedObject)
       },
     },
     toObject: { virtuals: true },
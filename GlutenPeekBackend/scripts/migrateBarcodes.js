@@ -0,0 +1,79 @@
+// Usage: npm run migrate-barcodes [-- --dry-run]
+// Converts barcodes stored as Numbers (or unnormalized strings) to GTIN-14 strings.
+// Works on the raw collections so it also covers the append-only status history.
+const mongoose = require('mongoose')
+const env = require('../utils/config')
+const { normalizeBarcode, legacyBarcodeReadings } = require('../utils/gtin')
+
+const COLLECTIONS = [
+  { name: 'products', field: 'barcode', unique: true },
+  { name: 'scans', field: 'productBarcode' },
+  { name: 'claims', field: 'productBarcode' },
+  { name: 'status', field: 'productBarcode', unique: true },
+  { name: 'symptoms', field: 'productBarcode' },
+  { name: 'statuschanges', field: 'productBarcode' }
+]
+
+const migrateCollection = async (db, { name, field, unique }, dryRun) => {
+  const collection = db.collection(name)
+  const summary = { updated: 0, unchanged: 0, invalid: 0, conflicts: 0, ambiguous: 0 }
+
+  const cursor = collection.find({}, { projection: { [field]: 1 } })
+  for await (const doc of cursor) {
+    const current = doc[field]
+    // Short numbers could be either of two products; guessing would move data to the wrong one
+    const readings = legacyBarcodeReadings(current)
+    if (readings) {
+      summary.ambiguous++
+      console.warn(`[${name}] ${doc._id}: ${current} may be UPC-E ${readings.upcE || '(invalid)'} or EAN-8 ${readings.ean8 || '(invalid)'}, review manually`)
+      continue
+    }
+
+    const normalized = normalizeBarcode(current)
+
+    if (!normalized) {
+      summary.invalid++
+      console.warn(`[${name}] ${doc._id}: cannot normalize barcode ${current}, left as is`)
+      continue
+    }
+    if (normalized === current) {
+      summary.unchanged++
+      continue
+    }
+
+    // UPC-A and EAN-13 duplicates of the same product collapse onto one GTIN-14
+    if (unique) {
+      const existing = await collection.findOne({ [field]: normalized, _id: { $ne: doc._id } })
+      if (existing) {
+        summary.conflicts++
+        console.warn(`[${name}] ${doc._id}: ${current} duplicates ${existing._id} as ${normalized}, merge manually`)
+        continue
+      }
+    }
+
+    if (!dryRun) {
+      await collection.updateOne({ _id: doc._id }, { $set: { [field]: normalized } })
+    }
+    summary.updated++
+  }
+
+  return summary
+}
+
+const main = async () => {
+  const dryRun = process.argv.includes('--dry-run')
+  await mongoose.connect(env.MONGODB_URI)
+  const db = mongoose.connection.db
+
+  for (const target of COLLECTIONS) {
+    const summary = await migrateCollection(db, target, dryRun)
+    console.log(`${target.name}: ${JSON.stringify(summary)}${dryRun ? ' (dry run)' : ''}`)
+  }
+
+  await mongoose.disconnect()
+}
+
+main().catch((error) => {
+  console.error(error.message)
+  process.exit(1)
+})
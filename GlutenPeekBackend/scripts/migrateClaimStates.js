@@ -0,0 +1,54 @@
+// Usage: npm run migrate-claims [-- --dry-run] [-- --closed-as=<rejected|accepted|duplicate>]
+// Replaces the old boolean Claim.status with Claim.state. Open claims become
+// "open"; closed ones get --closed-as (default "rejected"), since the old flag
+// did not record the outcome. Closing used to overwrite the reporter's
+// explanation, so for closed claims it is also copied to resolutionNote.
+// The single mediaProofUrl is moved into the evidenceUrls list.
+const mongoose = require('mongoose')
+const env = require('../utils/config')
+const { RESOLVED_STATES } = require('../utils/claimStates')
+
+const main = async () => {
+  const dryRun = process.argv.includes('--dry-run')
+  const closedAsArg = process.argv.find(arg => arg.startsWith('--closed-as='))
+  const closedAs = closedAsArg ? closedAsArg.split('=')[1] : 'rejected'
+  if (!RESOLVED_STATES.includes(closedAs)) {
+    console.error(`--closed-as must be one of: ${RESOLVED_STATES.join(', ')}`)
+    process.exit(1)
+  }
+
+  await mongoose.connect(env.MONGODB_URI)
+  const claims = mongoose.connection.db.collection('claims')
+  const legacy = { status: { $exists: true }, state: { $exists: false } }
+
+  const open = await claims.countDocuments({ ...legacy, status: { $ne: true } })
+  const closed = await claims.countDocuments({ ...legacy, status: true })
+  const singleProof = { mediaProofUrl: { $exists: true } }
+  const withProof = await claims.countDocuments(singleProof)
+
+  if (!dryRun) {
+    await claims.updateMany(
+      { ...legacy, status: { $ne: true } },
+      { $set: { state: 'open' }, $unset: { status: '' } }
+    )
+    await claims.updateMany(
+      { ...legacy, status: true },
+      [{ $set: { state: closedAs, resolutionNote: '$explanation', resolvedAt: '$updatedAt' } }, { $unset: 'status' }]
+    )
+    await claims.updateMany(
+      singleProof,
+      [
+        { $set: { evidenceUrls: { $cond: [{ $gt: ['$mediaProofUrl', ''] }, ['$mediaProofUrl'], []] } } },
+        { $unset: 'mediaProofUrl' }
+      ]
+    )
+  }
+  console.log(`open: ${open}, closed as ${closedAs}: ${closed}, evidence moved: ${withProof}${dryRun ? ' (dry run)' : ''}`)
+
+  await mongoose.disconnect()
+}
+
+main().catch((error) => {
+  console.error(error.message)
+  process.exit(1)
+})
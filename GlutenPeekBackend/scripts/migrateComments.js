@@ -0,0 +1,27 @@
+// Usage: npm run migrate-comments [-- --dry-run]
+// Renames the old Comment.postText field to content. Existing comments become
+// top-level comments, since replies did not exist before.
+const mongoose = require('mongoose')
+const env = require('../utils/config')
+
+const main = async () => {
+  const dryRun = process.argv.includes('--dry-run')
+
+  await mongoose.connect(env.MONGODB_URI)
+  const comments = mongoose.connection.db.collection('comments')
+  const legacy = { postText: { $exists: true } }
+
+  const count = await comments.countDocuments(legacy)
+  if (!dryRun) {
+    await comments.updateMany(legacy, { $rename: { postText: 'content' } })
+    await comments.updateMany({ parentId: { $exists: false } }, { $set: { parentId: null } })
+  }
+  console.log(`comments renamed: ${count}${dryRun ? ' (dry run)' : ''}`)
+
+  await mongoose.disconnect()
+}
+
+main().catch((error) => {
+  console.error(error.message)
+  process.exit(1)
+})
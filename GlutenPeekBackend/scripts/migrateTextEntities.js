@@ -0,0 +1,43 @@
+// Usage: npm run migrate-text-entities [-- --dry-run]
+// Fills in hashtags and mentions for posts and comments written before they
+// were extracted at write time. Nobody is notified about old mentions.
+const mongoose = require('mongoose')
+const env = require('../utils/config')
+const { extractHashtags, extractMentionIds } = require('../utils/textEntities')
+
+const backfill = async (collection, textField, knownUsers, dryRun) => {
+  let updated = 0
+  const cursor = collection.find({ hashtags: { $exists: false } }).project({ [textField]: 1 })
+  for await (const doc of cursor) {
+    const text = doc[textField] || ''
+    const hashtags = extractHashtags(text)
+    const mentions = extractMentionIds(text)
+      .filter(id => knownUsers.has(id))
+      .map(id => new mongoose.Types.ObjectId(id))
+    if (!dryRun) {
+      await collection.updateOne({ _id: doc._id }, { $set: { hashtags, mentions } })
+    }
+    updated += 1
+  }
+  return updated
+}
+
+const main = async () => {
+  const dryRun = process.argv.includes('--dry-run')
+
+  await mongoose.connect(env.MONGODB_URI)
+  const db = mongoose.connection.db
+  const userIds = await db.collection('users').distinct('_id')
+  const knownUsers = new Set(userIds.map(id => id.toString()))
+
+  const posts = await backfill(db.collection('posts'), 'postText', knownUsers, dryRun)
+  const comments = await backfill(db.collection('comments'), 'content', knownUsers, dryRun)
+  console.log(`posts updated: ${posts}, comments updated: ${comments}${dryRun ? ' (dry run)' : ''}`)
+
+  await mongoose.disconnect()
+}
+
+main().catch((error) => {
+  console.error(error.message)
+  process.exit(1)
+})
@@ -0,0 +1,32 @@
+// Usage: npm run set-role -- <email> <role>
+// Bootstraps the first admin; afterwards roles are managed through /api/admin.
+const mongoose = require('mongoose')
+const env = require('../utils/config')
+const User = require('../models/user')
+const { isValidRole, ROLES } = require('../utils/roles')
+
+const main = async () => {
+  const [email, role] = process.argv.slice(2)
+  if (!email || !isValidRole(role)) {
+    console.error(`Usage: npm run set-role -- <email> <${ROLES.join('|')}>`)
+    process.exit(1)
+  }
+
+  await mongoose.connect(env.MONGODB_URI)
+  const user = await User.findOneAndUpdate(
+    { email: email.toLowerCase() },
+    { role },
+    { new: true, runValidators: true }
+  )
+  if (!user) {
+    console.error(`No user found with email ${email}`)
+  } else {
+    console.log(`${user.email} is now ${user.role}`)
+  }
+  await mongoose.disconnect()
+}
+
+main().catch((error) => {
+  console.error(error.message)
+  process.exit(1)
+})
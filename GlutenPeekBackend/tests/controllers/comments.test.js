@@ -0,0 +1,229 @@
+// tests/controllers/comments.test.js
+const supertest = require('supertest')
+const mongoose = require('mongoose')
+const jwt = require('jsonwebtoken')
+const { MongoMemoryServer } = require('mongodb-memory-server')
+const config = require('../../utils/config')
+const User = require('../../models/user')
+const Post = require('../../models/post')
+const Comment = require('../../models/comment')
+const { REPLY_PREVIEW_LIMIT } = require('../../utils/commentThreads')
+
+// Runs against the real app, so authentication and the moderate privilege
+// are checked by the same middleware as in production
+
+let mongoServer
+let api
+let author
+let other
+let moderator
+let post
+
+const tokenFor = (user) => `Bearer ${jwt.sign({ email: user.email, id: user._id }, process.env.SECRET)}`
+
+const createUser = (name, role = 'member') =>
+  User.create({ name, email: `${name}@example.com`, passwordHash: 'not-a-real-hash', role })
+
+// Comments a minute apart, oldest first, so pages have a fixed order
+const createComments = (count, fields) => {
+  const start = Date.now() - count * 60 * 1000
+  return Promise.all([...Array(count).keys()].map(i => Comment.create({
+    postId: post._id,
+    userId: author._id,
+    content: `Comment ${i + 1}`,
+    createdAt: new Date(start + i * 60 * 1000),
+    ...fields
+  })))
+}
+
+beforeAll(async () => {
+  mongoServer = await MongoMemoryServer.create()
+  // app.js connects on load; point it at the same server this suite uses
+  config.MONGODB_URI = mongoServer.getUri()
+  process.env.SECRET = process.env.SECRET || 'comments-test-secret'
+  await mongoose.connect(config.MONGODB_URI)
+  api = supertest(require('../../app'))
+
+  author = await createUser('author')
+  other = await createUser('other')
+  moderator = await createUser('moderator', 'moderator')
+})
+
+afterAll(async () => {
+  await mongoose.disconnect()
+  await mongoServer.stop()
+})
+
+beforeEach(async () => {
+  await Comment.deleteMany({})
+  await Post.deleteMany({})
+  post = await Post.create({ userId: other._id, postText: 'Is this bread safe?' })
+})
+
+describe('GET /api/comments/post/:postId', () => {
+  it('pages top-level comments oldest first with a cursor', async () => {
+    const [first, second, third] = await createComments(3)
+
+    const firstPage = await api.get(`/api/comments/post/${post._id}?limit=2`).expect(200)
+    expect(firstPage.body.comments.map(c => c.id)).toEqual([first.id, second.id])
+    expect(firstPage.body.nextCursor).toBe(second.id)
+
+    const secondPage = await api.get(`/api/comments/post/${post._id}?limit=2&cursor=${firstPage.body.nextCursor}`).expect(200)
+    expect(secondPage.body.comments.map(c => c.id)).toEqual([third.id])
+    expect(secondPage.body.nextCursor).toBeNull()
+  })
+
+  it('includes a preview of the replies and their count', async () => {
+    const [parent] = await createComments(1)
+    await createComments(REPLY_PREVIEW_LIMIT + 1, { parentId: parent._id })
+
+    const response = await api.get(`/api/comments/post/${post._id}`).expect(200)
+    expect(response.body.comments).toHaveLength(1)
+    expect(response.body.comments[0].replies).toHaveLength(REPLY_PREVIEW_LIMIT)
+    expect(response.body.comments[0].replyCount).toBe(REPLY_PREVIEW_LIMIT + 1)
+    expect(response.body.comments[0].user.name).toBe('author')
+  })
+
+  it('rejects an unknown cursor', async () => {
+    await createComments(1)
+    const response = await api.get(`/api/comments/post/${post._id}?cursor=${new mongoose.Types.ObjectId()}`).expect(400)
+    expect(response.body.error).toBe('Invalid cursor')
+  })
+
+  it('hides comments on removed posts', async () => {
+    await Post.updateOne({ _id: post._id }, { 'moderation.state': 'removed' })
+    await api.get(`/api/comments/post/${post._id}`).expect(404)
+  })
+})
+
+describe('GET /api/comments/:id/replies', () => {
+  it('pages replies oldest first with a cursor', async () => {
+    const [parent] = await createComments(1)
+    const [first, second, third] = await createComments(3, { parentId: parent._id })
+
+    const firstPage = await api.get(`/api/comments/${parent.id}/replies?limit=2`).expect(200)
+    expect(firstPage.body.replies.map(c => c.id)).toEqual([first.id, second.id])
+
+    const secondPage = await api.get(`/api/comments/${parent.id}/replies?limit=2&cursor=${firstPage.body.nextCursor}`).expect(200)
+    expect(secondPage.body.replies.map(c => c.id)).toEqual([third.id])
+    expect(secondPage.body.nextCursor).toBeNull()
+  })
+
+  it('only lists replies of top-level comments', async () => {
+    const [parent] = await createComments(1)
+    const [reply] = await createComments(1, { parentId: parent._id })
+    await api.get(`/api/comments/${reply.id}/replies`).expect(404)
+  })
+
+  it('rejects an unknown cursor', async () => {
+    const [parent] = await createComments(1)
+    await api.get(`/api/comments/${parent.id}/replies?cursor=${new mongoose.Types.ObjectId()}`).expect(400)
+  })
+})
+
+describe('POST /api/comments/:id', () => {
+  it('requires a signed-in user', async () => {
+    await api.post(`/api/comments/${post._id}`).send({ content: 'Looks fine to me' }).expect(401)
+  })
+
+  it('attaches a reply to a reply to its top-level comment', async () => {
+    const [parent] = await createComments(1)
+    const [reply] = await createComments(1, { parentId: parent._id })
+
+    const response = await api.post(`/api/comments/${post._id}`)
+      .set('Authorization', tokenFor(other))
+      .send({ content: 'Same here', parentId: reply.id })
+      .expect(201)
+    expect(response.body.parentId).toBe(parent.id)
+  })
+})
+
+describe('PATCH /api/comments/:id', () => {
+  it('lets the author edit', async () => {
+    const [comment] = await createComments(1)
+
+    const response = await api.patch(`/api/comments/${comment.id}`)
+      .set('Authorization', tokenFor(author))
+      .send({ content: 'Edited' })
+      .expect(200)
+    expect(response.body.content).toBe('Edited')
+    expect(response.body.editedAt).toBeDefined()
+  })
+
+  it('refuses anyone else, moderators included', async () => {
+    const [comment] = await createComments(1)
+
+    for (const user of [other, moderator]) {
+      await api.patch(`/api/comments/${comment.id}`)
+        .set('Authorization', tokenFor(user))
+        .send({ content: 'Not yours' })
+        .expect(403)
+    }
+    expect((await Comment.findById(comment._id)).content).toBe('Comment 1')
+  })
+
+  it('refuses edits to removed comments', async () => {
+    const [comment] = await createComments(1, { moderation: { removedBy: moderator._id, removedAt: new Date() } })
+    await api.patch(`/api/comments/${comment.id}`)
+      .set('Authorization', tokenFor(author))
+      .send({ content: 'Back again' })
+      .expect(403)
+  })
+})
+
+describe('DELETE /api/comments/:id', () => {
+  it('refuses anyone but the author', async () => {
+    const [comment] = await createComments(1)
+
+    for (const user of [other, moderator]) {
+      await api.delete(`/api/comments/${comment.id}`).set('Authorization', tokenFor(user)).expect(403)
+    }
+    expect(await Comment.exists({ _id: comment._id })).toBeTruthy()
+  })
+
+  it('deletes a comment without replies', async () => {
+    const [comment] = await createComments(1)
+    await api.delete(`/api/comments/${comment.id}`).set('Authorization', tokenFor(author)).expect(204)
+    expect(await Comment.exists({ _id: comment._id })).toBeNull()
+  })
+
+  it('blanks a top-level comment with replies and keeps the thread', async () => {
+    const [parent] = await createComments(1)
+    await createComments(1, { parentId: parent._id, userId: other._id })
+    await api.delete(`/api/comments/${parent.id}`).set('Authorization', tokenFor(author)).expect(204)
+
+    const response = await api.get(`/api/comments/post/${post._id}`).expect(200)
+    expect(response.body.comments[0].content).toBeNull()
+    expect(response.body.comments[0].replyCount).toBe(1)
+  })
+})
+
+describe('POST /api/comments/:id/remove', () => {
+  it('needs the moderate privilege', async () => {
+    const [comment] = await createComments(1)
+    await api.post(`/api/comments/${comment.id}/remove`).set('Authorization', tokenFor(other)).expect(403)
+    expect((await Comment.findById(comment._id)).moderation.removedAt).toBeUndefined()
+  })
+
+  it('lets a moderator remove a comment once', async () => {
+    const [comment] = await createComments(1)
+
+    const response = await api.post(`/api/comments/${comment.id}/remove`)
+      .set('Authorization', tokenFor(moderator))
+      .send({ note: 'Spam' })
+      .expect(200)
+    expect(response.body.content).toBeNull()
+    expect(response.body.removedAt).toBeDefined()
+    expect(response.body.moderation).toBeUndefined()
+
+    await api.post(`/api/comments/${comment.id}/remove`).set('Authorization', tokenFor(moderator)).expect(400)
+  })
+
+  it('stops counting removed comments on the post', async () => {
+    const [comment] = await createComments(2)
+    await api.post(`/api/comments/${comment.id}/remove`).set('Authorization', tokenFor(moderator)).expect(200)
+
+    const response = await api.get(`/api/posts/${post._id}`).expect(200)
+    expect(response.body.commentCount).toBe(1)
+  })
+})
\ No newline at end of file
@@ -8,6 +8,11 @@ const Scan = require('../../models/scan');
 // Mock the models
 jest.mock('../../models/symptom');
 jest.mock('../../models/scan');
+// Streaks and achievements read and save the user document, which the mocked user below is not
+jest.mock('../../utils/streakCalculator');
+jest.mock('../../utils/achievements');
+const { recordActivity } = require('../../utils/streakCalculator');
+const { awardAchievements } = require('../../utils/achievements');
 
 // Mock request.user for authentication
 // This middleware will be added to a specific route or globally for tests
@@ -56,7 +61,7 @@ beforeAll(async () => {
   const testApp = express();
   testApp.use(express.json()); // Ensure body parsing middleware is used
   testApp.use(mockAuthUser); // Apply mock auth for all test routes
-  const symptomRouter = require('../../controllers/symptoms'); // require the actual router
+  const { symptomRouter } = require('../../controllers/symptoms'); // require the actual router
   testApp.use('/api/symptoms', symptomRouter); // Mount it as it might be in app.js
 
   // server = testApp.listen(0); // Listen on a random free port
@@ -93,7 +98,7 @@ describe('POST /api/symptoms', () => {
       date: new Date(),
       productBarcode: productBarcode,
       scanId: validScanId,
-      symptoms: { symptom1: 3, symptom2: 5 }, // Ensure this matches the new structure
+      symptoms: { bloating: 3, headache: 5 }, // Ensure this matches the new structure
       toJSON: function() {
         // Make sure the returned object also matches the expected structure
         const { _id, userId, date, productBarcode, scanId, symptoms } = this;
@@ -106,15 +111,17 @@ describe('POST /api/symptoms', () => {
       .query({ scanId: validScanId })
       .send({
         date: '2023-01-01T00:00:00.000Z',
-        symptoms: { symptom1: 3, symptom2: 5 }
+        symptoms: { bloating: 3, headache: 5 }
       });
 
     expect(response.status).toBe(201);
     expect(response.body).toHaveLength(1);
     // Ensure the assertion matches the toJSON mock and controller response
-    expect(response.body[0].symptoms).toEqual({ symptom1: 3, symptom2: 5 });
+    expect(response.body[0].symptoms).toEqual({ bloating: 3, headache: 5 });
     expect(Scan.findById).toHaveBeenCalledWith(new mongoose.Types.ObjectId(validScanId));
     expect(Symptom.prototype.save).toHaveBeenCalledTimes(1);
+    expect(recordActivity).toHaveBeenCalledTimes(1);
+    expect(awardAchievements).toHaveBeenCalledTimes(1);
   });
 
   it('should return 400 if date is missing', async () => {
@@ -123,7 +130,7 @@ describe('POST /api/symptoms', () => {
       .query({ scanId: validScanId })
       .send({
         // date is missing
-        symptoms: { symptom1: 3 }
+        symptoms: { bloating: 3 }
       });
     expect(response.status).toBe(400);
     expect(response.body.error).toBe('Missing required fields in body: date, or symptoms.');
@@ -147,7 +154,7 @@ describe('POST /api/symptoms', () => {
       // no scanId in query
       .send({
         date: '2023-01-01T00:00:00.000Z',
-        symptoms: { symptom1: 3 }
+        symptoms: { bloating: 3 }
       });
     expect(response.status).toBe(400);
     expect(response.body.error).toBe('No scan id provided in query parameters.');
@@ -161,12 +168,12 @@ describe('POST /api/symptoms', () => {
       .query({ scanId: validScanId })
       .send({
         date: '2023-01-01T00:00:00.000Z',
-        symptoms: { symptom1: 3 }
+        symptoms: { bloating: 3 }
       });
     expect(response.status).toBe(500);
   });
 
-  it('should return 500 if symptoms data is invalid (triggering Mongoose validation)', async () => {
+  it('should return 500 if the symptom fails Mongoose validation on save', async () => {
     Scan.findById.mockResolvedValue({ _id: validScanId, productBarcode: productBarcode });
     Symptom.prototype.save = jest.fn().mockImplementation(() => {
       const err = new Error("Symptom validation failed: symptoms: Path `symptoms` is required."); // Updated error message
@@ -179,8 +186,34 @@ describe('POST /api/symptoms', () => {
       .query({ scanId: validScanId })
       .send({
         date: '2023-01-01T00:00:00.000Z',
-        symptoms: { symptom1: 7 } // Invalid severity
+        symptoms: { bloating: 3 }
       });
      expect(response.status).toBe(500);
   });
+
+  it('should return 400 if a severity is outside the catalog scale', async () => {
+    const response = await request
+      .post('/api/symptoms')
+      .query({ scanId: validScanId })
+      .send({
+        date: '2023-01-01T00:00:00.000Z',
+        symptoms: { bloating: 7 } // Invalid severity
+      });
+    expect(response.status).toBe(400);
+    expect(response.body.error).toBe('Severity for bloating must be a whole number from 1 to 5.');
+    expect(Symptom.prototype.save).not.toHaveBeenCalled();
+  });
+
+  it('should return 400 if a symptom is not in the catalog', async () => {
+    const response = await request
+      .post('/api/symptoms')
+      .query({ scanId: validScanId })
+      .send({
+        date: '2023-01-01T00:00:00.000Z',
+        symptoms: { 'Symptom 1': 3 }
+      });
+    expect(response.status).toBe(400);
+    expect(response.body.error).toBe('Unknown symptom: Symptom 1');
+    expect(Scan.findById).not.toHaveBeenCalled();
+  });
 });
@@ -0,0 +1,45 @@
+const { ACHIEVEMENTS, newlyEarned, describeAchievements } = require('../../utils/achievements')
+
+const noProgress = { scans: 0, longestStreak: 0, productsContributed: 0, acceptedClaims: 0 }
+
+describe('newlyEarned', () => {
+  it('awards achievements whose goal is reached', () => {
+    expect(newlyEarned({ ...noProgress, scans: 1, longestStreak: 7 })).toEqual(['first_scan', 'streak_7'])
+  })
+
+  it('does not award an achievement twice', () => {
+    const earned = [{ id: 'first_scan', earnedAt: new Date('2026-01-01') }]
+    expect(newlyEarned({ ...noProgress, scans: 40, productsContributed: 10 }, earned)).toEqual(['products_10'])
+  })
+
+  it('awards nothing below the goals', () => {
+    expect(newlyEarned({ ...noProgress, longestStreak: 6, productsContributed: 9 })).toEqual([])
+  })
+})
+
+describe('describeAchievements', () => {
+  const earned = [
+    { id: 'first_scan', earnedAt: new Date('2026-01-01') },
+    { id: 'streak_7', earnedAt: new Date('2026-02-01') }
+  ]
+
+  it('lists earned badges, most recent first, without internal fields', () => {
+    const { earned: badges } = describeAchievements(earned)
+    expect(badges.map(badge => badge.id)).toEqual(['streak_7', 'first_scan'])
+    expect(badges[0]).not.toHaveProperty('metric')
+    expect(badges[0].earnedAt).toEqual(new Date('2026-02-01'))
+  })
+
+  it('lists upcoming badges with progress capped at the goal', () => {
+    const { upcoming } = describeAchievements(earned, { ...noProgress, productsContributed: 4, acceptedClaims: 3 })
+    expect(upcoming).toEqual([
+      expect.objectContaining({ id: 'products_10', progress: 4, goal: 10 }),
+      expect.objectContaining({ id: 'first_accepted_claim', progress: 1, goal: 1 })
+    ])
+  })
+
+  it('leaves out upcoming badges when progress is not given', () => {
+    expect(describeAchievements(earned).upcoming).toEqual([])
+    expect(describeAchievements([], {}).upcoming).toHaveLength(ACHIEVEMENTS.length)
+  })
+})
\ No newline at end of file
@@ -0,0 +1,43 @@
+const { getProvider } = require('../../utils/ai')
+const { parseGlutenVerdict } = require('../../utils/ai/gemini')
+const { normalizeExtraction } = require('../../utils/ai/productExtraction')
+
+describe('getProvider', () => {
+  it('returns a registered provider by name', () => {
+    expect(getProvider('mock').name).toBe('mock')
+    expect(getProvider('gemini').name).toBe('gemini')
+  })
+
+  it('throws for an unknown provider', () => {
+    expect(() => getProvider('nope')).toThrow('Unknown AI provider: nope')
+  })
+})
+
+describe('mock provider', () => {
+  it('analyzes gluten with the rule-based classifier', async () => {
+    const verdict = await getProvider('mock').analyzeGluten({ name: 'Bread', ingredients: ['wheat flour', 'water'] })
+    expect(verdict.level).toBe(1)
+    expect(verdict.explanation).toMatch(/wheat/i)
+  })
+
+  it('extracts a placeholder product that passes schema validation', async () => {
+    const raw = await getProvider('mock').extractProductInfo({ barcode: '04006381333931', images: [] })
+    expect(normalizeExtraction(raw)).toMatchObject({ name: 'Product 04006381333931', ingredients: [], repairs: [] })
+  })
+})
+
+describe('parseGlutenVerdict', () => {
+  it('reads a fenced JSON answer', () => {
+    const text = '```json\n{"level": 4, "explanation": "No gluten sources."}\n```'
+    expect(parseGlutenVerdict(text)).toEqual({ level: 4, explanation: 'No gluten sources.' })
+  })
+
+  it('falls back to keywords when the answer is not JSON', () => {
+    expect(parseGlutenVerdict('This product contains gluten.\nExplanation: wheat flour').level).toBe(1)
+    expect(parseGlutenVerdict('It is not gluten-free').level).toBe(3)
+  })
+
+  it('ignores an out-of-range level', () => {
+    expect(parseGlutenVerdict('{"level": 9, "explanation": "?"}').level).toBe(3)
+  })
+})
\ No newline at end of file
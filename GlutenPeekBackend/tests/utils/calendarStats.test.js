@@ -0,0 +1,43 @@
+const { mergeCalendarDays, scanCalendarPipeline, symptomCalendarPipeline } = require('../../utils/calendarStats')
+
+describe('mergeCalendarDays', () => {
+  it('joins scan and symptom counts on the same day', () => {
+    const days = mergeCalendarDays(
+      [{ day: '2026-03-02', scans: 2, worstStatus: 3, scanIds: ['a', 'b'] }],
+      [{ day: '2026-03-02', symptoms: 1, maxSeverity: 4 }]
+    )
+    expect(days).toEqual([{ day: '2026-03-02', scans: 2, symptoms: 1, maxSeverity: 4, worstStatus: 3, scanIds: ['a', 'b'] }])
+  })
+
+  it('fills missing values for days with only one kind of activity, sorted by day', () => {
+    const days = mergeCalendarDays(
+      [{ day: '2026-03-05', scans: 1, scanIds: ['c'] }],
+      [{ day: '2026-03-01', symptoms: 2, maxSeverity: 2 }]
+    )
+    expect(days.map(day => day.day)).toEqual(['2026-03-01', '2026-03-05'])
+    expect(days[0]).toEqual({ day: '2026-03-01', scans: 0, symptoms: 2, maxSeverity: 2, worstStatus: null, scanIds: [] })
+    expect(days[1].worstStatus).toBeNull()
+    expect(days[1].maxSeverity).toBeNull()
+  })
+})
+
+describe('calendar pipelines', () => {
+  const options = {
+    userId: 'user',
+    start: new Date('2026-01-01T08:00:00Z'),
+    end: new Date('2027-01-01T08:00:00Z'),
+    timeZone: 'America/Los_Angeles'
+  }
+
+  it('matches the user and date range first so the { userId, date } index is used', () => {
+    const match = { $match: { userId: 'user', date: { $gte: options.start, $lt: options.end } } }
+    expect(scanCalendarPipeline(options)[0]).toEqual(match)
+    expect(symptomCalendarPipeline(options)[0]).toEqual(match)
+  })
+
+  it('groups by local day in the user\'s time zone', () => {
+    const day = { $dateToString: { format: '%Y-%m-%d', date: '$date', timezone: 'America/Los_Angeles' } }
+    expect(scanCalendarPipeline(options)[1].$group._id.day).toEqual(day)
+    expect(symptomCalendarPipeline(options)[1].$group._id).toEqual(day)
+  })
+})
\ No newline at end of file
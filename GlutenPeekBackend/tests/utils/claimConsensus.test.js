@@ -0,0 +1,75 @@
+const {
+  ESCALATION_SCORE,
+  PROVISIONAL_SCORE,
+  voteWeight,
+  tallyVotes,
+  shouldEscalate,
+  shouldApplyProvisionally
+} = require('../../utils/claimConsensus')
+
+const claimWithScore = (score, fields = {}) => ({
+  state: 'open',
+  proposedStatus: 5,
+  voteSummary: { up: 0, down: 0, confirmations: 0, score },
+  ...fields
+})
+
+describe('voteWeight', () => {
+  it('counts contributors and above double', () => {
+    expect(voteWeight({ role: 'member' })).toBe(1)
+    expect(voteWeight({})).toBe(1)
+    expect(voteWeight({ role: 'contributor' })).toBe(2)
+    expect(voteWeight({ role: 'admin' })).toBe(2)
+  })
+
+  it('counts members with enough reputation double too', () => {
+    expect(voteWeight({ role: 'member', reputation: 50 })).toBe(2)
+  })
+})
+
+describe('tallyVotes', () => {
+  it('totals votes and weighs the score', () => {
+    const summary = tallyVotes([
+      { value: 1, confirms: true, weight: 1 },
+      { value: 1, confirms: false, weight: 2 },
+      { value: -1, confirms: false, weight: 1 }
+    ])
+    expect(summary).toEqual({ up: 2, down: 1, confirmations: 1, score: 1 + 1 + 2 - 1 })
+  })
+
+  it('is zero without votes', () => {
+    expect(tallyVotes([])).toEqual({ up: 0, down: 0, confirmations: 0, score: 0 })
+  })
+})
+
+describe('shouldEscalate', () => {
+  it('escalates open claims once they reach the threshold', () => {
+    expect(shouldEscalate(claimWithScore(ESCALATION_SCORE - 1))).toBe(false)
+    expect(shouldEscalate(claimWithScore(ESCALATION_SCORE))).toBe(true)
+  })
+
+  it('escalates only once, and only open claims', () => {
+    expect(shouldEscalate(claimWithScore(ESCALATION_SCORE, { escalatedAt: new Date() }))).toBe(false)
+    expect(shouldEscalate(claimWithScore(ESCALATION_SCORE, { state: 'under_review' }))).toBe(false)
+  })
+})
+
+describe('shouldApplyProvisionally', () => {
+  const contributor = { role: 'contributor' }
+
+  it('applies a trusted reporter\'s proposed status at the threshold', () => {
+    expect(shouldApplyProvisionally(claimWithScore(PROVISIONAL_SCORE), contributor)).toBe(true)
+    expect(shouldApplyProvisionally(claimWithScore(PROVISIONAL_SCORE - 1), contributor)).toBe(false)
+  })
+
+  it('waits for a moderator when the reporter is a member', () => {
+    expect(shouldApplyProvisionally(claimWithScore(PROVISIONAL_SCORE), { role: 'member' })).toBe(false)
+    expect(shouldApplyProvisionally(claimWithScore(PROVISIONAL_SCORE), null)).toBe(false)
+  })
+
+  it('skips resolved claims, claims without a proposal and ones already applied', () => {
+    expect(shouldApplyProvisionally(claimWithScore(PROVISIONAL_SCORE, { state: 'rejected' }), contributor)).toBe(false)
+    expect(shouldApplyProvisionally(claimWithScore(PROVISIONAL_SCORE, { proposedStatus: undefined }), contributor)).toBe(false)
+    expect(shouldApplyProvisionally(claimWithScore(PROVISIONAL_SCORE, { provisionalStatusChange: 'x' }), contributor)).toBe(false)
+  })
+})
\ No newline at end of file
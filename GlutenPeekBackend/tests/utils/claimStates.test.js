@@ -0,0 +1,30 @@
+const { canTransition, isClaimState, isResolved } = require('../../utils/claimStates')
+
+describe('claim states', () => {
+  it('takes an open claim under review before resolving it', () => {
+    expect(canTransition('open', 'under_review')).toBe(true)
+    expect(canTransition('open', 'accepted')).toBe(false)
+    expect(canTransition('under_review', 'accepted')).toBe(true)
+    expect(canTransition('under_review', 'rejected')).toBe(true)
+    expect(canTransition('under_review', 'duplicate')).toBe(true)
+  })
+
+  it('lets a reviewer hand a claim back to the queue', () => {
+    expect(canTransition('under_review', 'open')).toBe(true)
+  })
+
+  it('treats resolved claims as final', () => {
+    const resolvedStates = ['accepted', 'rejected', 'duplicate']
+    resolvedStates.forEach(state => {
+      expect(isResolved(state)).toBe(true)
+      expect(canTransition(state, 'open')).toBe(false)
+      expect(canTransition(state, 'under_review')).toBe(false)
+    })
+  })
+
+  it('rejects unknown states', () => {
+    expect(isClaimState('closed')).toBe(false)
+    expect(canTransition('closed', 'open')).toBe(false)
+    expect(canTransition('open', 'closed')).toBe(false)
+  })
+})
\ No newline at end of file
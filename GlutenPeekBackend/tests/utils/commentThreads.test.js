@@ -0,0 +1,47 @@
+const {
+  REPLY_PREVIEW_LIMIT,
+  threadParentId,
+  isHidden,
+  canEditComment,
+  threadComments
+} = require('../../utils/commentThreads')
+
+describe('threadParentId', () => {
+  it('attaches replies to top-level comments', () => {
+    expect(threadParentId({ _id: 'c1', parentId: null })).toBe('c1')
+  })
+
+  it('keeps replies to replies in the same thread', () => {
+    expect(threadParentId({ _id: 'r1', parentId: 'c1' })).toBe('c1')
+  })
+})
+
+describe('canEditComment', () => {
+  const author = { _id: 'u1' }
+  const comment = { userId: 'u1' }
+
+  it('lets only the author edit', () => {
+    expect(canEditComment(comment, author)).toBe(true)
+    expect(canEditComment(comment, { _id: 'u2' })).toBe(false)
+    expect(canEditComment(comment, null)).toBe(false)
+  })
+
+  it('refuses deleted and removed comments', () => {
+    expect(isHidden({ ...comment, deletedAt: new Date() })).toBe(true)
+    expect(canEditComment({ ...comment, deletedAt: new Date() }, author)).toBe(false)
+    expect(canEditComment({ ...comment, moderation: { removedAt: new Date() } }, author)).toBe(false)
+    expect(isHidden({ ...comment, moderation: {} })).toBe(false)
+  })
+})
+
+describe('threadComments', () => {
+  it('groups reply previews and counts under their parent', () => {
+    const comments = [{ id: 'c1' }, { id: 'c2' }]
+    const replies = Array.from({ length: REPLY_PREVIEW_LIMIT + 1 }, (_, i) => ({ id: `r${i}`, parentId: 'c1' }))
+    const threaded = threadComments(comments, replies, [{ _id: 'c1', count: 7 }])
+
+    expect(threaded[0].replies.map(reply => reply.id)).toEqual(['r0', 'r1', 'r2'])
+    expect(threaded[0].replyCount).toBe(7)
+    expect(threaded[1]).toEqual({ id: 'c2', replies: [], replyCount: 0 })
+  })
+})
\ No newline at end of file
@@ -0,0 +1,98 @@
+const {
+  RANKING_CANDIDATES,
+  isFeedMode,
+  rankScore,
+  rankingWindowStart,
+  rankingBoundary,
+  olderThanFilter,
+  encodeRankCursor,
+  decodeRankCursor,
+  rankPage
+} = require('../../utils/feedRanking')
+
+const HOUR_MS = 60 * 60 * 1000
+const asOf = Date.parse('2026-03-10T12:00:00Z')
+const post = (id, hoursOld, fields = {}) => ({
+  _id: id,
+  createdAt: new Date(asOf - hoursOld * HOUR_MS),
+  likes: [],
+  commentCount: 0,
+  productBarcodes: [],
+  ...fields
+})
+
+describe('isFeedMode', () => {
+  it('accepts the three modes only', () => {
+    expect(isFeedMode('global')).toBe(true)
+    expect(isFeedMode('following')).toBe(true)
+    expect(isFeedMode('ranked')).toBe(true)
+    expect(isFeedMode('trending')).toBe(false)
+  })
+})
+
+describe('rankScore', () => {
+  it('halves every day', () => {
+    expect(rankScore(post('a', 0), { asOf })).toBe(1)
+    expect(rankScore(post('a', 24), { asOf })).toBeCloseTo(0.5)
+  })
+
+  it('weighs likes, comments and scanned products', () => {
+    const busy = post('a', 0, { likes: ['u1', 'u2'], commentCount: 1, productBarcodes: ['04006381333931'] })
+    expect(rankScore(busy, { asOf })).toBe(5)
+    expect(rankScore(busy, { asOf, scannedBarcodes: new Set(['04006381333931']) })).toBe(10)
+  })
+})
+
+describe('rank cursors', () => {
+  it('round-trip and reject garbage', () => {
+    const cursor = encodeRankCursor({ asOf, score: 1.5, id: 'abc' })
+    expect(decodeRankCursor(cursor)).toEqual({ asOf, score: 1.5, id: 'abc' })
+    expect(decodeRankCursor('not a cursor')).toBeNull()
+    expect(decodeRankCursor(Buffer.from('{"asOf":"x"}').toString('base64url'))).toBeNull()
+  })
+
+  it('carry the position in the chronological tail', () => {
+    const olderThan = { createdAt: asOf - 8 * 24 * HOUR_MS, id: 'abc' }
+    expect(decodeRankCursor(encodeRankCursor({ asOf, olderThan }))).toEqual({ asOf, olderThan })
+    expect(decodeRankCursor(encodeRankCursor({ asOf, olderThan: { ...olderThan, id: null } })).olderThan.id).toBeNull()
+    expect(decodeRankCursor(Buffer.from(JSON.stringify({ asOf, olderThan: { createdAt: 'x' } })).toString('base64url'))).toBeNull()
+  })
+})
+
+describe('rankingBoundary', () => {
+  it('starts the tail below the window while there are fewer candidates than the limit', () => {
+    expect(rankingBoundary([post('a', 1)], asOf)).toEqual({ createdAt: rankingWindowStart(asOf), id: null })
+  })
+
+  it('starts the tail below the oldest candidate once the limit is reached', () => {
+    const candidates = [...Array(RANKING_CANDIDATES).keys()].map(i => post(`p${i}`, i / 100))
+    const oldest = candidates[candidates.length - 1]
+    expect(rankingBoundary(candidates, asOf)).toEqual({ createdAt: oldest.createdAt.getTime(), id: oldest._id })
+  })
+
+  it('builds the query for the posts after it', () => {
+    expect(olderThanFilter({ createdAt: asOf, id: null })).toEqual({ createdAt: { $lt: new Date(asOf) } })
+    expect(olderThanFilter({ createdAt: asOf, id: 'abc' })).toEqual({
+      $or: [{ createdAt: { $lt: new Date(asOf) } }, { createdAt: new Date(asOf), _id: { $lt: 'abc' } }]
+    })
+  })
+})
+
+describe('rankPage', () => {
+  const candidates = [
+    post('old', 72, { likes: ['u1', 'u2', 'u3'] }),
+    post('new', 0),
+    post('liked', 2, { likes: ['u1', 'u2'] }),
+    post('tie', 0)
+  ]
+
+  it('orders by score and pages on from the cursor', () => {
+    const first = rankPage(candidates, { asOf, limit: 2 })
+    expect(first.page.map(item => item.id)).toEqual(['liked', 'tie'])
+    expect(first.nextCursor).not.toBeNull()
+
+    const second = rankPage(candidates, { asOf, after: decodeRankCursor(first.nextCursor), limit: 2 })
+    expect(second.page.map(item => item.id)).toEqual(['new', 'old'])
+    expect(second.nextCursor).toBeNull()
+  })
+})
\ No newline at end of file
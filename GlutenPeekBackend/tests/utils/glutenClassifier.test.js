@@ -0,0 +1,135 @@
+const { classifyIngredients, classifyProduct, splitIngredients, summarizeClassification, LEVELS } = require('../../utils/glutenClassifier')
+
+describe('splitIngredients', () => {
+  it('splits on commas and flattens sub-ingredients', () => {
+    expect(splitIngredients('Ingredients: Wheat flour (wheat, calcium), sugar 12%, salt.'))
+      .toEqual(['wheat flour', 'wheat', 'calcium', 'sugar', 'salt'])
+  })
+})
+
+describe('classifyIngredients', () => {
+  it('flags definite gluten sources as contains gluten', () => {
+    const result = classifyIngredients(['Wheat flour', 'sugar', 'salt'])
+    expect(result.level).toBe(LEVELS.CONTAINS)
+    expect(result.confidence).toBe('high')
+    expect(result.reasons).toContainEqual(expect.objectContaining({ ingredient: 'wheat flour', term: 'wheat flour', level: 1 }))
+  })
+
+  it('recognises barley, rye, spelt and malt', () => {
+    for (const ingredient of ['pearl barley', 'rye flour', 'spelt', 'malt extract']) {
+      expect(classifyIngredients(ingredient).level).toBe(LEVELS.CONTAINS)
+    }
+  })
+
+  it('reads malt vinegar as likely gluten, not as malt', () => {
+    const result = classifyIngredients(['malt vinegar'])
+    expect(result.level).toBe(LEVELS.LIKELY_CONTAINS)
+    expect(result.reasons).toContainEqual(expect.objectContaining({ term: 'malt vinegar', level: 2 }))
+    expect(result.reasons).not.toContainEqual(expect.objectContaining({ term: 'malt' }))
+  })
+
+  it('still flags a definite source next to a longer, milder term', () => {
+    expect(classifyIngredients('barley malt vinegar').level).toBe(LEVELS.CONTAINS)
+  })
+
+  it('does not mistake buckwheat or maltodextrin for gluten sources', () => {
+    const result = classifyIngredients('Buckwheat flour, maltodextrin, rice')
+    expect(result.level).toBe(LEVELS.LIKELY_FREE)
+    expect(result.reasons.every(reason => reason.level === null)).toBe(true)
+  })
+
+  it('treats soy sauce as likely containing gluten', () => {
+    expect(classifyIngredients('Rice, soy sauce, sesame oil').level).toBe(LEVELS.LIKELY_CONTAINS)
+  })
+
+  it('treats uncertified oats as may contain gluten', () => {
+    expect(classifyIngredients('Rolled oats, honey').level).toBe(LEVELS.MAY_CONTAIN)
+  })
+
+  it('accepts certified gluten-free oats', () => {
+    expect(classifyIngredients('Gluten-free oats, honey. Certified gluten-free.').level).toBe(LEVELS.FREE)
+  })
+
+  it('reports "may contain" statements that mention gluten grains', () => {
+    const result = classifyIngredients('Rice, sugar. May contain traces of wheat and barley.')
+    expect(result.level).toBe(LEVELS.MAY_CONTAIN)
+    expect(result.reasons).toContainEqual(expect.objectContaining({ category: 'may-contain', term: 'wheat' }))
+  })
+
+  it('treats "not suitable for coeliacs" as may contain gluten', () => {
+    for (const text of ['Rice, sugar. Not suitable for coeliacs.', 'Rice, sugar. Not suitable for celiacs.']) {
+      expect(classifyIngredients(text).level).toBe(LEVELS.MAY_CONTAIN)
+    }
+  })
+
+  it('keeps the whole allergen list of a "may contain" statement', () => {
+    const result = classifyIngredients('rice, sugar. May contain wheat, barley and milk.')
+    expect(result.level).toBe(LEVELS.MAY_CONTAIN)
+    expect(result.reasons.every(reason => reason.category !== 'gluten')).toBe(true)
+  })
+
+  it('ends a "may contain" statement at a full stop or a list item', () => {
+    expect(classifyIngredients('Rice. May contain nuts. Wheat flour, sugar').level).toBe(LEVELS.CONTAINS)
+    expect(classifyIngredients(['rice', 'may contain nuts', 'wheat flour']).level).toBe(LEVELS.CONTAINS)
+  })
+
+  it('accepts wheat glucose syrup written with the source in parentheses', () => {
+    const result = classifyIngredients('sugar, glucose syrup (wheat), salt')
+    expect(result.level).toBe(LEVELS.LIKELY_FREE)
+    expect(result.reasons).toContainEqual(expect.objectContaining({ term: 'glucose syrup (wheat)', category: 'safe' }))
+  })
+
+  it('does not read "wheat-free" as wheat', () => {
+    for (const text of ['Wheat-free flour blend, salt', 'wheat free flour blend', 'Rice, barley-free malt-free cereal']) {
+      expect(classifyIngredients(text).reasons.some(reason => reason.category === 'gluten')).toBe(false)
+    }
+  })
+
+  it('ignores "may contain" statements about other allergens', () => {
+    expect(classifyIngredients('Rice, sugar. May contain nuts.').level).toBe(LEVELS.LIKELY_FREE)
+  })
+
+  it('uses a gluten-free label only when no gluten source is found', () => {
+    expect(classifyIngredients('Corn, salt. Gluten free.').level).toBe(LEVELS.FREE)
+    expect(classifyIngredients('Corn, wheat starch. Gluten free.').level).toBe(LEVELS.CONTAINS)
+  })
+
+  it('returns a low-confidence may contain verdict without ingredients', () => {
+    const result = classifyIngredients([])
+    expect(result.level).toBe(LEVELS.MAY_CONTAIN)
+    expect(result.confidence).toBe('low')
+  })
+
+  it('accepts a custom lexicon', () => {
+    const lexicon = {
+      ...require('../../utils/glutenLexicon'),
+      ENTRIES: [{ terms: ['quinoa'], level: 2, reason: 'Test entry.' }]
+    }
+    expect(classifyIngredients('quinoa', { lexicon }).level).toBe(LEVELS.LIKELY_CONTAINS)
+  })
+})
+
+describe('classifyProduct', () => {
+  it('treats bare may-contain allergens as precautionary', () => {
+    const result = classifyProduct({ ingredients: ['rice', 'salt'], mayContain: ['wheat'] })
+    expect(result.level).toBe(LEVELS.MAY_CONTAIN)
+  })
+
+  it('reads each allergen in a may-contain list as precautionary', () => {
+    const result = classifyProduct({ ingredients: ['rice', 'salt'], mayContain: ['traces of nuts, wheat, barley'] })
+    expect(result.level).toBe(LEVELS.MAY_CONTAIN)
+  })
+
+  it('counts a gluten-free certification as a label claim', () => {
+    const result = classifyProduct({ ingredients: ['rice', 'salt'], certifications: ['Certified Gluten-Free'] })
+    expect(result.level).toBe(LEVELS.FREE)
+  })
+})
+
+describe('summarizeClassification', () => {
+  it('lists the terms behind the verdict', () => {
+    const summary = summarizeClassification(classifyIngredients('Barley, rye, sugar'))
+    expect(summary).toContain('barley')
+    expect(summary).toContain('rye')
+  })
+})
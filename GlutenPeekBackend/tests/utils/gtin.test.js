@@ -0,0 +1,110 @@
+const { computeCheckDigit, isValidGtin14, expandUpcE, normalizeBarcode, legacyBarcodeReadings, toGtin14, findBarcodesInText } = require('../../utils/gtin')
+
+describe('computeCheckDigit', () => {
+  it('computes the GS1 check digit for an EAN-13 body', () => {
+    expect(computeCheckDigit('400638133393')).toBe('1')
+  })
+
+  it('computes the GS1 check digit for a UPC-A body', () => {
+    expect(computeCheckDigit('03600029145')).toBe('2')
+  })
+})
+
+describe('isValidGtin14', () => {
+  it('accepts a padded EAN-13 with a correct check digit', () => {
+    expect(isValidGtin14('04006381333931')).toBe(true)
+  })
+
+  it('rejects a wrong check digit', () => {
+    expect(isValidGtin14('04006381333932')).toBe(false)
+  })
+
+  it('rejects values that are not 14 digits', () => {
+    expect(isValidGtin14('4006381333931')).toBe(false)
+    expect(isValidGtin14(4006381333931)).toBe(false)
+  })
+})
+
+describe('expandUpcE', () => {
+  it('expands each UPC-E pattern to UPC-A', () => {
+    expect(expandUpcE('04252614')).toBe('042100005264')
+    expect(expandUpcE('01234505')).toBe('012000003455')
+    expect(expandUpcE('0123453')).toBe('012300000451')
+    expect(expandUpcE('123454')).toBe('012340000053')
+    expect(expandUpcE('123457')).toBe('012345000072')
+  })
+
+  it('returns null when the supplied check digit is wrong', () => {
+    expect(expandUpcE('01234506')).toBeNull()
+  })
+
+  it('returns null for an invalid number system', () => {
+    expect(expandUpcE('21234505')).toBeNull()
+  })
+})
+
+describe('normalizeBarcode', () => {
+  it('pads EAN-13 codes to GTIN-14', () => {
+    expect(normalizeBarcode('4006381333931')).toBe('04006381333931')
+  })
+
+  it('gives UPC-A and its EAN-13 form the same GTIN-14', () => {
+    expect(normalizeBarcode('036000291452')).toBe('00036000291452')
+    expect(normalizeBarcode('0036000291452')).toBe('00036000291452')
+  })
+
+  it('keeps the leading zeros of EAN-8 codes', () => {
+    expect(normalizeBarcode('00123457')).toBe('00000000123457')
+  })
+
+  it('restores leading zeros lost when barcodes were stored as numbers', () => {
+    expect(normalizeBarcode(36000291452)).toBe('00036000291452')
+  })
+
+  it('expands UPC-E codes', () => {
+    expect(normalizeBarcode('04252614')).toBe('00042100005264')
+    expect(normalizeBarcode('123457')).toBe('00012345000072')
+  })
+
+  it('ignores spaces and dashes', () => {
+    expect(normalizeBarcode(' 4006381-333931 ')).toBe('04006381333931')
+  })
+
+  it('rejects invalid check digits, non-digits and overlong input', () => {
+    expect(normalizeBarcode('4006381333932')).toBeNull()
+    expect(normalizeBarcode('40063813339a1')).toBeNull()
+    expect(normalizeBarcode('123456789012345')).toBeNull()
+    expect(normalizeBarcode(undefined)).toBeNull()
+  })
+})
+
+describe('legacyBarcodeReadings', () => {
+  it('offers both readings of a short number', () => {
+    expect(legacyBarcodeReadings(123457)).toEqual({ upcE: '00012345000072', ean8: '00000000123457' })
+  })
+
+  it('leaves strings and longer numbers alone', () => {
+    expect(legacyBarcodeReadings('123457')).toBeNull()
+    expect(legacyBarcodeReadings(36000291452)).toBeNull()
+  })
+})
+
+describe('toGtin14', () => {
+  it('leaves invalid values unchanged for the validator to reject', () => {
+    expect(toGtin14('12345')).toBe('12345')
+    expect(toGtin14('4006381333931')).toBe('04006381333931')
+  })
+})
+
+
+describe('findBarcodesInText', () => {
+  it('picks valid barcodes out of text once each', () => {
+    expect(findBarcodesInText('Is 4006381333931 still safe? Same as 4006381333931 and 036000291452.'))
+      .toEqual(['04006381333931', '00036000291452'])
+  })
+
+  it('ignores numbers that are not barcodes', () => {
+    expect(findBarcodesInText('Reacted 3 times since 2024, call 4006381333932')).toEqual([])
+    expect(findBarcodesInText(undefined)).toEqual([])
+  })
+})
\ No newline at end of file
@@ -0,0 +1,46 @@
+const sharp = require('sharp')
+const { processImage, hashContent } = require('../../utils/imagePipeline')
+
+// A 600x300 JPEG tagged as "rotate 90° clockwise", with some EXIF like a phone would write
+const phonePhoto = () => sharp({ create: { width: 600, height: 300, channels: 3, background: '#c08040' } })
+  .jpeg()
+  .withMetadata({ orientation: 6, exif: { IFD0: { Make: 'TestPhone', Copyright: 'someone' } } })
+  .toBuffer()
+
+describe('processImage', () => {
+  let input
+  let result
+
+  beforeAll(async () => {
+    input = await phonePhoto()
+    result = await processImage(input)
+  })
+
+  it('applies the EXIF orientation', () => {
+    expect(result.width).toBe(300)
+    expect(result.height).toBe(600)
+  })
+
+  it('builds WebP and JPEG variants without upscaling', () => {
+    const widths = [...new Set(result.variants.map(v => v.width))]
+    expect(widths).toEqual([160, 300])
+    expect(result.variants.map(v => v.format)).toEqual(['webp', 'jpeg', 'webp', 'jpeg'])
+  })
+
+  it('strips EXIF metadata from every variant', async () => {
+    for (const variant of result.variants) {
+      const metadata = await sharp(variant.buffer).metadata()
+      expect(metadata.exif).toBeUndefined()
+      expect(metadata.orientation).toBeUndefined()
+    }
+  })
+
+  it('keys variants by content hash so identical uploads share them', () => {
+    expect(result.contentHash).toBe(hashContent(input))
+    expect(result.variants[0].key).toBe(`media/${result.contentHash.slice(0, 2)}/${result.contentHash}/160.webp`)
+  })
+
+  it('rejects data that is not an image', async () => {
+    await expect(processImage(Buffer.from('not an image'))).rejects.toThrow()
+  })
+})
\ No newline at end of file
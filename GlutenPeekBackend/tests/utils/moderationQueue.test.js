@@ -0,0 +1,85 @@
+const mongoose = require('mongoose')
+const { encodeCursor, decodeCursor, queuePipeline } = require('../../utils/moderationQueue')
+
+const baseOptions = { states: ['open', 'in_review'], limit: 20, now: new Date('2026-06-01T00:00:00Z') }
+
+describe('queue cursors', () => {
+  it('round-trips the sort key of an item', () => {
+    const id = new mongoose.Types.ObjectId().toString()
+    const cursor = decodeCursor(encodeCursor({ priority: 7, queuedAt: '2026-05-01T10:00:00.000Z', id }))
+    expect(cursor.priority).toBe(7)
+    expect(cursor.queuedAt).toEqual(new Date('2026-05-01T10:00:00.000Z'))
+    expect(cursor.id.toString()).toBe(id)
+  })
+
+  it('rejects malformed cursors', () => {
+    expect(decodeCursor('not-a-cursor')).toBeNull()
+    expect(decodeCursor(Buffer.from(JSON.stringify([1, 'yesterday', 'x'])).toString('base64url'))).toBeNull()
+  })
+})
+
+describe('queuePipeline', () => {
+  it('starts from the first type and unions the others', () => {
+    const { model, pipeline } = queuePipeline(baseOptions)
+    expect(model.modelName).toBe('Claim')
+    const unions = pipeline.filter(stage => stage.$unionWith).map(stage => stage.$unionWith.coll)
+    expect(unions).toHaveLength(2)
+  })
+
+  it('reads only the requested type', () => {
+    const { model, pipeline } = queuePipeline({ ...baseOptions, types: ['post'] })
+    expect(model.modelName).toBe('Post')
+    expect(pipeline.some(stage => stage.$unionWith)).toBe(false)
+    expect(pipeline[0]).toEqual({ $match: { 'moderation.state': { $in: ['open'] } } })
+  })
+
+  it('skips resolved history unless resolved items are requested', () => {
+    const open = queuePipeline({ ...baseOptions, types: ['claim'] }).pipeline[0]
+    expect(open.$match.state.$in).toEqual(['open', 'under_review'])
+
+    const resolved = queuePipeline({ ...baseOptions, types: ['claim'], states: ['resolved'] }).pipeline[0]
+    expect(resolved.$match.state.$in).toEqual(['accepted', 'rejected', 'duplicate'])
+  })
+
+  it('applies the common filters after combining the sources', () => {
+    const queuedBefore = new Date('2026-05-25T00:00:00Z')
+    const { pipeline } = queuePipeline({ ...baseOptions, productBarcode: '04006381333931', queuedBefore, assignedTo: null })
+    const filters = pipeline.find(stage => stage.$match && stage.$match.state && stage.$match.state.$in === baseOptions.states)
+    expect(filters.$match).toEqual({
+      state: { $in: ['open', 'in_review'] },
+      productBarcode: '04006381333931',
+      queuedAt: { $lt: queuedBefore },
+      assignedTo: null
+    })
+  })
+
+  it('carries the proposed change for claims only', () => {
+    const claims = queuePipeline({ ...baseOptions, types: ['claim'] }).pipeline[1]
+    expect(claims.$project.claim).toEqual({
+      proposedStatus: '$proposedStatus',
+      reason: '$reason',
+      evidenceUrls: '$evidenceUrls',
+      voteSummary: '$voteSummary',
+      escalatedAt: '$escalatedAt'
+    })
+
+    const posts = queuePipeline({ ...baseOptions, types: ['post'] }).pipeline[1]
+    expect(posts.$project.claim).toEqual({ $literal: null })
+  })
+
+  it('relates reported posts to the first product they are about', () => {
+    const posts = queuePipeline({ ...baseOptions, types: ['post'] }).pipeline[1]
+    expect(posts.$project.productBarcode).toEqual({ $ifNull: [{ $arrayElemAt: ['$productBarcodes', 0] }, null] })
+  })
+
+  it('ranks claims up by a positive vote score only', () => {
+    const claims = queuePipeline({ ...baseOptions, types: ['claim'] }).pipeline[1]
+    expect(claims.$project.votes).toEqual({ $max: [0, { $ifNull: ['$voteSummary.score', 0] }] })
+  })
+
+  it('sorts by priority, then oldest first, and fetches one extra item', () => {
+    const { pipeline } = queuePipeline(baseOptions)
+    expect(pipeline.find(stage => stage.$sort).$sort).toEqual({ priority: -1, queuedAt: 1, _id: 1 })
+    expect(pipeline.find(stage => stage.$limit).$limit).toBe(21)
+  })
+})
\ No newline at end of file
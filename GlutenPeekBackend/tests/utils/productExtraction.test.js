@@ -0,0 +1,50 @@
+const { normalizeExtraction } = require('../../utils/ai/productExtraction')
+
+const valid = {
+  name: 'Oat Crackers',
+  brand: 'Acme',
+  ingredients: ['Oats', 'Sunflower oil', 'Salt'],
+  allergens: ['Contains: oats'],
+  mayContain: ['May contain traces of wheat'],
+  certifications: ['Certified Gluten-Free'],
+  language: 'en',
+  confidence: 0.9
+}
+
+describe('normalizeExtraction', () => {
+  it('passes a valid extraction through unchanged', () => {
+    expect(normalizeExtraction(valid)).toEqual({ ...valid, repairs: [] })
+  })
+
+  it('splits an ingredient statement given as text, keeping parentheses together', () => {
+    const result = normalizeExtraction({ ...valid, ingredients: 'Ingredients: wheat flour, chocolate (sugar, cocoa); salt.' })
+    expect(result.ingredients).toEqual(['wheat flour', 'chocolate (sugar, cocoa)', 'salt'])
+    expect(result.repairs).toContain('ingredients was text; split into a list')
+  })
+
+  it('drops blanks, non-strings and duplicates from lists', () => {
+    const result = normalizeExtraction({ ...valid, certifications: ['Crossed Grain', '', 42, 'Crossed Grain'] })
+    expect(result.certifications).toEqual(['Crossed Grain'])
+  })
+
+  it('repairs locale and percentage confidence', () => {
+    const result = normalizeExtraction({ ...valid, language: 'en-GB', confidence: 85 })
+    expect(result.language).toBe('en')
+    expect(result.confidence).toBeCloseTo(0.85)
+    expect(result.repairs).toHaveLength(2)
+  })
+
+  it('defaults missing optional fields', () => {
+    const result = normalizeExtraction({ name: 'Rice Cakes', ingredients: ['rice'] })
+    expect(result).toMatchObject({ brand: null, allergens: [], mayContain: [], certifications: [], language: null, confidence: 0 })
+  })
+
+  it('rejects responses that are not objects', () => {
+    expect(() => normalizeExtraction('Product name: Bread')).toThrow('AI response was not a JSON object.')
+    expect(() => normalizeExtraction([valid])).toThrow('AI response was not a JSON object.')
+  })
+
+  it('rejects responses with neither a name nor ingredients', () => {
+    expect(() => normalizeExtraction({ name: ' ', ingredients: [] })).toThrow('did not contain a product name or ingredients')
+  })
+})
\ No newline at end of file
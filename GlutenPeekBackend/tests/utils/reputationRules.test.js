@@ -0,0 +1,39 @@
+const { hasPrivilege, privilegesFor } = require('../../utils/roles')
+const { REPUTATION_REWARDS, nextPrivilege } = require('../../utils/reputationRules')
+
+describe('privileges', () => {
+  it('are granted by role', () => {
+    expect(privilegesFor({ role: 'member' })).toEqual([])
+    expect(privilegesFor({ role: 'contributor' })).toEqual(['publish_products'])
+    expect(privilegesFor({ role: 'moderator' })).toEqual(['publish_products', 'instant_status', 'moderate'])
+  })
+
+  it('are earned with reputation', () => {
+    expect(hasPrivilege({ role: 'member', reputation: 49 }, 'publish_products')).toBe(false)
+    expect(hasPrivilege({ role: 'member', reputation: 50 }, 'publish_products')).toBe(true)
+    expect(privilegesFor({ role: 'member', reputation: 200 })).toEqual(['publish_products', 'instant_status'])
+    expect(hasPrivilege({ role: 'contributor', reputation: 500 }, 'moderate')).toBe(true)
+  })
+
+  it('rejects unknown privileges and missing users', () => {
+    expect(hasPrivilege({ role: 'admin' }, 'delete_everything')).toBe(false)
+    expect(hasPrivilege(null, 'publish_products')).toBe(false)
+  })
+})
+
+describe('nextPrivilege', () => {
+  it('points at the cheapest privilege still locked', () => {
+    expect(nextPrivilege({ role: 'member', reputation: 10 })).toEqual({ privilege: 'publish_products', reputation: 50 })
+    expect(nextPrivilege({ role: 'contributor', reputation: 10 })).toEqual({ privilege: 'instant_status', reputation: 200 })
+  })
+
+  it('is null once everything is unlocked', () => {
+    expect(nextPrivilege({ role: 'moderator' })).toBeNull()
+  })
+})
+
+describe('REPUTATION_REWARDS', () => {
+  it('takes back exactly what a like earned', () => {
+    expect(REPUTATION_REWARDS.post_liked + REPUTATION_REWARDS.post_unliked).toBe(0)
+  })
+})
\ No newline at end of file
@@ -0,0 +1,55 @@
+const { advanceStreak, streakFromHistory, currentStreak } = require('../../utils/streakCalculator')
+
+describe('advanceStreak', () => {
+  it('starts a streak on the first active day', () => {
+    expect(advanceStreak(null, '2026-05-01')).toEqual({ current: 1, longest: 1, lastActiveDay: '2026-05-01' })
+  })
+
+  it('extends the streak on the next day and ignores repeat activity on the same day', () => {
+    let state = advanceStreak(null, '2026-05-01')
+    state = advanceStreak(state, '2026-05-01')
+    state = advanceStreak(state, '2026-05-02')
+    expect(state).toEqual({ current: 2, longest: 2, lastActiveDay: '2026-05-02' })
+  })
+
+  it('restarts after a gap but keeps the longest streak', () => {
+    const state = advanceStreak({ current: 5, longest: 5, lastActiveDay: '2026-05-05' }, '2026-05-07')
+    expect(state).toEqual({ current: 1, longest: 5, lastActiveDay: '2026-05-07' })
+  })
+
+  it('continues across month ends', () => {
+    expect(advanceStreak({ current: 3, longest: 4, lastActiveDay: '2026-02-28' }, '2026-03-01').current).toBe(4)
+  })
+})
+
+describe('streakFromHistory', () => {
+  it('gives the same state as advancing day by day, in any order', () => {
+    const dates = ['2026-05-03T10:00:00Z', '2026-05-01T10:00:00Z', '2026-05-02T22:00:00Z', '2026-05-06T08:00:00Z']
+    expect(streakFromHistory(dates, 'UTC')).toEqual({ current: 1, longest: 3, lastActiveDay: '2026-05-06' })
+  })
+
+  it('uses local days', () => {
+    // 2026-05-02T02:00Z is still the evening of 1 May in Los Angeles
+    const dates = ['2026-05-01T18:00:00Z', '2026-05-02T02:00:00Z']
+    expect(streakFromHistory(dates, 'America/Los_Angeles')).toEqual({ current: 1, longest: 1, lastActiveDay: '2026-05-01' })
+    expect(streakFromHistory(dates, 'UTC').current).toBe(2)
+  })
+
+  it('is empty without activity', () => {
+    expect(streakFromHistory([], 'UTC')).toEqual({ current: 0, longest: 0, lastActiveDay: null })
+  })
+})
+
+describe('currentStreak', () => {
+  const state = { current: 4, longest: 6, lastActiveDay: '2026-05-10' }
+
+  it('counts only while the last active day is today', () => {
+    expect(currentStreak(state, 'UTC', new Date('2026-05-10T12:00:00Z'))).toBe(4)
+    expect(currentStreak(state, 'UTC', new Date('2026-05-11T12:00:00Z'))).toBe(0)
+  })
+
+  it('compares against today in the user\'s time zone', () => {
+    // 03:00Z on 11 May is still 10 May in New York
+    expect(currentStreak(state, 'America/New_York', new Date('2026-05-11T03:00:00Z'))).toBe(4)
+  })
+})
\ No newline at end of file
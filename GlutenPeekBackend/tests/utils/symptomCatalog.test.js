@@ -0,0 +1,53 @@
+const { SYMPTOMS, CATEGORIES, SEVERITY_SCALE, validateSymptomReport, resolveLocale, getCatalog } = require('../../utils/symptomCatalog')
+
+describe('symptom catalog', () => {
+  it('has unique ids that are safe as Map keys', () => {
+    const ids = SYMPTOMS.map(symptom => symptom.id)
+    expect(new Set(ids).size).toBe(ids.length)
+    ids.forEach(id => expect(id).toMatch(/^[a-z_]+$/))
+  })
+
+  it('puts every symptom in a known category with an English name', () => {
+    const categoryIds = CATEGORIES.map(category => category.id)
+    SYMPTOMS.forEach(symptom => {
+      expect(categoryIds).toContain(symptom.category)
+      expect(symptom.name.en).toBeTruthy()
+      expect(symptom.description.en).toBeTruthy()
+    })
+  })
+
+  it('defines a contiguous severity scale', () => {
+    expect(SEVERITY_SCALE.map(step => step.level)).toEqual([1, 2, 3, 4, 5])
+  })
+})
+
+describe('validateSymptomReport', () => {
+  it('accepts catalog ids with whole-number severities', () => {
+    expect(validateSymptomReport({ bloating: 1, headache: 5 })).toBeNull()
+  })
+
+  it('rejects unknown ids, bad severities and empty reports', () => {
+    expect(validateSymptomReport({ 'Symptom 1': 3 })).toBe('Unknown symptom: Symptom 1')
+    expect(validateSymptomReport({ bloating: 0 })).toMatch(/from 1 to 5/)
+    expect(validateSymptomReport({ bloating: 2.5 })).toMatch(/from 1 to 5/)
+    expect(validateSymptomReport({ bloating: '3' })).toMatch(/from 1 to 5/)
+    expect(validateSymptomReport({})).toBe('Report at least one symptom.')
+    expect(validateSymptomReport(['bloating'])).toMatch(/must be an object/)
+  })
+})
+
+describe('getCatalog', () => {
+  it('resolves texts to the requested locale', () => {
+    const catalog = getCatalog('de-AT')
+    expect(catalog.locale).toBe('de')
+    expect(catalog.symptoms.find(symptom => symptom.id === 'headache').name).toBe('Kopfschmerzen')
+    expect(catalog.severityScale[0].label).toBe('Leicht')
+  })
+
+  it('falls back to English for missing translations and unknown locales', () => {
+    expect(resolveLocale('xx')).toBe('en')
+    expect(resolveLocale(undefined)).toBe('en')
+    const catalog = getCatalog('fr')
+    expect(catalog.symptoms.find(symptom => symptom.id === 'headache').description).toBe('Pain or pressure in the head, including migraine.')
+  })
+})
\ No newline at end of file
@@ -0,0 +1,56 @@
+const { applyReporterThreshold, productSymptomPipeline, windowStart } = require('../../utils/symptomStats')
+
+const counts = {
+  reporters: 6,
+  reports: 9,
+  symptoms: [
+    { symptomId: 'headache', reports: 4, reporters: 2, averageSeverity: 3, maxSeverity: 4 },
+    { symptomId: 'bloating', reports: 7, reporters: 5, averageSeverity: 2.4285, maxSeverity: 5 },
+    { symptomId: 'nausea', reports: 6, reporters: 6, averageSeverity: 2, maxSeverity: 3 }
+  ]
+}
+
+describe('applyReporterThreshold', () => {
+  it('hides symptoms with too few distinct reporters', () => {
+    const result = applyReporterThreshold(counts, 5)
+    expect(result.suppressed).toBe(false)
+    expect(result.symptoms.map(symptom => symptom.symptomId)).toEqual(['nausea', 'bloating'])
+    expect(result.hiddenSymptoms).toBe(1)
+    expect(result.reporters).toBe(6)
+  })
+
+  it('rounds average severity to one decimal', () => {
+    const result = applyReporterThreshold(counts, 5)
+    expect(result.symptoms.find(symptom => symptom.symptomId === 'bloating').averageSeverity).toBe(2.4)
+  })
+
+  it('suppresses everything when the product has too few reporters', () => {
+    const result = applyReporterThreshold(counts, 10)
+    expect(result).toEqual({ suppressed: true, reporters: null, reports: null, symptoms: [], hiddenSymptoms: 3 })
+  })
+})
+
+describe('productSymptomPipeline', () => {
+  it('matches on the given criteria before grouping', () => {
+    const match = { productBarcode: '04006381333931' }
+    const pipeline = productSymptomPipeline(match)
+    expect(pipeline[0]).toEqual({ $match: match })
+    expect(Object.keys(pipeline[1].$facet)).toEqual(['reporters', 'reports', 'symptoms'])
+  })
+})
+
+describe('windowStart', () => {
+  const now = new Date('2026-10-19T15:30:00Z')
+
+  it('starts a window at midnight UTC, so it moves once a day', () => {
+    expect(windowStart(30, now)).toEqual(new Date('2026-09-19T00:00:00Z'))
+    expect(windowStart(30, new Date('2026-10-19T23:59:00Z'))).toEqual(windowStart(30, now))
+  })
+
+  it('only offers the fixed windows', () => {
+    expect(windowStart(365, now)).toEqual(new Date('2025-10-19T00:00:00Z'))
+    for (const days of [31, 89, 1, 0, NaN]) {
+      expect(windowStart(days, now)).toBeNull()
+    }
+  })
+})
\ No newline at end of file
@@ -0,0 +1,68 @@
+const { normalizeTag, extractHashtags, extractMentionIds, mergeTagCounts } = require('../../utils/textEntities')
+
+const ALICE = '64b7f0c2a1b2c3d4e5f60718'
+const BOB = '64b7f0c2a1b2c3d4e5f60719'
+
+describe('normalizeTag', () => {
+  it('strips the # and lower-cases the tag', () => {
+    expect(normalizeTag('#GlutenFree')).toBe('glutenfree')
+  })
+
+  it('keeps letters outside ASCII', () => {
+    expect(normalizeTag('Glutenfrei_Käse')).toBe('glutenfrei_käse')
+  })
+
+  it('rejects tags without a letter, with punctuation or that are too long', () => {
+    expect(normalizeTag('#2024')).toBeNull()
+    expect(normalizeTag('gluten-free')).toBeNull()
+    expect(normalizeTag('a'.repeat(51))).toBeNull()
+    expect(normalizeTag('')).toBeNull()
+    expect(normalizeTag(undefined)).toBeNull()
+  })
+})
+
+describe('extractHashtags', () => {
+  it('returns unique lower-cased tags in order of appearance', () => {
+    expect(extractHashtags('Loving this #GlutenFree bread! #celiac #glutenfree')).toEqual(['glutenfree', 'celiac'])
+  })
+
+  it('stops a tag at punctuation', () => {
+    expect(extractHashtags('(#bread), #pasta.')).toEqual(['bread', 'pasta'])
+  })
+
+  it('ignores numbers, URL fragments and HTML entities', () => {
+    expect(extractHashtags('We were #1 at https://example.com/page#section &#39;')).toEqual([])
+  })
+
+  it('handles missing text', () => {
+    expect(extractHashtags(null)).toEqual([])
+    expect(extractHashtags()).toEqual([])
+  })
+})
+
+describe('extractMentionIds', () => {
+  it('returns unique user ids from mention markup', () => {
+    const text = `Thanks @[Alice Smith](${ALICE}) and @[Bob](${BOB}), cc @[Alice Smith](${ALICE})`
+    expect(extractMentionIds(text)).toEqual([ALICE, BOB])
+  })
+
+  it('ignores plain @names and malformed ids', () => {
+    expect(extractMentionIds('hi @alice and @[Bob](not-an-id)')).toEqual([])
+  })
+})
+
+describe('mergeTagCounts', () => {
+  it('adds up counts across groups and sorts by count, then tag', () => {
+    const posts = [{ _id: 'bread', count: 3 }, { _id: 'pasta', count: 1 }]
+    const comments = [{ _id: 'pasta', count: 2 }, { _id: 'beer', count: 3 }]
+    expect(mergeTagCounts([posts, comments])).toEqual([
+      { tag: 'beer', count: 3 },
+      { tag: 'bread', count: 3 },
+      { tag: 'pasta', count: 3 }
+    ])
+  })
+
+  it('keeps only the top tags', () => {
+    expect(mergeTagCounts([[{ _id: 'a', count: 1 }, { _id: 'b', count: 2 }]], 1)).toEqual([{ tag: 'b', count: 2 }])
+  })
+})
\ No newline at end of file
@@ -0,0 +1,82 @@
+const { isValidTimeZone, resolveTimeZone, localDateKey, isDateKey, countDateKeys, dateKeysBetween, startOfLocalDay, hoursInLocalDay } = require('../../utils/timezone')
+const { countStreak } = require('../../utils/streakCalculator')
+
+describe('timezone helpers', () => {
+  it('validates IANA names', () => {
+    expect(isValidTimeZone('America/Los_Angeles')).toBe(true)
+    expect(isValidTimeZone('UTC')).toBe(true)
+    expect(isValidTimeZone('Mars/Olympus_Mons')).toBe(false)
+    expect(isValidTimeZone('')).toBe(false)
+    expect(resolveTimeZone({ settings: {} })).toBe('UTC')
+    expect(resolveTimeZone({ settings: { timezone: 'Europe/Berlin' } })).toBe('Europe/Berlin')
+  })
+
+  it('puts an evening scan in UTC-7 on the local day', () => {
+    // 8pm on 14 July in Los Angeles (PDT, UTC-7) is already 15 July in UTC
+    expect(localDateKey('2026-07-15T03:00:00Z', 'America/Los_Angeles')).toBe('2026-07-14')
+    expect(localDateKey('2026-07-15T03:00:00Z', 'UTC')).toBe('2026-07-15')
+  })
+
+  it('checks and lists date keys', () => {
+    expect(isDateKey('2026-02-28')).toBe(true)
+    expect(isDateKey('2026-02-30')).toBe(false)
+    expect(isDateKey('2026-02-28T00:00:00Z')).toBe(false)
+    expect(dateKeysBetween('2026-02-27', '2026-03-02')).toEqual(['2026-02-27', '2026-02-28', '2026-03-01', '2026-03-02'])
+    expect(countDateKeys('2026-02-27', '2026-03-02')).toBe(4)
+    expect(countDateKeys('2026-03-02', '2026-03-02')).toBe(1)
+    expect(countDateKeys('2024-01-01', '2024-12-31')).toBe(366)
+    expect(countDateKeys('1000-01-01', '9999-12-31')).toBe(3287182)
+  })
+
+  describe('around DST changes', () => {
+    it('handles the spring-forward day in Los Angeles (23 hours)', () => {
+      expect(startOfLocalDay('2026-03-08', 'America/Los_Angeles').toISOString()).toBe('2026-03-08T08:00:00.000Z')
+      expect(startOfLocalDay('2026-03-09', 'America/Los_Angeles').toISOString()).toBe('2026-03-09T07:00:00.000Z')
+      expect(hoursInLocalDay('2026-03-08', 'America/Los_Angeles')).toBe(23)
+    })
+
+    it('handles the fall-back day in Los Angeles (25 hours)', () => {
+      expect(hoursInLocalDay('2026-11-01', 'America/Los_Angeles')).toBe(25)
+      // 11:30pm PST on 1 November is still that local day
+      expect(localDateKey('2026-11-02T07:30:00Z', 'America/Los_Angeles')).toBe('2026-11-01')
+    })
+
+    it('handles Europe/Berlin', () => {
+      expect(startOfLocalDay('2026-03-29', 'Europe/Berlin').toISOString()).toBe('2026-03-28T23:00:00.000Z')
+      expect(startOfLocalDay('2026-03-30', 'Europe/Berlin').toISOString()).toBe('2026-03-29T22:00:00.000Z')
+    })
+
+    it('starts the day at 1am where DST skips midnight', () => {
+      // Chile moves clocks from 24:00 to 01:00 on 6 September 2026
+      expect(startOfLocalDay('2026-09-06', 'America/Santiago').toISOString()).toBe('2026-09-06T04:00:00.000Z')
+      expect(hoursInLocalDay('2026-09-06', 'America/Santiago')).toBe(23)
+    })
+  })
+})
+
+describe('countStreak', () => {
+  const now = new Date('2026-07-15T05:00:00Z') // 10pm on 14 July in Los Angeles
+
+  it('counts evening activity on the local day', () => {
+    const dates = ['2026-07-15T03:00:00Z', '2026-07-14T03:00:00Z', '2026-07-13T03:00:00Z'] // 8pm on 14, 13 and 12 July PDT
+    expect(countStreak(dates, 'America/Los_Angeles', now)).toBe(3)
+    // In UTC the latest scan falls on 15 July, which is "today" there; 12 July's is on the 13th
+    expect(countStreak(dates, 'UTC', now)).toBe(3)
+    expect(countStreak(dates.slice(1), 'UTC', now)).toBe(0)
+    expect(countStreak(dates.slice(1), 'America/Los_Angeles', now)).toBe(0)
+  })
+
+  it('does not break across the spring-forward night', () => {
+    const dates = ['2026-03-07T20:00:00Z', '2026-03-08T20:00:00Z', '2026-03-09T19:00:00Z'] // Noon each day in Los Angeles
+    expect(countStreak(dates, 'America/Los_Angeles', new Date('2026-03-09T20:00:00Z'))).toBe(3)
+  })
+
+  it('does not double count the repeated hour when clocks fall back', () => {
+    const dates = ['2026-11-01T08:30:00Z', '2026-11-01T09:30:00Z'] // 1:30am PDT and 1:30am PST
+    expect(countStreak(dates, 'America/Los_Angeles', new Date('2026-11-01T20:00:00Z'))).toBe(1)
+  })
+
+  it('is 0 without activity', () => {
+    expect(countStreak([], 'UTC', now)).toBe(0)
+  })
+})
\ No newline at end of file
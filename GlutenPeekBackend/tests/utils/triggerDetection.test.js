@@ -0,0 +1,58 @@
+const { detectTriggers, relativeRisk } = require('../../utils/triggerDetection')
+
+const day = (n, hour = 12) => new Date(Date.UTC(2026, 0, n, hour)).toISOString()
+
+const products = [
+  { barcode: '00000000000017', name: 'Rye Crackers', ingredients: ['Rye flour', 'Salt'] },
+  { barcode: '00000000000024', name: 'Rice Cakes', ingredients: ['rice', 'salt'] }
+]
+
+// Crackers on days 1-5, each followed by bloating; rice cakes on days 6-11, with one symptom
+const scans = [
+  ...[1, 2, 3, 4, 5].map(n => ({ productBarcode: '00000000000017', date: day(n, 8) })),
+  ...[6, 7, 8, 9, 10, 11].map(n => ({ productBarcode: '00000000000024', date: day(n, 8) }))
+]
+const symptoms = [
+  ...[1, 2, 3, 4, 5].map(n => ({ date: day(n, 14), symptoms: { bloating: 3 } })),
+  { date: day(9, 10), symptoms: { headache: 2 } }
+]
+
+describe('relativeRisk', () => {
+  it('compares the exposed rate with the unexposed rate', () => {
+    expect(relativeRisk(4, 8, 2, 8).relativeRisk).toBeCloseTo(2)
+  })
+
+  it('stays finite when a cell is empty', () => {
+    const result = relativeRisk(5, 5, 0, 6)
+    expect(Number.isFinite(result.relativeRisk)).toBe(true)
+    expect(Number.isFinite(result.ciUpper)).toBe(true)
+  })
+})
+
+describe('detectTriggers', () => {
+  it('flags the product and its distinctive ingredient', () => {
+    const result = detectTriggers({ scans, symptoms, products })
+    expect(result.scans).toBe(11)
+    expect(result.scansFollowedBySymptoms).toBe(6)
+
+    expect(result.products).toHaveLength(1)
+    const [crackers] = result.products
+    expect(crackers).toMatchObject({ barcode: '00000000000017', name: 'Rye Crackers', exposures: 5, followed: 5, confidence: 'high' })
+    expect(crackers.relativeRisk).toBeGreaterThan(1)
+    expect(crackers.topSymptoms).toEqual([{ symptomId: 'bloating', count: 5 }])
+
+    // Salt is in both products, so only rye flour stands out
+    expect(result.ingredients.map(trigger => trigger.ingredient)).toEqual(['rye flour'])
+  })
+
+  it('ignores symptoms outside the window', () => {
+    const result = detectTriggers({ scans, symptoms, products, windowHours: 4 })
+    expect(result.scansFollowedBySymptoms).toBe(1)
+    expect(result.products).toHaveLength(0)
+  })
+
+  it('needs a minimum number of exposures', () => {
+    const result = detectTriggers({ scans, symptoms, products, minExposures: 6 })
+    expect(result.products).toHaveLength(0)
+  })
+})
\ No newline at end of file
@@ -0,0 +1,52 @@
+const { detectContentType, validateUploadRequest } = require('../../utils/uploadPolicy')
+const localStorage = require('../../utils/storage/local')
+
+describe('detectContentType', () => {
+  it('recognises image signatures', () => {
+    expect(detectContentType(Buffer.from([0xff, 0xd8, 0xff, 0xe0]))).toBe('image/jpeg')
+    expect(detectContentType(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]))).toBe('image/png')
+    expect(detectContentType(Buffer.from('GIF89a'))).toBe('image/gif')
+    expect(detectContentType(Buffer.from('RIFF\x00\x00\x00\x00WEBP', 'latin1'))).toBe('image/webp')
+  })
+
+  it('rejects anything else', () => {
+    expect(detectContentType(Buffer.from('%PDF-1.7'))).toBeNull()
+    expect(detectContentType(Buffer.from('<svg'))).toBeNull()
+    expect(detectContentType(Buffer.alloc(0))).toBeNull()
+  })
+})
+
+describe('validateUploadRequest', () => {
+  it('accepts an image within the purpose limit', () => {
+    expect(validateUploadRequest({ purpose: 'product', contentType: 'image/jpeg', size: 1024 })).toBeNull()
+  })
+
+  it('rejects unknown purposes, types and sizes', () => {
+    expect(validateUploadRequest({ purpose: 'avatar', contentType: 'image/jpeg', size: 1024 })).toMatch(/Invalid purpose/)
+    expect(validateUploadRequest({ purpose: 'post', contentType: 'image/svg+xml', size: 1024 })).toMatch(/Unsupported file type/)
+    expect(validateUploadRequest({ purpose: 'post', contentType: 'image/png', size: 0 })).toMatch(/positive/)
+    expect(validateUploadRequest({ purpose: 'profile', contentType: 'image/png', size: 3 * 1024 * 1024 })).toMatch(/Maximum size is 2 MB/)
+  })
+})
+
+describe('local storage upload URLs', () => {
+  const upload = { id: 'abc123', key: 'post/u1/file.jpg', contentType: 'image/jpeg', size: 2048 }
+
+  const signedParams = async (expiresIn) => {
+    const { uploadUrl } = await localStorage.createUploadUrl({ ...upload, expiresIn })
+    const params = new URL(uploadUrl).searchParams
+    return { expires: params.get('expires'), signature: params.get('signature') }
+  }
+
+  it('verifies its own signature', async () => {
+    expect(localStorage.verifyUploadUrl({ ...upload, ...(await signedParams(60)) })).toBe(true)
+  })
+
+  it('rejects a URL reused for a different file size', async () => {
+    expect(localStorage.verifyUploadUrl({ ...upload, size: 4096, ...(await signedParams(60)) })).toBe(false)
+  })
+
+  it('rejects an expired URL', async () => {
+    expect(localStorage.verifyUploadUrl({ ...upload, ...(await signedParams(-1)) })).toBe(false)
+  })
+})
\ No newline at end of file
@@ -0,0 +1,74 @@
+const Scan = require('../models/scan')
+const Product = require('../models/product')
+const Claim = require('../models/claim')
+
+// Milestone badges. Each is earned once its metric reaches the goal and is
+// kept from then on, even if the count later drops (e.g. a scan is deleted).
+const ACHIEVEMENTS = [
+  { id: 'first_scan', name: 'First Scan', description: 'Scan your first product.', icon: '🔍', metric: 'scans', goal: 1 },
+  { id: 'streak_7', name: 'On a Roll', description: 'Keep a 7-day streak.', icon: '🔥', metric: 'longestStreak', goal: 7 },
+  { id: 'products_10', name: 'Contributor', description: 'Add 10 products to the database.', icon: '📦', metric: 'productsContributed', goal: 10 },
+  { id: 'first_accepted_claim', name: 'Fact Checker', description: 'Have a claim accepted by a moderator.', icon: '✅', metric: 'acceptedClaims', goal: 1 }
+]
+
+// Current value of every metric for a user
+const collectProgress = async (user) => {
+  const [scans, productsContributed, acceptedClaims] = await Promise.all([
+    Scan.countDocuments({ userId: user._id }),
+    Product.countDocuments({ createdBy: user._id, 'moderation.state': { $ne: 'rejected' } }),
+    Claim.countDocuments({ userId: user._id, state: 'accepted' })
+  ])
+  return {
+    scans,
+    productsContributed,
+    acceptedClaims,
+    longestStreak: user.streak ? user.streak.longest : 0
+  }
+}
+
+// Ids of achievements reached by `progress` that are not in `earned` yet
+const newlyEarned = (progress, earned = []) => {
+  const earnedIds = new Set(earned.map(achievement => achievement.id))
+  return ACHIEVEMENTS
+    .filter(achievement => !earnedIds.has(achievement.id) && (progress[achievement.metric] || 0) >= achievement.goal)
+    .map(achievement => achievement.id)
+}
+
+// Earned badges, most recent first, and the upcoming ones with progress towards
+// them. Without progress (e.g. on another user's profile) only earned badges are listed.
+const describeAchievements = (earned = [], progress = null) => {
+  const earnedAt = new Map(earned.map(achievement => [achievement.id, achievement.earnedAt]))
+  const badge = ({ metric, ...achievement }) => achievement
+
+  return {
+    earned: ACHIEVEMENTS
+      .filter(achievement => earnedAt.has(achievement.id))
+      .map(achievement => ({ ...badge(achievement), earnedAt: earnedAt.get(achievement.id) }))
+      .sort((a, b) => new Date(b.earnedAt) - new Date(a.earnedAt)),
+    upcoming: progress
+      ? ACHIEVEMENTS
+        .filter(achievement => !earnedAt.has(achievement.id))
+        .map(achievement => ({ ...badge(achievement), progress: Math.min(progress[achievement.metric] || 0, achievement.goal) }))
+      : []
+  }
+}
+
+// Records any newly reached achievements on the user and returns their progress
+const awardAchievements = async (user) => {
+  const progress = await collectProgress(user)
+  const ids = newlyEarned(progress, user.achievements)
+  if (ids.length > 0) {
+    const earnedAt = new Date()
+    ids.forEach(id => user.achievements.push({ id, earnedAt }))
+    await user.save()
+  }
+  return progress
+}
+
+module.exports = {
+  ACHIEVEMENTS,
+  collectProgress,
+  newlyEarned,
+  describeAchievements,
+  awardAchievements
+}
\ No newline at end of file
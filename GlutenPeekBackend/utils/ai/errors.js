@@ -0,0 +1,17 @@
+// Raised when the upstream AI provider fails or returns something unusable
+class AiProviderError extends Error {
+  constructor(message) {
+    super(message)
+    this.name = 'AiProviderError'
+  }
+}
+
+// Raised when a user has used up their AI requests for the current window
+class AiQuotaError extends Error {
+  constructor(message) {
+    super(message)
+    this.name = 'AiQuotaError'
+  }
+}
+
+module.exports = { AiProviderError, AiQuotaError }
\ No newline at end of file
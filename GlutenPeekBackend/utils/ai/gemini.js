@@ -0,0 +1,120 @@
+const config = require('../config')
+const { AiProviderError } = require('./errors')
+const { EXTRACTION_SCHEMA } = require('./productExtraction')
+
+const generateContent = async (parts, generationConfig) => {
+  if (!config.GEMINI_API_KEY) {
+    throw new AiProviderError('Gemini API key is not configured')
+  }
+
+  let response
+  try {
+    response = await fetch(`${config.GEMINI_API_URL}/models/${config.GEMINI_MODEL}:generateContent`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'x-goog-api-key': config.GEMINI_API_KEY // Header rather than query string keeps the key out of access logs
+      },
+      body: JSON.stringify({ contents: [{ parts }], generationConfig })
+    })
+  } catch (error) {
+    throw new AiProviderError(`Gemini request failed: ${error.message}`)
+  }
+
+  if (!response.ok) {
+    throw new AiProviderError(`Gemini request failed with status ${response.status}`)
+  }
+
+  const data = await response.json()
+  return data.candidates?.[0]?.content?.parts?.[0]?.text || ''
+}
+
+// Gemini often wraps JSON in a markdown code fence
+const extractJson = (text) => {
+  const match = text.match(/```(?:json)?\s*([\s\S]*?)```/) || text.match(/{[\s\S]*}/)
+  if (!match) return null
+  try {
+    return JSON.parse(match[1] !== undefined ? match[1] : match[0])
+  } catch {
+    return null
+  }
+}
+
+// Maps a free-form or JSON answer onto a Status level (1-5); 3 when unsure
+const parseGlutenVerdict = (text) => {
+  const json = extractJson(text)
+  if (json && [1, 2, 3, 4, 5].includes(Number(json.level))) {
+    return { level: Number(json.level), explanation: String(json.explanation || '').trim() }
+  }
+
+  let level = 3
+  if (/contains gluten|has gluten|gluten[- ]containing/i.test(text)) {
+    level = 1
+  } else if (/gluten[- ]free/i.test(text) && !/not gluten[- ]free/i.test(text)) {
+    level = 5
+  }
+  const explanationMatch = text.match(/(?:explanation|analysis|assessment):?\s*([^\n]+)/i)
+  return { level, explanation: explanationMatch ? explanationMatch[1].trim() : 'Unable to determine from AI response' }
+}
+
+// Upper-cases schema types, which is how the Gemini API expects them
+const toGeminiSchema = (schema) => {
+  const { type, properties, items, ...rest } = schema
+  const converted = { ...rest, type: type.toUpperCase() }
+  if (properties) {
+    converted.properties = Object.fromEntries(Object.entries(properties).map(([key, value]) => [key, toGeminiSchema(value)]))
+  }
+  if (items) converted.items = toGeminiSchema(items)
+  return converted
+}
+
+const extractProductInfo = async ({ barcode, images }) => {
+  const prompt = `Read the packaging in these images of one product (barcode ${barcode}).
+Transcribe the label exactly; do not guess ingredients that are not visible.
+List each ingredient separately, keep allergen and "may contain" statements as printed,
+and list any gluten-free certification logos or claims.`
+
+  const text = await generateContent(
+    [{ text: prompt }, ...images.map(image => ({ inlineData: { mimeType: image.mimeType, data: image.data } }))],
+    {
+      temperature: 0.2,
+      maxOutputTokens: 2048,
+      responseMimeType: 'application/json',
+      responseSchema: toGeminiSchema(EXTRACTION_SCHEMA)
+    }
+  )
+
+  let raw
+  try {
+    raw = JSON.parse(text)
+  } catch {
+    raw = extractJson(text)
+  }
+  if (!raw) {
+    throw new AiProviderError('Gemini returned a product that was not valid JSON.')
+  }
+  return raw
+}
+
+const analyzeGluten = async ({ name, ingredients, currentStatus }) => {
+  const prompt = `You are a gluten analysis expert. Analyze this product to determine if it contains gluten.
+
+Product name: ${name}
+Ingredients: ${ingredients.join(', ')}
+Current gluten status level: ${currentStatus || 'unknown'}
+
+Use this scale: 1 contains gluten, 2 likely contains gluten, 3 may contain gluten,
+4 likely gluten-free, 5 gluten-free.
+If ingredients contain wheat, barley, rye, or their derivatives, use 1. If you are uncertain, use 3.
+Return only a JSON object: {"level": <1-5>, "explanation": "<one or two sentences>"}`
+
+  const text = await generateContent([{ text: prompt }], { temperature: 0.2, topK: 32, topP: 1, maxOutputTokens: 1024 })
+  return parseGlutenVerdict(text)
+}
+
+module.exports = {
+  name: 'gemini',
+  extractProductInfo,
+  analyzeGluten,
+  parseGlutenVerdict
+}
\ No newline at end of file
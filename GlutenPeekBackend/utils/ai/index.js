@@ -0,0 +1,24 @@
+const config = require('../config')
+const gemini = require('./gemini')
+const mock = require('./mock')
+
+// Every provider implements the same interface:
+//   name: string
+//   extractProductInfo({ barcode, images: [{ mimeType, data }] }) -> object shaped like EXTRACTION_SCHEMA
+//     (checked and repaired by normalizeExtraction, so providers need not be perfect)
+//   analyzeGluten({ name, ingredients, currentStatus }) -> { level, explanation }
+// Register new providers here and select them with AI_PROVIDER.
+const providers = {
+  [gemini.name]: gemini,
+  [mock.name]: mock
+}
+
+const getProvider = (name = config.AI_PROVIDER) => {
+  const provider = providers[name]
+  if (!provider) {
+    throw new Error(`Unknown AI provider: ${name}`)
+  }
+  return provider
+}
+
+module.exports = { getProvider }
\ No newline at end of file
@@ -0,0 +1,25 @@
+const { classifyIngredients, summarizeClassification } = require('../glutenClassifier')
+
+// Offline provider for tests and local development: no network, deterministic answers.
+// Gluten analysis falls back to the rule-based classifier.
+const extractProductInfo = async ({ barcode }) => ({
+  name: `Product ${barcode}`,
+  brand: null,
+  ingredients: [],
+  allergens: [],
+  mayContain: [],
+  certifications: [],
+  language: 'en',
+  confidence: 0
+})
+
+const analyzeGluten = async ({ ingredients }) => {
+  const classification = classifyIngredients(ingredients)
+  return { level: classification.level, explanation: summarizeClassification(classification) }
+}
+
+module.exports = {
+  name: 'mock',
+  extractProductInfo,
+  analyzeGluten
+}
\ No newline at end of file
@@ -0,0 +1,102 @@
+const { AiProviderError } = require('./errors')
+
+// Bump when the shape changes so cached answers in the old shape are not reused
+const EXTRACTION_SCHEMA_VERSION = 2
+
+// Response schema sent to providers that support constrained JSON output (OpenAPI subset)
+const EXTRACTION_SCHEMA = {
+  type: 'object',
+  properties: {
+    name: { type: 'string', description: 'Product name as printed on the package, without the brand' },
+    brand: { type: 'string', nullable: true },
+    ingredients: { type: 'array', items: { type: 'string' }, description: 'One entry per ingredient, in label order' },
+    allergens: { type: 'array', items: { type: 'string' }, description: 'Allergen statements such as "Contains: wheat, milk"' },
+    mayContain: { type: 'array', items: { type: 'string' }, description: 'Full precautionary statements such as "May contain traces of barley"' },
+    certifications: { type: 'array', items: { type: 'string' }, description: 'Certification logos or claims such as "Crossed Grain" or "Certified Gluten-Free"' },
+    language: { type: 'string', nullable: true, description: 'ISO 639-1 code of the label language' },
+    confidence: { type: 'number', description: 'How sure you are of this reading, from 0 to 1' }
+  },
+  required: ['name', 'ingredients', 'allergens', 'mayContain', 'certifications', 'confidence']
+}
+
+const cleanString = (value) => (typeof value === 'string' ? value.trim() : '')
+
+// Splits on commas and semicolons that are not inside parentheses
+const splitList = (text) => text
+  .replace(/^\s*(?:ingredients?|contains)\s*:/i, '')
+  .split(/[,;](?![^(]*\))/)
+
+// Coerces a list field into trimmed, de-duplicated strings, noting any repair made
+const toStringList = (value, field, repairs) => {
+  let items
+  if (Array.isArray(value)) {
+    items = value
+  } else if (typeof value === 'string') {
+    items = splitList(value)
+    repairs.push(`${field} was text; split into a list`)
+  } else {
+    if (value !== undefined && value !== null) repairs.push(`${field} had an unexpected type; ignored`)
+    items = []
+  }
+
+  const cleaned = items
+    .filter(item => typeof item === 'string')
+    .map(item => item.trim().replace(/\.$/, ''))
+    .filter(item => item.length > 0)
+  return [...new Set(cleaned)]
+}
+
+// Validates a provider's extraction against EXTRACTION_SCHEMA, repairing what it safely can.
+// Throws AiProviderError when nothing usable remains.
+const normalizeExtraction = (raw) => {
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    throw new AiProviderError('AI response was not a JSON object.')
+  }
+
+  const repairs = []
+  const name = cleanString(raw.name)
+  const brand = cleanString(raw.brand) || null
+  const ingredients = toStringList(raw.ingredients, 'ingredients', repairs)
+
+  if (!name && ingredients.length === 0) {
+    throw new AiProviderError('AI response did not contain a product name or ingredients.')
+  }
+
+  let language = cleanString(raw.language).toLowerCase()
+  if (/^[a-z]{2}[-_]/.test(language)) {
+    language = language.slice(0, 2) // "en-GB" -> "en"
+    repairs.push('language was a locale; kept the language code')
+  }
+  if (language && !/^[a-z]{2}$/.test(language)) {
+    repairs.push('language was not an ISO 639-1 code; dropped')
+    language = ''
+  }
+
+  let confidence = Number(raw.confidence)
+  if (!Number.isFinite(confidence)) {
+    repairs.push('confidence was missing; set to 0')
+    confidence = 0
+  } else if (confidence > 1 && confidence <= 100) {
+    confidence = confidence / 100 // Percentages
+    repairs.push('confidence was a percentage; scaled to 0-1')
+  }
+  confidence = Math.min(Math.max(confidence, 0), 1)
+
+  return {
+    name,
+    brand,
+    ingredients,
+    allergens: toStringList(raw.allergens, 'allergens', repairs),
+    mayContain: toStringList(raw.mayContain, 'mayContain', repairs),
+    certifications: toStringList(raw.certifications, 'certifications', repairs),
+    language: language || null,
+    confidence,
+    repairs
+  }
+}
+
+module.exports = {
+  EXTRACTION_SCHEMA_VERSION,
+  EXTRACTION_SCHEMA,
+  normalizeExtraction
+}
\ No newline at end of file
@@ -0,0 +1,78 @@
+const crypto = require('crypto')
+const AiRequest = require('../../models/aiRequest')
+const AiCache = require('../../models/aiCache')
+const config = require('../config')
+const { getProvider } = require('./index')
+const { AiQuotaError } = require('./errors')
+
+const QUOTA_WINDOW_MS = 24 * 60 * 60 * 1000
+
+const hashOf = (value) => crypto.createHash('sha256').update(value).digest('hex')
+
+// Provider calls in the last 24 hours; cache hits are free
+const getUsage = async (userId) => {
+  const since = new Date(Date.now() - QUOTA_WINDOW_MS)
+  const used = await AiRequest.countDocuments({ userId, cached: false, date: { $gte: since } })
+  return {
+    used,
+    limit: config.AI_DAILY_QUOTA,
+    remaining: Math.max(config.AI_DAILY_QUOTA - used, 0)
+  }
+}
+
+// Reserves one provider call against the quota. The entry is written before the
+// count, so concurrent requests see each other; only the earliest ones within the
+// limit go ahead and the rest are removed again.
+const reserveQuota = async (fields) => {
+  const reservation = await new AiRequest(fields).save()
+  const since = new Date(Date.now() - QUOTA_WINDOW_MS)
+  const used = await AiRequest.countDocuments({
+    userId: fields.userId,
+    cached: false,
+    date: { $gte: since },
+    _id: { $lte: reservation._id }
+  })
+  if (used > config.AI_DAILY_QUOTA) {
+    await reservation.deleteOne()
+    throw new AiQuotaError(`AI request limit of ${config.AI_DAILY_QUOTA} per day reached. Please try again later.`)
+  }
+  return reservation
+}
+
+// Runs one AI call with caching, quota enforcement and request logging.
+// `call` receives the active provider and returns the result to cache.
+const runAiRequest = async ({ user, kind, productBarcode, cacheKey, call }) => {
+  const provider = getProvider()
+  const key = `${provider.name}:${cacheKey}`
+  const entry = { userId: user._id, kind, provider: provider.name, productBarcode, cacheKey: key }
+
+  const hit = await AiCache.findOne({ key })
+  if (hit) {
+    await new AiRequest({ ...entry, cached: true, durationMs: 0 }).save()
+    return { result: hit.result, provider: provider.name, cached: true }
+  }
+
+  const reservation = await reserveQuota(entry)
+  const startedAt = Date.now()
+  let result
+  try {
+    result = await call(provider)
+  } catch (error) {
+    // Failed calls still reach the provider, so they keep counting towards the quota
+    reservation.set({ success: false, error: error.message, durationMs: Date.now() - startedAt })
+    await reservation.save()
+    throw error
+  }
+
+  await AiCache.findOneAndUpdate(
+    { key },
+    { key, provider: provider.name, result, createdAt: new Date() },
+    { upsert: true }
+  )
+  reservation.durationMs = Date.now() - startedAt
+  await reservation.save()
+
+  return { result, provider: provider.name, cached: false }
+}
+
+module.exports = { hashOf, getUsage, runAiRequest }
\ No newline at end of file
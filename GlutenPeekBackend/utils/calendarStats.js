@@ -0,0 +1,92 @@
+const Scan = require('../models/scan')
+const Symptom = require('../models/symptom')
+const Status = require('../models/status')
+
+// Local calendar day of a document, computed by MongoDB in the user's time zone
+const localDay = (timeZone) => ({ $dateToString: { format: '%Y-%m-%d', date: '$date', timezone: timeZone } })
+
+// Scans per local day, with the worst (lowest) status among the products scanned.
+// Scans are first grouped per day and product so each product's status is looked up once per day.
+const scanCalendarPipeline = ({ userId, start, end, timeZone }) => [
+  { $match: { userId, date: { $gte: start, $lt: end } } },
+  {
+    $group: {
+      _id: { day: localDay(timeZone), productBarcode: '$productBarcode' },
+      scans: { $sum: 1 },
+      scanIds: { $push: '$_id' }
+    }
+  },
+  {
+    $lookup: {
+      from: Status.collection.name,
+      localField: '_id.productBarcode',
+      foreignField: 'productBarcode',
+      pipeline: [{ $project: { _id: 0, status: 1 } }, { $limit: 1 }],
+      as: 'status'
+    }
+  },
+  {
+    $group: {
+      _id: '$_id.day',
+      scans: { $sum: '$scans' },
+      scanIds: { $push: '$scanIds' },
+      worstStatus: { $min: { $first: '$status.status' } }
+    }
+  },
+  {
+    $project: {
+      _id: 0,
+      day: '$_id',
+      scans: 1,
+      worstStatus: 1,
+      scanIds: { $reduce: { input: '$scanIds', initialValue: [], in: { $concatArrays: ['$$value', '$$this'] } } }
+    }
+  }
+]
+
+// Symptom reports per local day, with the highest severity reported
+const symptomCalendarPipeline = ({ userId, start, end, timeZone }) => [
+  { $match: { userId, date: { $gte: start, $lt: end } } },
+  {
+    $group: {
+      _id: localDay(timeZone),
+      symptoms: { $sum: 1 },
+      maxSeverity: { $max: { $max: { $map: { input: { $objectToArray: '$symptoms' }, in: '$$this.v' } } } }
+    }
+  },
+  { $project: { _id: 0, day: '$_id', symptoms: 1, maxSeverity: 1 } }
+]
+
+// Joins both results into one entry per active day, in date order.
+// Days without any activity are left out; clients fill the gaps.
+const mergeCalendarDays = (scanDays, symptomDays) => {
+  const days = new Map()
+  const entryFor = (day) => {
+    if (!days.has(day)) {
+      days.set(day, { day, scans: 0, symptoms: 0, maxSeverity: null, worstStatus: null, scanIds: [] })
+    }
+    return days.get(day)
+  }
+  scanDays.forEach(({ day, scans, worstStatus, scanIds }) => {
+    Object.assign(entryFor(day), { scans, worstStatus: worstStatus ?? null, scanIds })
+  })
+  symptomDays.forEach(({ day, symptoms, maxSeverity }) => {
+    Object.assign(entryFor(day), { symptoms, maxSeverity: maxSeverity ?? null })
+  })
+  return [...days.values()].sort((a, b) => a.day.localeCompare(b.day))
+}
+
+const aggregateCalendar = async (options) => {
+  const [scanDays, symptomDays] = await Promise.all([
+    Scan.aggregate(scanCalendarPipeline(options)),
+    Symptom.aggregate(symptomCalendarPipeline(options))
+  ])
+  return mergeCalendarDays(scanDays, symptomDays)
+}
+
+module.exports = {
+  scanCalendarPipeline,
+  symptomCalendarPipeline,
+  mergeCalendarDays,
+  aggregateCalendar
+}
\ No newline at end of file
@@ -0,0 +1,93 @@
+const Status = require('../models/status')
+const StatusChange = require('../models/statusChange')
+const { hasPrivilege } = require('./roles')
+const { isResolved } = require('./claimStates')
+const { applyStatusChange } = require('./statusHistory')
+
+// Community votes on claims. A vote is up (1) or down (-1), and an upvote can
+// also confirm that the voter sees the same label. Votes from trusted
+// contributors (see publish_products in utils/roles.js) count double,
+// confirmations add one more on top.
+const VOTE_VALUES = [1, -1]
+const TRUSTED_WEIGHT = 2
+const CONFIRMATION_BONUS = 1
+
+// An open claim reaching ESCALATION_SCORE is flagged for moderators. A claim
+// from a trusted contributor reaching PROVISIONAL_SCORE has its proposed status applied
+// straight away, until a moderator resolves it.
+const ESCALATION_SCORE = 3
+const PROVISIONAL_SCORE = 5
+
+const voteWeight = (user) => (hasPrivilege(user, 'publish_products') ? TRUSTED_WEIGHT : 1)
+
+const tallyVotes = (votes = []) => votes.reduce((summary, vote) => {
+  if (vote.value > 0) summary.up += 1
+  else summary.down += 1
+  if (vote.confirms) summary.confirmations += 1
+  summary.score += vote.value * vote.weight + (vote.confirms ? CONFIRMATION_BONUS * vote.weight : 0)
+  return summary
+}, { up: 0, down: 0, confirmations: 0, score: 0 })
+
+const shouldEscalate = (claim) =>
+  claim.state === 'open' && !claim.escalatedAt && claim.voteSummary.score >= ESCALATION_SCORE
+
+const shouldApplyProvisionally = (claim, reporter) =>
+  !isResolved(claim.state) &&
+  claim.proposedStatus !== undefined &&
+  !claim.provisionalStatusChange &&
+  hasPrivilege(reporter, 'publish_products') &&
+  claim.voteSummary.score >= PROVISIONAL_SCORE
+
+// Recounts the claim's votes and escalates or applies its status when the
+// score allows. Status changes are written immediately; the caller saves the claim.
+const applyConsensus = async (claim, reporter) => {
+  claim.voteSummary = tallyVotes(claim.votes)
+
+  if (shouldEscalate(claim)) {
+    claim.escalatedAt = new Date()
+  }
+  if (shouldApplyProvisionally(claim, reporter)) {
+    const { change } = await applyStatusChange({
+      productBarcode: claim.productBarcode,
+      status: claim.proposedStatus,
+      explanation: claim.explanation,
+      source: 'consensus',
+      claimId: claim._id
+    })
+    claim.provisionalStatusChange = change._id
+  }
+  return claim
+}
+
+// Puts back the status a provisional change replaced, unless the product's
+// status has been changed again since
+const revertProvisionalStatus = async (claim, changedBy) => {
+  if (!claim.provisionalStatusChange) return null
+
+  const change = await StatusChange.findById(claim.provisionalStatusChange)
+  if (!change || change.previousStatus === null) return null
+  const current = await Status.findOne({ productBarcode: claim.productBarcode })
+  if (!current || current.status !== change.newStatus) return null
+
+  const { change: reverted } = await applyStatusChange({
+    productBarcode: claim.productBarcode,
+    status: change.previousStatus,
+    explanation: `Provisional status withdrawn: claim ${claim.state}`,
+    source: 'claim',
+    changedBy,
+    claimId: claim._id
+  })
+  return reverted
+}
+
+module.exports = {
+  VOTE_VALUES,
+  ESCALATION_SCORE,
+  PROVISIONAL_SCORE,
+  voteWeight,
+  tallyVotes,
+  shouldEscalate,
+  shouldApplyProvisionally,
+  applyConsensus,
+  revertProvisionalStatus
+}
\ No newline at end of file
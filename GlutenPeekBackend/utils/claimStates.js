@@ -0,0 +1,35 @@
+// Claim review lifecycle. A claim starts open, a moderator takes it under
+// review (or hands it back), and it ends accepted, rejected or as a duplicate
+// of another claim. Resolved claims are final.
+const CLAIM_STATES = ['open', 'under_review', 'accepted', 'rejected', 'duplicate']
+const RESOLVED_STATES = ['accepted', 'rejected', 'duplicate']
+
+const TRANSITIONS = {
+  open: ['under_review'],
+  under_review: ['open', ...RESOLVED_STATES],
+  accepted: [],
+  rejected: [],
+  duplicate: []
+}
+
+// Why the reporter thinks the product's status is wrong
+const CLAIM_REASONS = ['label_changed', 'cross_contamination', 'reaction_experienced', 'certification_found']
+
+// Evidence images a reporter can attach to one claim
+const MAX_CLAIM_EVIDENCE = 5
+
+const isClaimState = (state) => CLAIM_STATES.includes(state)
+
+const isResolved = (state) => RESOLVED_STATES.includes(state)
+
+const canTransition = (from, to) => Boolean(TRANSITIONS[from] && TRANSITIONS[from].includes(to))
+
+module.exports = {
+  CLAIM_STATES,
+  RESOLVED_STATES,
+  CLAIM_REASONS,
+  MAX_CLAIM_EVIDENCE,
+  isClaimState,
+  isResolved,
+  canTransition
+}
\ No newline at end of file
@@ -0,0 +1,39 @@
+// Comments are threaded one level deep: a comment either sits on the post or
+// replies to a top-level comment. Listing a post's comments includes the first
+// REPLY_PREVIEW_LIMIT replies of each; the rest are paged through /:id/replies.
+const REPLY_PREVIEW_LIMIT = 3
+
+// Where a reply to `comment` is attached. Replying to a reply joins its thread.
+const threadParentId = (comment) => comment.parentId || comment._id
+
+const isHidden = (comment) => Boolean(comment.deletedAt || (comment.moderation && comment.moderation.removedAt))
+
+const canEditComment = (comment, user) =>
+  Boolean(user) && comment.userId.toString() === user._id.toString() && !isHidden(comment)
+
+// Attaches each top-level comment's reply preview and total reply count.
+// `comments` and `replies` are plain (toJSON) comments, replies oldest first;
+// `counts` is [{ _id: parentId, count }].
+const threadComments = (comments, replies, counts) => {
+  const repliesByParent = new Map()
+  replies.forEach(reply => {
+    const key = reply.parentId.toString()
+    if (!repliesByParent.has(key)) repliesByParent.set(key, [])
+    repliesByParent.get(key).push(reply)
+  })
+  const countByParent = new Map(counts.map(({ _id, count }) => [_id.toString(), count]))
+
+  return comments.map(comment => ({
+    ...comment,
+    replies: (repliesByParent.get(comment.id) || []).slice(0, REPLY_PREVIEW_LIMIT),
+    replyCount: countByParent.get(comment.id) || 0
+  }))
+}
+
+module.exports = {
+  REPLY_PREVIEW_LIMIT,
+  threadParentId,
+  isHidden,
+  canEditComment,
+  threadComments
+}
\ No newline at end of file
@@ -3,7 +3,43 @@ require('dotenv').config()
 const MONGODB_URI = process.env.MONGODB_URI
 const SECRET = process.env.SECRET
 
+// AI proxy: the provider key stays on the server, never in the frontend bundle
+const GEMINI_API_KEY = process.env.GEMINI_API_KEY
+const GEMINI_API_URL = process.env.GEMINI_API_URL || 'https://generativelanguage.googleapis.com/v1beta'
+const GEMINI_MODEL = process.env.GEMINI_MODEL || 'gemini-2.0-flash'
+const AI_PROVIDER = process.env.AI_PROVIDER || (process.env.NODE_ENV === 'test' ? 'mock' : 'gemini')
+const AI_DAILY_QUOTA = Number(process.env.AI_DAILY_QUOTA) || 25
+const AI_CACHE_TTL_DAYS = Number(process.env.AI_CACHE_TTL_DAYS) || 30
+
+// Uploads: "s3" in production, "local" (files under UPLOAD_DIR, served by this API) for development and tests
+const STORAGE_DRIVER = process.env.STORAGE_DRIVER || (process.env.AWS_S3_BUCKET_NAME ? 's3' : 'local')
+const AWS_S3_BUCKET_NAME = process.env.AWS_S3_BUCKET_NAME
+const AWS_S3_REGION = process.env.AWS_S3_REGION
+const AWS_S3_ACCESS_KEY_ID = process.env.AWS_S3_ACCESS_KEY_ID
+const AWS_S3_SECRET_ACCESS_KEY = process.env.AWS_S3_SECRET_ACCESS_KEY
+const AWS_S3_PUBLIC_URL = process.env.AWS_S3_PUBLIC_URL // Optional CDN or custom domain
+const UPLOAD_DIR = process.env.UPLOAD_DIR || 'uploads'
+const PUBLIC_BASE_URL = process.env.PUBLIC_BASE_URL || 'http://localhost:3001' // Where the local driver's files are served from
+
+// Community symptom statistics are only shown once this many different users have reported
+const SYMPTOM_MIN_REPORTERS = Number(process.env.SYMPTOM_MIN_REPORTERS) || 5
+
 module.exports = {
   MONGODB_URI,
-  SECRET
+  SECRET,
+  GEMINI_API_KEY,
+  GEMINI_API_URL,
+  GEMINI_MODEL,
+  AI_PROVIDER,
+  AI_DAILY_QUOTA,
+  AI_CACHE_TTL_DAYS,
+  STORAGE_DRIVER,
+  AWS_S3_BUCKET_NAME,
+  AWS_S3_REGION,
+  AWS_S3_ACCESS_KEY_ID,
+  AWS_S3_SECRET_ACCESS_KEY,
+  AWS_S3_PUBLIC_URL,
+  UPLOAD_DIR,
+  PUBLIC_BASE_URL,
+  SYMPTOM_MIN_REPORTERS
 }
\ No newline at end of file
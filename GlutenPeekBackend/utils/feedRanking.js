@@ -0,0 +1,102 @@
+// Feed modes for GET /api/posts. "global" is every post, newest first;
+// "following" only the viewer's own posts and those of people they follow;
+// "ranked" scores recent posts by engagement and relevance to the viewer.
+const FEED_MODES = ['global', 'following', 'ranked']
+
+// The ranked feed scores posts from the last RANKING_WINDOW_DAYS, at most
+// RANKING_CANDIDATES of the newest. Older posts follow them, newest first.
+const RANKING_WINDOW_DAYS = 7
+const RANKING_CANDIDATES = 500
+
+// A post's score is its engagement, decayed by half every RECENCY_HALF_LIFE_HOURS.
+// Posts about a product the viewer has scanned get SCANNED_PRODUCT_BONUS.
+const LIKE_WEIGHT = 1
+const COMMENT_WEIGHT = 2
+const SCANNED_PRODUCT_BONUS = 5
+const RECENCY_HALF_LIFE_HOURS = 24
+const HOUR_MS = 60 * 60 * 1000
+const DAY_MS = 24 * HOUR_MS
+
+const isFeedMode = (mode) => FEED_MODES.includes(mode)
+
+// `post` needs createdAt, likes, commentCount and productBarcodes;
+// `scannedBarcodes` is a Set of the viewer's GTIN-14s
+const rankScore = (post, { asOf, scannedBarcodes = new Set() }) => {
+  const ageHours = Math.max(asOf - new Date(post.createdAt).getTime(), 0) / HOUR_MS
+  const scanned = (post.productBarcodes || []).some(barcode => scannedBarcodes.has(barcode))
+  const engagement = 1 +
+    (post.likes || []).length * LIKE_WEIGHT +
+    (post.commentCount || 0) * COMMENT_WEIGHT +
+    (scanned ? SCANNED_PRODUCT_BONUS : 0)
+  return engagement * Math.pow(0.5, ageHours / RECENCY_HALF_LIFE_HOURS)
+}
+
+// Oldest time a candidate for a feed scored at `asOf` may have
+const rankingWindowStart = (asOf) => asOf - RANKING_WINDOW_DAYS * DAY_MS
+
+// Where the chronological tail starts: below the oldest candidate when there were
+// RANKING_CANDIDATES of them (sorted newest first), otherwise below the window
+const rankingBoundary = (candidates, asOf) => {
+  if (candidates.length < RANKING_CANDIDATES) {
+    return { createdAt: rankingWindowStart(asOf), id: null }
+  }
+  const oldest = candidates[candidates.length - 1]
+  return { createdAt: new Date(oldest.createdAt).getTime(), id: oldest._id.toString() }
+}
+
+// Query for posts after `olderThan` in newest-first order
+const olderThanFilter = ({ createdAt, id }) => id
+  ? { $or: [{ createdAt: { $lt: new Date(createdAt) } }, { createdAt: new Date(createdAt), _id: { $lt: id } }] }
+  : { createdAt: { $lt: new Date(createdAt) } }
+
+// Ranked cursors carry the time the first page was scored at, so later pages
+// rank against the same clock and continue where the previous page stopped.
+// Past the ranked posts they carry olderThan, the last post shown of the tail.
+const encodeRankCursor = ({ asOf, score, id, olderThan }) =>
+  Buffer.from(JSON.stringify(olderThan ? { asOf, olderThan } : { asOf, score, id: id.toString() })).toString('base64url')
+
+const decodeRankCursor = (cursor) => {
+  try {
+    const { asOf, score, id, olderThan } = JSON.parse(Buffer.from(cursor, 'base64url').toString())
+    if (!Number.isFinite(asOf)) return null
+    if (olderThan) {
+      if (!Number.isFinite(olderThan.createdAt) || (olderThan.id !== null && typeof olderThan.id !== 'string')) return null
+      return { asOf, olderThan: { createdAt: olderThan.createdAt, id: olderThan.id } }
+    }
+    if (!Number.isFinite(score) || typeof id !== 'string') return null
+    return { asOf, score, id }
+  } catch (error) {
+    return null
+  }
+}
+
+const byRank = (a, b) => (b.score - a.score) || (b.id < a.id ? -1 : b.id > a.id ? 1 : 0)
+
+// Orders the candidates and returns the page after `after` (a decoded cursor),
+// as [{ id, score }] with the cursor for the next page
+const rankPage = (candidates, { asOf, scannedBarcodes, after = null, limit }) => {
+  const ranked = candidates
+    .map(post => ({ id: post._id.toString(), score: rankScore(post, { asOf, scannedBarcodes }) }))
+    .sort(byRank)
+    .filter(item => !after || byRank(after, item) < 0)
+
+  const page = ranked.slice(0, limit)
+  const nextCursor = ranked.length > limit
+    ? encodeRankCursor({ asOf, ...page[page.length - 1] })
+    : null
+  return { page, nextCursor }
+}
+
+module.exports = {
+  FEED_MODES,
+  RANKING_WINDOW_DAYS,
+  RANKING_CANDIDATES,
+  isFeedMode,
+  rankScore,
+  rankingWindowStart,
+  rankingBoundary,
+  olderThanFilter,
+  encodeRankCursor,
+  decodeRankCursor,
+  rankPage
+}
\ No newline at end of file
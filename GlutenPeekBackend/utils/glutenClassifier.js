@@ -0,0 +1,187 @@
+const lexicon = require('./glutenLexicon')
+
+// Status levels, matching the Status model
+const LEVELS = {
+  CONTAINS: 1,
+  LIKELY_CONTAINS: 2,
+  MAY_CONTAIN: 3,
+  LIKELY_FREE: 4,
+  FREE: 5
+}
+
+const CATEGORY_BY_LEVEL = {
+  1: 'gluten',
+  2: 'likely-gluten',
+  3: 'ambiguous'
+}
+
+const escapeRegex = (text) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+
+const termPattern = (term) => new RegExp(`(?:^|[^a-z])${escapeRegex(term)}(?=$|[^a-z])`, 'i')
+
+const normalizeText = (text) => text.toLowerCase().replace(/\s+/g, ' ').trim()
+
+// Longest terms first, so a longer term is matched (and masked) before the shorter terms inside it
+const compileEntries = (entries) => entries
+  .flatMap(entry => entry.terms.map(term => ({ term, pattern: termPattern(term), entry })))
+  .sort((a, b) => b.term.length - a.term.length)
+
+// List items are joined with semicolons, so a "may contain" statement in one item
+// never runs on into the next
+const toText = (ingredients) => {
+  if (Array.isArray(ingredients)) {
+    return ingredients.filter(Boolean).join('; ')
+  }
+  return ingredients ? String(ingredients) : ''
+}
+
+const SPLIT_CHARACTERS = /[,;()[\]{}]/
+
+// Splits an ingredient statement into individual ingredients, flattening sub-ingredient lists
+const splitIngredients = (text) => text
+  .replace(/^\s*ingredients?\s*:/i, '')
+  .split(/[,;()[\]{}]|\.\s|\.$/)
+  .map(part => normalizeText(part.replace(/\d+(?:[.,]\d+)?\s*%/g, '')))
+  .filter(part => part.length > 0)
+
+const extractPrecautionaryStatements = (text, patterns) => {
+  let remaining = text
+  const statements = []
+  for (const pattern of patterns) {
+    const global = new RegExp(pattern.source, 'gi')
+    remaining = remaining.replace(global, (match) => {
+      statements.push(normalizeText(match))
+      return ' '
+    })
+  }
+  return { statements, remaining }
+}
+
+// Classifies an ingredient list into a Status level (1-5) with a reason per finding.
+// Deterministic and offline: the same ingredients and lexicon always give the same verdict.
+const classifyIngredients = (ingredients, options = {}) => {
+  const {
+    EXCEPTIONS, ENTRIES, MAY_CONTAIN_PATTERNS, MAY_CONTAIN_GLUTEN_TERMS, GLUTEN_FREE_CLAIM_PATTERN, LEXICON_VERSION
+  } = options.lexicon || lexicon
+
+  const text = toText(ingredients)
+  if (!text.trim()) {
+    return {
+      level: LEVELS.MAY_CONTAIN,
+      confidence: 'low',
+      reasons: [{ ingredient: null, term: null, level: LEVELS.MAY_CONTAIN, category: 'unknown', reason: 'No ingredient information available.' }],
+      lexiconVersion: LEXICON_VERSION
+    }
+  }
+
+  const exceptionMatchers = compileEntries(EXCEPTIONS)
+  const entryMatchers = compileEntries(ENTRIES)
+  const reasons = []
+
+  const { statements, remaining } = extractPrecautionaryStatements(text, MAY_CONTAIN_PATTERNS)
+
+  // Exceptions such as "glucose syrup (wheat)" span the characters ingredients are
+  // split on, so they are blanked out in the whole text first
+  const unsplit = exceptionMatchers
+    .filter(({ term }) => SPLIT_CHARACTERS.test(term))
+    .reduce((masked, { term, entry }) => masked.replace(
+      new RegExp(`(^|[^a-z])${escapeRegex(term)}(?=$|[^a-z])`, 'gi'),
+      (match, before) => {
+        reasons.push({ ingredient: term, term, level: null, category: 'safe', reason: entry.reason })
+        return `${before} `
+      }
+    ), remaining)
+
+  for (const ingredient of splitIngredients(unsplit)) {
+    // Blank out exception terms so they cannot trigger a gluten match
+    let masked = ingredient
+    for (const { term, pattern, entry } of exceptionMatchers) {
+      if (pattern.test(masked)) {
+        masked = masked.replace(new RegExp(escapeRegex(term), 'gi'), ' ')
+        reasons.push({ ingredient, term, level: null, category: 'safe', reason: entry.reason })
+      }
+    }
+
+    // Each matched term masks its span, so "malt vinegar" is not read as "malt" too.
+    // Of the terms left, keep only the most severe match for each ingredient.
+    let best = null
+    for (const matcher of entryMatchers) {
+      if (matcher.pattern.test(masked)) {
+        masked = masked.replace(new RegExp(escapeRegex(matcher.term), 'gi'), ' ')
+        if (!best || matcher.entry.level < best.entry.level) {
+          best = matcher
+        }
+      }
+    }
+    if (best) {
+      reasons.push({
+        ingredient,
+        term: best.term,
+        level: best.entry.level,
+        category: CATEGORY_BY_LEVEL[best.entry.level],
+        reason: best.entry.reason
+      })
+    }
+  }
+
+  for (const statement of statements) {
+    const glutenTerm = MAY_CONTAIN_GLUTEN_TERMS.find(term => termPattern(term).test(statement))
+    if (glutenTerm) {
+      reasons.push({
+        ingredient: statement,
+        term: glutenTerm,
+        level: LEVELS.MAY_CONTAIN,
+        category: 'may-contain',
+        reason: 'Precautionary allergen statement mentions a gluten source.'
+      })
+    }
+  }
+
+  const findingLevels = reasons.filter(r => r.level !== null).map(r => r.level)
+  let level
+  if (findingLevels.length > 0) {
+    level = Math.min(...findingLevels)
+  } else if (GLUTEN_FREE_CLAIM_PATTERN.test(text.replace(/gluten[- ]free oats/gi, ''))) {
+    level = LEVELS.FREE
+    reasons.push({ ingredient: null, term: 'gluten-free', level: LEVELS.FREE, category: 'claim', reason: 'Labelled gluten-free and no gluten sources found.' })
+  } else {
+    level = LEVELS.LIKELY_FREE
+  }
+
+  const confidence = level === LEVELS.CONTAINS || level === LEVELS.FREE
+    ? 'high'
+    : level === LEVELS.MAY_CONTAIN ? 'low' : 'medium'
+
+  return { level, confidence, reasons, lexiconVersion: LEXICON_VERSION }
+}
+
+// Classifies a whole product, folding in label data captured outside the ingredient list
+const classifyProduct = ({ ingredients, mayContain = [], certifications = [] }, options = {}) => {
+  const parts = Array.isArray(ingredients) ? [...ingredients] : [ingredients]
+  // Bare allergen names ("wheat") must read as precautionary, not as ingredients
+  const statements = mayContain.map(statement => /contain|trace|facility|factory|equipment/i.test(statement)
+    ? statement
+    : `may contain ${statement}`)
+  return classifyIngredients([...parts, ...certifications, ...statements], options)
+}
+
+// One-line explanation suitable for Status.explanation
+const summarizeClassification = ({ level, reasons }) => {
+  const findings = reasons.filter(r => r.level === level && r.term)
+  if (level === LEVELS.LIKELY_FREE) {
+    return 'No gluten sources found in the ingredient list.'
+  }
+  if (findings.length === 0) {
+    return reasons[0] ? reasons[0].reason : ''
+  }
+  const terms = [...new Set(findings.map(r => r.term))]
+  return `${findings[0].reason} Found: ${terms.join(', ')}.`
+}
+
+module.exports = {
+  LEVELS,
+  splitIngredients,
+  classifyIngredients,
+  classifyProduct,
+  summarizeClassification
+}
@@ -0,0 +1,77 @@
+// Maintained list of ingredient terms the gluten classifier recognises.
+// Each entry maps to the Status level it implies on its own:
+//   1 contains gluten, 2 likely contains gluten, 3 may contain gluten.
+// Exceptions are checked first so that e.g. "buckwheat" never matches "wheat".
+// Bump LEXICON_VERSION whenever entries change so stored verdicts can be traced.
+
+const LEXICON_VERSION = '2026-10-3'
+
+const EXCEPTIONS = [
+  { terms: ['buckwheat'], reason: 'Buckwheat is not related to wheat and is gluten-free.' },
+  { terms: ['maltodextrin', 'maltitol', 'maltose', 'isomalt', 'maltol', 'ethyl maltol'], reason: 'Highly processed sugar derivative; gluten-free regardless of source.' },
+  { terms: ['gluten-free oats', 'gluten free oats', 'certified gluten-free oats', 'pure oats'], reason: 'Oats certified as gluten-free are grown and processed apart from gluten grains.' },
+  { terms: ['wheat glucose syrup', 'glucose syrup (wheat)', 'glucose syrup (from wheat)', 'wheat dextrose', 'dextrose (wheat)', 'dextrose (from wheat)'], reason: 'Wheat-based glucose syrups are refined to below 20 ppm gluten.' },
+  { terms: ['rice malt', 'corn malt', 'sorghum malt'], reason: 'Malt made from a gluten-free grain.' },
+  { terms: ['potato starch', 'corn starch', 'cornstarch', 'maize starch', 'tapioca starch', 'rice starch', 'pea starch'], reason: 'Starch from a gluten-free source.' },
+  { terms: ['tamari'], reason: 'Tamari is traditionally brewed without wheat.' },
+  { terms: ['ginger ale', 'root beer'], reason: 'Soft drink, not brewed from grain.' },
+  { terms: ['rye whiskey flavour', 'rye whiskey flavor'], reason: 'Distilled flavouring; gluten is not carried through distillation.' },
+  { terms: ['gluten-free', 'gluten free'], reason: 'Gluten-free labelling, not an ingredient.' },
+  { terms: ['wheat-free', 'wheat free', 'barley-free', 'barley free', 'rye-free', 'rye free', 'oat-free', 'oat free', 'malt-free', 'malt free'], reason: 'Says the grain is absent; not an ingredient.' }
+]
+
+const ENTRIES = [
+  // Definite gluten sources
+  { terms: ['wheat', 'wheat flour', 'whole wheat', 'wholewheat', 'wheat starch', 'wheat protein', 'wheat germ', 'wheat bran'], level: 1, reason: 'Wheat contains gluten.' },
+  { terms: ['barley', 'barley flour', 'pearl barley', 'barley malt', 'barley malt extract'], level: 1, reason: 'Barley contains gluten (hordein).' },
+  { terms: ['rye', 'rye flour'], level: 1, reason: 'Rye contains gluten (secalin).' },
+  { terms: ['spelt', 'spelt flour', 'dinkel'], level: 1, reason: 'Spelt is a species of wheat.' },
+  { terms: ['kamut', 'khorasan'], level: 1, reason: 'Kamut (khorasan) is an ancient wheat.' },
+  { terms: ['einkorn', 'emmer', 'farro', 'freekeh'], level: 1, reason: 'Ancient wheat variety.' },
+  { terms: ['durum', 'semolina'], level: 1, reason: 'Durum wheat and semolina contain gluten.' },
+  { terms: ['triticale'], level: 1, reason: 'Triticale is a wheat-rye hybrid.' },
+  { terms: ['bulgur', 'couscous', 'seitan', 'graham flour', 'farina'], level: 1, reason: 'Made from wheat.' },
+  { terms: ['gluten', 'wheat gluten', 'vital wheat gluten'], level: 1, reason: 'Added gluten.' },
+  { terms: ['malt', 'malt extract', 'malted barley', 'malt syrup', 'malt flour'], level: 1, reason: 'Malt is usually made from barley.' },
+  { terms: ['breadcrumbs', 'bread crumbs', 'panko'], level: 1, reason: 'Breadcrumbs are made from wheat bread.' },
+
+  // Usually gluten-containing, but the source is not always stated
+  { terms: ['malt vinegar'], level: 2, reason: 'Malt vinegar is brewed from barley and not distilled.' },
+  { terms: ['malt flavouring', 'malt flavoring', 'malted milk'], level: 2, reason: 'Malt flavouring is typically barley-derived.' },
+  { terms: ["brewer's yeast", 'brewers yeast'], level: 2, reason: "Brewer's yeast is often a by-product of beer brewing." },
+  { terms: ['soy sauce', 'shoyu', 'teriyaki sauce'], level: 2, reason: 'Soy sauce is usually brewed with wheat unless labelled tamari.' },
+  { terms: ['beer', 'lager', 'stout'], level: 2, reason: 'Beer is brewed from barley or wheat.' },
+
+  // Ambiguous sources
+  { terms: ['oats', 'oat', 'oat flour', 'rolled oats', 'oatmeal', 'oat bran'], level: 3, reason: 'Oats are often cross-contaminated with wheat unless certified gluten-free.' },
+  { terms: ['modified starch', 'modified food starch', 'food starch'], level: 3, reason: 'Starch source not stated; may be wheat.' },
+  { terms: ['hydrolysed vegetable protein', 'hydrolyzed vegetable protein', 'hydrolysed plant protein', 'hydrolyzed plant protein'], level: 3, reason: 'Protein source not stated; may be wheat.' },
+  { terms: ['dextrin'], level: 3, reason: 'Dextrin source not stated; may be wheat.' },
+  { terms: ['cereal', 'cereals', 'cereal extract'], level: 3, reason: 'Cereal not specified; may be a gluten grain.' },
+  { terms: ['starch'], level: 3, reason: 'Starch source not stated; may be wheat.' }
+]
+
+// Precautionary allergen statements, matched against the full ingredient text.
+// A statement runs to the end of its sentence, so "may contain wheat, barley and
+// milk" keeps its whole allergen list.
+const MAY_CONTAIN_PATTERNS = [
+  /may contain[^.;]*/i,
+  /may also contain[^.;]*/i,
+  /(?:contains|may have)?\s*traces? of[^.;]*/i,
+  /(?:made|produced|manufactured|packed|processed) (?:in|on|at) (?:a )?(?:facility|factory|site|line|equipment)[^.;]*/i,
+  /not suitable for (?:coeliacs?|celiacs?)[^.;]*/i
+]
+
+// Terms in a "may contain" statement that point at gluten
+const MAY_CONTAIN_GLUTEN_TERMS = ['gluten', 'wheat', 'barley', 'rye', 'oats', 'oat', 'spelt', 'cereals containing gluten', 'coeliacs', 'celiacs', 'coeliac', 'celiac']
+
+const GLUTEN_FREE_CLAIM_PATTERN = /\b(?:certified )?gluten[- ]free\b/i
+
+module.exports = {
+  LEXICON_VERSION,
+  EXCEPTIONS,
+  ENTRIES,
+  MAY_CONTAIN_PATTERNS,
+  MAY_CONTAIN_GLUTEN_TERMS,
+  GLUTEN_FREE_CLAIM_PATTERN
+}
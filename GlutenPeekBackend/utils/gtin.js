@@ -0,0 +1,141 @@
+// Barcodes are stored as canonical GTIN-14 strings so that EAN-8, UPC-A,
+// UPC-E and EAN-13 representations of the same product all match.
+
+// GS1 mod-10 check digit for the digits preceding it
+const computeCheckDigit = (body) => {
+  let sum = 0
+  for (let i = 0; i < body.length; i++) {
+    const digit = Number(body[body.length - 1 - i])
+    sum += i % 2 === 0 ? digit * 3 : digit
+  }
+  return String((10 - (sum % 10)) % 10)
+}
+
+const isValidGtin14 = (value) => {
+  if (typeof value !== 'string' || !/^\d{14}$/.test(value)) {
+    return false
+  }
+  return computeCheckDigit(value.slice(0, 13)) === value[13]
+}
+
+// Expands a UPC-E code (6 digits, or 7/8 with number system and check digit) to UPC-A
+const expandUpcE = (code) => {
+  let numberSystem = '0'
+  let digits = code
+  let checkDigit = null
+
+  if (code.length === 8) {
+    numberSystem = code[0]
+    digits = code.slice(1, 7)
+    checkDigit = code[7]
+  } else if (code.length === 7) {
+    numberSystem = code[0]
+    digits = code.slice(1, 7)
+  }
+
+  if (!/^\d{6}$/.test(digits) || (numberSystem !== '0' && numberSystem !== '1')) {
+    return null
+  }
+
+  const [d1, d2, d3, d4, d5, d6] = digits
+  let manufacturer
+  let product
+  if (d6 === '0' || d6 === '1' || d6 === '2') {
+    manufacturer = `${d1}${d2}${d6}00`
+    product = `00${d3}${d4}${d5}`
+  } else if (d6 === '3') {
+    manufacturer = `${d1}${d2}${d3}00`
+    product = `000${d4}${d5}`
+  } else if (d6 === '4') {
+    manufacturer = `${d1}${d2}${d3}${d4}0`
+    product = `0000${d5}`
+  } else {
+    manufacturer = `${d1}${d2}${d3}${d4}${d5}`
+    product = `0000${d6}`
+  }
+
+  const body = `${numberSystem}${manufacturer}${product}`
+  const expectedCheck = computeCheckDigit(body)
+  if (checkDigit !== null && checkDigit !== expectedCheck) {
+    return null
+  }
+  return `${body}${expectedCheck}`
+}
+
+// Returns the GTIN-14 form of a barcode, or null if it is not a valid GTIN.
+// Accepts strings or numbers; numbers that lost their leading zeros are padded back.
+const normalizeBarcode = (input) => {
+  if (input === undefined || input === null) {
+    return null
+  }
+  const raw = String(input).trim().replace(/[\s-]/g, '')
+  if (!/^\d+$/.test(raw) || raw.length > 14) {
+    return null
+  }
+
+  // 6 and 7 digit codes can only be UPC-E
+  if (raw.length === 6 || raw.length === 7) {
+    const upcA = expandUpcE(raw)
+    return upcA ? upcA.padStart(14, '0') : null
+  }
+
+  // Left zero padding does not change a GS1 check digit, so any GTIN-8/12/13/14
+  // (including numbers stored without their leading zeros) is validated as GTIN-14
+  const padded = raw.padStart(14, '0')
+  if (raw.length >= 8 && isValidGtin14(padded)) {
+    return padded
+  }
+
+  // An 8 digit code that is not a valid EAN-8 may be a UPC-E with number system and check digit
+  if (raw.length === 8) {
+    const upcA = expandUpcE(raw)
+    return upcA ? upcA.padStart(14, '0') : null
+  }
+
+  return null
+}
+
+// A barcode stored as a Number with 6 or 7 digits may be a UPC-E or an EAN-8 that
+// lost its leading zeros. Returns both readings (either may be null) for review,
+// or null when the value is not ambiguous in this way.
+const legacyBarcodeReadings = (value) => {
+  if (typeof value !== 'number' || !/^\d{6,7}$/.test(String(value))) {
+    return null
+  }
+  const asEan8 = String(value).padStart(14, '0')
+  return {
+    upcE: normalizeBarcode(value),
+    ean8: isValidGtin14(asEan8) ? asEan8 : null
+  }
+}
+
+// Mongoose setter: normalizes when possible and otherwise leaves the value for the validator to reject
+const toGtin14 = (value) => {
+  if (value === undefined || value === null || value === '') {
+    return value
+  }
+  return normalizeBarcode(value) || String(value)
+}
+
+// GTIN-14s of the barcodes written in a piece of text (8 to 14 digit numbers
+// with a valid check digit), without duplicates
+const findBarcodesInText = (text) => {
+  const candidates = String(text || '').match(/\b\d{8,14}\b/g) || []
+  return [...new Set(candidates.map(normalizeBarcode).filter(Boolean))]
+}
+
+const gtinValidator = {
+  validator: isValidGtin14,
+  message: props => `${props.value} is not a valid barcode (expected EAN-8, UPC-A, UPC-E, EAN-13 or GTIN-14).`
+}
+
+module.exports = {
+  computeCheckDigit,
+  isValidGtin14,
+  expandUpcE,
+  normalizeBarcode,
+  legacyBarcodeReadings,
+  toGtin14,
+  findBarcodesInText,
+  gtinValidator
+}
@@ -0,0 +1,60 @@
+const crypto = require('crypto')
+const sharp = require('sharp')
+
+// Widths of the responsive variants; the largest is also the "full" image shown on detail pages
+const VARIANT_WIDTHS = [160, 480, 1080, 2048]
+const FORMATS = [
+  { format: 'webp', contentType: 'image/webp', options: { quality: 80 } },
+  { format: 'jpeg', contentType: 'image/jpeg', options: { quality: 82, mozjpeg: true } } // Fallback for browsers without WebP
+]
+
+// Upload fields that make up a responsive image set, for populate selects
+const IMAGE_SET_FIELDS = 'url width height variants'
+
+const hashContent = (buffer) => crypto.createHash('sha256').update(buffer).digest('hex')
+
+// Storage key prefix for a processed image; keyed by content so identical uploads share variants
+const variantPrefix = (contentHash) => `media/${contentHash.slice(0, 2)}/${contentHash}`
+
+// Turns an uploaded original into sanitized, resized variants.
+// sharp drops EXIF/XMP/ICC metadata (including GPS) unless asked to keep it;
+// rotate() with no angle applies the EXIF orientation first so nothing looks sideways.
+const processImage = async (buffer) => {
+  const contentHash = hashContent(buffer)
+  const oriented = await sharp(buffer, { failOn: 'error' })
+    .rotate()
+    .flatten({ background: '#ffffff' }) // JPEG has no alpha channel
+    .toBuffer({ resolveWithObject: true })
+  const { width, height } = oriented.info
+
+  // Never upscale: skip widths beyond the original, but always keep one variant at its own size
+  const widths = VARIANT_WIDTHS.filter(w => w < width)
+  if (widths.length < VARIANT_WIDTHS.length) widths.push(Math.min(width, VARIANT_WIDTHS[VARIANT_WIDTHS.length - 1]))
+
+  const variants = []
+  for (const targetWidth of widths) {
+    for (const { format, contentType, options } of FORMATS) {
+      const { data, info } = await sharp(oriented.data)
+        .resize({ width: targetWidth, withoutEnlargement: true })
+        .toFormat(format, options)
+        .toBuffer({ resolveWithObject: true })
+      variants.push({
+        width: info.width,
+        height: info.height,
+        format,
+        contentType,
+        key: `${variantPrefix(contentHash)}/${info.width}.${format === 'jpeg' ? 'jpg' : format}`,
+        buffer: data
+      })
+    }
+  }
+
+  return { contentHash, width, height, variants }
+}
+
+module.exports = {
+  VARIANT_WIDTHS,
+  IMAGE_SET_FIELDS,
+  hashContent,
+  processImage
+}
\ No newline at end of file
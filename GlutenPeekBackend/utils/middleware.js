@@ -1,5 +1,6 @@
 const jwt = require('jsonwebtoken')
 const User = require('../models/user')
+const { hasRole, hasPrivilege } = require('./roles')
 
 const errorHandler = (error, request, response, next) => {
   console.error(error.message)
@@ -12,6 +13,10 @@ const errorHandler = (error, request, response, next) => {
     return response.status(400).json({ error: 'expected `email` to be unique' })
   } else if (error.name ===  'JsonWebTokenError') {
     return response.status(400).json({ error: 'token missing or invalid' })
+  } else if (error.name === 'AiQuotaError') {
+    return response.status(429).json({ error: error.message })
+  } else if (error.name === 'AiProviderError') {
+    return response.status(502).json({ error: error.message })
   }
 
   // Log unhandled errors before any further action
@@ -47,6 +52,42 @@ const userExtractor = async (request, response, next) => {
   }
 }
 
+// For public routes that show more to signed-in users: sets request.user when a
+// valid token was sent and otherwise carries on anonymously
+const optionalUserExtractor = async (request, response, next) => {
+  if (request.token) {
+    try {
+      const decodedToken = jwt.verify(request.token, process.env.SECRET)
+      request.user = await User.findById(decodedToken.id)
+    } catch (error) {
+      request.user = null
+    }
+  }
+  next()
+}
+
+// Must run after userExtractor so request.user is populated
+const requireRole = (role) => (request, response, next) => {
+  if (!request.user) {
+    return response.status(401).json({ error: 'Authentication required.' })
+  }
+  if (!hasRole(request.user, role)) {
+    return response.status(403).json({ error: `Forbidden: requires ${role} role.` })
+  }
+  next()
+}
+
+// Like requireRole, but also lets in users who earned the privilege through reputation
+const requirePrivilege = (privilege) => (request, response, next) => {
+  if (!request.user) {
+    return response.status(401).json({ error: 'Authentication required.' })
+  }
+  if (!hasPrivilege(request.user, privilege)) {
+    return response.status(403).json({ error: `Forbidden: requires the ${privilege} privilege.` })
+  }
+  next()
+}
+
 const unknownEndpoint = (request, response) => {
   response.status(404).send({ error: 'unknown endpoint' })
 }
@@ -54,6 +95,9 @@ const unknownEndpoint = (request, response) => {
 module.exports = {
   tokenExtractor,
   userExtractor,
+  optionalUserExtractor,
+  requireRole,
+  requirePrivilege,
   unknownEndpoint,
   errorHandler
 }
\ No newline at end of file
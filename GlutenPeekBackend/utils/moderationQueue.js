@@ -0,0 +1,217 @@
+const mongoose = require('mongoose')
+const Claim = require('../models/claim')
+const Post = require('../models/post')
+const Product = require('../models/product')
+const Scan = require('../models/scan')
+const User = require('../models/user')
+const { RESOLVED_STATES } = require('./claimStates')
+const { QUEUE_TYPES } = require('./moderationStates')
+
+// Items are ranked by how many different users scanned their product in this
+// window, plus the number of reports (posts) or a positive community vote
+// score (claims), so busy products come first. Ties go to whatever has waited longest.
+const PRIORITY_WINDOW_DAYS = 30
+const DAY_MS = 24 * 60 * 60 * 1000
+
+const isSet = (path) => ({ $gt: [path, null] })
+
+// Queue state from an item's own state: resolved when final, in review once
+// someone is assigned (or a claim was taken under review), open otherwise
+const queueState = (state, resolvedStates, inReview) => ({
+  $switch: {
+    branches: [
+      { case: { $in: [state, resolvedStates] }, then: 'resolved' },
+      { case: inReview, then: 'in_review' }
+    ],
+    default: 'open'
+  }
+})
+
+// Own states to read for the requested queue states, so resolved history is
+// only scanned when asked for
+const sourceStates = (states, unresolved, resolved) => [
+  ...(states.some(state => state !== 'resolved') ? unresolved : []),
+  ...(states.includes('resolved') ? resolved : [])
+]
+
+const SOURCES = {
+  claim: {
+    model: Claim,
+    match: (states) => ({ state: { $in: sourceStates(states, ['open', 'under_review'], RESOLVED_STATES) } }),
+    project: {
+      type: { $literal: 'claim' },
+      state: queueState('$state', RESOLVED_STATES, { $or: [{ $eq: ['$state', 'under_review'] }, isSet('$assignedTo')] }),
+      sourceState: '$state',
+      productBarcode: '$productBarcode',
+      summary: '$explanation',
+      claim: {
+        proposedStatus: '$proposedStatus',
+        reason: '$reason',
+        evidenceUrls: '$evidenceUrls',
+        voteSummary: '$voteSummary',
+        escalatedAt: '$escalatedAt'
+      },
+      reports: { $literal: 0 },
+      votes: { $max: [0, { $ifNull: ['$voteSummary.score', 0] }] },
+      queuedAt: '$createdAt',
+      assignedTo: '$assignedTo'
+    }
+  },
+  post: {
+    model: Post,
+    match: (states) => ({ 'moderation.state': { $in: sourceStates(states, ['open'], ['dismissed', 'removed']) } }),
+    project: {
+      type: { $literal: 'post' },
+      state: queueState('$moderation.state', ['dismissed', 'removed'], isSet('$moderation.assignedTo')),
+      sourceState: '$moderation.state',
+      productBarcode: { $ifNull: [{ $arrayElemAt: ['$productBarcodes', 0] }, null] }, // The first product it is about
+      summary: '$postText',
+      claim: { $literal: null },
+      reports: { $size: { $ifNull: ['$reports', []] } },
+      votes: { $literal: 0 },
+      queuedAt: '$moderation.openedAt',
+      assignedTo: '$moderation.assignedTo'
+    }
+  },
+  product: {
+    model: Product,
+    match: (states) => ({ 'moderation.state': { $in: sourceStates(states, ['pending'], ['approved', 'rejected']) } }),
+    project: {
+      type: { $literal: 'product' },
+      state: queueState('$moderation.state', ['approved', 'rejected'], isSet('$moderation.assignedTo')),
+      sourceState: '$moderation.state',
+      productBarcode: '$barcode',
+      summary: '$name',
+      claim: { $literal: null },
+      reports: { $literal: 0 },
+      votes: { $literal: 0 },
+      queuedAt: { $toDate: '$_id' }, // Products have no timestamps; the id records creation
+      assignedTo: '$moderation.assignedTo'
+    }
+  }
+}
+
+// Opaque cursor holding the sort key of the last item on a page
+const encodeCursor = (item) =>
+  Buffer.from(JSON.stringify([item.priority, new Date(item.queuedAt).toISOString(), item.id])).toString('base64url')
+
+const decodeCursor = (cursor) => {
+  try {
+    const [priority, queuedAt, id] = JSON.parse(Buffer.from(String(cursor), 'base64url').toString())
+    const date = new Date(queuedAt)
+    if (typeof priority !== 'number' || isNaN(date.getTime()) || !mongoose.isValidObjectId(id)) return null
+    return { priority, queuedAt: date, id: new mongoose.Types.ObjectId(id) }
+  } catch (error) {
+    return null
+  }
+}
+
+// Items that sort after the cursor (priority descending, then oldest first)
+const afterCursor = ({ priority, queuedAt, id }) => ({
+  $or: [
+    { priority: { $lt: priority } },
+    { priority, queuedAt: { $gt: queuedAt } },
+    { priority, queuedAt, _id: { $gt: id } }
+  ]
+})
+
+// Aggregation over every requested source. Filters: states (queue states),
+// productBarcode, queuedBefore/queuedAfter (dates), assignedTo (user id, or null for unassigned)
+const queuePipeline = ({ types = QUEUE_TYPES, states, productBarcode, queuedBefore, queuedAfter, assignedTo, cursor, limit, now = new Date() }) => {
+  const sourcePipeline = (type) => [{ $match: SOURCES[type].match(states) }, { $project: SOURCES[type].project }]
+  const [first, ...rest] = types
+
+  const filters = { state: { $in: states } }
+  if (productBarcode) filters.productBarcode = productBarcode
+  if (queuedBefore || queuedAfter) {
+    filters.queuedAt = {}
+    if (queuedBefore) filters.queuedAt.$lt = queuedBefore
+    if (queuedAfter) filters.queuedAt.$gte = queuedAfter
+  }
+  if (assignedTo !== undefined) filters.assignedTo = assignedTo
+
+  const since = new Date(now.getTime() - PRIORITY_WINDOW_DAYS * DAY_MS)
+  const pipeline = [
+    ...sourcePipeline(first),
+    ...rest.map(type => ({ $unionWith: { coll: SOURCES[type].model.collection.name, pipeline: sourcePipeline(type) } })),
+    { $match: filters },
+    {
+      $lookup: {
+        from: Scan.collection.name,
+        let: { barcode: '$productBarcode' },
+        pipeline: [
+          { $match: { $expr: { $and: [{ $eq: ['$productBarcode', '$$barcode'] }, { $gte: ['$date', since] }] } } },
+          { $group: { _id: '$userId' } },
+          { $count: 'users' }
+        ],
+        as: 'recentScanners'
+      }
+    },
+    { $addFields: { recentScanners: { $ifNull: [{ $first: '$recentScanners.users' }, 0] } } },
+    { $addFields: { priority: { $add: ['$recentScanners', '$reports', '$votes'] } } },
+    { $sort: { priority: -1, queuedAt: 1, _id: 1 } }
+  ]
+  if (cursor) pipeline.push({ $match: afterCursor(cursor) })
+
+  pipeline.push(
+    { $limit: limit + 1 },
+    {
+      $lookup: {
+        from: Product.collection.name,
+        localField: 'productBarcode',
+        foreignField: 'barcode',
+        pipeline: [{ $project: { _id: 0, barcode: 1, name: 1, pictureUrl: 1 } }],
+        as: 'product'
+      }
+    },
+    {
+      $lookup: {
+        from: User.collection.name,
+        localField: 'assignedTo',
+        foreignField: '_id',
+        pipeline: [{ $project: { id: { $toString: '$_id' }, _id: 0, name: 1, pfp: 1 } }],
+        as: 'assignee'
+      }
+    },
+    {
+      $project: {
+        _id: 0,
+        id: { $toString: '$_id' },
+        type: 1,
+        state: 1,
+        sourceState: 1,
+        productBarcode: 1,
+        product: { $ifNull: [{ $first: '$product' }, null] },
+        summary: 1,
+        claim: 1,
+        reports: 1,
+        recentScanners: 1,
+        priority: 1,
+        queuedAt: 1,
+        assignedTo: { $ifNull: [{ $first: '$assignee' }, null] }
+      }
+    }
+  )
+
+  return { model: SOURCES[first].model, pipeline }
+}
+
+const fetchQueue = async (options) => {
+  const { model, pipeline } = queuePipeline(options)
+  const items = await model.aggregate(pipeline)
+
+  let nextCursor = null
+  if (items.length > options.limit) {
+    nextCursor = encodeCursor(items[options.limit - 1])
+    items.pop() // Remove the extra item used for determining nextCursor
+  }
+  return { items, nextCursor }
+}
+
+module.exports = {
+  PRIORITY_WINDOW_DAYS,
+  encodeCursor,
+  decodeCursor,
+  queuePipeline,
+  fetchQueue
+}
\ No newline at end of file
@@ -0,0 +1,19 @@
+// States of the things moderators work on besides claims (see utils/claimStates.js).
+// Posts enter moderation when first reported; products when submitted by a
+// member below the contributor role. Both are unset otherwise.
+const POST_MODERATION_STATES = ['open', 'dismissed', 'removed']
+const PRODUCT_REVIEW_STATES = ['pending', 'approved', 'rejected']
+
+const POST_REPORT_REASONS = ['spam', 'misinformation', 'harassment', 'off_topic', 'other']
+
+// The moderation queue shows every item with one of these common states
+const QUEUE_TYPES = ['claim', 'post', 'product']
+const QUEUE_STATES = ['open', 'in_review', 'resolved']
+
+module.exports = {
+  POST_MODERATION_STATES,
+  PRODUCT_REVIEW_STATES,
+  POST_REPORT_REASONS,
+  QUEUE_TYPES,
+  QUEUE_STATES
+}
\ No newline at end of file
@@ -0,0 +1,54 @@
+const mongoose = require('mongoose')
+const Notification = require('../models/notification')
+const User = require('../models/user')
+const { extractMentionIds } = require('./textEntities')
+
+// Ids of the users mentioned in the text (utils/textEntities.js) that exist.
+// Mentions of deleted users stay in the text but are not stored.
+const resolveMentions = async (text) => {
+  const ids = extractMentionIds(text)
+  if (ids.length === 0) return []
+  const users = await User.find({ _id: { $in: ids } }).select('_id').lean()
+  const known = new Set(users.map(user => user._id.toString()))
+  return ids.filter(id => known.has(id)).map(id => new mongoose.Types.ObjectId(id))
+}
+
+// Tells each newly mentioned user about the post or comment. `previous` holds
+// the mentions before an edit, so editing does not notify the same user twice;
+// authors are never notified about mentioning themselves.
+const notifyMentions = async ({ actorId, mentions, previous = [], postId, commentId }) => {
+  const alreadyNotified = new Set(previous.map(id => id.toString()))
+  const recipients = mentions.filter(id => !alreadyNotified.has(id.toString()) && !id.equals(actorId))
+  if (recipients.length === 0) return []
+  return Notification.insertMany(recipients.map(userId => ({ userId, type: 'mention', actorId, postId, commentId })))
+}
+
+// A page of the user's notifications (newest first, cursor = last notification id) and the unread count
+const describeNotifications = async (user, { cursor, limit = 20 } = {}) => {
+  const query = { userId: user._id }
+  if (cursor) {
+    const cursorNotification = await Notification.findOne({ _id: cursor, userId: user._id }).select('createdAt _id').lean()
+    if (!cursorNotification) return null
+    query.$or = [
+      { createdAt: { $lt: cursorNotification.createdAt } },
+      { createdAt: cursorNotification.createdAt, _id: { $lt: cursorNotification._id } }
+    ]
+  }
+
+  const [notifications, unreadCount] = await Promise.all([
+    Notification.find(query).sort({ createdAt: -1, _id: -1 }).limit(limit + 1).populate('actor', 'name pfp'),
+    Notification.countDocuments({ userId: user._id, readAt: null })
+  ])
+  let nextCursor = null
+  if (notifications.length > limit) {
+    nextCursor = notifications[limit - 1]._id.toString()
+    notifications.pop() // Remove the extra item used for determining nextCursor
+  }
+  return { notifications, unreadCount, nextCursor }
+}
+
+module.exports = {
+  resolveMentions,
+  notifyMentions,
+  describeNotifications
+}
\ No newline at end of file
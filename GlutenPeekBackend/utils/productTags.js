@@ -0,0 +1,57 @@
+const Product = require('../models/product')
+const { normalizeBarcode, findBarcodesInText } = require('./gtin')
+
+// Posts and comments reference products by barcode: the ones the author
+// picked plus known products whose barcodes are written in the text, at most
+// MAX_TAGGED_PRODUCTS in all. The picked ones are also kept on their own
+// (pickedBarcodes), so an edit can recompute the rest from the new text.
+const MAX_TAGGED_PRODUCTS = 5
+
+// Populates `products` with what a product card shows, including the current status
+const PRODUCT_CARDS = {
+  path: 'products',
+  select: 'barcode name brand pictureUrl',
+  populate: { path: 'status', select: 'status' }
+}
+
+// The picked barcodes followed by those in the text that belong to a known
+// product, up to MAX_TAGGED_PRODUCTS. Other numbers in the text are ignored.
+const withTextBarcodes = async (picked, text = '') => {
+  const found = findBarcodesInText(text).filter(barcode => !picked.includes(barcode))
+  const known = found.length > 0
+    ? new Set(await Product.distinct('barcode', { barcode: { $in: found }, 'moderation.state': { $ne: 'rejected' } }))
+    : new Set()
+  return [...picked, ...found.filter(barcode => known.has(barcode))].slice(0, MAX_TAGGED_PRODUCTS)
+}
+
+// Returns { picked, barcodes } for the picked barcodes and those merged with the
+// text's, or { error } when a picked barcode is invalid or not a known product
+const resolveProductTags = async (picked = [], text = '') => {
+  if (!Array.isArray(picked) || picked.length > MAX_TAGGED_PRODUCTS) {
+    return { error: `productBarcodes must be a list of at most ${MAX_TAGGED_PRODUCTS} barcodes.` }
+  }
+  const barcodes = picked.map(normalizeBarcode)
+  if (barcodes.some(barcode => !barcode)) {
+    return { error: 'productBarcodes contains an invalid barcode.' }
+  }
+
+  const unique = [...new Set(barcodes)]
+  const known = await Product.countDocuments({ barcode: { $in: unique }, 'moderation.state': { $ne: 'rejected' } })
+  if (known !== unique.length) {
+    return { error: 'productBarcodes contains a product that does not exist.' }
+  }
+  return { picked: unique, barcodes: await withTextBarcodes(unique, text) }
+}
+
+// The barcodes an author picked for an existing post or comment. Older ones
+// only have productBarcodes; tags found in their previous text do not count as picked.
+const pickedBarcodesOf = (doc, previousText) => doc.pickedBarcodes ||
+  doc.productBarcodes.filter(barcode => !findBarcodesInText(previousText).includes(barcode))
+
+module.exports = {
+  MAX_TAGGED_PRODUCTS,
+  PRODUCT_CARDS,
+  resolveProductTags,
+  withTextBarcodes,
+  pickedBarcodesOf
+}
\ No newline at end of file
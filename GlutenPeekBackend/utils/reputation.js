@@ -0,0 +1,68 @@
+const ReputationEvent = require('../models/reputationEvent')
+const User = require('../models/user')
+const { privilegesFor } = require('./roles')
+const { REPUTATION_REWARDS, LIKE_REWARDS_PER_DAY, nextPrivilege } = require('./reputationRules')
+
+// Records a reputation change for a contribution and updates the user's total.
+// userId may be missing (e.g. products imported without an author); nothing is recorded then.
+const awardReputation = async (userId, reason, refId) => {
+  if (!userId) return null
+  const delta = REPUTATION_REWARDS[reason]
+  const event = await ReputationEvent.create({ userId, reason, delta, refId })
+  await User.updateOne({ _id: userId }, { $inc: { reputation: delta } })
+  return event
+}
+
+// post_liked for the author of a liked post, unless they reached LIKE_REWARDS_PER_DAY
+const awardLikeReputation = async (userId, postId) => {
+  const since = new Date(Date.now() - 24 * 60 * 60 * 1000)
+  const rewardedToday = await ReputationEvent.countDocuments({ userId, reason: 'post_liked', date: { $gte: since } })
+  if (rewardedToday >= LIKE_REWARDS_PER_DAY) return null
+  return awardReputation(userId, 'post_liked', postId)
+}
+
+// Takes back post_liked when a like is removed, but only as often as the post
+// earned it, so a like that was over the daily limit costs nothing
+const revokeLikeReputation = async (userId, postId) => {
+  const [liked, unliked] = await Promise.all([
+    ReputationEvent.countDocuments({ userId, reason: 'post_liked', refId: postId }),
+    ReputationEvent.countDocuments({ userId, reason: 'post_unliked', refId: postId })
+  ])
+  if (liked <= unliked) return null
+  return awardReputation(userId, 'post_unliked', postId)
+}
+
+// Total, privileges and a page of history (newest first, cursor = last event id)
+const describeReputation = async (user, { cursor, limit = 20 } = {}) => {
+  const query = { userId: user._id }
+  if (cursor) {
+    const cursorEvent = await ReputationEvent.findById(cursor).select('date _id').lean()
+    if (!cursorEvent) return null
+    query.$or = [
+      { date: { $lt: cursorEvent.date } },
+      { date: cursorEvent.date, _id: { $lt: cursorEvent._id } }
+    ]
+  }
+
+  const history = await ReputationEvent.find(query).sort({ date: -1, _id: -1 }).limit(limit + 1)
+  let nextCursor = null
+  if (history.length > limit) {
+    nextCursor = history[limit - 1]._id.toString()
+    history.pop() // Remove the extra item used for determining nextCursor
+  }
+
+  return {
+    reputation: user.reputation || 0,
+    privileges: privilegesFor(user),
+    nextPrivilege: nextPrivilege(user),
+    history,
+    nextCursor
+  }
+}
+
+module.exports = {
+  awardReputation,
+  awardLikeReputation,
+  revokeLikeReputation,
+  describeReputation
+}
\ No newline at end of file
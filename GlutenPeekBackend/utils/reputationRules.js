@@ -0,0 +1,37 @@
+const { PRIVILEGES, hasPrivilege } = require('./roles')
+
+// Points for each kind of contribution. Reputation rewards contributions that
+// others confirmed: accepted claims, approved products and liked posts. Content
+// that moderators turn down costs points.
+const REPUTATION_REWARDS = {
+  claim_accepted: 15,
+  claim_rejected: -5,
+  product_approved: 10,
+  product_rejected: -5,
+  post_liked: 2,
+  post_unliked: -2, // Takes back post_liked
+  post_removed: -10,
+  comment_removed: -5
+}
+
+const REPUTATION_REASONS = Object.keys(REPUTATION_REWARDS)
+
+// Likes are cheap to give, so an author earns post_liked at most this many
+// times in any 24 hours; further likes that day count for nothing
+const LIKE_REWARDS_PER_DAY = 10
+
+// The closest privilege the user does not have yet, for progress displays
+const nextPrivilege = (user) => {
+  const [privilege] = Object.entries(PRIVILEGES)
+    .filter(([name]) => !hasPrivilege(user, name))
+    .sort(([, a], [, b]) => a.reputation - b.reputation)
+    .map(([name, requirement]) => ({ privilege: name, reputation: requirement.reputation }))
+  return privilege || null
+}
+
+module.exports = {
+  REPUTATION_REWARDS,
+  REPUTATION_REASONS,
+  LIKE_REWARDS_PER_DAY,
+  nextPrivilege
+}
\ No newline at end of file
@@ -0,0 +1,41 @@
+// Roles ordered from least to most privileged. A user holding a role
+// is also granted everything the roles before it can do.
+const ROLES = ['member', 'contributor', 'moderator', 'admin']
+
+const isValidRole = (role) => ROLES.includes(role)
+
+const hasRole = (user, requiredRole) => {
+  if (!user || !isValidRole(requiredRole)) {
+    return false
+  }
+  const userRank = ROLES.indexOf(user.role || 'member')
+  return userRank >= ROLES.indexOf(requiredRole)
+}
+
+// Privileges unlock with a role or with enough reputation (utils/reputation.js),
+// whichever comes first. publish_products also marks a trusted contributor
+// whose claim votes count double.
+const PRIVILEGES = {
+  publish_products: { role: 'contributor', reputation: 50 }, // New products skip review
+  instant_status: { role: 'moderator', reputation: 200 }, // A claim's proposed status applies at once
+  moderate: { role: 'moderator', reputation: 500 } // Moderation queue and claim review
+}
+
+const hasPrivilege = (user, privilege) => {
+  const requirement = PRIVILEGES[privilege]
+  if (!user || !requirement) {
+    return false
+  }
+  return hasRole(user, requirement.role) || (user.reputation || 0) >= requirement.reputation
+}
+
+const privilegesFor = (user) => Object.keys(PRIVILEGES).filter(privilege => hasPrivilege(user, privilege))
+
+module.exports = {
+  ROLES,
+  PRIVILEGES,
+  isValidRole,
+  hasRole,
+  hasPrivilege,
+  privilegesFor
+}
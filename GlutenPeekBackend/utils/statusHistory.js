@@ -0,0 +1,36 @@
+const Status = require('../models/status')
+const StatusChange = require('../models/statusChange')
+
+// Sets a product's current status and records the change in its history.
+// Every status write should go through here so the audit trail stays complete.
+const applyStatusChange = async ({ productBarcode, status, explanation, source, changedBy, claimId }) => {
+  let currentStatus = await Status.findOne({ productBarcode })
+  const previousStatus = currentStatus ? currentStatus.status : null
+
+  if (!currentStatus) {
+    currentStatus = new Status({ productBarcode, status, explanation })
+  } else {
+    currentStatus.status = status
+    if (explanation !== undefined) currentStatus.explanation = explanation
+    currentStatus.date = Date.now()
+  }
+
+  // Validate before writing history so a rejected status leaves no orphan entry
+  await currentStatus.validate()
+
+  const change = new StatusChange({
+    productBarcode,
+    changedBy,
+    source,
+    claimId,
+    previousStatus,
+    newStatus: status,
+    explanation
+  })
+  await change.save()
+
+  const savedStatus = await currentStatus.save()
+  return { status: savedStatus, change }
+}
+
+module.exports = { applyStatusChange }
@@ -0,0 +1,27 @@
+const config = require('../config')
+const local = require('./local')
+const s3 = require('./s3')
+
+// Every storage driver implements:
+//   name: string
+//   createUploadUrl({ id, key, contentType, size, expiresIn }) -> { uploadUrl, headers } for an HTTP PUT
+//   putObject(key, buffer, contentType)
+//   getObject(key) -> Buffer
+//   statObject(key) -> { size } or null when missing
+//   readStart(key, length) -> Buffer with the first bytes of the object
+//   deleteObject(key)
+//   getPublicUrl(key) -> string
+const drivers = {
+  [local.name]: local,
+  [s3.name]: s3
+}
+
+const getStorage = (name = config.STORAGE_DRIVER) => {
+  const driver = drivers[name]
+  if (!driver) {
+    throw new Error(`Unknown storage driver: ${name}`)
+  }
+  return driver
+}
+
+module.exports = { getStorage }
\ No newline at end of file
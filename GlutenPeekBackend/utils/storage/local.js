@@ -0,0 +1,87 @@
+const crypto = require('crypto')
+const fs = require('fs/promises')
+const path = require('path')
+const config = require('../config')
+
+// Stores files on disk and serves them from /uploads. For development and tests only:
+// uploads go through PUT /api/uploads/local/:id, authorised by an HMAC-signed URL.
+const root = path.resolve(config.UPLOAD_DIR)
+
+const filePath = (key) => {
+  const resolved = path.resolve(root, key)
+  if (!resolved.startsWith(root + path.sep)) {
+    throw new Error('Invalid storage key')
+  }
+  return resolved
+}
+
+const sign = ({ id, key, contentType, size, expires }) => crypto
+  .createHmac('sha256', config.SECRET || '')
+  .update(`${id}\n${key}\n${contentType}\n${size}\n${expires}`)
+  .digest('hex')
+
+const createUploadUrl = async ({ id, key, contentType, size, expiresIn }) => {
+  const expires = Math.floor(Date.now() / 1000) + expiresIn
+  const signature = sign({ id, key, contentType, size, expires })
+  return {
+    uploadUrl: `${config.PUBLIC_BASE_URL}/api/uploads/local/${id}?expires=${expires}&signature=${signature}`,
+    headers: { 'Content-Type': contentType }
+  }
+}
+
+const verifyUploadUrl = ({ id, key, contentType, size, expires, signature }) => {
+  if (!signature || !(Number(expires) > Date.now() / 1000)) return false
+  const expected = Buffer.from(sign({ id, key, contentType, size, expires: Number(expires) }))
+  const given = Buffer.from(String(signature))
+  return expected.length === given.length && crypto.timingSafeEqual(expected, given)
+}
+
+// Content type is implied by the file extension when served
+const putObject = async (key, buffer) => {
+  const target = filePath(key)
+  await fs.mkdir(path.dirname(target), { recursive: true })
+  await fs.writeFile(target, buffer)
+}
+
+const getObject = async (key) => fs.readFile(filePath(key))
+
+// { size } for a stored object, or null if it does not exist
+const statObject = async (key) => {
+  try {
+    const stats = await fs.stat(filePath(key))
+    return { size: stats.size }
+  } catch (error) {
+    if (error.code === 'ENOENT') return null
+    throw error
+  }
+}
+
+const readStart = async (key, length) => {
+  const handle = await fs.open(filePath(key), 'r')
+  try {
+    const buffer = Buffer.alloc(length)
+    const { bytesRead } = await handle.read(buffer, 0, length, 0)
+    return buffer.subarray(0, bytesRead)
+  } finally {
+    await handle.close()
+  }
+}
+
+const deleteObject = async (key) => {
+  await fs.rm(filePath(key), { force: true })
+}
+
+const getPublicUrl = (key) => `${config.PUBLIC_BASE_URL}/uploads/${key}`
+
+module.exports = {
+  name: 'local',
+  root,
+  createUploadUrl,
+  verifyUploadUrl,
+  putObject,
+  getObject,
+  statObject,
+  readStart,
+  deleteObject,
+  getPublicUrl
+}
\ No newline at end of file
@@ -0,0 +1,87 @@
+const {
+  S3Client, PutObjectCommand, HeadObjectCommand, GetObjectCommand, DeleteObjectCommand
+} = require('@aws-sdk/client-s3')
+const { getSignedUrl } = require('@aws-sdk/s3-request-presigner')
+const config = require('../config')
+
+// Clients upload straight to S3 with a presigned PUT; the credentials never leave the server.
+// Only processed images under media/ need to be publicly readable; raw uploads under incoming/ are deleted once processed.
+let client = null
+const getClient = () => {
+  if (!client) {
+    client = new S3Client({
+      region: config.AWS_S3_REGION,
+      credentials: {
+        accessKeyId: config.AWS_S3_ACCESS_KEY_ID,
+        secretAccessKey: config.AWS_S3_SECRET_ACCESS_KEY
+      }
+    })
+  }
+  return client
+}
+
+const createUploadUrl = async ({ key, contentType, size, expiresIn }) => {
+  // Content type and length are signed, so S3 rejects any other file
+  const command = new PutObjectCommand({
+    Bucket: config.AWS_S3_BUCKET_NAME,
+    Key: key,
+    ContentType: contentType,
+    ContentLength: size
+  })
+  const uploadUrl = await getSignedUrl(getClient(), command, { expiresIn })
+  return { uploadUrl, headers: { 'Content-Type': contentType } }
+}
+
+// Processed variants never change (their keys contain the content hash), so cache them for good
+const putObject = async (key, buffer, contentType) => {
+  await getClient().send(new PutObjectCommand({
+    Bucket: config.AWS_S3_BUCKET_NAME,
+    Key: key,
+    Body: buffer,
+    ContentType: contentType,
+    CacheControl: 'public, max-age=31536000, immutable'
+  }))
+}
+
+const getObject = async (key) => {
+  const object = await getClient().send(new GetObjectCommand({ Bucket: config.AWS_S3_BUCKET_NAME, Key: key }))
+  return Buffer.from(await object.Body.transformToByteArray())
+}
+
+const statObject = async (key) => {
+  try {
+    const head = await getClient().send(new HeadObjectCommand({ Bucket: config.AWS_S3_BUCKET_NAME, Key: key }))
+    return { size: head.ContentLength }
+  } catch (error) {
+    if (error.name === 'NotFound' || error.$metadata?.httpStatusCode === 404) return null
+    throw error
+  }
+}
+
+const readStart = async (key, length) => {
+  const object = await getClient().send(new GetObjectCommand({
+    Bucket: config.AWS_S3_BUCKET_NAME,
+    Key: key,
+    Range: `bytes=0-${length - 1}`
+  }))
+  return Buffer.from(await object.Body.transformToByteArray())
+}
+
+const deleteObject = async (key) => {
+  await getClient().send(new DeleteObjectCommand({ Bucket: config.AWS_S3_BUCKET_NAME, Key: key }))
+}
+
+const getPublicUrl = (key) => (config.AWS_S3_PUBLIC_URL
+  ? `${config.AWS_S3_PUBLIC_URL}/${key}`
+  : `https://${config.AWS_S3_BUCKET_NAME}.s3.${config.AWS_S3_REGION}.amazonaws.com/${key}`)
+
+module.exports = {
+  name: 's3',
+  createUploadUrl,
+  putObject,
+  getObject,
+  statObject,
+  readStart,
+  deleteObject,
+  getPublicUrl
+}
\ No newline at end of file
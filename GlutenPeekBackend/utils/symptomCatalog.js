@@ -0,0 +1,136 @@
+// Symptoms users can report, grouped by the part of the body they affect.
+// Ids are stored as the keys of Symptom.symptoms, so an id must never be renamed
+// or reused. Mark entries that should no longer be offered with `retired: true`;
+// existing reports keep resolving to them.
+// Bump CATALOG_VERSION whenever entries change so clients can refresh their copy.
+
+const CATALOG_VERSION = '2026-10-1'
+
+const DEFAULT_LOCALE = 'en'
+const LOCALES = ['en', 'de', 'fr', 'es']
+
+const SEVERITY_SCALE = [
+  { level: 1, label: { en: 'Mild', de: 'Leicht', fr: 'Léger', es: 'Leve' }, description: { en: 'Noticeable, but does not affect your day.' } },
+  { level: 2, label: { en: 'Moderate', de: 'Mäßig', fr: 'Modéré', es: 'Moderado' }, description: { en: 'Uncomfortable; you can carry on as usual.' } },
+  { level: 3, label: { en: 'Significant', de: 'Deutlich', fr: 'Important', es: 'Considerable' }, description: { en: 'Gets in the way of some activities.' } },
+  { level: 4, label: { en: 'Severe', de: 'Schwer', fr: 'Sévère', es: 'Grave' }, description: { en: 'Stops you from doing most things.' } },
+  { level: 5, label: { en: 'Very severe', de: 'Sehr schwer', fr: 'Très sévère', es: 'Muy grave' }, description: { en: 'Unbearable, or needed medical attention.' } }
+]
+
+const MIN_SEVERITY = SEVERITY_SCALE[0].level
+const MAX_SEVERITY = SEVERITY_SCALE[SEVERITY_SCALE.length - 1].level
+
+const CATEGORIES = [
+  { id: 'gastrointestinal', name: { en: 'Digestive', de: 'Verdauung', fr: 'Digestif', es: 'Digestivo' } },
+  { id: 'neurological', name: { en: 'Head & nerves', de: 'Kopf & Nerven', fr: 'Tête et nerfs', es: 'Cabeza y nervios' } },
+  { id: 'skin', name: { en: 'Skin', de: 'Haut', fr: 'Peau', es: 'Piel' } },
+  { id: 'musculoskeletal', name: { en: 'Muscles & joints', de: 'Muskeln & Gelenke', fr: 'Muscles et articulations', es: 'Músculos y articulaciones' } },
+  { id: 'general', name: { en: 'General', de: 'Allgemein', fr: 'Général', es: 'General' } }
+]
+
+const SYMPTOMS = [
+  // Digestive
+  { id: 'bloating', category: 'gastrointestinal', icon: '🎈', name: { en: 'Bloating', de: 'Blähbauch', fr: 'Ballonnements', es: 'Hinchazón' }, description: { en: 'Swollen, tight or full feeling in the abdomen.' } },
+  { id: 'abdominal_pain', category: 'gastrointestinal', icon: '😣', name: { en: 'Stomach pain', de: 'Bauchschmerzen', fr: 'Douleurs abdominales', es: 'Dolor abdominal' }, description: { en: 'Cramping, sharp or dull pain in the stomach area.' } },
+  { id: 'diarrhea', category: 'gastrointestinal', icon: '🚽', name: { en: 'Diarrhea', de: 'Durchfall', fr: 'Diarrhée', es: 'Diarrea' }, description: { en: 'Loose or watery bowel movements.' } },
+  { id: 'constipation', category: 'gastrointestinal', icon: '🧱', name: { en: 'Constipation', de: 'Verstopfung', fr: 'Constipation', es: 'Estreñimiento' }, description: { en: 'Infrequent or difficult bowel movements.' } },
+  { id: 'nausea', category: 'gastrointestinal', icon: '🤢', name: { en: 'Nausea', de: 'Übelkeit', fr: 'Nausée', es: 'Náuseas' }, description: { en: 'Feeling sick, with or without the urge to vomit.' } },
+  { id: 'vomiting', category: 'gastrointestinal', icon: '🤮', name: { en: 'Vomiting', de: 'Erbrechen', fr: 'Vomissements', es: 'Vómitos' }, description: { en: 'Throwing up.' } },
+  { id: 'gas', category: 'gastrointestinal', icon: '💨', name: { en: 'Gas', de: 'Blähungen', fr: 'Gaz', es: 'Gases' }, description: { en: 'More wind or belching than usual.' } },
+  { id: 'heartburn', category: 'gastrointestinal', icon: '🔥', name: { en: 'Heartburn', de: 'Sodbrennen', fr: 'Brûlures d\'estomac', es: 'Acidez' }, description: { en: 'Burning feeling in the chest or throat.' } },
+
+  // Head & nerves
+  { id: 'headache', category: 'neurological', icon: '🤕', name: { en: 'Headache', de: 'Kopfschmerzen', fr: 'Mal de tête', es: 'Dolor de cabeza' }, description: { en: 'Pain or pressure in the head, including migraine.' } },
+  { id: 'brain_fog', category: 'neurological', icon: '🌫️', name: { en: 'Brain fog', de: 'Benommenheit', fr: 'Brouillard mental', es: 'Niebla mental' }, description: { en: 'Trouble concentrating, thinking clearly or remembering.' } },
+  { id: 'dizziness', category: 'neurological', icon: '💫', name: { en: 'Dizziness', de: 'Schwindel', fr: 'Vertiges', es: 'Mareo' }, description: { en: 'Light-headed or unsteady feeling.' } },
+  { id: 'tingling', category: 'neurological', icon: '⚡', name: { en: 'Tingling or numbness', de: 'Kribbeln oder Taubheit', fr: 'Picotements ou engourdissement', es: 'Hormigueo o entumecimiento' }, description: { en: 'Pins and needles or numbness, often in hands or feet.' } },
+  { id: 'anxiety', category: 'neurological', icon: '😰', name: { en: 'Anxiety or low mood', de: 'Angst oder Niedergeschlagenheit', fr: 'Anxiété ou déprime', es: 'Ansiedad o bajo ánimo' }, description: { en: 'Feeling anxious, irritable or down.' } },
+
+  // Skin
+  { id: 'rash', category: 'skin', icon: '🔴', name: { en: 'Skin rash', de: 'Hautausschlag', fr: 'Éruption cutanée', es: 'Erupción cutánea' }, description: { en: 'Red, itchy or blistering patches, such as dermatitis herpetiformis.' } },
+  { id: 'itching', category: 'skin', icon: '🖐️', name: { en: 'Itching', de: 'Juckreiz', fr: 'Démangeaisons', es: 'Picor' }, description: { en: 'Itchy skin without a visible rash.' } },
+  { id: 'mouth_ulcers', category: 'skin', icon: '👄', name: { en: 'Mouth ulcers', de: 'Mundgeschwüre', fr: 'Aphtes', es: 'Llagas bucales' }, description: { en: 'Painful sores inside the mouth.' } },
+
+  // Muscles & joints
+  { id: 'joint_pain', category: 'musculoskeletal', icon: '🦴', name: { en: 'Joint pain', de: 'Gelenkschmerzen', fr: 'Douleurs articulaires', es: 'Dolor articular' }, description: { en: 'Aching or stiffness in the joints.' } },
+  { id: 'muscle_pain', category: 'musculoskeletal', icon: '💪', name: { en: 'Muscle aches', de: 'Muskelschmerzen', fr: 'Douleurs musculaires', es: 'Dolor muscular' }, description: { en: 'Aching, cramping or weakness in the muscles.' } },
+
+  // General
+  { id: 'fatigue', category: 'general', icon: '😴', name: { en: 'Fatigue', de: 'Müdigkeit', fr: 'Fatigue', es: 'Fatiga' }, description: { en: 'Tiredness or lack of energy that rest does not fix.' } },
+  { id: 'insomnia', category: 'general', icon: '🌙', name: { en: 'Poor sleep', de: 'Schlechter Schlaf', fr: 'Mauvais sommeil', es: 'Mal sueño' }, description: { en: 'Trouble falling or staying asleep.' } }
+]
+
+const SYMPTOMS_BY_ID = new Map(SYMPTOMS.map(symptom => [symptom.id, symptom]))
+
+const isSymptomId = (id) => SYMPTOMS_BY_ID.has(id)
+
+const isSeverity = (value) => Number.isInteger(value) && value >= MIN_SEVERITY && value <= MAX_SEVERITY
+
+// Checks a report body of the form { [symptomId]: severity }.
+// Returns an error message, or null when the report is valid.
+const validateSymptomReport = (symptoms) => {
+  if (!symptoms || typeof symptoms !== 'object' || Array.isArray(symptoms)) {
+    return 'symptoms must be an object mapping symptom ids to severities.'
+  }
+  const entries = symptoms instanceof Map ? [...symptoms.entries()] : Object.entries(symptoms)
+  if (entries.length === 0) {
+    return 'Report at least one symptom.'
+  }
+  for (const [id, severity] of entries) {
+    const symptom = SYMPTOMS_BY_ID.get(id)
+    if (!symptom || symptom.retired) {
+      return `Unknown symptom: ${id}`
+    }
+    if (!isSeverity(severity)) {
+      return `Severity for ${id} must be a whole number from ${MIN_SEVERITY} to ${MAX_SEVERITY}.`
+    }
+  }
+  return null
+}
+
+const resolveLocale = (locale) => {
+  const language = typeof locale === 'string' ? locale.toLowerCase().split(/[-_]/)[0] : null
+  return LOCALES.includes(language) ? language : DEFAULT_LOCALE
+}
+
+// Picks a translation, falling back to English where one is missing
+const localize = (text, locale) => (text ? text[locale] || text[DEFAULT_LOCALE] : undefined)
+
+// The catalog as served to clients, with every text resolved to one locale
+const getCatalog = (locale) => {
+  const lang = resolveLocale(locale)
+  return {
+    version: CATALOG_VERSION,
+    locale: lang,
+    severityScale: SEVERITY_SCALE.map(({ level, label, description }) => ({
+      level,
+      label: localize(label, lang),
+      description: localize(description, lang)
+    })),
+    categories: CATEGORIES.map(({ id, name }) => ({ id, name: localize(name, lang) })),
+    // Retired entries are kept so that older reports can still be displayed
+    symptoms: SYMPTOMS.map(({ id, category, icon, name, description, retired }) => ({
+      id,
+      category,
+      icon,
+      name: localize(name, lang),
+      description: localize(description, lang),
+      ...(retired ? { retired: true } : {})
+    }))
+  }
+}
+
+module.exports = {
+  CATALOG_VERSION,
+  LOCALES,
+  SEVERITY_SCALE,
+  MIN_SEVERITY,
+  MAX_SEVERITY,
+  CATEGORIES,
+  SYMPTOMS,
+  isSymptomId,
+  isSeverity,
+  validateSymptomReport,
+  resolveLocale,
+  getCatalog
+}
\ No newline at end of file
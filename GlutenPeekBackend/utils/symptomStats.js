@@ -0,0 +1,96 @@
+const Symptom = require('../models/symptom')
+const { SYMPTOM_MIN_REPORTERS } = require('./config')
+
+// Reports for one product, counted per symptom id. Reporters are collected as
+// distinct user ids so that several reports from one person count once.
+const productSymptomPipeline = (match) => [
+  { $match: match },
+  {
+    $facet: {
+      reporters: [
+        { $group: { _id: '$userId' } },
+        { $count: 'count' }
+      ],
+      reports: [
+        { $count: 'count' }
+      ],
+      symptoms: [
+        { $project: { userId: 1, entries: { $objectToArray: '$symptoms' } } },
+        { $unwind: '$entries' },
+        {
+          $group: {
+            _id: '$entries.k',
+            reports: { $sum: 1 },
+            averageSeverity: { $avg: '$entries.v' },
+            maxSeverity: { $max: '$entries.v' },
+            reporters: { $addToSet: '$userId' }
+          }
+        },
+        {
+          $project: {
+            _id: 0,
+            symptomId: '$_id',
+            reports: 1,
+            averageSeverity: 1,
+            maxSeverity: 1,
+            reporters: { $size: '$reporters' }
+          }
+        }
+      ]
+    }
+  }
+]
+
+// The only time windows offered, in days. Any other window would let two
+// nearly equal windows be compared to single out one person's latest report.
+const STATS_WINDOWS = [30, 90, 365]
+
+// Start of a statistics window, at midnight UTC so it only moves once a day.
+// Returns null for a window that is not offered.
+const windowStart = (days, now = new Date()) => {
+  if (!STATS_WINDOWS.includes(days)) return null
+  const today = Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate())
+  return new Date(today - days * 24 * 60 * 60 * 1000)
+}
+
+// Drops anything reported by fewer than minReporters people, so that a single
+// user's reports can never be read back from the statistics
+const applyReporterThreshold = ({ reporters, reports, symptoms }, minReporters) => {
+  if (reporters < minReporters) {
+    return { suppressed: true, reporters: null, reports: null, symptoms: [], hiddenSymptoms: symptoms.length }
+  }
+  const visible = symptoms
+    .filter(symptom => symptom.reporters >= minReporters)
+    .map(symptom => ({ ...symptom, averageSeverity: Math.round(symptom.averageSeverity * 10) / 10 }))
+    .sort((a, b) => b.reporters - a.reporters || b.reports - a.reports || a.symptomId.localeCompare(b.symptomId))
+  return {
+    suppressed: false,
+    reporters,
+    reports,
+    symptoms: visible,
+    hiddenSymptoms: symptoms.length - visible.length
+  }
+}
+
+// Anonymized symptom statistics for a canonical barcode, optionally limited to reports since a date
+const aggregateProductSymptoms = async ({ productBarcode, since, minReporters = SYMPTOM_MIN_REPORTERS }) => {
+  const match = { productBarcode }
+  if (since) {
+    match.date = { $gte: since }
+  }
+  const [result] = await Symptom.aggregate(productSymptomPipeline(match))
+  const counts = {
+    reporters: result.reporters.length > 0 ? result.reporters[0].count : 0,
+    reports: result.reports.length > 0 ? result.reports[0].count : 0,
+    symptoms: result.symptoms
+  }
+  return { minReporters, ...applyReporterThreshold(counts, minReporters) }
+}
+
+module.exports = {
+  STATS_WINDOWS,
+  windowStart,
+  productSymptomPipeline,
+  applyReporterThreshold,
+  aggregateProductSymptoms
+}
\ No newline at end of file
@@ -0,0 +1,54 @@
+// #hashtags and @mentions in post and comment text, extracted when the text is
+// written and stored alongside it (Post/Comment hashtags and mentions).
+//
+// A hashtag is # followed by letters, digits or underscores, with at least one
+// letter, and is stored lower-cased. Names are not unique and may contain
+// spaces, so a mention is written as @[Name](userId): the client inserts it
+// when a user is picked, and shows it as @Name linking to their profile.
+const MAX_TAG_LENGTH = 50
+const HASHTAG_PATTERN = /(^|[^\p{L}\p{N}_&#/])#([\p{L}\p{N}_]+)/gu
+const TAG_PATTERN = /^[\p{L}\p{N}_]*\p{L}[\p{L}\p{N}_]*$/u
+const MENTION_PATTERN = /@\[([^\]\n]{1,60})\]\(([a-f0-9]{24})\)/g
+
+// Trending tags are counted over the posts and comments of the last TRENDING_WINDOW_DAYS
+const TRENDING_WINDOW_DAYS = 7
+const TRENDING_LIMIT = 10
+
+// Lower-cased tag without the leading #, or null when it is not a valid tag
+const normalizeTag = (raw) => {
+  if (typeof raw !== 'string') return null
+  const tag = raw.trim().replace(/^#/, '').toLowerCase()
+  if (tag.length === 0 || tag.length > MAX_TAG_LENGTH || !TAG_PATTERN.test(tag)) return null
+  return tag
+}
+
+// Unique hashtags in order of first appearance
+const extractHashtags = (text = '') => {
+  const tags = [...(text || '').matchAll(HASHTAG_PATTERN)].map(match => normalizeTag(match[2]))
+  return [...new Set(tags.filter(Boolean))]
+}
+
+// Unique mentioned user ids in order of first appearance
+const extractMentionIds = (text = '') =>
+  [...new Set([...(text || '').matchAll(MENTION_PATTERN)].map(match => match[2]))]
+
+// Combines { _id: tag, count } groups from several collections into the
+// top `limit` tags, most used first and alphabetical on a tie
+const mergeTagCounts = (groups, limit = TRENDING_LIMIT) => {
+  const totals = new Map()
+  groups.flat().forEach(({ _id, count }) => totals.set(_id, (totals.get(_id) || 0) + count))
+  return [...totals]
+    .map(([tag, count]) => ({ tag, count }))
+    .sort((a, b) => b.count - a.count || a.tag.localeCompare(b.tag))
+    .slice(0, limit)
+}
+
+module.exports = {
+  MAX_TAG_LENGTH,
+  TRENDING_WINDOW_DAYS,
+  TRENDING_LIMIT,
+  normalizeTag,
+  extractHashtags,
+  extractMentionIds,
+  mergeTagCounts
+}
\ No newline at end of file
@@ -0,0 +1,127 @@
+// Calendar-day helpers in a user's IANA time zone (e.g. "America/Los_Angeles").
+// A day is identified by its local date key, "YYYY-MM-DD". Uses the Intl API,
+// so offsets and DST rules come from Node's bundled time zone data.
+
+const DEFAULT_TIMEZONE = 'UTC'
+
+const DATE_KEY_PATTERN = /^(\d{4})-(\d{2})-(\d{2})$/
+const HOUR_MS = 60 * 60 * 1000
+
+const formatters = new Map()
+
+const formatterFor = (timeZone) => {
+  if (!formatters.has(timeZone)) {
+    formatters.set(timeZone, new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit'
+    }))
+  }
+  return formatters.get(timeZone)
+}
+
+const isValidTimeZone = (timeZone) => {
+  if (typeof timeZone !== 'string' || timeZone.length === 0) return false
+  try {
+    formatterFor(timeZone)
+    return true
+  } catch (error) {
+    return false
+  }
+}
+
+// The user's stored time zone, or UTC when none is set
+const resolveTimeZone = (user) => {
+  const timeZone = user && user.settings ? user.settings.timezone : null
+  return isValidTimeZone(timeZone) ? timeZone : DEFAULT_TIMEZONE
+}
+
+// Wall-clock fields of an instant as seen in timeZone
+const localParts = (date, timeZone) => {
+  const parts = {}
+  formatterFor(timeZone).formatToParts(new Date(date)).forEach(({ type, value }) => {
+    if (type !== 'literal') parts[type] = Number(value)
+  })
+  return parts
+}
+
+// Milliseconds to add to UTC to get local time at the given instant
+const offsetAt = (time, timeZone) => {
+  const parts = localParts(time, timeZone)
+  const asUtc = Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second)
+  return asUtc - Math.floor(time / 1000) * 1000
+}
+
+const pad = (value) => String(value).padStart(2, '0')
+
+// Local calendar day of an instant, e.g. 2026-03-08T03:30Z in America/Los_Angeles -> '2026-03-07'
+const localDateKey = (date, timeZone = DEFAULT_TIMEZONE) => {
+  const { year, month, day } = localParts(date, timeZone)
+  return `${year}-${pad(month)}-${pad(day)}`
+}
+
+const isDateKey = (value) => {
+  const match = DATE_KEY_PATTERN.exec(value)
+  if (!match) return false
+  const date = new Date(Date.UTC(Number(match[1]), Number(match[2]) - 1, Number(match[3])))
+  return date.toISOString().slice(0, 10) === value
+}
+
+const addDays = (dateKey, days) => {
+  const [year, month, day] = dateKey.split('-').map(Number)
+  return new Date(Date.UTC(year, month - 1, day + days)).toISOString().slice(0, 10)
+}
+
+const dateKeyToUtc = (dateKey) => {
+  const [year, month, day] = dateKey.split('-').map(Number)
+  return Date.UTC(year, month - 1, day)
+}
+
+// Number of date keys from start to end, inclusive, without listing them
+const countDateKeys = (startKey, endKey) => Math.round((dateKeyToUtc(endKey) - dateKeyToUtc(startKey)) / (24 * HOUR_MS)) + 1
+
+// Every date key from start to end, inclusive
+const dateKeysBetween = (startKey, endKey) => {
+  const keys = []
+  for (let key = startKey; key <= endKey; key = addDays(key, 1)) {
+    keys.push(key)
+  }
+  return keys
+}
+
+// The instant a local day begins. Days are not always 24 hours long, so the
+// offset is taken at the resulting instant rather than at UTC midnight. Where
+// DST skips midnight itself, the day begins at the first valid local time.
+const startOfLocalDay = (dateKey, timeZone = DEFAULT_TIMEZONE) => {
+  const [year, month, day] = dateKey.split('-').map(Number)
+  const utcMidnight = Date.UTC(year, month - 1, day)
+  const guess = utcMidnight - offsetAt(utcMidnight, timeZone)
+  let time = utcMidnight - offsetAt(guess, timeZone)
+  // Local midnight did not exist; step forward to when the day actually starts
+  while (localDateKey(time, timeZone) < dateKey) {
+    time += 15 * 60 * 1000
+  }
+  return new Date(time)
+}
+
+// Length of a local day in hours (23 or 25 on DST changes)
+const hoursInLocalDay = (dateKey, timeZone = DEFAULT_TIMEZONE) =>
+  (startOfLocalDay(addDays(dateKey, 1), timeZone) - startOfLocalDay(dateKey, timeZone)) / HOUR_MS
+
+module.exports = {
+  DEFAULT_TIMEZONE,
+  isValidTimeZone,
+  resolveTimeZone,
+  localDateKey,
+  isDateKey,
+  addDays,
+  countDateKeys,
+  dateKeysBetween,
+  startOfLocalDay,
+  hoursInLocalDay
+}
\ No newline at end of file
@@ -0,0 +1,157 @@
+// Finds products and ingredients that a user's symptoms tend to follow.
+// Every scan is an exposure; it counts as "followed by symptoms" when a symptom
+// report falls within windowHours after it. For each product and ingredient the
+// rate among its scans is compared with the rate among all other scans
+// (relative risk) and with the user's overall rate (lift).
+
+const DEFAULT_WINDOW_HOURS = 24
+const MAX_WINDOW_HOURS = 72
+const DEFAULT_MIN_EXPOSURES = 3
+const MIN_FOLLOWED = 2 // A single symptom after a product is treated as coincidence
+
+const HOUR_MS = 60 * 60 * 1000
+const Z_95 = 1.96
+
+// Index of the first report dated strictly after `time`
+const firstAfter = (reports, time) => {
+  let low = 0
+  let high = reports.length
+  while (low < high) {
+    const mid = (low + high) >> 1
+    if (reports[mid].time <= time) low = mid + 1
+    else high = mid
+  }
+  return low
+}
+
+const normalizeIngredient = (ingredient) => String(ingredient).toLowerCase().replace(/\s+/g, ' ').trim()
+
+// Relative risk with a 95% confidence interval. Adds 0.5 to every cell when one
+// is empty (Haldane correction) so that small samples still give finite values.
+const relativeRisk = (exposedHits, exposedTotal, otherHits, otherTotal) => {
+  let a = exposedHits
+  let b = exposedTotal - exposedHits
+  let c = otherHits
+  let d = otherTotal - otherHits
+  if (a === 0 || b === 0 || c === 0 || d === 0) {
+    a += 0.5
+    b += 0.5
+    c += 0.5
+    d += 0.5
+  }
+  const risk = (a / (a + b)) / (c / (c + d))
+  const standardError = Math.sqrt(1 / a - 1 / (a + b) + 1 / c - 1 / (c + d))
+  return {
+    relativeRisk: risk,
+    ciLower: Math.exp(Math.log(risk) - Z_95 * standardError),
+    ciUpper: Math.exp(Math.log(risk) + Z_95 * standardError)
+  }
+}
+
+// high: the whole 95% interval is above 1; medium: a clear effect seen often enough
+// to be worth watching; low: anything else that still looks elevated
+const confidenceOf = ({ ciLower, relativeRisk: risk }, followed, minExposures) => {
+  if (ciLower > 1) return 'high'
+  if (followed >= minExposures && risk >= 1.5) return 'medium'
+  return 'low'
+}
+
+const round = (value, digits = 2) => Math.round(value * 10 ** digits) / 10 ** digits
+
+// scans: [{ productBarcode, date }], symptoms: [{ date, symptoms: { [id]: severity } }],
+// products: [{ barcode, name, ingredients }]
+const detectTriggers = ({ scans, symptoms, products, windowHours = DEFAULT_WINDOW_HOURS, minExposures = DEFAULT_MIN_EXPOSURES }) => {
+  const windowMs = windowHours * HOUR_MS
+  const reports = symptoms
+    .map(report => ({
+      time: new Date(report.date).getTime(),
+      symptomIds: Object.keys(report.symptoms instanceof Map ? Object.fromEntries(report.symptoms) : report.symptoms || {})
+    }))
+    .sort((x, y) => x.time - y.time)
+
+  const productsByBarcode = new Map(products.map(product => [product.barcode, product]))
+
+  // Outcome of each scan: the symptom ids reported within the window after it
+  const exposures = scans.map(scan => {
+    const time = new Date(scan.date).getTime()
+    const symptomIds = new Set()
+    for (let i = firstAfter(reports, time); i < reports.length && reports[i].time <= time + windowMs; i++) {
+      reports[i].symptomIds.forEach(id => symptomIds.add(id))
+    }
+    return { barcode: scan.productBarcode, symptomIds, followed: symptomIds.size > 0 }
+  })
+
+  const totalScans = exposures.length
+  const totalFollowed = exposures.filter(exposure => exposure.followed).length
+  const baselineRate = totalScans > 0 ? totalFollowed / totalScans : 0
+
+  // Group exposures by product and by ingredient
+  const groups = new Map()
+  const addToGroup = (key, describe, exposure) => {
+    if (!groups.has(key)) {
+      groups.set(key, { ...describe, exposures: 0, followed: 0, symptomCounts: {} })
+    }
+    const group = groups.get(key)
+    group.exposures += 1
+    if (exposure.followed) {
+      group.followed += 1
+      exposure.symptomIds.forEach(id => { group.symptomCounts[id] = (group.symptomCounts[id] || 0) + 1 })
+    }
+  }
+  exposures.forEach(exposure => {
+    const product = productsByBarcode.get(exposure.barcode)
+    addToGroup(`product:${exposure.barcode}`, { type: 'product', barcode: exposure.barcode, name: product ? product.name : null }, exposure)
+    const ingredients = new Set((product && product.ingredients ? product.ingredients : []).map(normalizeIngredient).filter(Boolean))
+    ingredients.forEach(ingredient => addToGroup(`ingredient:${ingredient}`, { type: 'ingredient', ingredient }, exposure))
+  })
+
+  const productTriggers = []
+  const ingredientTriggers = []
+  groups.forEach(group => {
+    const otherTotal = totalScans - group.exposures
+    // Without enough scans on both sides there is nothing to compare against
+    if (group.exposures < minExposures || otherTotal < 1 || group.followed < MIN_FOLLOWED) return
+
+    const otherFollowed = totalFollowed - group.followed
+    const rate = group.followed / group.exposures
+    const stats = relativeRisk(group.followed, group.exposures, otherFollowed, otherTotal)
+    if (stats.relativeRisk <= 1) return
+
+    const { type, symptomCounts, ...describe } = group
+    const trigger = {
+      ...describe,
+      rate: round(rate),
+      lift: round(rate / baselineRate),
+      relativeRisk: round(stats.relativeRisk),
+      ciLower: round(stats.ciLower),
+      ciUpper: round(stats.ciUpper),
+      confidence: confidenceOf(stats, group.followed, minExposures),
+      topSymptoms: Object.entries(symptomCounts)
+        .map(([symptomId, count]) => ({ symptomId, count }))
+        .sort((x, y) => y.count - x.count || x.symptomId.localeCompare(y.symptomId))
+        .slice(0, 3)
+    }
+    if (type === 'product') productTriggers.push(trigger)
+    else ingredientTriggers.push(trigger)
+  })
+
+  // Strongest evidence first: the lower end of the interval, then the point estimate
+  const byEvidence = (x, y) => y.ciLower - x.ciLower || y.relativeRisk - x.relativeRisk
+  return {
+    windowHours,
+    minExposures,
+    scans: totalScans,
+    scansFollowedBySymptoms: totalFollowed,
+    baselineRate: round(baselineRate),
+    products: productTriggers.sort(byEvidence),
+    ingredients: ingredientTriggers.sort(byEvidence)
+  }
+}
+
+module.exports = {
+  DEFAULT_WINDOW_HOURS,
+  MAX_WINDOW_HOURS,
+  DEFAULT_MIN_EXPOSURES,
+  relativeRisk,
+  detectTriggers
+}
\ No newline at end of file
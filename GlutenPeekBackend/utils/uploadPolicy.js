@@ -0,0 +1,57 @@
+// What each kind of upload may contain. Sizes are in bytes.
+const IMAGE_TYPES = ['image/jpeg', 'image/png', 'image/webp', 'image/gif']
+
+const UPLOAD_PURPOSES = {
+  product: { contentTypes: IMAGE_TYPES, maxBytes: 8 * 1024 * 1024 }, // Package photos
+  claim: { contentTypes: IMAGE_TYPES, maxBytes: 8 * 1024 * 1024 }, // Evidence for status claims
+  post: { contentTypes: IMAGE_TYPES, maxBytes: 8 * 1024 * 1024 }, // Post and comment media
+  profile: { contentTypes: IMAGE_TYPES, maxBytes: 2 * 1024 * 1024 } // Profile pictures
+}
+
+const EXTENSIONS = {
+  'image/jpeg': 'jpg',
+  'image/png': 'png',
+  'image/webp': 'webp',
+  'image/gif': 'gif'
+}
+
+// Bytes needed by detectContentType
+const SNIFF_BYTES = 12
+
+// Identifies a file from its leading bytes, so a renamed file cannot pass as an image
+const detectContentType = (buffer) => {
+  if (!buffer || buffer.length < 4) return null
+  if (buffer[0] === 0xff && buffer[1] === 0xd8 && buffer[2] === 0xff) return 'image/jpeg'
+  if (buffer.subarray(0, 8).equals(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]))) return 'image/png'
+  if (buffer.subarray(0, 4).toString('ascii') === 'GIF8') return 'image/gif'
+  if (buffer.length >= 12 && buffer.subarray(0, 4).toString('ascii') === 'RIFF' && buffer.subarray(8, 12).toString('ascii') === 'WEBP') {
+    return 'image/webp'
+  }
+  return null
+}
+
+// Returns an error message for a requested upload, or null if it is allowed
+const validateUploadRequest = ({ purpose, contentType, size }) => {
+  const policy = UPLOAD_PURPOSES[purpose]
+  if (!policy) {
+    return `Invalid purpose. Expected one of: ${Object.keys(UPLOAD_PURPOSES).join(', ')}.`
+  }
+  if (!policy.contentTypes.includes(contentType)) {
+    return `Unsupported file type. Allowed: ${policy.contentTypes.join(', ')}.`
+  }
+  if (!Number.isInteger(size) || size <= 0) {
+    return 'File size must be a positive number of bytes.'
+  }
+  if (size > policy.maxBytes) {
+    return `File is too large. Maximum size is ${policy.maxBytes / (1024 * 1024)} MB.`
+  }
+  return null
+}
+
+module.exports = {
+  UPLOAD_PURPOSES,
+  EXTENSIONS,
+  SNIFF_BYTES,
+  detectContentType,
+  validateUploadRequest
+}
\ No newline at end of file